@@ -0,0 +1,27 @@
+#!/usr/bin/env node
+
+/**
+ * Copy JavaScript shims
+ * tsc only emits .ts sources, so plain .cjs files under src/ are copied to dist/
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const srcDir = path.join(__dirname, '../src');
+const distDir = path.join(__dirname, '../dist');
+
+function copyShims(dir) {
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const source = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      copyShims(source);
+    } else if (entry.name.endsWith('.cjs')) {
+      const target = path.join(distDir, path.relative(srcDir, source));
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.copyFileSync(source, target);
+    }
+  }
+}
+
+copyShims(srcDir);
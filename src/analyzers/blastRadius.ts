@@ -1,5 +1,9 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { getTypeScript } from '../ast';
+import { RepoFileSource, RepoSnapshot } from '../git/objects';
+import { ModuleResolver, WorkspacePackage } from './resolver';
 
 export interface BlastRadiusResult {
   totalDependents: number;
@@ -13,39 +17,279 @@ export interface DependencyGraph {
   dependents: Map<string, Set<string>>;
 
   dependencies: Map<string, Set<string>>;
+
+  /** Local imports that could not be resolved, per importing file */
+  unresolved?: Map<string, string[]>;
+
+  /** Resolved path of each specifier, per importing file */
+  resolved?: Map<string, Map<string, string>>;
+
+  /** True when dependents anywhere in the repo are in the graph */
+  complete?: boolean;
+
+  /** How import specifiers were extracted */
+  extraction?: 'ast' | 'regex';
+}
+
+export interface RepoGraphOptions {
+  /** Include test files as dependents (default: false) */
+  includeTests?: boolean;
+  /** Read files from this source (e.g. a commit) instead of the working tree */
+  snapshot?: RepoFileSource;
 }
 
+const SOURCE_FILE_PATTERN = /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs|vue|svelte)$/;
+const IGNORED_DIRS = new Set(['node_modules', '.git', 'dist', 'build', 'coverage', 'out']);
+const TEST_FILE_PATTERN = /(\.(test|spec)\.[^/]+$)|(^|\/)(__tests__|__mocks__)\//;
+
+/**
+ * Build a dependency graph over the given files only
+ *
+ * Dependents outside `files` are not seen, so the graph is marked incomplete.
+ */
 export function buildDependencyGraph(rootPath: string, files: string[]): DependencyGraph {
+  const relativeFiles = files.map((f) =>
+    (path.isAbsolute(f) ? path.relative(rootPath, f) : f).replace(/\\/g, '/'),
+  );
+  return buildGraphFromSpecifiers(relativeFiles, new ModuleResolver(rootPath), (file) =>
+    readSpecifiers(rootPath, file),
+  );
+}
+
+/**
+ * Build a dependency graph over every source file in the repo
+ *
+ * Resolves tsconfig `paths`/`baseUrl`, `index` barrels (including `export * from`
+ * chains) and workspace package `exports`, so dependents anywhere in the repo count.
+ */
+export function buildRepoDependencyGraph(
+  rootPath: string,
+  options: RepoGraphOptions = {},
+): DependencyGraph {
+  const { snapshot } = options;
+  const allFiles = snapshot ? snapshot.files : listRepoFiles(rootPath);
+  const sourceFiles = allFiles.filter((f) => isGraphSourceFile(f, options.includeTests));
+
+  let getSpecifiers = (file: string) => readSpecifiers(rootPath, file);
+  if (snapshot) {
+    const specifiers = new Map<string, string[]>();
+    snapshot.readFiles(sourceFiles, (file, content) =>
+      specifiers.set(file, extractModuleSpecifiers(content)),
+    );
+    getSpecifiers = (file) => specifiers.get(file) ?? null;
+  }
+
+  const graph = buildGraphFromSpecifiers(
+    sourceFiles,
+    new ModuleResolver(rootPath, allFiles, snapshot?.readFile),
+    getSpecifiers,
+  );
+  graph.complete = true;
+  return graph;
+}
+
+/**
+ * Build a dependency graph of `files` and the files importing them, transitively
+ *
+ * Only files mentioning a target's module name (its file name, its directory
+ * for `index` files, or its workspace package) are parsed, found with
+ * `git grep` where possible, so the rest of the repo is never read.
+ */
+export function buildDependentsGraph(
+  rootPath: string,
+  files: string[],
+  options: RepoGraphOptions = {},
+): DependencyGraph {
+  const { snapshot } = options;
+  const allFiles = snapshot ? snapshot.files : listRepoFiles(rootPath);
+  const sourceFiles = allFiles.filter((f) => isGraphSourceFile(f, options.includeTests));
+  const sourceSet = new Set(sourceFiles);
+  const resolver = new ModuleResolver(rootPath, allFiles, snapshot?.readFile);
+  const packages = resolver.getWorkspacePackages();
+
+  const specifiers = new Map<string, string[] | null>();
+  const readAll = (paths: string[]) => {
+    const unread = paths.filter((f) => sourceSet.has(f) && !specifiers.has(f));
+    if (snapshot) {
+      unread.forEach((f) => specifiers.set(f, null));
+      snapshot.readFiles(unread, (f, content) =>
+        specifiers.set(f, extractModuleSpecifiers(content)),
+      );
+    } else {
+      unread.forEach((f) => specifiers.set(f, readSpecifiers(rootPath, f)));
+    }
+  };
+
+  const reached = new Set(files.map((f) => f.replace(/\\/g, '/')));
+  readAll([...reached]);
+
+  let frontier = [...reached];
+  while (frontier.length > 0) {
+    const names = getModuleNames(frontier, packages);
+    readAll(findFilesMentioning(rootPath, names, sourceFiles, snapshot));
+
+    frontier = [];
+    for (const [file, fileSpecifiers] of specifiers) {
+      if (reached.has(file) || !fileSpecifiers) continue;
+      if (fileSpecifiers.some((s) => reached.has(resolver.resolve(s, file).path ?? ''))) {
+        reached.add(file);
+        frontier.push(file);
+      }
+    }
+  }
+
+  const graph = buildGraphFromSpecifiers(
+    [...reached].filter((f) => specifiers.get(f)),
+    resolver,
+    (file) => specifiers.get(file) ?? null,
+  );
+  graph.complete = true;
+  return graph;
+}
+
+/**
+ * Names an import of each file must contain
+ */
+function getModuleNames(files: string[], packages: WorkspacePackage[]): string[] {
+  const names = new Set<string>();
+  for (const file of files) {
+    const name = path.posix.basename(file).replace(/\.[^.]+$/, '');
+    names.add(name);
+    const dir = path.posix.dirname(file);
+    if (name === 'index' && dir !== '.') names.add(path.posix.basename(dir));
+    for (const pkg of packages) {
+      if (pkg.dir === '' || file.startsWith(`${pkg.dir}/`)) names.add(pkg.name);
+    }
+  }
+  return [...names];
+}
+
+/**
+ * Source files containing any of `names`
+ */
+function findFilesMentioning(
+  rootPath: string,
+  names: string[],
+  sourceFiles: string[],
+  snapshot?: RepoFileSource,
+): string[] {
+  const commit = snapshot && 'commit' in snapshot ? (snapshot as RepoSnapshot).commit : undefined;
+  if (!snapshot || commit) {
+    const result = spawnSync(
+      'git',
+      ['grep', '-l', '-z', '-F', ...names.flatMap((n) => ['-e', n]), commit ?? '--untracked'],
+      { encoding: 'utf-8', cwd: rootPath, stdio: 'pipe', maxBuffer: 64 * 1024 * 1024 },
+    );
+    // Exit code 1: nothing matched
+    if (result.status === 0 || result.status === 1) {
+      return result.stdout
+        .split('\0')
+        .filter(Boolean)
+        .map((f) => (commit ? f.slice(commit.length + 1) : f));
+    }
+  }
+
+  // Patched trees and directories outside git are searched in memory
+  const matches: string[] = [];
+  const test = (file: string, content: string | null) => {
+    if (content !== null && names.some((n) => content.includes(n))) matches.push(file);
+  };
+  if (snapshot) {
+    snapshot.readFiles(sourceFiles, test);
+  } else {
+    for (const file of sourceFiles) test(file, readFromDisk(rootPath, file));
+  }
+  return matches;
+}
+
+/**
+ * Check if a repo file belongs in the dependency graph
+ */
+export function isGraphSourceFile(filePath: string, includeTests = false): boolean {
+  return (
+    SOURCE_FILE_PATTERN.test(filePath) &&
+    !filePath.endsWith('.d.ts') &&
+    (includeTests || !TEST_FILE_PATTERN.test(filePath))
+  );
+}
+
+/**
+ * Build a graph from each file's module specifiers (null skips the file)
+ *
+ * The result is marked incomplete; callers covering the whole repo set `complete`.
+ */
+export function buildGraphFromSpecifiers(
+  files: string[],
+  resolver: ModuleResolver,
+  getSpecifiers: (file: string) => string[] | null,
+): DependencyGraph {
   const dependents = new Map<string, Set<string>>();
   const dependencies = new Map<string, Set<string>>();
+  const unresolved = new Map<string, string[]>();
+  const resolvedSpecifiers = new Map<string, Map<string, string>>();
+  const extraction = getTypeScript() ? 'ast' : 'regex';
 
-  for (const filePath of files) {
-    const fullPath = path.isAbsolute(filePath) ? filePath : path.join(rootPath, filePath);
+  for (const relativePath of files) {
+    const specifiers = getSpecifiers(relativePath);
+    if (!specifiers) continue;
 
-    if (!fs.existsSync(fullPath)) continue;
+    const deps = new Set<string>();
+    const resolvedByFile = new Map<string, string>();
+    dependencies.set(relativePath, deps);
+    resolvedSpecifiers.set(relativePath, resolvedByFile);
 
-    try {
-      const content = fs.readFileSync(fullPath, 'utf-8');
-      const imports = extractImports(content);
-      const relativePath = path.relative(rootPath, fullPath);
+    for (const specifier of specifiers) {
+      const resolved = resolver.resolve(specifier, relativePath);
 
-      dependencies.set(relativePath, new Set());
+      if (resolved.path) {
+        if (resolved.path === relativePath) continue;
+        deps.add(resolved.path);
+        resolvedByFile.set(specifier, resolved.path);
 
-      for (const imp of imports) {
-        const resolvedImport = resolveImport(imp, filePath, rootPath);
-        if (resolvedImport) {
-          dependencies.get(relativePath)?.add(resolvedImport);
-
-          if (!dependents.has(resolvedImport)) {
-            dependents.set(resolvedImport, new Set());
-          }
-          dependents.get(resolvedImport)?.add(relativePath);
+        if (!dependents.has(resolved.path)) {
+          dependents.set(resolved.path, new Set());
         }
+        dependents.get(resolved.path)?.add(relativePath);
+      } else if (!resolved.external && !isAssetSpecifier(specifier)) {
+        const list = unresolved.get(relativePath) || [];
+        list.push(specifier);
+        unresolved.set(relativePath, list);
       }
-    } catch {}
+    }
   }
 
-  return { dependents, dependencies };
+  return {
+    dependents,
+    dependencies,
+    unresolved,
+    resolved: resolvedSpecifiers,
+    complete: false,
+    extraction,
+  };
+}
+
+function readSpecifiers(rootPath: string, relativePath: string): string[] | null {
+  const content = readFromDisk(rootPath, relativePath);
+  return content === null ? null : extractModuleSpecifiers(content);
+}
+
+function readFromDisk(rootPath: string, relativePath: string): string | null {
+  try {
+    return fs.readFileSync(path.join(rootPath, relativePath), 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Count unresolved local imports in a graph
+ */
+export function countUnresolvedImports(graph: DependencyGraph): number {
+  let count = 0;
+  for (const list of graph.unresolved?.values() || []) {
+    count += list.length;
+  }
+  return count;
 }
 
 export function calculateBlastRadiusFromGraph(
@@ -78,9 +322,7 @@ export function calculateBlastRadiusFromGraph(
   const directArr = [...directDeps];
   const indirectArr = [...allDependents].filter((d) => !directDeps.has(d));
 
-  const confidence: 'high' | 'medium' | 'low' = 'medium';
-  const confidenceReason =
-    'Regex-based import resolution (may miss path aliases and barrel exports)';
+  const { confidence, confidenceReason } = getGraphConfidence(graph);
 
   return {
     totalDependents: allDependents.size,
@@ -91,6 +333,45 @@ export function calculateBlastRadiusFromGraph(
   };
 }
 
+function getGraphConfidence(graph: DependencyGraph): {
+  confidence: 'high' | 'medium' | 'low';
+  confidenceReason: string;
+} {
+  if (graph.extraction === undefined) {
+    return {
+      confidence: 'medium',
+      confidenceReason: 'Regex-based import resolution (may miss path aliases and barrel exports)',
+    };
+  }
+
+  if (!graph.complete) {
+    return {
+      confidence: 'medium',
+      confidenceReason: 'Graph covers only analyzed files (other dependents may be missed)',
+    };
+  }
+
+  if (graph.extraction === 'regex') {
+    return {
+      confidence: 'medium',
+      confidenceReason: 'Regex-based import extraction (TypeScript unavailable)',
+    };
+  }
+
+  const unresolvedCount = countUnresolvedImports(graph);
+  if (unresolvedCount > 0) {
+    return {
+      confidence: 'medium',
+      confidenceReason: `${unresolvedCount} local import(s) could not be resolved`,
+    };
+  }
+
+  return {
+    confidence: 'high',
+    confidenceReason: 'Whole-repo graph with path aliases, barrels and workspace packages resolved',
+  };
+}
+
 export function calculateBlastRadius(
   filePath: string,
   allFiles: Array<{ path: string; imports?: string[] }>,
@@ -125,7 +406,7 @@ export function getBlastRadiusConfidenceDescription(confidence: 'high' | 'medium
     case 'high':
       return 'Full TypeScript-aware resolution with path aliases';
     case 'medium':
-      return 'Regex-based import resolution (may miss some edge cases)';
+      return 'Partial resolution (unresolved imports or incomplete graph)';
     case 'low':
       return 'Simplified matching (no transitive analysis)';
   }
@@ -153,28 +434,90 @@ export function extractImports(content: string): string[] {
   return imports.filter((imp) => imp.startsWith('.') || imp.startsWith('/'));
 }
 
-function resolveImport(importPath: string, fromFile: string, rootPath: string): string | null {
-  if (!importPath.startsWith('.')) return null;
-
-  const fromDir = path.dirname(fromFile);
-  let resolved = path.join(fromDir, importPath);
+/**
+ * Extract every module specifier (imports, re-exports, require, dynamic import)
+ *
+ * Uses the TypeScript pre-processor when available, so `export * from` and
+ * `export { x } from` barrels are followed.
+ */
+export function extractModuleSpecifiers(content: string): string[] {
+  const ts = getTypeScript();
+  if (ts) {
+    const info = ts.preProcessFile(content, true, true);
+    return [...new Set(info.importedFiles.map((f) => f.fileName))];
+  }
 
-  if (resolved.startsWith(rootPath)) {
-    resolved = path.relative(rootPath, resolved);
+  const specifiers: string[] = [];
+  const patterns = [
+    /(?:import|export)\s+(?:type\s+)?(?:[\w*{}\s,]+?\s+from\s+)?['"]([^'"]+)['"]/g,
+    /require\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+    /import\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+  ];
+
+  for (const pattern of patterns) {
+    let match;
+    while ((match = pattern.exec(content)) !== null) {
+      specifiers.push(match[1]);
+    }
   }
 
-  resolved = resolved.replace(/\\/g, '/');
+  return [...new Set(specifiers)];
+}
 
-  const extensions = ['', '.ts', '.tsx', '.js', '.jsx', '/index.ts', '/index.tsx', '/index.js'];
-  for (const ext of extensions) {
-    const withExt = resolved + ext;
-    const fullPath = path.join(rootPath, withExt);
-    if (fs.existsSync(fullPath) && fs.statSync(fullPath).isFile()) {
-      return withExt;
-    }
+/**
+ * List repo files (git-tracked plus untracked, not ignored), falling back to a directory walk
+ */
+export function listRepoFiles(rootPath: string): string[] {
+  const result = spawnSync('git', ['ls-files', '-z', '--cached', '--others', '--exclude-standard'], {
+    encoding: 'utf-8',
+    cwd: rootPath,
+    stdio: ['pipe', 'pipe', 'pipe'],
+    maxBuffer: 64 * 1024 * 1024,
+  });
+
+  if (result.status === 0 && result.stdout) {
+    // Tracked files deleted from the working tree are listed too
+    const deleted = spawnSync('git', ['ls-files', '-z', '--deleted'], {
+      encoding: 'utf-8',
+      cwd: rootPath,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    const deletedFiles = new Set(deleted.stdout ? deleted.stdout.split('\0') : []);
+    return result.stdout
+      .split('\0')
+      .filter((f) => f && !f.split('/').some((part) => part === 'node_modules'))
+      .filter((f) => !deletedFiles.has(f));
   }
 
-  return resolved;
+  const files: string[] = [];
+  const walk = (dir: string): void => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(path.join(rootPath, dir), { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const relativePath = dir ? `${dir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRS.has(entry.name)) walk(relativePath);
+      } else if (entry.isFile()) {
+        files.push(relativePath);
+      }
+    }
+  };
+  walk('');
+  return files;
+}
+
+/**
+ * Style and asset imports are handled by bundlers, not module resolution
+ */
+function isAssetSpecifier(specifier: string): boolean {
+  return /\.(css|scss|sass|less|styl|svg|png|jpe?g|gif|webp|ico|json|html|md|txt|woff2?)(\?.*)?$/.test(
+    specifier,
+  );
 }
 
 function normalizePath(p: string): string {
@@ -0,0 +1,273 @@
+/**
+ * Dependency Graph Index
+ *
+ * Persists each file's module specifiers, keyed by content hash, under the
+ * cache directory. Later runs only re-read files changed since the indexed
+ * commit (plus uncommitted and untracked files), so large repos don't re-parse
+ * every file on each analysis.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { getTypeScript } from '../ast';
+import {
+  GraphIndex,
+  GraphIndexEntry,
+  GRAPH_INDEX_VERSION,
+  getGraphIndexPath,
+  readGraphIndex,
+  writeGraphIndex,
+  shortHash,
+} from '../cache';
+import {
+  DependencyGraph,
+  RepoGraphOptions,
+  buildGraphFromSpecifiers,
+  countUnresolvedImports,
+  extractModuleSpecifiers,
+  isGraphSourceFile,
+  listRepoFiles,
+} from './blastRadius';
+import { ModuleResolver } from './resolver';
+
+export interface GraphIndexOptions extends RepoGraphOptions {
+  /** Cache directory (absolute, or relative to rootPath) */
+  cacheDir: string;
+  /** Ignore the existing index and re-read every file */
+  rebuild?: boolean;
+}
+
+export interface GraphIndexSync {
+  /** fresh: no usable index; full: every file rehashed; incremental: changed files only */
+  mode: 'fresh' | 'full' | 'incremental';
+  /** Files in the index */
+  files: number;
+  /** Files whose specifiers were re-extracted */
+  reparsed: number;
+  /** Files dropped because they no longer exist */
+  removed: number;
+  durationMs: number;
+}
+
+export interface GraphIndexStats {
+  indexPath: string;
+  files: number;
+  edges: number;
+  unresolved: number;
+  headSha: string | null;
+  updatedAt: string;
+  sizeBytes: number;
+  /** Files changed, added or removed since the last sync */
+  pendingFiles: number;
+}
+
+/**
+ * Load the repo dependency graph through the persistent index, syncing it first
+ */
+export function loadIndexedDependencyGraph(
+  rootPath: string,
+  options: GraphIndexOptions,
+): { graph: DependencyGraph; sync: GraphIndexSync } {
+  const { index, allFiles, sync } = syncGraphIndex(rootPath, options);
+  return { graph: buildIndexedGraph(rootPath, index, allFiles, options.includeTests), sync };
+}
+
+/**
+ * Discard the index and re-read every source file
+ */
+export function rebuildGraphIndex(rootPath: string, cacheDir: string): GraphIndexSync {
+  return syncGraphIndex(rootPath, { cacheDir, rebuild: true }).sync;
+}
+
+/**
+ * Describe the persisted index (null when none exists)
+ */
+export function getGraphIndexStats(rootPath: string, cacheDir: string): GraphIndexStats | null {
+  const dir = path.resolve(rootPath, cacheDir);
+  const index = readGraphIndex(dir);
+  if (!index) return null;
+
+  const allFiles = listRepoFiles(rootPath);
+  const graph = buildIndexedGraph(rootPath, index, allFiles, true);
+  let edges = 0;
+  for (const deps of graph.dependencies.values()) {
+    edges += deps.size;
+  }
+
+  const candidates = getChangedSince(rootPath, index);
+  const current = allFiles.filter((f) => isGraphSourceFile(f, true));
+  const currentSet = new Set(current);
+  const indexed = Object.keys(index.files);
+  const pendingFiles =
+    current.filter((f) => {
+      const entry = index.files[f];
+      if (!entry) return true;
+      if (candidates && !candidates.has(f)) return false;
+      return hashFile(rootPath, f) !== entry.hash;
+    }).length + indexed.filter((f) => !currentSet.has(f)).length;
+
+  let sizeBytes = 0;
+  try {
+    sizeBytes = fs.statSync(getGraphIndexPath(dir)).size;
+  } catch {
+    // Ignore stat errors
+  }
+
+  return {
+    indexPath: getGraphIndexPath(dir),
+    files: indexed.length,
+    edges,
+    unresolved: countUnresolvedImports(graph),
+    headSha: index.headSha,
+    updatedAt: index.updatedAt,
+    sizeBytes,
+    pendingFiles,
+  };
+}
+
+function syncGraphIndex(
+  rootPath: string,
+  options: GraphIndexOptions,
+): { index: GraphIndex; allFiles: string[]; sync: GraphIndexSync } {
+  const start = Date.now();
+  const cacheDir = path.resolve(rootPath, options.cacheDir);
+  const extraction = getTypeScript() ? 'ast' : 'regex';
+  const headSha = git(rootPath, ['rev-parse', 'HEAD'])?.trim() || null;
+
+  const previous = options.rebuild ? null : readGraphIndex(cacheDir);
+  const usable = previous && previous.extraction === extraction ? previous : null;
+  const candidates = usable ? getChangedSince(rootPath, usable) : null;
+  const mode: GraphIndexSync['mode'] = !usable ? 'fresh' : candidates ? 'incremental' : 'full';
+
+  const allFiles = listRepoFiles(rootPath);
+  const sourceFiles = allFiles.filter((f) => isGraphSourceFile(f, true));
+  const files: Record<string, GraphIndexEntry> = {};
+  let reparsed = 0;
+
+  for (const file of sourceFiles) {
+    const entry = usable?.files[file];
+    if (entry && candidates && !candidates.has(file)) {
+      files[file] = entry;
+      continue;
+    }
+
+    const content = readFile(rootPath, file);
+    if (content === null) continue;
+
+    const hash = shortHash(content);
+    if (entry && entry.hash === hash) {
+      files[file] = entry;
+    } else {
+      files[file] = { hash, specifiers: extractModuleSpecifiers(content) };
+      reparsed++;
+    }
+  }
+
+  const removed = usable
+    ? Object.keys(usable.files).filter((f) => files[f] === undefined).length
+    : 0;
+
+  const index: GraphIndex = {
+    version: GRAPH_INDEX_VERSION,
+    headSha,
+    dirty: headSha ? getUncommittedFiles(rootPath, headSha) : [],
+    extraction,
+    updatedAt: new Date().toISOString(),
+    files,
+  };
+
+  const unchanged =
+    usable &&
+    reparsed === 0 &&
+    removed === 0 &&
+    usable.headSha === headSha &&
+    Object.keys(usable.files).length === sourceFiles.length &&
+    sameFiles(usable.dirty, index.dirty);
+
+  if (!unchanged) {
+    writeGraphIndex(cacheDir, index);
+  }
+
+  return {
+    index,
+    allFiles,
+    sync: {
+      mode,
+      files: Object.keys(files).length,
+      reparsed,
+      removed,
+      durationMs: Date.now() - start,
+    },
+  };
+}
+
+function buildIndexedGraph(
+  rootPath: string,
+  index: GraphIndex,
+  allFiles: string[],
+  includeTests = false,
+): DependencyGraph {
+  const files = Object.keys(index.files).filter((f) => isGraphSourceFile(f, includeTests));
+  const graph = buildGraphFromSpecifiers(
+    files,
+    new ModuleResolver(rootPath, allFiles),
+    (file) => index.files[file]?.specifiers ?? null,
+  );
+  graph.complete = true;
+  graph.extraction = index.extraction;
+  return graph;
+}
+
+/**
+ * Files that may differ from the index: changed since the indexed commit,
+ * untracked, or dirty when last indexed (null when the commit is unknown)
+ */
+function getChangedSince(rootPath: string, index: GraphIndex): Set<string> | null {
+  if (!index.headSha) return null;
+
+  const diff = git(rootPath, ['diff', '--name-only', '--relative', '-z', index.headSha]);
+  const untracked = git(rootPath, ['ls-files', '-z', '--others', '--exclude-standard']);
+  if (diff === null || untracked === null) return null;
+
+  return new Set([...splitZ(diff), ...splitZ(untracked), ...index.dirty]);
+}
+
+function getUncommittedFiles(rootPath: string, headSha: string): string[] {
+  const diff = git(rootPath, ['diff', '--name-only', '--relative', '-z', headSha]) || '';
+  const untracked = git(rootPath, ['ls-files', '-z', '--others', '--exclude-standard']) || '';
+  return [...new Set([...splitZ(diff), ...splitZ(untracked)])]
+    .filter((f) => isGraphSourceFile(f, true))
+    .sort();
+}
+
+function readFile(rootPath: string, file: string): string | null {
+  try {
+    return fs.readFileSync(path.join(rootPath, file), 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+function hashFile(rootPath: string, file: string): string | null {
+  const content = readFile(rootPath, file);
+  return content === null ? null : shortHash(content);
+}
+
+function git(cwd: string, args: string[]): string | null {
+  const result = spawnSync('git', args, {
+    encoding: 'utf-8',
+    cwd,
+    stdio: ['pipe', 'pipe', 'pipe'],
+    maxBuffer: 64 * 1024 * 1024,
+  });
+  return result.status === 0 ? result.stdout : null;
+}
+
+function splitZ(output: string): string[] {
+  return output.split('\0').filter(Boolean);
+}
+
+function sameFiles(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((f, i) => f === b[i]);
+}
@@ -1,7 +1,21 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { detectSignals, DetectorProfile, DetectorOptions } from '../signals';
-import { summarizeSignals, Signal, SignalSummary, ChangedRange } from '../signals/types';
+import {
+  detectSignals,
+  detectWithPatterns,
+  getDetectorProfileName,
+  DetectorProfile,
+  DetectorOptions,
+  PatternDetectorOptions,
+} from '../signals';
+import { PatternDef } from '../patterns';
+import {
+  summarizeSignals,
+  Signal,
+  SignalDelta,
+  SignalSummary,
+  ChangedRange,
+} from '../signals/types';
 import {
   classifySignals,
   calculateClassBasedRiskScore,
@@ -14,6 +28,13 @@ import {
   GatedSignals,
   GateStats,
 } from '../core/confidenceGate';
+import { DetectorDefinition } from '../plugins/types';
+import { detectWithPacks } from '../plugins/detector';
+import { applySuppressions, SuppressionMatch, SuppressedSignal } from '../core/suppressions';
+import { FileHistory, HistoryThresholds, getHotspotFactors } from '../git/history';
+import { classifySignalDeltas } from '../core/differential';
+import { CategoryWeights } from '../policy/packs';
+import { getSignalCategoryWeight } from '../policy/packs/loader';
 
 export interface AnalyzedFile {
   path: string;
@@ -32,6 +53,21 @@ export interface AnalyzedFile {
   signalTypes: string[];
   riskBreakdown?: RiskScoreBreakdown;
   gateStats: GateStats;
+  /** Signals hidden by suppressions (excluded from scoring) */
+  suppressed: SuppressedSignal[];
+  /** Git history metrics (when history enrichment is enabled) */
+  history?: FileHistory;
+  /** Comparison with the base version (when differential signals are enabled) */
+  differential?: FileDifferential;
+}
+
+export interface FileDifferential {
+  /** Active signals the change introduced */
+  introduced: number;
+  /** Active signals already present in the base version */
+  preExisting: number;
+  /** Base signals the change removed (lines refer to the base version) */
+  resolved: Signal[];
 }
 
 export interface Evidence {
@@ -39,6 +75,7 @@ export interface Evidence {
   message: string;
   severity: 'error' | 'warning' | 'info';
   tag?: string;
+  delta?: SignalDelta;
 }
 
 export interface ProjectAnalysis {
@@ -67,6 +104,91 @@ export interface AnalyzeOptions {
   useClassBasedScoring?: boolean;
   includeTests?: boolean;
   includeConfig?: boolean;
+  /** Detector definitions from loaded detector packs */
+  packDetectors?: DetectorDefinition[];
+  /** Compiled config customPatterns */
+  customPatterns?: PatternDef[];
+  /** Active suppressions, applied after detection and before scoring */
+  suppressions?: SuppressionMatch[];
+  /** Git history metrics by relative path */
+  history?: Map<string, FileHistory>;
+  historyThresholds?: HistoryThresholds;
+  /** Read files from this source instead of the working tree (null when missing) */
+  readFile?: (filePath: string) => string | null;
+  /** Read a changed file's base version (null when missing); enables differential signals */
+  readBaseFile?: (filePath: string) => string | null;
+  /** Leave pre-existing signals out of scoring and results */
+  introducedOnly?: boolean;
+  /** Policy pack category weights, multiplied into signal weights before scoring */
+  categoryWeights?: CategoryWeights;
+}
+
+/**
+ * Run config custom patterns, scoped to the file's framework
+ */
+function detectCustomPatterns(
+  content: string,
+  filePath: string,
+  detectorProfile: DetectorProfile,
+  customPatterns: PatternDef[],
+  options: DetectorOptions,
+): Signal[] {
+  if (customPatterns.length === 0) return [];
+
+  const profile =
+    detectorProfile === 'auto' ? getDetectorProfileName(content, filePath) : detectorProfile;
+
+  return detectWithPatterns(content, filePath, {
+    ...options,
+    framework: getPatternFramework(profile),
+    customPatterns,
+    includeDefaults: false,
+  });
+}
+
+/**
+ * Detectors to run on a file besides the built-in ones
+ */
+export interface FileDetectors {
+  detectorProfile?: DetectorProfile;
+  /** Detector definitions from loaded detector packs */
+  packDetectors?: DetectorDefinition[];
+  /** Compiled config customPatterns */
+  customPatterns?: PatternDef[];
+}
+
+/**
+ * Run the built-in detectors, detector packs and custom patterns on a file
+ */
+export function detectFileSignals(
+  content: string,
+  filePath: string,
+  detectors: FileDetectors,
+  options: DetectorOptions = {},
+): Signal[] {
+  const { detectorProfile = 'auto', packDetectors = [], customPatterns = [] } = detectors;
+  return [
+    ...detectSignals(content, filePath, detectorProfile, options),
+    ...detectWithPacks(content, filePath, packDetectors, {
+      ...options,
+      framework: detectorProfile === 'auto' ? undefined : detectorProfile,
+    }),
+    ...detectCustomPatterns(content, filePath, detectorProfile, customPatterns, options),
+  ];
+}
+
+function getPatternFramework(profile: DetectorProfile): PatternDetectorOptions['framework'] {
+  switch (profile) {
+    case 'react':
+    case 'react-native':
+      return 'react';
+    case 'vue':
+    case 'angular':
+    case 'node':
+      return profile;
+    default:
+      return 'generic';
+  }
 }
 
 export async function analyzeProject(options: AnalyzeOptions): Promise<ProjectAnalysis> {
@@ -76,40 +198,98 @@ export async function analyzeProject(options: AnalyzeOptions): Promise<ProjectAn
     changedFileDetails,
     contextLines = 5,
     useClassBasedScoring = true,
+    packDetectors = [],
+    customPatterns = [],
+    suppressions = [],
+    history,
+    historyThresholds,
+    readFile,
+    readBaseFile,
+    introducedOnly = false,
+    categoryWeights,
   } = options;
   const filesToAnalyze = options.files || findSourceFiles(rootPath, options);
 
-  const changedRangesMap = new Map<string, ChangedRange[]>();
+  const changedDetailsMap = new Map<string, ChangedFileDetail>();
   if (changedFileDetails) {
     for (const detail of changedFileDetails) {
       const normalizedPath = detail.path.replace(/\\/g, '/');
-      changedRangesMap.set(normalizedPath, detail.ranges);
+      changedDetailsMap.set(normalizedPath, detail);
     }
   }
 
+  const detectAll = (content: string, filePath: string, detectorOptions: DetectorOptions) =>
+    detectFileSignals(
+      content,
+      filePath,
+      { detectorProfile, packDetectors, customPatterns },
+      detectorOptions,
+    );
+
   const analyzedFiles: AnalyzedFile[] = [];
   const dependencyGraph = new Map<string, string[]>();
   const isDiffAnalysis = changedFileDetails !== undefined && changedFileDetails.length > 0;
 
   for (const filePath of filesToAnalyze) {
     const fullPath = path.isAbsolute(filePath) ? filePath : path.join(rootPath, filePath);
-
-    if (!fs.existsSync(fullPath)) continue;
+    const relativePath = path.relative(rootPath, fullPath).replace(/\\/g, '/');
 
     try {
-      const content = fs.readFileSync(fullPath, 'utf-8');
-      const relativePath = path.relative(rootPath, fullPath).replace(/\\/g, '/');
+      const content = readFile
+        ? readFile(relativePath)
+        : fs.existsSync(fullPath)
+        ? fs.readFileSync(fullPath, 'utf-8')
+        : null;
+      if (content === null) continue;
 
-      const changedRanges = changedRangesMap.get(relativePath);
+      const changedDetail = changedDetailsMap.get(relativePath);
+      const changedRanges = changedDetail?.ranges;
 
       const detectorOptions: DetectorOptions = {
         changedRanges,
         contextLines,
       };
 
-      const rawSignals = detectSignals(content, relativePath, detectorProfile, detectorOptions);
+      const rawSignals = detectAll(content, relativePath, detectorOptions);
+
+      let resolved: Signal[] | undefined;
+      const baseContent =
+        readBaseFile && changedDetail
+          ? changedDetail.status === 'added'
+            ? ''
+            : readBaseFile(changedDetail.oldPath || changedDetail.path)
+          : null;
+
+      if (baseContent !== null) {
+        // Whole-file runs on both sides, so code moved outside the diff window still matches
+        const headAll = changedRanges
+          ? detectAll(content, relativePath, { contextLines })
+          : rawSignals;
+        const baseAll = baseContent ? detectAll(baseContent, relativePath, { contextLines }) : [];
+        const differential = classifySignalDeltas(rawSignals, headAll, baseAll, changedRanges);
+        rawSignals.forEach((s, i) => (s.delta = differential.deltas[i]));
+        resolved = differential.resolved;
+      }
+
+      const fileHistory = history?.get(relativePath);
+      const historySignal = fileHistory
+        ? createHistorySignal(relativePath, fileHistory, historyThresholds, changedRanges)
+        : null;
+      if (historySignal) {
+        rawSignals.push(historySignal);
+      }
+
+      const suppression = applySuppressions(rawSignals, relativePath, suppressions);
+      const suppressed = suppression.suppressed.map((s, i) =>
+        toSuppressedSignal(s, suppression.matches[i]),
+      );
+
+      const preExisting = suppression.active.filter((s) => s.delta === 'pre-existing').length;
+      const inScope = introducedOnly
+        ? suppression.active.filter((s) => s.delta !== 'pre-existing')
+        : suppression.active;
 
-      const signalsWithConfidence = assignDefaultConfidenceAll(rawSignals);
+      const signalsWithConfidence = assignDefaultConfidenceAll(inScope);
 
       const gatedSignals = applyConfidenceGate(signalsWithConfidence);
 
@@ -120,21 +300,24 @@ export async function analyzeProject(options: AnalyzeOptions): Promise<ProjectAn
       let riskBreakdown: RiskScoreBreakdown | undefined;
       let riskReasons: string[];
 
+      const scored = weighSignals(signals, categoryWeights);
+      const scoredBlocking = weighSignals(gatedSignals.blocking, categoryWeights);
+
       if (useClassBasedScoring) {
-        const classified = classifySignals(signals);
+        const classified = classifySignals(scored);
         riskBreakdown = calculateClassBasedRiskScore(classified);
         riskScore = riskBreakdown.total;
         riskReasons = getReasonChain(classified, riskBreakdown);
 
-        const gatedClassified = classifySignals(gatedSignals.blocking);
+        const gatedClassified = classifySignals(scoredBlocking);
         const gatedBreakdown = calculateClassBasedRiskScore(gatedClassified);
         gatedRiskScore = gatedBreakdown.total;
       } else {
-        const totalWeight = signals.reduce((sum, s) => sum + s.weight, 0);
+        const totalWeight = scored.reduce((sum, s) => sum + s.weight, 0);
         riskScore = Math.min(totalWeight * 2, 10);
         riskReasons = generateRiskReasons(signals);
 
-        const gatedWeight = gatedSignals.blocking.reduce((sum, s) => sum + s.weight, 0);
+        const gatedWeight = scoredBlocking.reduce((sum, s) => sum + s.weight, 0);
         gatedRiskScore = Math.min(gatedWeight * 2, 10);
       }
 
@@ -147,6 +330,7 @@ export async function analyzeProject(options: AnalyzeOptions): Promise<ProjectAn
         message: s.reason,
         severity: signalToSeverity(s.weight),
         tag: `${s.category}:${s.id}`,
+        delta: s.delta,
       }));
 
       const signalTypes = [...new Set(signals.map((s) => s.id))];
@@ -172,6 +356,15 @@ export async function analyzeProject(options: AnalyzeOptions): Promise<ProjectAn
         signalTypes,
         gateStats: gatedSignals.stats,
         riskBreakdown,
+        suppressed,
+        history: fileHistory,
+        differential: resolved
+          ? {
+              introduced: signals.filter((s) => s.delta === 'introduced').length,
+              preExisting,
+              resolved,
+            }
+          : undefined,
       });
 
       dependencyGraph.set(relativePath, imports);
@@ -186,6 +379,67 @@ export async function analyzeProject(options: AnalyzeOptions): Promise<ProjectAn
   };
 }
 
+/**
+ * Turn hot-spot history into a signal so it feeds scoring as `history` evidence
+ */
+function createHistorySignal(
+  filePath: string,
+  history: FileHistory,
+  thresholds: HistoryThresholds | undefined,
+  changedRanges: ChangedRange[] | undefined,
+): Signal | null {
+  const factors = getHotspotFactors(history, thresholds);
+  if (factors.length === 0) return null;
+
+  return {
+    id: 'history-hotspot',
+    title: 'Change hot spot',
+    class: 'behavioral',
+    category: 'core-impact',
+    severity: 'warn',
+    confidence: 'medium',
+    weight: Math.min(0.4 * factors.length, 1.0),
+    filePath,
+    lines: changedRanges && changedRanges.length > 0 ? [changedRanges[0].startLine] : [],
+    reason: `Hot spot: ${factors.join(', ')}`,
+    evidence: {
+      kind: 'history',
+      details: {
+        churn: history.churn,
+        authors: history.authors,
+        fixCommits: history.fixCommits,
+        fixRatio: history.fixRatio,
+      },
+    },
+    tags: ['history'],
+    inChangedRange: true,
+  };
+}
+
+function toSuppressedSignal(signal: Signal, match: SuppressionMatch): SuppressedSignal {
+  return {
+    signalId: signal.id,
+    line: signal.lines[0],
+    message: signal.reason,
+    snippet: signal.snippet,
+    severity: signal.severity,
+    rule: match.entry.signalId,
+    fileGlob: match.entry.fileGlob,
+    scope: match.scope,
+    reason: match.entry.reason,
+    createdBy: match.entry.createdBy,
+    expiresAt: match.entry.expiresAt,
+  };
+}
+
+/**
+ * Scale signal weights by the policy pack weight of their category
+ */
+function weighSignals(signals: Signal[], weights: CategoryWeights | undefined): Signal[] {
+  if (!weights) return signals;
+  return signals.map((s) => ({ ...s, weight: s.weight * getSignalCategoryWeight(s.id, weights) }));
+}
+
 function signalToSeverity(weight: number): 'error' | 'warning' | 'info' {
   if (weight >= 0.7) return 'error';
   if (weight >= 0.4) return 'warning';
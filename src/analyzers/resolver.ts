@@ -0,0 +1,607 @@
+/**
+ * Module Resolver
+ *
+ * Resolves import specifiers to repo files the way TypeScript and bundlers do:
+ * relative paths (with `.js` → `.ts` mapping and `index` barrels), tsconfig
+ * `baseUrl`/`paths` (following `extends`), workspace packages via their
+ * `exports`/`main` fields, and package.json `imports` (`#internal`).
+ *
+ * Paths are repo-relative with forward slashes.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getTypeScript } from '../ast';
+
+export interface ResolvedImport {
+  specifier: string;
+  /** Resolved repo-relative path (null when unresolved or external) */
+  path: string | null;
+  /** True for npm packages outside the repo */
+  external: boolean;
+}
+
+/** Read a repo-relative file (null when missing) */
+export type RepoFileReader = (relativePath: string) => string | null;
+
+export interface WorkspacePackage {
+  name: string;
+  /** Package directory (repo-relative, '' for the root package) */
+  dir: string;
+  manifest: PackageManifest;
+}
+
+interface PackageManifest {
+  name?: string;
+  main?: string;
+  module?: string;
+  types?: string;
+  typings?: string;
+  source?: string;
+  exports?: unknown;
+  imports?: unknown;
+}
+
+interface PathMapping {
+  /** Directory `paths` targets are relative to (repo-relative) */
+  base: string;
+  paths: Record<string, string[]>;
+}
+
+interface CompilerPaths {
+  baseUrl?: string;
+  paths?: Record<string, string[]>;
+  /** Directory of the config that declared `paths` */
+  pathsDir?: string;
+}
+
+const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.d.ts', '.js', '.jsx', '.mjs', '.cjs'];
+
+const JS_TO_TS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+/** Export conditions in preference order (source-first, so built output maps back to src) */
+const CONDITION_ORDER = [
+  'source',
+  'types',
+  'typescript',
+  'development',
+  'import',
+  'module',
+  'require',
+  'node',
+  'browser',
+  'default',
+];
+
+const BUILD_DIR_PATTERN = /^(\.\/)?(dist|lib|build|out|esm|cjs)\//;
+
+export class ModuleResolver {
+  private readonly rootPath: string;
+  private readonly readFile: RepoFileReader;
+  private readonly knownFiles?: Set<string>;
+  private readonly knownDirs?: Set<string>;
+  private readonly existsCache = new Map<string, boolean>();
+  private readonly dirCache = new Map<string, boolean>();
+  private readonly tsconfigByDir = new Map<string, PathMapping | null>();
+  private readonly tsconfigCache = new Map<string, CompilerPaths>();
+  private readonly packages: Map<string, WorkspacePackage>;
+  private readonly packageByDir = new Map<string, WorkspacePackage>();
+
+  /**
+   * @param rootPath - Repository root
+   * @param files - Every repo file (repo-relative); when given, existence checks
+   *   outside node_modules use this list instead of the file system
+   * @param readFile - Reads tsconfig and package.json files outside node_modules
+   *   (defaults to the file system)
+   */
+  constructor(rootPath: string, files?: Iterable<string>, readFile?: RepoFileReader) {
+    this.rootPath = rootPath;
+    this.readFile = (relativePath) =>
+      readFile && !relativePath.startsWith('node_modules/')
+        ? readFile(relativePath)
+        : readFromDisk(rootPath, relativePath);
+    if (files) {
+      this.knownFiles = new Set(files);
+      this.knownDirs = new Set(['']);
+      for (const file of this.knownFiles) {
+        for (let dir = path.posix.dirname(file); dir !== '.'; dir = path.posix.dirname(dir)) {
+          if (this.knownDirs.has(dir)) break;
+          this.knownDirs.add(dir);
+        }
+      }
+    }
+    this.packages = findWorkspacePackages(rootPath, this.knownFiles, readFile);
+    for (const pkg of this.packages.values()) {
+      this.packageByDir.set(pkg.dir, pkg);
+    }
+  }
+
+  getWorkspacePackages(): WorkspacePackage[] {
+    return Array.from(this.packages.values());
+  }
+
+  /**
+   * Resolve a specifier imported from a repo-relative file
+   */
+  resolve(specifier: string, fromFile: string): ResolvedImport {
+    const from = toPosix(fromFile);
+    const fromDir = path.posix.dirname(from);
+
+    if (specifier.startsWith('.') || specifier.startsWith('/')) {
+      const target = specifier.startsWith('/')
+        ? specifier.slice(1)
+        : path.posix.join(fromDir, specifier);
+      return { specifier, path: this.resolveFile(target), external: false };
+    }
+
+    if (specifier.startsWith('#')) {
+      const pkg = this.findOwningPackage(fromDir);
+      const resolved = pkg ? this.resolveEntry(pkg, pkg.manifest.imports, specifier) : null;
+      return { specifier, path: resolved, external: false };
+    }
+
+    const mapping = this.getPathMapping(fromDir);
+    if (mapping) {
+      const matched = this.resolvePaths(specifier, mapping);
+      if (matched !== undefined) {
+        if (matched) return { specifier, path: matched, external: false };
+        // Pattern matched but no file: fall through to packages before giving up
+        const fromPackage = this.resolvePackage(specifier);
+        return { specifier, path: fromPackage ?? null, external: false };
+      }
+
+      if (mapping.paths['*'] === undefined && this.getBaseUrl(fromDir) !== undefined) {
+        const fromBase = this.resolveFile(path.posix.join(this.getBaseUrl(fromDir)!, specifier));
+        if (fromBase) return { specifier, path: fromBase, external: false };
+      }
+    }
+
+    const fromPackage = this.resolvePackage(specifier);
+    if (fromPackage !== undefined) {
+      return { specifier, path: fromPackage, external: false };
+    }
+
+    return { specifier, path: null, external: true };
+  }
+
+  /**
+   * Resolve a workspace package import (undefined when the package is not in the workspace)
+   */
+  private resolvePackage(specifier: string): string | null | undefined {
+    const parts = specifier.split('/');
+    const nameLength = specifier.startsWith('@') ? 2 : 1;
+    const name = parts.slice(0, nameLength).join('/');
+    const pkg = this.packages.get(name);
+    if (!pkg) return undefined;
+
+    const rest = parts.slice(nameLength).join('/');
+    const subpath = rest ? `./${rest}` : '.';
+
+    if (pkg.manifest.exports !== undefined) {
+      return this.resolveEntry(pkg, normalizeExports(pkg.manifest.exports), subpath);
+    }
+
+    if (subpath === '.') {
+      const m = pkg.manifest;
+      const entries = [m.source, m.types, m.typings, m.module, m.main, 'index'].filter(
+        (e): e is string => typeof e === 'string',
+      );
+      for (const entry of entries) {
+        const resolved = this.resolvePackageTarget(pkg, entry);
+        if (resolved) return resolved;
+      }
+      return null;
+    }
+
+    return this.resolvePackageTarget(pkg, subpath);
+  }
+
+  /**
+   * Resolve a subpath through an exports/imports map
+   */
+  private resolveEntry(pkg: WorkspacePackage, map: unknown, subpath: string): string | null {
+    for (const target of getMapTargets(map, subpath)) {
+      const resolved = this.resolvePackageTarget(pkg, target);
+      if (resolved) return resolved;
+    }
+    return null;
+  }
+
+  /**
+   * Resolve a package-relative target, mapping built output (dist/lib/...) back to src
+   */
+  private resolvePackageTarget(pkg: WorkspacePackage, target: string): string | null {
+    const direct = this.resolveFile(path.posix.join(pkg.dir, target));
+    if (direct) return direct;
+
+    if (BUILD_DIR_PATTERN.test(target)) {
+      const sourceTarget = target
+        .replace(BUILD_DIR_PATTERN, 'src/')
+        .replace(/\.d\.[mc]?ts$/, '')
+        .replace(/\.[mc]?js$/, '');
+      return this.resolveFile(path.posix.join(pkg.dir, sourceTarget));
+    }
+
+    return null;
+  }
+
+  /**
+   * Match tsconfig `paths` (undefined when no pattern matches, null when a
+   * pattern matches but no target exists)
+   */
+  private resolvePaths(specifier: string, mapping: PathMapping): string | null | undefined {
+    let best: { pattern: string; captured: string } | undefined;
+
+    for (const pattern of Object.keys(mapping.paths)) {
+      const star = pattern.indexOf('*');
+      if (star === -1) {
+        if (pattern === specifier) {
+          best = { pattern, captured: '' };
+          break;
+        }
+        continue;
+      }
+
+      const prefix = pattern.slice(0, star);
+      const suffix = pattern.slice(star + 1);
+      if (
+        specifier.length >= prefix.length + suffix.length &&
+        specifier.startsWith(prefix) &&
+        specifier.endsWith(suffix) &&
+        (!best || prefix.length > best.pattern.indexOf('*'))
+      ) {
+        best = {
+          pattern,
+          captured: specifier.slice(prefix.length, specifier.length - suffix.length),
+        };
+      }
+    }
+
+    if (!best) return undefined;
+
+    // A bare `*` fallback is only local when one of its targets exists
+    for (const target of mapping.paths[best.pattern]) {
+      const resolved = this.resolveFile(
+        path.posix.join(mapping.base, target.replace('*', best.captured)),
+      );
+      if (resolved) return resolved;
+    }
+
+    return best.pattern === '*' ? undefined : null;
+  }
+
+  /**
+   * Resolve a repo-relative path to a file (extensions, .js → .ts, index barrels)
+   */
+  resolveFile(target: string): string | null {
+    const normalized = path.posix.normalize(toPosix(target)).replace(/\/$/, '');
+    if (normalized.startsWith('..')) return null;
+
+    const ext = path.posix.extname(normalized);
+    const candidates: string[] = [];
+
+    if (JS_TO_TS[ext]) {
+      const stem = normalized.slice(0, -ext.length);
+      candidates.push(...JS_TO_TS[ext].map((e) => stem + e));
+    }
+    candidates.push(normalized);
+    candidates.push(...RESOLVE_EXTENSIONS.map((e) => normalized + e));
+
+    for (const candidate of candidates) {
+      if (this.fileExists(candidate)) return candidate;
+    }
+
+    if (this.dirExists(normalized)) {
+      const pkg = this.packageByDir.get(normalized);
+      if (pkg) {
+        const fromManifest = this.resolvePackage(pkg.name);
+        if (fromManifest) return fromManifest;
+      }
+      for (const e of RESOLVE_EXTENSIONS) {
+        const index = path.posix.join(normalized, `index${e}`);
+        if (this.fileExists(index)) return index;
+      }
+    }
+
+    return null;
+  }
+
+  private fileExists(relativePath: string): boolean {
+    if (this.knownFiles && !relativePath.startsWith('node_modules/')) {
+      return this.knownFiles.has(relativePath);
+    }
+
+    let exists = this.existsCache.get(relativePath);
+    if (exists === undefined) {
+      try {
+        exists = fs.statSync(path.join(this.rootPath, relativePath)).isFile();
+      } catch {
+        exists = false;
+      }
+      this.existsCache.set(relativePath, exists);
+    }
+    return exists;
+  }
+
+  private dirExists(relativePath: string): boolean {
+    if (this.knownDirs) return this.knownDirs.has(relativePath);
+
+    let exists = this.dirCache.get(relativePath);
+    if (exists === undefined) {
+      try {
+        exists = fs.statSync(path.join(this.rootPath, relativePath || '.')).isDirectory();
+      } catch {
+        exists = false;
+      }
+      this.dirCache.set(relativePath, exists);
+    }
+    return exists;
+  }
+
+  private findOwningPackage(dir: string): WorkspacePackage | undefined {
+    for (let current = dir; ; current = path.posix.dirname(current)) {
+      const key = current === '.' ? '' : current;
+      const pkg = this.packageByDir.get(key);
+      if (pkg) return pkg;
+      if (key === '') return undefined;
+    }
+  }
+
+  /**
+   * Find the `paths` mapping from the nearest tsconfig/jsconfig
+   */
+  private getPathMapping(dir: string): PathMapping | null {
+    const key = dir === '.' ? '' : dir;
+    if (this.tsconfigByDir.has(key)) return this.tsconfigByDir.get(key)!;
+
+    let mapping: PathMapping | null = null;
+    const configPath = this.findConfigFile(key);
+
+    if (configPath) {
+      const compiler = this.loadTsConfig(configPath, new Set());
+      const base = compiler.baseUrl ?? compiler.pathsDir;
+      if (compiler.paths && base !== undefined) {
+        mapping = { base, paths: compiler.paths };
+      } else if (compiler.baseUrl !== undefined) {
+        mapping = { base: compiler.baseUrl, paths: {} };
+      }
+    } else if (key !== '') {
+      mapping = this.getPathMapping(path.posix.dirname(key));
+    }
+
+    this.tsconfigByDir.set(key, mapping);
+    return mapping;
+  }
+
+  private getBaseUrl(dir: string): string | undefined {
+    const configPath = this.findConfigFile(dir === '.' ? '' : dir, true);
+    return configPath ? this.loadTsConfig(configPath, new Set()).baseUrl : undefined;
+  }
+
+  private findConfigFile(dir: string, walkUp = false): string | null {
+    for (let current = dir; ; current = path.posix.dirname(current)) {
+      const key = current === '.' ? '' : current;
+      for (const name of ['tsconfig.json', 'jsconfig.json']) {
+        const candidate = key ? `${key}/${name}` : name;
+        if (this.fileExists(candidate)) return candidate;
+      }
+      if (key === '' || !walkUp) return null;
+    }
+  }
+
+  /**
+   * Load baseUrl/paths from a tsconfig, following `extends`
+   */
+  private loadTsConfig(configPath: string, seen: Set<string>): CompilerPaths {
+    const cached = this.tsconfigCache.get(configPath);
+    if (cached) return cached;
+    if (seen.has(configPath)) return {};
+    seen.add(configPath);
+
+    const raw = parseJsonc(this.readFile(configPath), configPath) as {
+      extends?: string | string[];
+      compilerOptions?: { baseUrl?: string; paths?: Record<string, string[]> };
+    } | null;
+
+    let result: CompilerPaths = {};
+    if (!raw) return result;
+
+    const configDir = path.posix.dirname(configPath);
+    const dir = configDir === '.' ? '' : configDir;
+
+    const parents = raw.extends ? ([] as string[]).concat(raw.extends) : [];
+    for (const parent of parents) {
+      const parentPath = this.resolveExtends(parent, dir);
+      if (parentPath) {
+        result = { ...result, ...this.loadTsConfig(parentPath, seen) };
+      }
+    }
+
+    const options = raw.compilerOptions || {};
+    if (typeof options.baseUrl === 'string') {
+      result.baseUrl = path.posix.join(dir, options.baseUrl).replace(/^\.$/, '');
+    }
+    if (options.paths && typeof options.paths === 'object') {
+      result.paths = options.paths;
+      result.pathsDir = dir;
+    }
+
+    this.tsconfigCache.set(configPath, result);
+    return result;
+  }
+
+  private resolveExtends(specifier: string, dir: string): string | null {
+    const withJson = (p: string) =>
+      p.endsWith('.json') ? [p] : [p, `${p}.json`, `${p}/tsconfig.json`];
+
+    if (specifier.startsWith('.')) {
+      return withJson(path.posix.join(dir, specifier)).find((p) => this.fileExists(p)) || null;
+    }
+
+    const candidates: string[] = [];
+    const parts = specifier.split('/');
+    const nameLength = specifier.startsWith('@') ? 2 : 1;
+    const pkg = this.packages.get(parts.slice(0, nameLength).join('/'));
+    const rest = parts.slice(nameLength).join('/');
+
+    if (pkg) {
+      candidates.push(...withJson(path.posix.join(pkg.dir, rest || 'tsconfig.json')));
+    }
+    candidates.push(...withJson(path.posix.join('node_modules', specifier)));
+
+    return candidates.find((p) => this.fileExists(p)) || null;
+  }
+}
+
+/**
+ * Discover workspace packages (every named package.json outside node_modules)
+ */
+export function findWorkspacePackages(
+  rootPath: string,
+  knownFiles?: Set<string>,
+  readFile: RepoFileReader = (relativePath) => readFromDisk(rootPath, relativePath),
+): Map<string, WorkspacePackage> {
+  const packages = new Map<string, WorkspacePackage>();
+  const manifests = knownFiles
+    ? Array.from(knownFiles).filter(
+        (f) => (f === 'package.json' || f.endsWith('/package.json')) && !f.includes('node_modules/'),
+      )
+    : findManifests(rootPath);
+
+  for (const manifestPath of manifests.sort()) {
+    const manifest = parseJsonc(readFile(manifestPath), manifestPath) as PackageManifest | null;
+    if (!manifest || typeof manifest.name !== 'string' || packages.has(manifest.name)) continue;
+
+    const dir = path.posix.dirname(manifestPath);
+    packages.set(manifest.name, { name: manifest.name, dir: dir === '.' ? '' : dir, manifest });
+  }
+
+  return packages;
+}
+
+function findManifests(rootPath: string): string[] {
+  const manifests: string[] = [];
+  const skip = new Set(['node_modules', '.git', 'dist', 'build', 'coverage']);
+
+  function walk(dir: string, depth: number): void {
+    if (depth > 6) return;
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(path.join(rootPath, dir), { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      const relativePath = dir ? `${dir}/${entry.name}` : entry.name;
+      if (entry.isDirectory() && !skip.has(entry.name) && !entry.name.startsWith('.')) {
+        walk(relativePath, depth + 1);
+      } else if (entry.isFile() && entry.name === 'package.json') {
+        manifests.push(relativePath);
+      }
+    }
+  }
+
+  walk('', 0);
+  return manifests;
+}
+
+/**
+ * Treat a string/array/conditions `exports` value as the "." entry
+ */
+function normalizeExports(exportsField: unknown): unknown {
+  if (
+    typeof exportsField === 'string' ||
+    Array.isArray(exportsField) ||
+    (isObject(exportsField) && !Object.keys(exportsField).some((k) => k.startsWith('.')))
+  ) {
+    return { '.': exportsField };
+  }
+  return exportsField;
+}
+
+/**
+ * Candidate targets for a subpath in an exports/imports map (exact keys, `*` patterns, folder keys)
+ */
+function getMapTargets(map: unknown, subpath: string): string[] {
+  if (!isObject(map)) return [];
+
+  if (subpath in map) {
+    return getConditionTargets(map[subpath]);
+  }
+
+  let best: { key: string; captured: string } | undefined;
+  for (const key of Object.keys(map)) {
+    const star = key.indexOf('*');
+    if (star !== -1) {
+      const prefix = key.slice(0, star);
+      const suffix = key.slice(star + 1);
+      if (
+        subpath.startsWith(prefix) &&
+        subpath.endsWith(suffix) &&
+        subpath.length >= prefix.length + suffix.length &&
+        (!best || prefix.length > best.key.indexOf('*'))
+      ) {
+        best = { key, captured: subpath.slice(prefix.length, subpath.length - suffix.length) };
+      }
+    } else if (key.endsWith('/') && subpath.startsWith(key) && !best) {
+      return getConditionTargets(map[key]).map((t) => t + subpath.slice(key.length));
+    }
+  }
+
+  if (!best) return [];
+  return getConditionTargets(map[best.key]).map((t) => t.split('*').join(best!.captured));
+}
+
+function getConditionTargets(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.flatMap(getConditionTargets);
+  if (!isObject(value)) return [];
+
+  const keys = Object.keys(value);
+  const ordered = [
+    ...CONDITION_ORDER.filter((c) => keys.includes(c)),
+    ...keys.filter((k) => !CONDITION_ORDER.includes(k)),
+  ];
+  return ordered.flatMap((k) => getConditionTargets(value[k]));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readFromDisk(rootPath: string, relativePath: string): string | null {
+  try {
+    return fs.readFileSync(path.join(rootPath, relativePath), 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse JSON that may contain comments and trailing commas (tsconfig style)
+ */
+function parseJsonc(text: string | null, filePath: string): unknown {
+  if (text === null) return null;
+
+  const ts = getTypeScript();
+  if (ts) {
+    const parsed = ts.parseConfigFileTextToJson(filePath, text);
+    return parsed.error ? null : parsed.config;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+function toPosix(p: string): string {
+  return p.replace(/\\/g, '/');
+}
@@ -0,0 +1,516 @@
+/**
+ * Symbol-level Blast Radius
+ *
+ * Works out which exports a diff touched (directly, or through module-private
+ * helpers they use), then follows only the importers that bind those exports.
+ * Re-exporting barrels are followed without counting as dependents, and an
+ * importer's own exports are only followed when they use the imported binding.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type * as TS from 'typescript';
+import { getTypeScript, parseSource } from '../ast';
+import { ChangedRange } from '../signals/types';
+import { DependencyGraph } from './blastRadius';
+import { RepoFileReader } from './resolver';
+
+export interface SymbolBlastRadius {
+  /** Exported name ('default' for default exports, '*' for module-level changes) */
+  symbol: string;
+  /** Files that import the symbol (through any re-exporting barrels) */
+  directDependents: string[];
+  /** Files affected through exports of direct dependents that use it */
+  indirectDependents: string[];
+}
+
+/** Exported names touched by a change ('*' when it cannot be narrowed) */
+type TouchedExports = Set<string> | '*';
+
+interface TopLevelStatement {
+  startLine: number;
+  endLine: number;
+  /** Local names the statement declares */
+  names: string[];
+  /** Exported names the statement provides */
+  exported: string[];
+  /** Identifiers referenced anywhere in the statement */
+  refs: Set<string>;
+  /** Import bindings (local names) */
+  importedLocals: string[];
+  /** Local export list (`export { a as b }`) */
+  exportList: Array<{ local: string; exported: string }>;
+  /** Re-exports (`export { a } from`, `export * from`) */
+  reExports: ReExport[];
+  /** Declaration, import or export (false for side-effect statements) */
+  isDeclaration: boolean;
+}
+
+interface ImportBinding {
+  specifier: string;
+  /** Imported name ('default', a named export, or '*' for namespace/require/side-effect) */
+  imported: string;
+  local: string | null;
+}
+
+interface ReExport {
+  specifier: string;
+  /** Imported name, or '*' for `export *` / `export * as ns` */
+  imported: string;
+  /** Exported name, or '*' for `export *` */
+  exported: string;
+}
+
+interface ModuleInfo {
+  statements: TopLevelStatement[];
+  imports: ImportBinding[];
+  reExports: ReExport[];
+  exportedNames: string[];
+}
+
+/**
+ * Calculate per-symbol blast radius for a changed file
+ *
+ * Returns null when symbols cannot be determined (no diff ranges, TypeScript
+ * unavailable, or a file type the AST engine cannot parse).
+ */
+export function calculateSymbolBlastRadius(
+  rootPath: string,
+  filePath: string,
+  ranges: ChangedRange[] | undefined,
+  graph: DependencyGraph,
+  readFile: RepoFileReader = (file) => fs.readFileSync(path.join(rootPath, file), 'utf-8'),
+): SymbolBlastRadius[] | null {
+  if (!ranges || ranges.length === 0 || !getTypeScript()) return null;
+
+  const cache = new Map<string, ModuleInfo | null>();
+  const load = (file: string): ModuleInfo | null => {
+    if (!cache.has(file)) {
+      let info: ModuleInfo | null = null;
+      try {
+        const content = readFile(file);
+        info = content === null ? null : parseModule(content, file);
+      } catch {
+        // Unreadable files are treated as depending on everything
+      }
+      cache.set(file, info);
+    }
+    return cache.get(file)!;
+  };
+
+  const normalizedPath = filePath.replace(/\\/g, '/');
+  const info = load(normalizedPath);
+  if (!info) return null;
+
+  const touched = getTouchedExports(info, ranges);
+  const symbols = touched === '*' ? ['*'] : [...touched].sort();
+
+  return symbols.map((symbol) => {
+    const exports: TouchedExports = symbol === '*' ? '*' : new Set([symbol]);
+    const { direct, indirect } = followSymbol(normalizedPath, exports, graph, load);
+    return {
+      symbol,
+      directDependents: [...direct].sort(),
+      indirectDependents: [...indirect].filter((f) => !direct.has(f)).sort(),
+    };
+  });
+}
+
+/**
+ * Every file affected by any of the symbols
+ */
+export function getSymbolDependents(symbols: SymbolBlastRadius[]): string[] {
+  const files = new Set<string>();
+  for (const symbol of symbols) {
+    symbol.directDependents.forEach((f) => files.add(f));
+    symbol.indirectDependents.forEach((f) => files.add(f));
+  }
+  return [...files].sort();
+}
+
+/**
+ * Find exports touched by changed line ranges
+ */
+function getTouchedExports(info: ModuleInfo, ranges: ChangedRange[]): TouchedExports {
+  const touchedStatements = new Set<TopLevelStatement>();
+
+  for (const range of ranges) {
+    // Pure deletions are a zero-width range before startLine
+    const isDeletion = range.endLine < range.startLine;
+    const hits = info.statements.filter((s) =>
+      isDeletion
+        ? s.startLine < range.startLine && s.endLine >= range.startLine
+        : s.startLine <= range.endLine && s.endLine >= range.startLine,
+    );
+
+    // A removed statement could have been an export
+    if (isDeletion && hits.length === 0) return '*';
+
+    for (const statement of hits) {
+      if (!statement.isDeclaration) return '*';
+      touchedStatements.add(statement);
+    }
+  }
+
+  const exported = new Set<string>();
+  const locals = new Set<string>();
+
+  for (const statement of touchedStatements) {
+    statement.exported.forEach((n) => exported.add(n));
+    statement.names.forEach((n) => locals.add(n));
+    statement.importedLocals.forEach((n) => locals.add(n));
+    statement.exportList.forEach((e) => exported.add(e.exported));
+    for (const re of statement.reExports) {
+      if (re.exported === '*') return '*';
+      exported.add(re.exported);
+    }
+  }
+
+  const fromLocals = propagateLocals(info, locals);
+  if (fromLocals === '*') return '*';
+  fromLocals.forEach((n) => exported.add(n));
+  return exported;
+}
+
+/**
+ * Find exports affected by changed local bindings (following in-module references)
+ */
+function propagateLocals(info: ModuleInfo, locals: Set<string>): TouchedExports {
+  const touched = new Set(locals);
+  const affected = new Set<TopLevelStatement>();
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const statement of info.statements) {
+      if (affected.has(statement)) continue;
+      const declaresTouched = statement.names.some((n) => touched.has(n));
+      const refsTouched = [...statement.refs].some((r) => touched.has(r));
+      if (!declaresTouched && !refsTouched) continue;
+
+      affected.add(statement);
+      changed = true;
+      statement.names.forEach((n) => touched.add(n));
+    }
+  }
+
+  const exported = new Set<string>();
+  for (const statement of affected) {
+    statement.exported.forEach((n) => exported.add(n));
+    for (const entry of statement.exportList) {
+      if (touched.has(entry.local)) exported.add(entry.exported);
+    }
+  }
+
+  // CommonJS modules export through side-effect statements
+  if (
+    touched.size > 0 &&
+    info.exportedNames.length === 0 &&
+    [...affected].some((s) => !s.isDeclaration)
+  ) {
+    return '*';
+  }
+
+  return exported;
+}
+
+/**
+ * Follow touched exports of a file through its importers
+ */
+function followSymbol(
+  filePath: string,
+  exports: TouchedExports,
+  graph: DependencyGraph,
+  load: (file: string) => ModuleInfo | null,
+): { direct: Set<string>; indirect: Set<string> } {
+  const direct = new Set<string>();
+  const indirect = new Set<string>();
+  const visited = new Set<string>();
+  const queue: Array<{ file: string; exports: TouchedExports; hops: number }> = [
+    { file: filePath, exports, hops: 0 },
+  ];
+
+  const visitKey = (file: string, names: TouchedExports) =>
+    names === '*' ? [`${file}#*`] : [...names].map((n) => `${file}#${n}`);
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const keys = visitKey(current.file, current.exports).filter((k) => !visited.has(k));
+    if (keys.length === 0) continue;
+    keys.forEach((k) => visited.add(k));
+
+    for (const importer of graph.dependents.get(current.file) || []) {
+      if (importer === filePath) continue;
+
+      const usage = getUsage(importer, current.file, current.exports, graph, load);
+
+      if (usage.usedLocals !== null) {
+        (current.hops === 0 ? direct : indirect).add(importer);
+
+        const info = load(importer);
+        const affected: TouchedExports =
+          info && !usage.opaque ? propagateLocals(info, usage.usedLocals) : '*';
+        if (affected === '*' || affected.size > 0) {
+          queue.push({ file: importer, exports: affected, hops: current.hops + 1 });
+        }
+      }
+
+      if (usage.forwarded === '*' || usage.forwarded.size > 0) {
+        queue.push({ file: importer, exports: usage.forwarded, hops: current.hops });
+      }
+    }
+  }
+
+  return { direct, indirect };
+}
+
+/**
+ * How an importer uses touched exports of a module
+ *
+ * usedLocals is null when the importer binds none of them; forwarded are the
+ * importer's own exports that re-export them. Opaque usage (require, side-effect
+ * imports) affects every export of the importer.
+ */
+function getUsage(
+  importer: string,
+  target: string,
+  exports: TouchedExports,
+  graph: DependencyGraph,
+  load: (file: string) => ModuleInfo | null,
+): { usedLocals: Set<string> | null; forwarded: TouchedExports; opaque: boolean } {
+  const info = load(importer);
+  const resolved = graph.resolved?.get(importer);
+  if (!info || !resolved) {
+    return { usedLocals: new Set(), forwarded: '*', opaque: true };
+  }
+
+  const fromTarget = (specifier: string) => resolved.get(specifier) === target;
+  const matches = (imported: string) =>
+    imported === '*' || exports === '*' || exports.has(imported);
+  const hasTouched = exports === '*' || exports.size > 0;
+
+  let usedLocals: Set<string> | null = null;
+  let opaque = false;
+  for (const binding of info.imports) {
+    if (!fromTarget(binding.specifier) || !matches(binding.imported) || !hasTouched) continue;
+    usedLocals = usedLocals || new Set();
+    if (binding.local) {
+      usedLocals.add(binding.local);
+    } else {
+      opaque = true;
+    }
+  }
+
+  let forwarded: TouchedExports = new Set();
+  for (const re of info.reExports) {
+    if (!fromTarget(re.specifier)) continue;
+
+    if (re.exported === '*') {
+      // `export *` forwards everything except the default export
+      if (exports === '*') {
+        forwarded = '*';
+      } else if (forwarded !== '*') {
+        for (const name of exports) {
+          if (name !== 'default') forwarded.add(name);
+        }
+      }
+    } else if (matches(re.imported) && hasTouched && forwarded !== '*') {
+      forwarded.add(re.exported);
+    }
+  }
+
+  // The graph links the files but no binding was recognised: assume it depends on everything
+  const linked =
+    info.imports.some((b) => fromTarget(b.specifier)) ||
+    info.reExports.some((r) => fromTarget(r.specifier));
+  if (!linked) {
+    return { usedLocals: new Set(), forwarded: '*', opaque: true };
+  }
+
+  return { usedLocals, forwarded, opaque };
+}
+
+/**
+ * Collect top-level statements, imports and exports of a module
+ */
+function parseModule(content: string, filePath: string): ModuleInfo | null {
+  const ts = getTypeScript();
+  const sourceFile = parseSource(content, filePath);
+  if (!ts || !sourceFile) return null;
+
+  const statements: TopLevelStatement[] = [];
+  const imports: ImportBinding[] = [];
+  const reExports: ReExport[] = [];
+  const exportedNames: string[] = [];
+
+  const lineOf = (pos: number) => sourceFile.getLineAndCharacterOfPosition(pos).line + 1;
+
+  for (const node of sourceFile.statements) {
+    const statement: TopLevelStatement = {
+      startLine: lineOf(node.getStart(sourceFile)),
+      endLine: lineOf(node.end),
+      names: [],
+      exported: [],
+      refs: collectIdentifiers(ts, node),
+      importedLocals: [],
+      exportList: [],
+      reExports: [],
+      isDeclaration: true,
+    };
+
+    const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) || [] : [];
+    const isExported = modifiers.some((m) => m.kind === ts.SyntaxKind.ExportKeyword);
+    const isDefault = modifiers.some((m) => m.kind === ts.SyntaxKind.DefaultKeyword);
+
+    if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+      const specifier = node.moduleSpecifier.text;
+      const clause = node.importClause;
+      const bindings: ImportBinding[] = [];
+      statement.refs.clear();
+
+      if (!clause) {
+        bindings.push({ specifier, imported: '*', local: null });
+      } else {
+        if (clause.name) {
+          bindings.push({ specifier, imported: 'default', local: clause.name.text });
+        }
+        const named = clause.namedBindings;
+        if (named && ts.isNamespaceImport(named)) {
+          bindings.push({ specifier, imported: '*', local: named.name.text });
+        } else if (named) {
+          for (const element of named.elements) {
+            bindings.push({
+              specifier,
+              imported: (element.propertyName || element.name).text,
+              local: element.name.text,
+            });
+          }
+        }
+      }
+      imports.push(...bindings);
+      statement.importedLocals = bindings.filter((b) => b.local).map((b) => b.local!);
+    } else if (ts.isImportEqualsDeclaration(node)) {
+      const reference = node.moduleReference;
+      if (
+        ts.isExternalModuleReference(reference) &&
+        ts.isStringLiteral(reference.expression)
+      ) {
+        imports.push({
+          specifier: reference.expression.text,
+          imported: '*',
+          local: node.name.text,
+        });
+        statement.importedLocals = [node.name.text];
+      } else {
+        statement.names = [node.name.text];
+      }
+    } else if (ts.isExportDeclaration(node)) {
+      statement.refs.clear();
+      const specifier =
+        node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)
+          ? node.moduleSpecifier.text
+          : null;
+      const clause = node.exportClause;
+
+      if (specifier) {
+        if (!clause) {
+          statement.reExports.push({ specifier, imported: '*', exported: '*' });
+        } else if (ts.isNamespaceExport(clause)) {
+          statement.reExports.push({ specifier, imported: '*', exported: clause.name.text });
+        } else {
+          for (const element of clause.elements) {
+            statement.reExports.push({
+              specifier,
+              imported: (element.propertyName || element.name).text,
+              exported: element.name.text,
+            });
+          }
+        }
+        reExports.push(...statement.reExports);
+      } else if (clause && ts.isNamedExports(clause)) {
+        for (const element of clause.elements) {
+          statement.exportList.push({
+            local: (element.propertyName || element.name).text,
+            exported: element.name.text,
+          });
+        }
+      }
+    } else if (ts.isExportAssignment(node)) {
+      statement.exported = ['default'];
+      if (ts.isIdentifier(node.expression)) {
+        statement.exportList.push({ local: node.expression.text, exported: 'default' });
+      }
+    } else if (ts.isVariableStatement(node)) {
+      for (const declaration of node.declarationList.declarations) {
+        statement.names.push(...collectBindingNames(ts, declaration.name));
+      }
+      if (isExported) statement.exported = [...statement.names];
+    } else if (
+      (ts.isFunctionDeclaration(node) ||
+        ts.isClassDeclaration(node) ||
+        ts.isInterfaceDeclaration(node) ||
+        ts.isTypeAliasDeclaration(node) ||
+        ts.isEnumDeclaration(node) ||
+        ts.isModuleDeclaration(node)) &&
+      node.name &&
+      (ts.isIdentifier(node.name) || ts.isStringLiteral(node.name))
+    ) {
+      statement.names = [node.name.text];
+      if (isExported) statement.exported = [isDefault ? 'default' : node.name.text];
+    } else if (ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node)) {
+      // Anonymous `export default function () {}`
+      if (isExported) statement.exported = ['default'];
+    } else {
+      statement.isDeclaration = false;
+    }
+
+    // require() and import() anywhere in the statement bind the whole module
+    for (const specifier of collectRequires(ts, node)) {
+      imports.push({ specifier, imported: '*', local: null });
+    }
+
+    exportedNames.push(...statement.exported, ...statement.exportList.map((e) => e.exported));
+    statements.push(statement);
+  }
+
+  return { statements, imports, reExports, exportedNames };
+}
+
+function collectIdentifiers(ts: typeof TS, node: TS.Node): Set<string> {
+  const identifiers = new Set<string>();
+  const visit = (child: TS.Node): void => {
+    if (ts.isIdentifier(child)) identifiers.add(child.text);
+    ts.forEachChild(child, visit);
+  };
+  visit(node);
+  return identifiers;
+}
+
+function collectBindingNames(ts: typeof TS, name: TS.BindingName): string[] {
+  if (ts.isIdentifier(name)) return [name.text];
+  const names: string[] = [];
+  for (const element of name.elements) {
+    if (!ts.isOmittedExpression(element)) {
+      names.push(...collectBindingNames(ts, element.name));
+    }
+  }
+  return names;
+}
+
+function collectRequires(ts: typeof TS, node: TS.Node): string[] {
+  const specifiers: string[] = [];
+  const visit = (child: TS.Node): void => {
+    if (
+      ts.isCallExpression(child) &&
+      child.arguments.length > 0 &&
+      ts.isStringLiteralLike(child.arguments[0]) &&
+      ((ts.isIdentifier(child.expression) && child.expression.text === 'require') ||
+        child.expression.kind === ts.SyntaxKind.ImportKeyword)
+    ) {
+      specifiers.push(child.arguments[0].text);
+    }
+    ts.forEachChild(child, visit);
+  };
+  visit(node);
+  return specifiers;
+}
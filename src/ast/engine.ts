@@ -0,0 +1,373 @@
+/**
+ * AST Query Engine
+ *
+ * Parses JavaScript/TypeScript with the TypeScript compiler API and matches
+ * nodes against selectors (see ./selector). TypeScript is loaded lazily, so
+ * line-based detection keeps working when it cannot be resolved.
+ */
+
+import type * as TS from 'typescript';
+import { parseSelector, ComplexSelector, CompoundSelector, AttributeSelector } from './selector';
+
+export type AstNode = TS.Node;
+export type AstSourceFile = TS.SourceFile;
+
+/**
+ * Node position (1-based lines and columns, end is exclusive)
+ */
+export interface AstRange {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+}
+
+export interface AstMatch {
+  node: AstNode;
+  /** SyntaxKind name of the node */
+  kind: string;
+  /** Source text of the node */
+  text: string;
+  range: AstRange;
+}
+
+/** Query languages accepted by AST detection methods */
+export const SUPPORTED_QUERY_LANGUAGES = ['tsquery'];
+
+const PARSEABLE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+let tsModule: typeof TS | null | undefined;
+
+function loadTypeScript(): typeof TS | null {
+  if (tsModule === undefined) {
+    try {
+      tsModule = require('typescript') as typeof TS;
+    } catch {
+      tsModule = null;
+    }
+  }
+  return tsModule;
+}
+
+/**
+ * Get the lazily loaded TypeScript module (null when it cannot be resolved)
+ */
+export function getTypeScript(): typeof TS | null {
+  return loadTypeScript();
+}
+
+/**
+ * Check if the AST engine can run (TypeScript is resolvable)
+ */
+export function isAstAvailable(): boolean {
+  return loadTypeScript() !== null;
+}
+
+/**
+ * Check if a file can be parsed by the AST engine
+ */
+export function isAstParseable(filePath: string): boolean {
+  return PARSEABLE_EXTENSIONS.some((ext) => filePath.endsWith(ext));
+}
+
+/**
+ * Parse source into a TypeScript AST with parent pointers
+ *
+ * Returns null when TypeScript is unavailable or the file type is not supported.
+ */
+export function parseSource(content: string, filePath: string): AstSourceFile | null {
+  const ts = loadTypeScript();
+  if (!ts || !isAstParseable(filePath)) return null;
+
+  return ts.createSourceFile(
+    filePath,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    getScriptKind(ts, filePath),
+  );
+}
+
+function getScriptKind(ts: typeof TS, filePath: string): TS.ScriptKind {
+  if (filePath.endsWith('.tsx')) return ts.ScriptKind.TSX;
+  if (filePath.endsWith('.jsx')) return ts.ScriptKind.JSX;
+  if (/\.[mc]?js$/.test(filePath)) return ts.ScriptKind.JS;
+  return ts.ScriptKind.TS;
+}
+
+const selectorCache = new Map<string, ComplexSelector[]>();
+
+/**
+ * Parse and validate a selector (cached)
+ *
+ * Throws when the selector is malformed or names an unknown node kind.
+ */
+export function compileSelector(selector: string): ComplexSelector[] {
+  let compiled = selectorCache.get(selector);
+  if (!compiled) {
+    compiled = parseSelector(selector);
+    const ts = loadTypeScript();
+    if (ts) {
+      forEachCompound(compiled, (compound) => {
+        if (compound.kind && getKindNames(ts).byName.get(compound.kind) === undefined) {
+          throw new Error(`Invalid selector "${selector}": unknown node kind "${compound.kind}"`);
+        }
+      });
+    }
+    selectorCache.set(selector, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * Find all nodes in a source file matching a selector, in document order
+ */
+export function querySource(sourceFile: AstSourceFile, selector: string): AstMatch[] {
+  const ts = loadTypeScript();
+  if (!ts) return [];
+
+  const selectors = compileSelector(selector);
+  const matcher = new Matcher(ts, sourceFile);
+  const matches: AstMatch[] = [];
+
+  const visit = (node: TS.Node): void => {
+    if (selectors.some((s) => matcher.matches(node, s))) {
+      matches.push(toMatch(ts, sourceFile, node));
+    }
+    ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(sourceFile, visit);
+
+  return matches;
+}
+
+/**
+ * Parse source and query it in one step
+ */
+export function queryAst(content: string, filePath: string, selector: string): AstMatch[] {
+  const sourceFile = parseSource(content, filePath);
+  return sourceFile ? querySource(sourceFile, selector) : [];
+}
+
+/**
+ * Get the SyntaxKind name of a node
+ */
+export function getNodeKindName(node: AstNode): string {
+  const ts = loadTypeScript();
+  return ts ? getKindNames(ts).byKind.get(node.kind) || String(node.kind) : String(node.kind);
+}
+
+/**
+ * Get the 1-based range of a node
+ */
+export function getNodeRange(node: AstNode, sourceFile: AstSourceFile): AstRange {
+  const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+  const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+  return {
+    startLine: start.line + 1,
+    startColumn: start.character + 1,
+    endLine: end.line + 1,
+    endColumn: end.character + 1,
+  };
+}
+
+function toMatch(ts: typeof TS, sourceFile: TS.SourceFile, node: TS.Node): AstMatch {
+  return {
+    node,
+    kind: getKindNames(ts).byKind.get(node.kind) || String(node.kind),
+    text: node.getText(sourceFile),
+    range: getNodeRange(node, sourceFile),
+  };
+}
+
+interface KindNames {
+  byName: Map<string, number>;
+  byKind: Map<number, string>;
+}
+
+let kindNames: KindNames | undefined;
+
+/**
+ * SyntaxKind has marker aliases (FirstStatement, LastToken, ...) that share
+ * values with real kinds; prefer the real names when naming nodes.
+ */
+function getKindNames(ts: typeof TS): KindNames {
+  if (!kindNames) {
+    const byName = new Map<string, number>();
+    const byKind = new Map<number, string>();
+
+    for (const [name, value] of Object.entries(ts.SyntaxKind)) {
+      if (typeof value !== 'number') continue;
+      byName.set(name, value);
+      const isMarker = /^(First|Last)[A-Z]/.test(name);
+      if (!byKind.has(value) || (!isMarker && /^(First|Last)[A-Z]/.test(byKind.get(value)!))) {
+        byKind.set(value, name);
+      }
+    }
+
+    kindNames = { byName, byKind };
+  }
+  return kindNames;
+}
+
+function forEachCompound(
+  selectors: ComplexSelector[],
+  callback: (compound: CompoundSelector) => void,
+): void {
+  for (const selector of selectors) {
+    for (const step of selector.steps) {
+      callback(step.compound);
+      for (const pseudo of step.compound.pseudos) {
+        forEachCompound(pseudo.selectors, callback);
+      }
+    }
+  }
+}
+
+class Matcher {
+  constructor(
+    private readonly ts: typeof TS,
+    private readonly sourceFile: TS.SourceFile,
+  ) {}
+
+  matches(node: TS.Node, selector: ComplexSelector, scope?: TS.Node): boolean {
+    return this.matchStep(node, selector, selector.steps.length - 1, scope);
+  }
+
+  /**
+   * Match right-to-left: the node must match the step, and its ancestors
+   * the preceding steps. Inside :has() ancestors are bounded by the scope node.
+   */
+  private matchStep(
+    node: TS.Node,
+    selector: ComplexSelector,
+    index: number,
+    scope?: TS.Node,
+  ): boolean {
+    const step = selector.steps[index];
+    if (!this.matchCompound(node, step.compound)) return false;
+
+    if (index === 0) {
+      if (!scope) return true;
+      return step.combinator === 'child' ? node.parent === scope : isDescendantOf(node, scope);
+    }
+
+    if (step.combinator === 'child') {
+      const parent = node.parent;
+      return !!parent && parent !== scope && this.matchStep(parent, selector, index - 1, scope);
+    }
+
+    for (let ancestor = node.parent; ancestor && ancestor !== scope; ancestor = ancestor.parent) {
+      if (this.matchStep(ancestor, selector, index - 1, scope)) return true;
+    }
+    return false;
+  }
+
+  private matchCompound(node: TS.Node, compound: CompoundSelector): boolean {
+    if (compound.kind && getKindNames(this.ts).byName.get(compound.kind) !== node.kind) {
+      return false;
+    }
+
+    if (!compound.attributes.every((attr) => this.matchAttribute(node, attr))) {
+      return false;
+    }
+
+    for (const pseudo of compound.pseudos) {
+      if (pseudo.type === 'not') {
+        if (pseudo.selectors.some((s) => this.matches(node, s))) return false;
+      } else if (!this.hasDescendant(node, pseudo.selectors)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private hasDescendant(scope: TS.Node, selectors: ComplexSelector[]): boolean {
+    let found = false;
+    const visit = (child: TS.Node): void => {
+      if (found) return;
+      if (selectors.some((s) => this.matches(child, s, scope))) {
+        found = true;
+        return;
+      }
+      this.ts.forEachChild(child, visit);
+    };
+    this.ts.forEachChild(scope, visit);
+    return found;
+  }
+
+  private matchAttribute(node: TS.Node, attr: AttributeSelector): boolean {
+    const value = this.resolvePath(node, attr.path);
+
+    if (!attr.operator || !attr.value) {
+      return value !== undefined && value !== null;
+    }
+
+    const equal = this.compare(value, attr.value);
+    return attr.operator === '=' ? equal : !equal;
+  }
+
+  private compare(value: unknown, expected: NonNullable<AttributeSelector['value']>): boolean {
+    if (value === undefined || value === null) return false;
+
+    switch (expected.type) {
+      case 'number':
+        return Number(value) === expected.value;
+      case 'boolean':
+        return Boolean(value) === expected.value;
+      case 'regex':
+        return expected.value.test(this.toText(value));
+      default:
+        return this.toText(value) === expected.value;
+    }
+  }
+
+  /**
+   * Resolve a property path on a node. `kind` yields the kind name, and a
+   * trailing `text` falls back to the node's source text (so
+   * `expression.text` works for `React.useEffect` as well as `useEffect`).
+   */
+  private resolvePath(node: TS.Node, path: string[]): unknown {
+    let current: unknown = node;
+
+    for (let i = 0; i < path.length; i++) {
+      const segment = path[i];
+      if (current === undefined || current === null) return undefined;
+
+      if (segment === 'kind' && isNode(current)) {
+        current = getKindNames(this.ts).byKind.get(current.kind);
+        continue;
+      }
+
+      const next = (current as Record<string, unknown>)[segment];
+      if (next === undefined && segment === 'text' && isNode(current)) {
+        current = current.getText(this.sourceFile);
+      } else {
+        current = next;
+      }
+    }
+
+    return current;
+  }
+
+  private toText(value: unknown): string {
+    return isNode(value) ? value.getText(this.sourceFile) : String(value);
+  }
+}
+
+function isNode(value: unknown): value is TS.Node {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as TS.Node).kind === 'number' &&
+    typeof (value as TS.Node).getText === 'function'
+  );
+}
+
+function isDescendantOf(node: TS.Node, ancestor: TS.Node): boolean {
+  for (let current = node.parent; current; current = current.parent) {
+    if (current === ancestor) return true;
+  }
+  return false;
+}
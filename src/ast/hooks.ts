@@ -0,0 +1,201 @@
+/**
+ * React Hook Analysis (AST)
+ *
+ * Structural checks for React hooks that line-based detection cannot do
+ * reliably, built on the AST query engine.
+ */
+
+import type * as TS from 'typescript';
+import { AstSourceFile, AstRange, querySource, getNodeRange, getTypeScript } from './engine';
+
+export interface MissingEffectDependencies {
+  /** Hook name as called (useEffect, React.useLayoutEffect, ...) */
+  hook: string;
+  /** Identifiers referenced in the effect but absent from the dependency array */
+  missing: string[];
+  range: AstRange;
+}
+
+/** Effects with an explicit dependency array */
+const EFFECT_SELECTOR =
+  'CallExpression[expression.text=/^(React\\.)?use(Layout)?Effect$/][arguments.length=2]';
+
+/** Hooks whose results are stable between renders */
+const STABLE_HOOK_RESULTS = /^(React\.)?use(Ref|EffectEvent)$/;
+const STATE_HOOKS = /^(React\.)?use(State|Reducer|Transition)$/;
+
+/**
+ * Find effects whose dependency array omits props, state or locals of the
+ * enclosing component that the effect callback reads.
+ *
+ * Mirrors the core of react-hooks/exhaustive-deps: setters from useState and
+ * useReducer and refs from useRef are treated as stable.
+ */
+export function findMissingEffectDependencies(
+  sourceFile: AstSourceFile,
+): MissingEffectDependencies[] {
+  const ts = getTypeScript();
+  if (!ts) return [];
+
+  const results: MissingEffectDependencies[] = [];
+
+  for (const match of querySource(sourceFile, EFFECT_SELECTOR)) {
+    const call = match.node as TS.CallExpression;
+    const [callback, deps] = call.arguments;
+
+    if (!ts.isArrowFunction(callback) && !ts.isFunctionExpression(callback)) continue;
+    if (!ts.isArrayLiteralExpression(deps)) continue;
+
+    const component = findEnclosingFunction(ts, call);
+    if (!component) continue;
+
+    const reactive = collectReactiveNames(ts, component, sourceFile);
+    const declaredInEffect = collectDeclaredNames(ts, callback);
+    const listed = new Set(deps.elements.map((e) => getRootIdentifier(ts, e)).filter(Boolean));
+
+    const missing = new Set<string>();
+    const visit = (node: TS.Node): void => {
+      if (ts.isIdentifier(node) && isValueReference(ts, node)) {
+        const name = node.text;
+        if (reactive.has(name) && !declaredInEffect.has(name) && !listed.has(name)) {
+          missing.add(name);
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(callback.body);
+
+    if (missing.size > 0) {
+      results.push({
+        hook: call.expression.getText(sourceFile),
+        missing: [...missing],
+        range: getNodeRange(call, sourceFile),
+      });
+    }
+  }
+
+  return results;
+}
+
+function findEnclosingFunction(ts: typeof TS, node: TS.Node): TS.FunctionLikeDeclaration | null {
+  for (let current = node.parent; current; current = current.parent) {
+    if (
+      ts.isFunctionDeclaration(current) ||
+      ts.isFunctionExpression(current) ||
+      ts.isArrowFunction(current)
+    ) {
+      return current;
+    }
+  }
+  return null;
+}
+
+/**
+ * Names of parameters and body-level declarations of a component, minus
+ * values that are stable across renders
+ */
+function collectReactiveNames(
+  ts: typeof TS,
+  component: TS.FunctionLikeDeclaration,
+  sourceFile: TS.SourceFile,
+): Set<string> {
+  const names = new Set<string>();
+
+  for (const param of component.parameters) {
+    addBindingNames(ts, param.name, names);
+  }
+
+  const visit = (node: TS.Node): void => {
+    if (ts.isFunctionDeclaration(node)) {
+      if (node.name) names.add(node.name.text);
+      return;
+    }
+    if (ts.isFunctionLike(node)) return;
+
+    if (ts.isVariableDeclaration(node)) {
+      const hook = getCalledHook(ts, node.initializer, sourceFile);
+
+      if (hook && STABLE_HOOK_RESULTS.test(hook)) {
+        // refs are stable
+      } else if (hook && STATE_HOOKS.test(hook) && ts.isArrayBindingPattern(node.name)) {
+        const [value] = node.name.elements;
+        if (value && ts.isBindingElement(value)) addBindingNames(ts, value.name, names);
+      } else {
+        addBindingNames(ts, node.name, names);
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  if (component.body) {
+    ts.forEachChild(component.body, visit);
+  }
+
+  return names;
+}
+
+function collectDeclaredNames(ts: typeof TS, root: TS.Node): Set<string> {
+  const names = new Set<string>();
+
+  const visit = (node: TS.Node): void => {
+    if (ts.isVariableDeclaration(node) || ts.isParameter(node)) {
+      addBindingNames(ts, node.name, names);
+    } else if (ts.isFunctionDeclaration(node) && node.name) {
+      names.add(node.name.text);
+    }
+    ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(root, visit);
+
+  return names;
+}
+
+function addBindingNames(ts: typeof TS, name: TS.BindingName, names: Set<string>): void {
+  if (ts.isIdentifier(name)) {
+    names.add(name.text);
+    return;
+  }
+  for (const element of name.elements) {
+    if (ts.isBindingElement(element)) addBindingNames(ts, element.name, names);
+  }
+}
+
+function getCalledHook(
+  ts: typeof TS,
+  initializer: TS.Expression | undefined,
+  sourceFile: TS.SourceFile,
+): string | null {
+  if (!initializer || !ts.isCallExpression(initializer)) return null;
+  return initializer.expression.getText(sourceFile);
+}
+
+/**
+ * `props.user.id` → `props`; anything that is not a plain access chain → null
+ */
+function getRootIdentifier(ts: typeof TS, node: TS.Node): string | null {
+  let current = node;
+  while (ts.isPropertyAccessExpression(current) || ts.isNonNullExpression(current)) {
+    current = current.expression;
+  }
+  return ts.isIdentifier(current) ? current.text : null;
+}
+
+/**
+ * Exclude identifiers that are property names, object keys or declarations
+ */
+function isValueReference(ts: typeof TS, node: TS.Identifier): boolean {
+  const parent = node.parent;
+  if (!parent) return true;
+  if (ts.isPropertyAccessExpression(parent) && parent.name === node) return false;
+  if (ts.isPropertyAssignment(parent) && parent.name === node) return false;
+  if (ts.isBindingElement(parent) && parent.propertyName === node) return false;
+  if (
+    (ts.isVariableDeclaration(parent) || ts.isParameter(parent) || ts.isBindingElement(parent)) &&
+    parent.name === node
+  ) {
+    return false;
+  }
+  if (ts.isJsxAttribute(parent) || ts.isQualifiedName(parent)) return false;
+  return true;
+}
@@ -0,0 +1,34 @@
+/**
+ * AST Module Index
+ *
+ */
+
+export {
+  AstNode,
+  AstSourceFile,
+  AstRange,
+  AstMatch,
+  SUPPORTED_QUERY_LANGUAGES,
+  getTypeScript,
+  isAstAvailable,
+  isAstParseable,
+  parseSource,
+  compileSelector,
+  querySource,
+  queryAst,
+  getNodeKindName,
+  getNodeRange,
+} from './engine';
+
+export {
+  Combinator,
+  AttributeValue,
+  AttributeSelector,
+  PseudoSelector,
+  CompoundSelector,
+  SelectorStep,
+  ComplexSelector,
+  parseSelector,
+} from './selector';
+
+export { MissingEffectDependencies, findMissingEffectDependencies } from './hooks';
@@ -0,0 +1,310 @@
+/**
+ * AST Selector Parser
+ *
+ * Parses the selector language used by AST detection methods. The syntax
+ * follows esquery/tsquery, with node kinds named after TypeScript SyntaxKind:
+ *
+ * - `CallExpression`, `*`                       node kind / any node
+ * - `[expression.text="useEffect"]`             attribute equals string
+ * - `[arguments.length=2]`, `[async=true]`      number / boolean literal
+ * - `[name.text=/^use[A-Z]/i]`                  attribute matches regex
+ * - `[name.text!="x"]`, `[initializer]`         not-equal / attribute exists
+ * - `A B`, `A > B`                              descendant / child combinators
+ * - `:has(Identifier)`, `:has(> Block)`         has (relative) descendant
+ * - `:not(ArrowFunction)`                       negation
+ * - `A, B`                                      selector list
+ */
+
+export type Combinator = 'descendant' | 'child';
+
+export type AttributeValue =
+  | { type: 'string'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'regex'; value: RegExp };
+
+export interface AttributeSelector {
+  /** Property path on the node, e.g. ['expression', 'text'] */
+  path: string[];
+  /** Omitted for existence checks */
+  operator?: '=' | '!=';
+  value?: AttributeValue;
+}
+
+export type PseudoSelector =
+  | { type: 'has'; selectors: ComplexSelector[] }
+  | { type: 'not'; selectors: ComplexSelector[] };
+
+export interface CompoundSelector {
+  /** SyntaxKind name, or undefined for `*` / kind-less compounds */
+  kind?: string;
+  attributes: AttributeSelector[];
+  pseudos: PseudoSelector[];
+}
+
+export interface SelectorStep {
+  compound: CompoundSelector;
+  /**
+   * Relation to the previous step. On the first step it is only set for
+   * relative selectors inside `:has()` and relates to the scope node.
+   */
+  combinator?: Combinator;
+}
+
+export interface ComplexSelector {
+  steps: SelectorStep[];
+}
+
+/**
+ * Parse a selector string into a list of complex selectors
+ *
+ * Throws on syntax errors, with the offending position in the message.
+ */
+export function parseSelector(source: string): ComplexSelector[] {
+  const parser = new SelectorParser(source);
+  const selectors = parser.parseList(false);
+  parser.expectEnd();
+  return selectors;
+}
+
+class SelectorParser {
+  private pos = 0;
+
+  constructor(private readonly source: string) {}
+
+  parseList(relative: boolean): ComplexSelector[] {
+    const selectors: ComplexSelector[] = [this.parseComplex(relative)];
+
+    this.skipWhitespace();
+    while (this.peek() === ',') {
+      this.pos++;
+      selectors.push(this.parseComplex(relative));
+      this.skipWhitespace();
+    }
+
+    return selectors;
+  }
+
+  expectEnd(): void {
+    this.skipWhitespace();
+    if (this.pos < this.source.length) {
+      this.fail(`unexpected "${this.peek()}"`);
+    }
+  }
+
+  private parseComplex(relative: boolean): ComplexSelector {
+    const steps: SelectorStep[] = [];
+
+    this.skipWhitespace();
+    let combinator: Combinator | undefined;
+    if (relative) {
+      combinator = 'descendant';
+      if (this.peek() === '>') {
+        this.pos++;
+        combinator = 'child';
+        this.skipWhitespace();
+      }
+    }
+
+    steps.push({ compound: this.parseCompound(), combinator });
+
+    for (;;) {
+      const hadWhitespace = this.skipWhitespace();
+      const next = this.peek();
+
+      if (next === '>') {
+        this.pos++;
+        this.skipWhitespace();
+        steps.push({ compound: this.parseCompound(), combinator: 'child' });
+      } else if (hadWhitespace && next !== undefined && next !== ',' && next !== ')') {
+        steps.push({ compound: this.parseCompound(), combinator: 'descendant' });
+      } else {
+        break;
+      }
+    }
+
+    return { steps };
+  }
+
+  private parseCompound(): CompoundSelector {
+    const compound: CompoundSelector = { attributes: [], pseudos: [] };
+    const start = this.pos;
+
+    if (this.peek() === '*') {
+      this.pos++;
+    } else if (isIdentStart(this.peek())) {
+      compound.kind = this.readIdentifier();
+    }
+
+    for (;;) {
+      const next = this.peek();
+      if (next === '[') {
+        compound.attributes.push(this.parseAttribute());
+      } else if (next === ':') {
+        compound.pseudos.push(this.parsePseudo());
+      } else {
+        break;
+      }
+    }
+
+    if (this.pos === start) {
+      const next = this.peek();
+      this.fail(next === undefined ? 'unexpected end of selector' : `unexpected "${next}"`);
+    }
+
+    return compound;
+  }
+
+  private parseAttribute(): AttributeSelector {
+    this.expect('[');
+    this.skipWhitespace();
+
+    const path = [this.readPathSegment()];
+    while (this.peek() === '.') {
+      this.pos++;
+      path.push(this.readPathSegment());
+    }
+
+    this.skipWhitespace();
+    const attribute: AttributeSelector = { path };
+
+    if (this.peek() === '=' || this.source.startsWith('!=', this.pos)) {
+      attribute.operator = this.peek() === '=' ? '=' : '!=';
+      this.pos += attribute.operator.length;
+      this.skipWhitespace();
+      attribute.value = this.parseValue();
+      this.skipWhitespace();
+    }
+
+    this.expect(']');
+    return attribute;
+  }
+
+  private parseValue(): AttributeValue {
+    const next = this.peek();
+
+    if (next === '"' || next === "'") {
+      return { type: 'string', value: this.readString(next) };
+    }
+
+    if (next === '/') {
+      return { type: 'regex', value: this.readRegex() };
+    }
+
+    const match = /^-?\d+(\.\d+)?/.exec(this.source.slice(this.pos));
+    if (match) {
+      this.pos += match[0].length;
+      return { type: 'number', value: Number(match[0]) };
+    }
+
+    if (isIdentStart(next)) {
+      const word = this.readIdentifier();
+      if (word === 'true' || word === 'false') {
+        return { type: 'boolean', value: word === 'true' };
+      }
+      return { type: 'string', value: word };
+    }
+
+    return this.fail('expected attribute value');
+  }
+
+  private parsePseudo(): PseudoSelector {
+    this.expect(':');
+    const name = this.readIdentifier();
+
+    if (name !== 'has' && name !== 'not') {
+      this.fail(`unknown pseudo-class ":${name}"`);
+    }
+
+    this.expect('(');
+    const selectors = this.parseList(name === 'has');
+    this.skipWhitespace();
+    this.expect(')');
+
+    return { type: name, selectors };
+  }
+
+  private readIdentifier(): string {
+    const match = /^[A-Za-z_$][\w$-]*/.exec(this.source.slice(this.pos));
+    if (!match) this.fail('expected identifier');
+    this.pos += match![0].length;
+    return match![0];
+  }
+
+  private readPathSegment(): string {
+    const match = /^[\w$]+/.exec(this.source.slice(this.pos));
+    if (!match) this.fail('expected attribute name');
+    this.pos += match![0].length;
+    return match![0];
+  }
+
+  private readString(quote: string): string {
+    this.pos++;
+    let value = '';
+
+    while (this.pos < this.source.length && this.peek() !== quote) {
+      if (this.peek() === '\\') this.pos++;
+      value += this.source[this.pos++];
+    }
+
+    this.expect(quote);
+    return value;
+  }
+
+  private readRegex(): RegExp {
+    this.pos++;
+    let body = '';
+    let inClass = false;
+
+    while (this.pos < this.source.length) {
+      const ch = this.source[this.pos];
+      if (ch === '/' && !inClass) break;
+      if (ch === '[') inClass = true;
+      if (ch === ']') inClass = false;
+      if (ch === '\\') {
+        body += ch + (this.source[this.pos + 1] ?? '');
+        this.pos += 2;
+        continue;
+      }
+      body += ch;
+      this.pos++;
+    }
+
+    this.expect('/');
+    const flags = /^[imsu]*/.exec(this.source.slice(this.pos))![0];
+    this.pos += flags.length;
+
+    try {
+      return new RegExp(body, flags);
+    } catch (error) {
+      return this.fail(`invalid regex /${body}/: ${(error as Error).message}`);
+    }
+  }
+
+  private skipWhitespace(): boolean {
+    const start = this.pos;
+    while (this.pos < this.source.length && /\s/.test(this.source[this.pos])) {
+      this.pos++;
+    }
+    return this.pos > start;
+  }
+
+  private peek(): string | undefined {
+    return this.source[this.pos];
+  }
+
+  private expect(ch: string): void {
+    if (this.peek() !== ch) {
+      this.fail(`expected "${ch}"`);
+    }
+    this.pos++;
+  }
+
+  private fail(message: string): never {
+    throw new Error(`Invalid selector "${this.source}" at position ${this.pos}: ${message}`);
+  }
+}
+
+function isIdentStart(ch: string | undefined): boolean {
+  return ch !== undefined && /[A-Za-z_$]/.test(ch);
+}
@@ -45,6 +45,7 @@ import {
 
 export * from './types';
 export * from './hash';
+export { getGraphIndexPath, readGraphIndex, writeGraphIndex, deleteGraphIndex } from './storage';
 
 /**
  * Analysis cache manager
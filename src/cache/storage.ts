@@ -6,7 +6,14 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { CachedResult, CacheConfig, CacheStats, DEFAULT_CACHE_CONFIG } from './types';
+import {
+  CachedResult,
+  CacheConfig,
+  CacheStats,
+  DEFAULT_CACHE_CONFIG,
+  GraphIndex,
+  GRAPH_INDEX_VERSION,
+} from './types';
 
 /**
  * Ensure cache directory exists
@@ -242,3 +249,69 @@ export function cleanupCache(cacheDir: string, config: CacheConfig = DEFAULT_CAC
 
   return removed;
 }
+
+/**
+ * Get the dependency-graph index path
+ *
+ * Stored in a subdirectory so cache clear/cleanup leave it alone.
+ */
+export function getGraphIndexPath(cacheDir: string): string {
+  return path.join(cacheDir, 'graph', 'index.json');
+}
+
+/**
+ * Read the dependency-graph index
+ *
+ * Returns null if missing, invalid or from another index version.
+ */
+export function readGraphIndex(cacheDir: string): GraphIndex | null {
+  const filePath = getGraphIndexPath(cacheDir);
+
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  try {
+    const index = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as GraphIndex;
+    if (!index || index.version !== GRAPH_INDEX_VERSION || !index.files) {
+      return null;
+    }
+    return index;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write the dependency-graph index
+ */
+export function writeGraphIndex(cacheDir: string, index: GraphIndex): boolean {
+  const filePath = getGraphIndexPath(cacheDir);
+
+  try {
+    ensureCacheDir(path.dirname(filePath));
+    // Compact: the index holds an entry per source file
+    fs.writeFileSync(filePath, JSON.stringify(index), 'utf-8');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Delete the dependency-graph index
+ */
+export function deleteGraphIndex(cacheDir: string): boolean {
+  const filePath = getGraphIndexPath(cacheDir);
+
+  if (!fs.existsSync(filePath)) {
+    return false;
+  }
+
+  try {
+    fs.unlinkSync(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
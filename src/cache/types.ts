@@ -76,6 +76,39 @@ export interface CacheConfig {
   version: number;
 }
 
+/**
+ * Dependency-graph index entry for one file
+ */
+export interface GraphIndexEntry {
+  /** Content hash the specifiers were extracted from */
+  hash: string;
+  /** Module specifiers imported or re-exported by the file */
+  specifiers: string[];
+}
+
+/**
+ * Persistent dependency-graph index
+ */
+export interface GraphIndex {
+  /** Index format version (bump to invalidate) */
+  version: number;
+  /** Commit the index was last synced to (null outside git) */
+  headSha: string | null;
+  /** Files that differed from headSha when synced (rechecked next time) */
+  dirty: string[];
+  /** How specifiers were extracted */
+  extraction: 'ast' | 'regex';
+  /** Last sync timestamp */
+  updatedAt: string;
+  /** Entries keyed by repo-relative path */
+  files: Record<string, GraphIndexEntry>;
+}
+
+/**
+ * Current graph index format version
+ */
+export const GRAPH_INDEX_VERSION = 1;
+
 /**
  * Default cache configuration
  */
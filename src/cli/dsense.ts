@@ -13,20 +13,35 @@ import {
   getGitRoot,
   getRelativePathFromGitRoot,
 } from '../git/diff';
+import { parsePatch } from '../git/patch';
 import { analyze } from '../core/analyze';
-import { formatConsoleOutput } from '../output/formatters/dsConsole';
-import { formatMarkdownOutput } from '../output/formatters/dsMarkdown';
-import { formatJsonOutput } from '../output/formatters/dsJson';
+import { analyzeCommits } from '../core/perCommit';
+import { traceSignal } from '../core/trace';
+import { checkPush } from '../core/prePush';
+import { createWatchSession, watchWorkingTree } from '../core/watch';
+import { startLspServer } from '../lsp/server';
+import { createApiServer } from '../server/api';
+import { installHooks, uninstallHooks, HooksResult } from '../git/hooks';
+import { formatConsoleOutput, formatPerCommitConsoleOutput } from '../output/formatters/dsConsole';
+import {
+  formatMarkdownOutput,
+  formatPerCommitMarkdownOutput,
+} from '../output/formatters/dsMarkdown';
+import { formatJsonOutput, formatPerCommitJsonOutput } from '../output/formatters/dsJson';
+import { formatSarifOutput } from '../output/formatters/dsSarif';
 import { DetectorProfile } from '../signals';
 import { VERSION } from '../version';
 import {
-  PolicyPackName,
   isValidPolicyPack,
   getAvailablePolicyPacks,
   getPolicyPack,
+  PolicyPack,
 } from '../policy/packs';
-import { applyPolicyPack } from '../policy/packs/loader';
-import { createCache, buildCacheKeyComponents } from '../cache';
+import { resolvePolicyPack } from '../policy/packs/custom';
+import { applyPolicyPack, diffPolicyPacks, PolicyPackDifference } from '../policy/packs/loader';
+import { resolveConfig, ResolvedConfig } from '../config';
+import { createCache, buildCacheKeyComponents, deleteGraphIndex } from '../cache';
+import { rebuildGraphIndex, getGraphIndexStats } from '../analyzers/graphIndex';
 import {
   addSuppression,
   removeSuppression,
@@ -43,6 +58,8 @@ program
   .name('dsense')
   .description('DiffeSense - Framework-agnostic JavaScript/TypeScript change-risk engine')
   .version(VERSION)
+  // Subcommands reuse option names like --range and -f, so they must not be parsed as ours
+  .enablePositionalOptions()
   .option(
     '-s, --scope <mode>',
     'Analysis scope: branch|staged|working|commit|range (default: auto-detect)',
@@ -50,19 +67,28 @@ program
   .option('-b, --base <branch>', 'Base branch for comparison')
   .option('-r, --range <range>', 'Git commit range (e.g. HEAD~5..HEAD or abc123..def456)')
   .option('--commit <sha>', 'Analyze specific commit (e.g. HEAD or abc123)')
+  .option('--patch <file>', 'Analyze a unified diff from a file or stdin (-) instead of git')
+  .option('--per-commit', 'With --range, analyze each commit separately')
   .option('-p, --profile <name>', 'Profile: minimal|strict|react|vue|angular|backend')
-  .option('--policy-pack <name>', 'Policy pack: enterprise|startup|oss (default: startup)')
+  .option(
+    '--policy-pack <name>',
+    'Policy pack: enterprise|startup|oss, or path or package of a custom pack (default: startup)',
+  )
   .option(
     '-d, --detector <type>',
     'Detector: auto|generic|react|vue|angular|node|svelte|ssr',
     'auto',
   )
-  .option('-f, --format <type>', 'Output format: console|markdown|json', 'console')
+  .option('-f, --format <type>', 'Output format: console|markdown|json|sarif', 'console')
   .option('-c, --config <path>', 'Path to config file')
   .option('-t, --threshold <n>', 'Override fail threshold (0-10)', parseFloat)
   .option('-n, --top <n>', 'Show top N issues (default: 5)', parseInt)
   .option('--show-all', 'Show all issues (not just top N)')
   .option('--no-blast-radius', 'Skip blast radius calculation (faster)')
+  .option('--history', 'Enrich risk with git history (churn, authors, fix commits)')
+  .option('--introduced-only', 'Score and report only signals the change introduced')
+  .option('--differential', 'Compare signals with the base version (implied by --introduced-only)')
+  .option('--no-differential', 'Do not compare signals with the base version')
   .option('-q, --quiet', 'Only output on issues')
   .option('--all', 'Analyze all files (not just changed)')
   .option('--include-tests', 'Include test files in analysis')
@@ -204,8 +230,8 @@ program
   .command('check')
   .description('Validate config file (alias for: config check)')
   .option('-c, --config <path>', 'Path to config file')
-  .action((options) => {
-    runConfigCheck(options.config);
+  .action(async (options) => {
+    await runConfigCheck(options.config);
   });
 
 const configCmd = program.command('config').description('Configuration management commands');
@@ -214,8 +240,8 @@ configCmd
   .command('check')
   .description('Validate config file')
   .option('-c, --config <path>', 'Path to config file')
-  .action((options) => {
-    runConfigCheck(options.config);
+  .action(async (options) => {
+    await runConfigCheck(options.config);
   });
 
 configCmd
@@ -223,8 +249,13 @@ configCmd
   .description('Print effective configuration')
   .option('-c, --config <path>', 'Path to config file')
   .option('--summary', 'Print short summary instead of full config')
-  .action((options) => {
-    runConfigPrint(options.config, options.summary);
+  .action(async (options) => {
+    try {
+      await runConfigPrint(options.config, options.summary);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(2);
+    }
   });
 
 configCmd
@@ -259,8 +290,121 @@ ciCmd
 program
   .command('doctor')
   .description('Check environment and configuration')
+  .action(async () => {
+    await runDoctor();
+  });
+
+program
+  .command('trace <signalId>')
+  .description('Find the commit of a range that introduced a signal (e.g. sec-eval)')
+  .requiredOption('-r, --range <range>', 'Git commit range to walk (e.g. main..HEAD)')
+  .option('-f, --file <path>', 'Only trace this file (path at the end of the range)')
+  .option(
+    '-d, --detector <type>',
+    'Detector: auto|generic|react|vue|angular|node|svelte|ssr',
+    'auto',
+  )
+  .option('-c, --config <path>', 'Path to config file')
+  .option('--format <type>', 'Output format: console|json', 'console')
+  .action(async (signalId: string, options) => {
+    await runTrace(signalId, options);
+  });
+
+program
+  .command('watch')
+  .description('Re-analyze working tree changes on every save')
+  .option('-p, --profile <name>', 'Profile: minimal|strict|react|vue|angular|backend')
+  .option(
+    '-d, --detector <type>',
+    'Detector: auto|generic|react|vue|angular|node|svelte|ssr',
+    'auto',
+  )
+  .option('-c, --config <path>', 'Path to config file')
+  .option('-t, --threshold <n>', 'Override fail threshold (0-10)', parseFloat)
+  .option('-n, --top <n>', 'Show top N issues (default: 5)', parseInt)
+  .option('--show-all', 'Show all issues (not just top N)')
+  .option('--include-tests', 'Include test files in analysis')
+  .option('--include-config', 'Include config files in analysis')
+  .option('--no-blast-radius', 'Skip blast radius calculation (faster)')
+  .action(async (options) => {
+    try {
+      await runWatch(options);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(2);
+    }
+  });
+
+program
+  .command('lsp')
+  .description('Start a language server on stdio publishing signals as diagnostics')
+  .option('--stdio', 'Communicate over stdin/stdout (the only transport)')
+  .option(
+    '-d, --detector <type>',
+    'Detector: auto|generic|react|vue|angular|node|svelte|ssr',
+    'auto',
+  )
+  .action(async (options) => {
+    const server = startLspServer({
+      input: process.stdin,
+      output: process.stdout,
+      detector: options.detector as DetectorProfile,
+    });
+    process.exit(await server.exited);
+  });
+
+program
+  .command('serve')
+  .description('Serve the analysis API over HTTP/JSON')
+  .option('--port <n>', 'Port to listen on', (value) => parseInt(value, 10), 7420)
+  .option('--host <host>', 'Interface to bind', '127.0.0.1')
+  .option('--no-cache', 'Disable result caching')
+  .action((options: { port: number; host: string; cache: boolean }) => {
+    const server = createApiServer({ cwd: process.cwd(), cache: options.cache });
+    server.on('error', (error) => {
+      console.error(chalk.red('Error:'), error.message);
+      process.exit(2);
+    });
+    server.listen(options.port, options.host, () => {
+      console.log(`DiffeSense API listening on http://${options.host}:${options.port}`);
+      console.log(chalk.dim('  POST /analyze   GET /signals   GET /packs   GET /health'));
+    });
+  });
+
+const hookCmd = program.command('hook').description('Run as a git hook');
+
+hookCmd
+  .command('pre-push [remote] [url]')
+  .description('Check pushed refs read from stdin (git pre-push protocol)')
+  .option('-c, --config <path>', 'Path to config file')
+  .option('--policy-pack <name>', 'Policy pack: enterprise|startup|oss, or custom pack path')
+  .option('-t, --threshold <n>', 'Override fail threshold (0-10)', parseFloat)
+  .action(async (remote: string | undefined, _url: string | undefined, options) => {
+    try {
+      await runPrePush(remote, options);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(2);
+    }
+  });
+
+const hooksCmd = program
+  .command('hooks')
+  .description('Install or remove the pre-commit and pre-push hooks');
+
+hooksCmd
+  .command('install')
+  .description('Write hooks into .git/hooks, or into husky/lefthook config when detected')
+  .option('--force', 'Replace existing git hooks not written by DiffeSense')
+  .action((options) => {
+    printHooksResult(installHooks(process.cwd(), options.force === true));
+  });
+
+hooksCmd
+  .command('uninstall')
+  .description('Remove the hooks DiffeSense installed')
   .action(() => {
-    runDoctor();
+    printHooksResult(uninstallHooks(process.cwd()));
   });
 
 const cacheCmd = program.command('cache').description('Cache management commands');
@@ -298,6 +442,52 @@ cacheCmd
     console.log(chalk.green(`✓ Removed ${removed} expired entries`));
   });
 
+const graphCmd = program
+  .command('graph')
+  .description('Manage the persistent dependency-graph index used for blast radius');
+
+graphCmd
+  .command('rebuild')
+  .description('Re-read every source file and rewrite the graph index')
+  .action(() => {
+    const cache = createCache(process.cwd());
+    const sync = rebuildGraphIndex(process.cwd(), cache.getCacheDir());
+    console.log(chalk.green(`✓ Indexed ${sync.files} files in ${sync.durationMs}ms`));
+  });
+
+graphCmd
+  .command('stats')
+  .description('Show graph index statistics')
+  .action(() => {
+    const cache = createCache(process.cwd());
+    const stats = getGraphIndexStats(process.cwd(), cache.getCacheDir());
+
+    if (!stats) {
+      console.log(chalk.yellow('No graph index yet. Run `dsense graph rebuild` or any analysis.'));
+      return;
+    }
+
+    console.log(chalk.bold('Graph Index Statistics'));
+    console.log('======================\n');
+    console.log(`  Files:       ${stats.files}`);
+    console.log(`  Edges:       ${stats.edges}`);
+    console.log(`  Unresolved:  ${stats.unresolved}`);
+    console.log(`  Pending:     ${stats.pendingFiles} file(s) changed since last sync`);
+    console.log(`  Commit:      ${stats.headSha ? stats.headSha.slice(0, 7) : 'none'}`);
+    console.log(`  Updated:     ${stats.updatedAt}`);
+    console.log(`  Size:        ${formatBytes(stats.sizeBytes)}`);
+    console.log(`  Index file:  ${stats.indexPath}`);
+  });
+
+graphCmd
+  .command('clear')
+  .description('Delete the graph index')
+  .action(() => {
+    const cache = createCache(process.cwd());
+    const deleted = deleteGraphIndex(cache.getCacheDir());
+    console.log(chalk.green(deleted ? '✓ Deleted graph index' : 'No graph index to delete'));
+  });
+
 function formatBytes(bytes: number): string {
   if (bytes === 0) return '0 B';
   const k = 1024;
@@ -306,35 +496,66 @@ function formatBytes(bytes: number): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 }
 
-program
-  .command('packs')
-  .description('List available policy packs')
+const packsCmd = program
+  .command('packs [refs...]')
+  .description('List built-in policy packs, the configured pack and custom packs given by path')
+  .option('-c, --config <path>', 'Path to config file')
   .option('--verbose', 'Show detailed configuration for each pack')
-  .action((options) => {
+  .action(async (refs: string[], options) => {
+    const cwd = process.cwd();
     const showDetails = options.verbose === true;
+    const packs: Array<{ pack: PolicyPack; label: string }> = [];
+    try {
+      const { config } = await resolveConfig({ configPath: options.config, cwd });
+      const configuredRef = config.policyPack;
+      const activeRef = configuredRef ?? 'startup';
+      const customRefs = [
+        ...new Set(
+          [configuredRef, ...refs].filter(
+            (ref): ref is string => ref !== undefined && !isValidPolicyPack(ref),
+          ),
+        ),
+      ];
+
+      for (const name of getAvailablePolicyPacks()) {
+        packs.push({
+          pack: getPolicyPack(name),
+          label: name !== activeRef ? '' : configuredRef ? 'configured' : 'default',
+        });
+      }
+      for (const ref of customRefs) {
+        packs.push({
+          pack: resolvePolicyPack(ref, cwd),
+          label: ref === configuredRef ? 'configured' : 'custom',
+        });
+      }
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(2);
+    }
 
     console.log(chalk.bold('Available Policy Packs'));
     console.log('=======================\n');
 
-    for (const packName of getAvailablePolicyPacks()) {
-      const pack = getPolicyPack(packName);
-      const isDefault = packName === 'startup';
-
+    for (const { pack, label } of packs) {
       console.log(
-        chalk.cyan.bold(packName.toUpperCase()) + (isDefault ? chalk.dim(' (default)') : ''),
+        chalk.cyan.bold(pack.name.toUpperCase()) + (label ? chalk.dim(` (${label})`) : ''),
       );
       console.log(chalk.dim(`  ${pack.description}`));
+      if (pack.source) {
+        const extendsNote = pack.extends ? `, extends ${pack.extends}` : '';
+        console.log(chalk.dim(`  ${path.relative(cwd, pack.source)}${extendsNote}`));
+      }
 
       if (showDetails) {
         console.log('');
         console.log('  Fail conditions:');
         console.log(`    • Highest risk >= ${pack.failOn.minHighestRisk}`);
         console.log(`    • Blockers >= ${pack.failOn.minBlockers}`);
-        if (pack.failOn.severityCounts.CRITICAL) {
-          console.log(`    • CRITICAL files >= ${pack.failOn.severityCounts.CRITICAL}`);
-        }
-        if (pack.failOn.severityCounts.HIGH) {
-          console.log(`    • HIGH files >= ${pack.failOn.severityCounts.HIGH}`);
+        for (const severity of ['CRITICAL', 'HIGH', 'MED'] as const) {
+          if (pack.failOn.severityCounts[severity]) {
+            console.log(`    • ${severity} files >= ${pack.failOn.severityCounts[severity]}`);
+          }
         }
 
         console.log('');
@@ -356,9 +577,41 @@ program
 
     console.log(chalk.dim('Usage:'));
     console.log(chalk.cyan('  dsense --policy-pack enterprise'));
+    console.log(chalk.cyan('  dsense --policy-pack ./packs/payments.yml'));
+    console.log(chalk.cyan('  dsense packs diff startup ./packs/payments.yml'));
     console.log(chalk.cyan('  dsense init --pack oss'));
   });
 
+packsCmd
+  .command('diff <left> <right>')
+  .description('Show the settings that differ between two policy packs')
+  .action((left: string, right: string) => {
+    const cwd = process.cwd();
+    let differences: PolicyPackDifference[];
+    try {
+      differences = diffPolicyPacks(resolvePolicyPack(left, cwd), resolvePolicyPack(right, cwd));
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(2);
+    }
+
+    console.log(chalk.bold(`Policy pack diff: ${left} → ${right}`));
+    console.log('');
+    if (differences.length === 0) {
+      console.log(chalk.green('✓ No differences'));
+      return;
+    }
+
+    const width = Math.max(...differences.map((d) => d.setting.length));
+    for (const { setting, left: from, right: to } of differences) {
+      console.log(
+        `  ${setting.padEnd(width)}  ${chalk.red(String(from ?? '-'))} → ${chalk.green(
+          String(to ?? '-'),
+        )}`,
+      );
+    }
+  });
+
 const suppressCmd = program.command('suppress').description('Manage signal suppressions');
 
 suppressCmd
@@ -487,7 +740,7 @@ program.parse();
 /**
  * Run doctor command - verify environment
  */
-function runDoctor(): void {
+async function runDoctor(): Promise<void> {
   const { execSync } = require('child_process');
   const cwd = process.cwd();
   let allGood = true;
@@ -537,7 +790,7 @@ function runDoctor(): void {
     console.log(chalk.green(`  ✓ Config found: ${path.relative(cwd, configPath)}`));
 
     const { loadConfigFile } = require('../config');
-    const result = loadConfigFile(configPath);
+    const result = await loadConfigFile(configPath);
     if (result.valid) {
       console.log(chalk.green('  ✓ Config is valid'));
       if (result.warnings.length > 0) {
@@ -588,10 +841,236 @@ function runDoctor(): void {
   }
 }
 
+/**
+ * Run pre-push hook - analyze the commits of each pushed ref
+ */
+async function runPrePush(
+  remote: string | undefined,
+  options: { config?: string; policyPack?: string; threshold?: number },
+): Promise<void> {
+  const input = process.stdin.isTTY ? '' : fs.readFileSync(0, 'utf-8');
+  const result = await checkPush({
+    input,
+    remote,
+    cwd: process.cwd(),
+    configPath: options.config,
+    policyPack: options.policyPack,
+    threshold: options.threshold,
+  });
+
+  for (const check of result.checks) {
+    const range = check.range.replace(/\b([0-9a-f]{7})[0-9a-f]{33}\b/g, '$1');
+    const label = `${check.ref.localRef} ${chalk.dim(`(${range})`)}`;
+    if (!check.blocked) {
+      const { summary } = check.result;
+      console.log(
+        chalk.green('✓ ') +
+          label +
+          chalk.dim(` risk ${summary.highestRisk.toFixed(1)}, ${summary.analyzedCount} file(s)`),
+      );
+      continue;
+    }
+
+    console.log(chalk.red('✗ ') + label);
+    if (check.result.success) {
+      console.log(formatConsoleOutput(check.result));
+    }
+    for (const reason of check.reasons) {
+      console.log(chalk.red(`  • ${reason}`));
+    }
+  }
+
+  if (result.exitCode !== 0) {
+    console.log('');
+    console.log(chalk.red.bold('Push blocked by DiffeSense.'));
+    console.log(chalk.dim('  Fix the issues above, or skip the check with `git push --no-verify`'));
+  }
+
+  process.exit(result.exitCode);
+}
+
+/**
+ * Print the outcome of hooks install/uninstall
+ */
+function printHooksResult(result: HooksResult): void {
+  if (!result.success) {
+    console.error(chalk.red(result.error || 'Hook setup failed'));
+    process.exit(2);
+  }
+
+  console.log(chalk.dim(`Hook manager: ${result.manager}`));
+  for (const change of result.changes) {
+    const file = path.relative(process.cwd(), change.path) || change.path;
+    switch (change.action) {
+      case 'installed':
+        console.log(chalk.green(`✓ Installed ${change.hook}`) + chalk.dim(` (${file})`));
+        break;
+      case 'removed':
+        console.log(chalk.green(`✓ Removed ${change.hook}`) + chalk.dim(` (${file})`));
+        break;
+      case 'unchanged':
+        console.log(chalk.dim(`  ${change.hook} unchanged (${file})`));
+        break;
+      case 'skipped':
+        console.log(chalk.yellow(`⚠ Skipped ${change.hook}: ${change.message}`));
+        break;
+    }
+  }
+
+  if (result.changes.some((c) => c.action === 'skipped')) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Run trace command - report the commit that introduced a signal in each file
+ */
+async function runTrace(
+  signalId: string,
+  options: { range: string; file?: string; detector?: string; config?: string; format?: string },
+): Promise<void> {
+  const result = await traceSignal({
+    signalId,
+    range: options.range,
+    file: options.file,
+    detector: options.detector as DetectorProfile,
+    configPath: options.config,
+    cwd: process.cwd(),
+  });
+
+  if (options.format === 'json') {
+    console.log(JSON.stringify(result, null, 2));
+    if (!result.success) process.exit(2);
+    return;
+  }
+
+  if (!result.success) {
+    console.error(chalk.red(result.error || 'Trace failed'));
+    process.exit(2);
+  }
+
+  console.log(chalk.bold(`Trace: ${signalId}`) + chalk.dim(` (${result.range})`));
+  console.log(chalk.dim(`Scanned ${result.commitsScanned} commit(s)`));
+  for (const warn of result.warnings) {
+    console.log(chalk.yellow(`⚠ ${warn.message}`));
+  }
+  console.log('');
+
+  if (result.introductions.length === 0) {
+    console.log(chalk.dim(`No commit in the range introduced ${signalId}.`));
+  }
+
+  for (const introduction of result.introductions) {
+    const { commit } = introduction;
+    const location =
+      introduction.path && introduction.path !== introduction.file
+        ? `${introduction.file} ${chalk.dim(`(now ${introduction.path})`)}`
+        : introduction.path === null
+          ? `${introduction.file} ${chalk.dim('(deleted later)')}`
+          : introduction.file;
+
+    console.log(`${chalk.yellow(commit.sha.substring(0, 7))} ${commit.subject}`);
+    console.log(chalk.dim(`  Author: ${commit.author} <${commit.email}>, ${commit.date}`));
+    console.log(`  File:   ${location}:${introduction.lines.join(',')}`);
+    if (introduction.hunk) {
+      console.log('');
+      for (const line of introduction.hunk.split('\n')) {
+        const color = line.startsWith('+')
+          ? chalk.green
+          : line.startsWith('-')
+            ? chalk.red
+            : line.startsWith('@@')
+              ? chalk.cyan
+              : chalk.dim;
+        console.log(`    ${color(line)}`);
+      }
+    }
+    console.log('');
+  }
+
+  if (result.preExisting.length > 0) {
+    console.log(chalk.dim('Already present before the range:'));
+    for (const filePath of result.preExisting) {
+      console.log(chalk.dim(`  ${filePath}`));
+    }
+  }
+}
+
+/**
+ * Run watch command - reprint the working tree summary after each save
+ */
+async function runWatch(options: {
+  profile?: string;
+  detector?: string;
+  config?: string;
+  threshold?: number;
+  top?: number;
+  showAll?: boolean;
+  includeTests?: boolean;
+  includeConfig?: boolean;
+  blastRadius?: boolean;
+}): Promise<void> {
+  const cwd = process.cwd();
+  if (!isGitRepo(cwd)) {
+    console.error(chalk.red('Error: Not a git repository'));
+    process.exit(2);
+  }
+  const root = getGitRoot(cwd) || cwd;
+
+  const session = await createWatchSession({
+    cwd: root,
+    profile: options.profile,
+    detector: options.detector as DetectorProfile,
+    configPath: options.config,
+    threshold: options.threshold,
+    includeTests: options.includeTests,
+    includeConfig: options.includeConfig,
+    skipBlastRadius: options.blastRadius === false,
+  });
+
+  // Saves arriving during an update are folded into the next one
+  let running = false;
+  let queued: string[] | null = null;
+  const refresh = async (touched: string[]): Promise<void> => {
+    if (running) {
+      queued = [...(queued || []), ...touched];
+      return;
+    }
+    running = true;
+    try {
+      const { result, reanalyzed, durationMs } = await session.update(touched);
+      process.stdout.write('\x1Bc');
+      console.log(formatConsoleOutput(result, { showAll: options.showAll, topN: options.top }));
+      console.log(
+        chalk.dim(
+          `Watching ${root} - updated ${new Date().toLocaleTimeString()}, ` +
+            `${reanalyzed.length} file(s) re-analyzed in ${durationMs}ms (Ctrl+C to stop)`,
+        ),
+      );
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+    } finally {
+      running = false;
+    }
+    if (queued) {
+      const next = queued;
+      queued = null;
+      await refresh(next);
+    }
+  };
+
+  await refresh([]);
+  const watcher = watchWorkingTree(root, (files) => void refresh(files));
+  process.on('SIGINT', () => {
+    watcher.close();
+    process.exit(0);
+  });
+}
+
 /**
  * Run config check command
  */
-function runConfigCheck(configPath?: string): void {
+async function runConfigCheck(configPath?: string): Promise<void> {
   const { loadConfigFile, formatValidationErrors } = require('../config');
   const { findConfigFile } = require('../config/loader');
   const cwd = process.cwd();
@@ -613,11 +1092,14 @@ function runConfigCheck(configPath?: string): void {
     process.exit(2);
   }
 
-  const result = loadConfigFile(targetPath);
+  const result = await loadConfigFile(targetPath);
 
   if (result.valid) {
     console.log(chalk.green('✓ Config file is valid'));
     console.log(chalk.gray(`  ${targetPath}`));
+    for (const layer of result.layers.slice(0, -1)) {
+      console.log(chalk.gray(`  extends ${path.relative(cwd, layer.source)}`));
+    }
 
     if (result.warnings.length > 0) {
       console.log('');
@@ -636,19 +1118,23 @@ function runConfigCheck(configPath?: string): void {
 /**
  * Run config print command
  */
-function runConfigPrint(configPath?: string, summary?: boolean): void {
+async function runConfigPrint(configPath?: string, summary?: boolean): Promise<void> {
   const { resolveConfig, printEffectiveConfig } = require('../config');
   const { printConfigSummary } = require('../config/loader');
 
-  const { config, source, warnings } = resolveConfig({
-    configPath,
-    cwd: process.cwd(),
-  });
+  const cwd = process.cwd();
+  const { config, source, warnings, origins } = await resolveConfig({ configPath, cwd });
 
   if (summary) {
     console.log(printConfigSummary(config, source));
   } else {
-    console.log(printEffectiveConfig(config, source));
+    const relativeOrigins: Record<string, string[]> = {};
+    for (const [key, files] of Object.entries(origins as Record<string, string[]>)) {
+      relativeOrigins[key] = files.map((file) =>
+        path.isAbsolute(file) ? path.relative(cwd, file) : file,
+      );
+    }
+    console.log(printEffectiveConfig(config, source, relativeOrigins));
   }
 
   if (warnings.length > 0) {
@@ -717,6 +1203,8 @@ scope:
 # ownership:
 #   useCodeowners: true
 #   escalateIfRiskAbove: 7.5
+#   defaultReviewers:
+#     - "@tech-leads"
 
 # Custom detection patterns
 # customPatterns:
@@ -1004,6 +1492,8 @@ interface CLIAnalysisOptions {
   base?: string;
   commit?: string;
   range?: string;
+  patch?: string;
+  perCommit?: boolean;
   profile?: string;
   policyPack?: string;
   detector?: string;
@@ -1013,6 +1503,9 @@ interface CLIAnalysisOptions {
   top?: number;
   showAll?: boolean;
   blastRadius?: boolean;
+  history?: boolean;
+  introducedOnly?: boolean;
+  differential?: boolean;
   quiet?: boolean;
   all?: boolean;
   includeTests?: boolean;
@@ -1042,6 +1535,15 @@ export interface CliAnalysisResult {
   };
 }
 
+/**
+ * Read a patch from a file, or from stdin when the source is '-'
+ */
+function readPatchInput(cwd: string, source: string): string {
+  return source === '-'
+    ? fs.readFileSync(0, 'utf-8')
+    : fs.readFileSync(path.resolve(cwd, source), 'utf-8');
+}
+
 /**
  * Main analysis function - thin wrapper around core analyze()
  */
@@ -1051,7 +1553,9 @@ async function performAnalysis(options: CLIAnalysisOptions): Promise<CliAnalysis
   const quiet = options.quiet || false;
   const determinismCheck = options.determinismCheck || false;
   const explainIgnoreFlag = options.explainIgnore || false;
-  const useCache = options.cache !== false;
+  const patch = options.patch !== undefined ? readPatchInput(cwd, options.patch) : undefined;
+  // Patched files are not part of the cache key, so patch results are never cached
+  const useCache = options.cache !== false && patch === undefined;
 
   const cache = createCache(cwd, { enabled: useCache });
 
@@ -1062,13 +1566,6 @@ async function performAnalysis(options: CLIAnalysisOptions): Promise<CliAnalysis
     }
   }
 
-  const policyPackName = options.policyPack as PolicyPackName | undefined;
-  const { pack: activePack, effectiveConfig } = applyPolicyPack(policyPackName);
-
-  if (!quiet && policyPackName && isValidPolicyPack(policyPackName)) {
-    console.log(chalk.dim(`Using policy pack: ${activePack.name}`));
-  }
-
   let resolvedScope: DiffScope;
   let scopeAutoDetected = false;
 
@@ -1078,6 +1575,9 @@ async function performAnalysis(options: CLIAnalysisOptions): Promise<CliAnalysis
     resolvedScope = 'range';
   } else if (options.scope) {
     resolvedScope = (options.scope === 'worktree' ? 'working' : options.scope) as DiffScope;
+  } else if (patch !== undefined) {
+    // Not used for analysis: the patch replaces git changes
+    resolvedScope = 'working';
   } else {
     const detected = autoDetectScope(cwd);
     resolvedScope = detected.scope;
@@ -1087,18 +1587,40 @@ async function performAnalysis(options: CLIAnalysisOptions): Promise<CliAnalysis
     }
   }
 
+  // Resolved once and handed to analyze(), so config modules run once per run
+  const resolvedConfig = await resolveConfig({
+    configPath: options.config,
+    cwd,
+    scope: {
+      scope: resolvedScope,
+      base: options.base,
+      commit: options.commit,
+      range: options.range,
+    },
+  });
+  const fileConfig = resolvedConfig.config;
+  const policyPackRef = options.policyPack ?? fileConfig.policyPack;
+  const { pack: activePack, effectiveConfig } = applyPolicyPack(policyPackRef, fileConfig, cwd);
+
+  if (!quiet && options.policyPack) {
+    console.log(chalk.dim(`Using policy pack: ${activePack.name}`));
+  }
+
   if (explainIgnoreFlag) {
     const { getChangedFiles } = require('../git/diff');
     const { explainIgnoreMultiple, formatIgnoreExplanations } = require('../core/ignore');
 
-    const changedFiles = getChangedFiles({
-      scope: resolvedScope,
-      base: options.base || 'main',
-      commit: options.commit,
-      range: options.range,
-      cwd,
-      ignoreConfig: { includeTests: true, includeConfig: true },
-    });
+    const changedFiles =
+      patch !== undefined
+        ? parsePatch(patch)
+        : getChangedFiles({
+            scope: resolvedScope,
+            base: options.base || 'main',
+            commit: options.commit,
+            range: options.range,
+            cwd,
+            ignoreConfig: { includeTests: true, includeConfig: true },
+          });
 
     const ignoreConfig = {
       includeTests: options.includeTests || false,
@@ -1123,6 +1645,20 @@ async function performAnalysis(options: CLIAnalysisOptions): Promise<CliAnalysis
 
   const effectiveThreshold = options.threshold ?? effectiveConfig.failThreshold;
 
+  if (options.perCommit) {
+    return performPerCommitAnalysis(options, {
+      cwd,
+      resolvedConfig,
+      threshold: effectiveThreshold,
+      policyPack: policyPackRef,
+      outputConfig: {
+        showAll: options.showAll || false,
+        topN: options.top ?? effectiveConfig.topN,
+        quiet,
+      },
+    });
+  }
+
   const suppressionsHash = getSuppressionsHash(cwd);
 
   const cacheKeyComponents = buildCacheKeyComponents({
@@ -1134,11 +1670,19 @@ async function performAnalysis(options: CLIAnalysisOptions): Promise<CliAnalysis
       profile: options.profile,
       detector: options.detector,
       threshold: effectiveThreshold,
-      policyPack: policyPackName,
+      // The whole pack, so edits to a custom pack file invalidate cached results
+      policyPack: activePack,
       includeTests: options.includeTests,
       includeConfig: options.includeConfig,
       skipBlastRadius: options.blastRadius === false,
       analyzeAll: options.all,
+      history: options.history,
+      introducedOnly: options.introducedOnly,
+      differential: options.differential,
+      commit: options.commit,
+      range: options.range,
+      // Merged file config, so edits to a config or the configs it extends invalidate results
+      resolvedConfig: fileConfig,
     },
     suppressionsHash,
   });
@@ -1161,17 +1705,23 @@ async function performAnalysis(options: CLIAnalysisOptions): Promise<CliAnalysis
       base: options.base,
       commit: options.commit,
       range: options.range,
+      patch,
       profile: options.profile,
       detector: options.detector as DetectorProfile,
-      configPath: options.config,
+      resolvedConfig,
       threshold: effectiveThreshold,
+      policyPack: policyPackRef,
       includeTests: options.includeTests,
       includeConfig: options.includeConfig,
       contextLines: options.context,
       skipBlastRadius: options.blastRadius === false,
+      graphCacheDir: useCache ? cache.getCacheDir() : undefined,
       fullFileAnalysis: options.diffFocus === false,
       classBasedScoring: options.classScoring,
       analyzeAll: options.all,
+      history: options.history,
+      differential: options.differential === false ? false : undefined,
+      introducedOnly: options.introducedOnly,
     });
 
     if (result.success && useCache) {
@@ -1273,6 +1823,9 @@ ${chalk.yellow('Tip:')} Run DiffeSense from the git root directory:
     case 'json':
       output = formatJsonOutput(result, outputConfig);
       break;
+    case 'sarif':
+      output = formatSarifOutput(result);
+      break;
     default:
       output = formatConsoleOutput(result, outputConfig);
   }
@@ -1287,7 +1840,9 @@ ${chalk.yellow('Tip:')} Run DiffeSense from the git root directory:
     const { execSync } = require('child_process');
     let diffContent = '';
     try {
-      if (result.meta.scope === 'staged') {
+      if (patch !== undefined) {
+        diffContent = patch;
+      } else if (result.meta.scope === 'staged') {
         diffContent = execSync('git diff --cached', { cwd, encoding: 'utf-8' });
       } else if (result.meta.scope === 'worktree') {
         diffContent = execSync('git diff', { cwd, encoding: 'utf-8' });
@@ -1342,6 +1897,94 @@ ${chalk.yellow('Tip:')} Run DiffeSense from the git root directory:
   };
 }
 
+/**
+ * Analyze each commit of --range separately (never cached: one run per commit)
+ */
+async function performPerCommitAnalysis(
+  options: CLIAnalysisOptions,
+  context: {
+    cwd: string;
+    resolvedConfig: ResolvedConfig;
+    threshold: number;
+    policyPack: string | undefined;
+    outputConfig: { showAll: boolean; topN: number; quiet: boolean };
+  },
+): Promise<CliAnalysisResult> {
+  const format = options.format || 'console';
+  const emptySummary = {
+    changedCount: 0,
+    analyzedCount: 0,
+    highestRisk: 0,
+    blockerCount: 0,
+    warningCount: 0,
+  };
+
+  if (!options.range) {
+    return {
+      output: chalk.red('--per-commit requires --range'),
+      exitCode: 2,
+      summary: emptySummary,
+    };
+  }
+  if (format === 'sarif') {
+    return {
+      output: chalk.red('--per-commit does not support SARIF output'),
+      exitCode: 2,
+      summary: emptySummary,
+    };
+  }
+
+  const result = await analyzeCommits({
+    cwd: context.cwd,
+    range: options.range,
+    profile: options.profile,
+    detector: options.detector as DetectorProfile,
+    resolvedConfig: context.resolvedConfig,
+    threshold: context.threshold,
+    policyPack: context.policyPack,
+    includeTests: options.includeTests,
+    includeConfig: options.includeConfig,
+    contextLines: options.context,
+    skipBlastRadius: options.blastRadius === false,
+    fullFileAnalysis: options.diffFocus === false,
+    classBasedScoring: options.classScoring,
+    history: options.history,
+    differential: options.differential === false ? false : undefined,
+    introducedOnly: options.introducedOnly,
+  });
+
+  if (!result.success && result.commits.length === 0) {
+    return {
+      output: chalk.red(result.error || 'Analysis failed'),
+      exitCode: 2,
+      summary: emptySummary,
+    };
+  }
+
+  const summaries = result.commits.map((c) => c.result.summary);
+  const summary = {
+    changedCount: summaries.reduce((sum, s) => sum + s.changedCount, 0),
+    analyzedCount: summaries.reduce((sum, s) => sum + s.analyzedCount, 0),
+    highestRisk: summaries.reduce((max, s) => Math.max(max, s.highestRisk), 0),
+    blockerCount: result.blockers.length,
+    warningCount: summaries.reduce((sum, s) => sum + s.warningCount, 0),
+  };
+
+  let output: string;
+  switch (format) {
+    case 'markdown':
+      output = formatPerCommitMarkdownOutput(result);
+      break;
+    case 'json':
+      output = formatPerCommitJsonOutput(result, context.outputConfig);
+      break;
+    default:
+      output = formatPerCommitConsoleOutput(result, context.outputConfig);
+  }
+
+  return { output, exitCode: result.exitCode, summary };
+}
+
 /**
  * Main CLI entry point - calls performAnalysis and handles exit
  */
@@ -0,0 +1,9 @@
+/**
+ * ES Module Import
+ *
+ * Native `import()` for the CommonJS build: TypeScript compiles `import()` in
+ * CommonJS output to `require()`, which cannot load ES modules. Kept as plain
+ * JavaScript so the call reaches Node's loader unchanged.
+ */
+
+module.exports = (specifier) => import(specifier);
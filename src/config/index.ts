@@ -5,17 +5,35 @@ export {
   CustomPatternSchema,
   ActionMappingSchema,
   OwnershipSchema,
+  HistorySchema,
   DiffeSenseConfig,
   Rule,
   Exception,
   CustomPattern,
   ActionMapping,
   Ownership,
+  History,
   ValidationResult,
   ValidationError,
+  ConfigLayer,
+  UserConfig,
   parseConfig,
   formatValidationErrors,
   getDefaultConfig,
 } from './schema';
 
-export { loadConfigFile, resolveConfig, printEffectiveConfig } from './loader';
+export {
+  loadConfigFile,
+  resolveConfig,
+  printEffectiveConfig,
+  ConfigOrigins,
+  ResolvedConfig,
+} from './loader';
+
+export {
+  defineConfig,
+  createConfigContext,
+  ConfigContext,
+  ConfigContextScope,
+  ConfigFunction,
+} from './module';
@@ -2,12 +2,23 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as yaml from 'js-yaml';
 import {
+  ConfigLayer,
   DiffeSenseConfig,
   parseConfig,
   formatValidationErrors,
   getDefaultConfig,
+  ValidationError,
   ValidationResult,
 } from './schema';
+import {
+  ConfigContext,
+  ConfigContextScope,
+  createConfigContext,
+  isConfigModule,
+  loadConfigModule,
+} from './module';
+import { isPackPath } from '../plugins/loader';
+import { isPolicyPackPath } from '../policy/packs';
 
 const CONFIG_SEARCH_PATHS = [
   '.diffesense.yml',
@@ -16,39 +27,152 @@ const CONFIG_SEARCH_PATHS = [
   'diffesense.config.yml',
   'diffesense.config.yaml',
   'diffesense.config.json',
+  'diffesense.config.ts',
+  'diffesense.config.mts',
+  'diffesense.config.mjs',
+  'diffesense.config.cjs',
+  'diffesense.config.js',
 ];
 
-export function loadConfigFile(filePath: string): ValidationResult {
-  if (!fs.existsSync(filePath)) {
-    return {
-      valid: false,
-      errors: [{ path: 'file', message: `Config file not found: ${filePath}`, code: 'not_found' }],
-      warnings: [],
-    };
+/**
+ * Load and validate a config file, merged over the configs it `extends`
+ *
+ * Config modules receive `context` (default: the branch diff of the file's directory).
+ */
+export async function loadConfigFile(
+  filePath: string,
+  context?: ConfigContext,
+): Promise<ValidationResult> {
+  const configContext = context ?? createConfigContext(path.dirname(filePath));
+  const { layers, errors, warnings } = await loadConfigLayers(filePath, [], configContext);
+  if (errors.length > 0) {
+    return { valid: false, errors, warnings };
   }
 
-  try {
-    const content = fs.readFileSync(filePath, 'utf-8');
-    const ext = path.extname(filePath).toLowerCase();
+  // Merge the documents before validation, so schema defaults of a file
+  // do not override the values it inherits
+  const data =
+    layers.length === 1
+      ? layers[0].data
+      : layers.reduce<Partial<DiffeSenseConfig>>(
+          (merged, layer) => mergeConfigs(merged, layer.data as Partial<DiffeSenseConfig>),
+          {},
+        );
+
+  return { ...parseConfig(data), warnings, layers };
+}
 
-    let data: unknown;
+/**
+ * Read a config file and the configs it extends, extended configs first
+ */
+async function loadConfigLayers(
+  filePath: string,
+  chain: string[],
+  context: ConfigContext,
+): Promise<{ layers: ConfigLayer[]; errors: ValidationError[]; warnings: string[] }> {
+  const document = await readConfigDocument(filePath, context);
+  if ('error' in document) {
+    return { layers: [], errors: [document.error], warnings: [] };
+  }
 
-    if (ext === '.json') {
-      data = JSON.parse(content);
-    } else {
-      data = yaml.load(content);
+  // Validate each file on its own, so errors name the file they are in
+  const result = parseConfig(document.data);
+  if (!result.valid) {
+    const errors = result.errors.map((err) => ({
+      ...err,
+      message: `${err.message} (in ${filePath})`,
+    }));
+    return { layers: [], errors, warnings: result.warnings };
+  }
+
+  const { extends: parents, ...fields } = document.data as Record<string, unknown>;
+  const data = rebaseLayerPaths(fields, path.dirname(filePath), context.cwd);
+  const layers: ConfigLayer[] = [];
+  const errors: ValidationError[] = [];
+  const warnings = [...result.warnings];
+
+  for (const ref of ([] as string[]).concat((parents as string | string[] | undefined) ?? [])) {
+    const parentPath = resolveExtendedConfig(ref, path.dirname(filePath));
+    if (!parentPath) {
+      errors.push({
+        path: 'extends',
+        message: `Cannot find config "${ref}" (in ${filePath})`,
+        code: 'not_found',
+      });
+      continue;
+    }
+    if (parentPath === filePath || chain.includes(parentPath)) {
+      errors.push({
+        path: 'extends',
+        message: `Circular extends: ${[...chain, filePath, parentPath].join(' -> ')}`,
+        code: 'extends_cycle',
+      });
+      continue;
     }
 
-    const result = parseConfig(data);
+    const parent = await loadConfigLayers(parentPath, [...chain, filePath], context);
+    // A config extended twice (e.g. by two shared configs) is merged once
+    layers.push(...parent.layers.filter((l) => !layers.some((e) => e.source === l.source)));
+    errors.push(...parent.errors);
+    warnings.push(...parent.warnings);
+  }
+
+  layers.push({ source: filePath, data });
+  return { layers, errors, warnings };
+}
 
-    if (!result.valid) {
-      result.errors = result.errors.map((err) => ({
-        ...err,
-        message: `${err.message} (in ${filePath})`,
-      }));
+/**
+ * Resolve a layer's relative `packs` and `policyPack` paths from its own
+ * directory; they are otherwise loaded relative to the analyzed directory
+ */
+function rebaseLayerPaths(
+  data: Record<string, unknown>,
+  configDir: string,
+  cwd: string,
+): Record<string, unknown> {
+  if (path.resolve(configDir) === path.resolve(cwd)) return data;
+
+  const rebased = { ...data };
+  if (Array.isArray(data.packs)) {
+    rebased.packs = data.packs.map((pack: string) =>
+      isPackPath(pack) ? path.resolve(configDir, pack) : pack,
+    );
+  }
+  if (typeof data.policyPack === 'string' && isPolicyPackPath(data.policyPack)) {
+    rebased.policyPack = path.resolve(configDir, data.policyPack);
+  }
+  return rebased;
+}
+
+async function readConfigDocument(
+  filePath: string,
+  context: ConfigContext,
+): Promise<{ data: unknown } | { error: ValidationError }> {
+  if (!fs.existsSync(filePath)) {
+    return {
+      error: { path: 'file', message: `Config file not found: ${filePath}`, code: 'not_found' },
+    };
+  }
+
+  if (isConfigModule(filePath)) {
+    try {
+      return { data: await loadConfigModule(filePath, context) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        error: {
+          path: 'file',
+          message: `Failed to load config module: ${message} (in ${filePath})`,
+          code: 'parse_error',
+        },
+      };
     }
+  }
 
-    return result;
+  try {
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const ext = path.extname(filePath).toLowerCase();
+    return { data: ext === '.json' ? JSON.parse(content) : yaml.load(content) };
   } catch (error) {
     const message =
       error instanceof SyntaxError
@@ -58,13 +182,50 @@ export function loadConfigFile(filePath: string): ValidationResult {
         : `Failed to load config: ${error}`;
 
     return {
-      valid: false,
-      errors: [{ path: 'file', message: `${message} (in ${filePath})`, code: 'parse_error' }],
-      warnings: [],
+      error: { path: 'file', message: `${message} (in ${filePath})`, code: 'parse_error' },
     };
   }
 }
 
+/**
+ * Resolve an `extends` entry: a path relative to the extending file (a file,
+ * or a directory with a config file), or an npm package (its `main` config
+ * file, a config file in its root, or a file inside it)
+ */
+function resolveExtendedConfig(ref: string, fromDir: string): string | null {
+  if (ref.startsWith('.') || path.isAbsolute(ref)) {
+    const fullPath = path.resolve(fromDir, ref);
+    if (!fs.existsSync(fullPath)) return null;
+    return fs.statSync(fullPath).isDirectory() ? findConfigFile(fullPath) : fullPath;
+  }
+
+  try {
+    const manifestPath = require.resolve(`${ref}/package.json`, { paths: [fromDir] });
+    const packageDir = path.dirname(manifestPath);
+    const { main } = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+    if (typeof main === 'string' && isConfigFileName(main)) {
+      return path.join(packageDir, main);
+    }
+    return findConfigFile(packageDir);
+  } catch {
+    // Not a package root; try a file inside a package
+  }
+
+  try {
+    const filePath = require.resolve(ref, { paths: [fromDir] });
+    return isConfigFileName(filePath) ? filePath : null;
+  } catch {
+    return null;
+  }
+}
+
+function isConfigFileName(filePath: string): boolean {
+  return (
+    ['.json', '.yml', '.yaml'].includes(path.extname(filePath).toLowerCase()) ||
+    isConfigModule(filePath)
+  );
+}
+
 export function findConfigFile(cwd: string = process.cwd()): string | null {
   for (const configName of CONFIG_SEARCH_PATHS) {
     const configPath = path.join(cwd, configName);
@@ -75,13 +236,45 @@ export function findConfigFile(cwd: string = process.cwd()): string | null {
   return null;
 }
 
-export function resolveConfig(options: {
+/**
+ * Effective config values mapped to the files that set them, keyed by dotted
+ * path (e.g. `failOn.minBlockers`); values missing from it are defaults
+ */
+export type ConfigOrigins = Record<string, string[]>;
+
+/**
+ * Effective config and the files it came from
+ */
+export interface ResolvedConfig {
+  config: DiffeSenseConfig;
+  /** Last config file merged ('defaults' when none), with ' + CLI' for overrides */
+  source: string;
+  warnings: string[];
+  origins: ConfigOrigins;
+}
+
+/**
+ * Resolve the effective config: defaults, then the home config, the repository
+ * config (or `configPath`) and CLI overrides
+ *
+ * @throws Error with the formatted validation errors when a config file is invalid
+ */
+export async function resolveConfig(options: {
   configPath?: string;
   cwd?: string;
   cliOverrides?: Partial<DiffeSenseConfig>;
-}): { config: DiffeSenseConfig; source: string; warnings: string[] } {
+  /** Diff whose changed files config modules see (default: the branch) */
+  scope?: ConfigContextScope;
+}): Promise<ResolvedConfig> {
   const { configPath, cwd = process.cwd(), cliOverrides = {} } = options;
+  const context = createConfigContext(cwd, options.scope);
   const warnings: string[] = [];
+  const origins: ConfigOrigins = {};
+  const recordLayers = (result: ValidationResult) => {
+    for (const layer of result.layers || []) {
+      recordOrigins(origins, layer.data, layer.source);
+    }
+  };
 
   let config = getDefaultConfig();
   let source = 'defaults';
@@ -91,56 +284,97 @@ export function resolveConfig(options: {
     '.diffesense.yml',
   );
   if (fs.existsSync(homeConfig)) {
-    const homeResult = loadConfigFile(homeConfig);
+    const homeResult = await loadConfigFile(homeConfig, context);
     if (homeResult.valid && homeResult.config) {
       config = mergeConfigs(config, homeResult.config);
       source = homeConfig;
       warnings.push(...homeResult.warnings);
+      recordLayers(homeResult);
     }
   }
 
   const autoConfig = findConfigFile(cwd);
   if (autoConfig && !configPath) {
-    const autoResult = loadConfigFile(autoConfig);
+    const autoResult = await loadConfigFile(autoConfig, context);
     if (autoResult.valid && autoResult.config) {
       config = mergeConfigs(config, autoResult.config);
       source = autoConfig;
       warnings.push(...autoResult.warnings);
+      recordLayers(autoResult);
     } else {
-      console.error(formatValidationErrors(autoResult));
-      process.exit(2);
+      throw new Error(formatValidationErrors(autoResult));
     }
   }
 
   if (configPath) {
     const fullPath = path.isAbsolute(configPath) ? configPath : path.join(cwd, configPath);
-    const explicitResult = loadConfigFile(fullPath);
+    const explicitResult = await loadConfigFile(fullPath, context);
     if (explicitResult.valid && explicitResult.config) {
       config = mergeConfigs(config, explicitResult.config);
       source = fullPath;
       warnings.push(...explicitResult.warnings);
+      recordLayers(explicitResult);
     } else {
-      console.error(formatValidationErrors(explicitResult));
-      process.exit(2);
+      throw new Error(formatValidationErrors(explicitResult));
     }
   }
 
   config = mergeConfigs(config, cliOverrides);
   if (Object.keys(cliOverrides).length > 0) {
     source = `${source} + CLI`;
+    recordOrigins(origins, cliOverrides, 'CLI');
   }
 
-  return { config, source, warnings };
+  return { config, source, warnings, origins };
 }
 
-function mergeConfigs(
-  base: DiffeSenseConfig,
+/** Lists that are concatenated across configs rather than replaced */
+const CONCATENATED_PATHS = [
+  'packs',
+  'customPatterns',
+  'rules',
+  'exceptions',
+  'actions.mapping',
+  'ignore.patterns',
+];
+
+function recordOrigins(
+  origins: ConfigOrigins,
+  data: Record<string, unknown>,
+  source: string,
+  prefix = '',
+): void {
+  for (const [key, value] of Object.entries(data)) {
+    if (key === '$schema' || key === 'extends' || value === undefined) continue;
+
+    // A list of ignore patterns is shorthand for ignore.patterns
+    const keyPath =
+      !prefix && key === 'ignore' && Array.isArray(value)
+        ? 'ignore.patterns'
+        : prefix
+        ? `${prefix}.${key}`
+        : key;
+
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      recordOrigins(origins, value as Record<string, unknown>, source, keyPath);
+    } else if (CONCATENATED_PATHS.includes(keyPath) && origins[keyPath]) {
+      origins[keyPath] = [...new Set([...origins[keyPath], source])];
+    } else {
+      origins[keyPath] = [source];
+    }
+  }
+}
+
+function mergeConfigs<T extends Partial<DiffeSenseConfig>>(
+  base: T,
   override: Partial<DiffeSenseConfig>,
-): DiffeSenseConfig {
-  const merged: DiffeSenseConfig = { ...base };
+): T {
+  const merged: T = { ...base };
 
   if (override.version !== undefined) merged.version = override.version;
+  if (override.policyPack !== undefined) merged.policyPack = override.policyPack;
   if (override.profile !== undefined) merged.profile = override.profile;
+  if (override.detector !== undefined) merged.detector = override.detector;
   if (override.topN !== undefined) merged.topN = override.topN;
   if (override.contextLines !== undefined) merged.contextLines = override.contextLines;
 
@@ -148,6 +382,16 @@ function mergeConfigs(
     merged.scope = { ...merged.scope, ...override.scope };
   }
 
+  if (override.failOn) {
+    merged.failOn = {
+      ...merged.failOn,
+      ...override.failOn,
+      severityCounts: override.failOn.severityCounts
+        ? { ...merged.failOn?.severityCounts, ...override.failOn.severityCounts }
+        : merged.failOn?.severityCounts,
+    };
+  }
+
   if (override.thresholds) {
     merged.thresholds = { ...merged.thresholds, ...override.thresholds };
   }
@@ -163,6 +407,7 @@ function mergeConfigs(
   if (override.actions) {
     merged.actions = {
       ...merged.actions,
+      ...override.actions,
       mapping: [...(merged.actions?.mapping || []), ...(override.actions.mapping || [])],
     };
   }
@@ -171,10 +416,22 @@ function mergeConfigs(
     merged.ownership = { ...merged.ownership, ...override.ownership };
   }
 
+  if (override.history) {
+    merged.history = { ...merged.history, ...override.history };
+  }
+
+  if (override.differential) {
+    merged.differential = { ...merged.differential, ...override.differential };
+  }
+
   if (override.customPatterns) {
     merged.customPatterns = [...(merged.customPatterns || []), ...override.customPatterns];
   }
 
+  if (override.packs) {
+    merged.packs = [...new Set([...(merged.packs || []), ...override.packs])];
+  }
+
   if (override.rules) {
     type RuleType = NonNullable<typeof merged.rules>[number];
     const ruleMap = new Map<string, RuleType>();
@@ -227,7 +484,15 @@ function mergeConfigs(
   return merged;
 }
 
-export function printEffectiveConfig(config: DiffeSenseConfig, source: string): string {
+/**
+ * Print the effective config as YAML, followed by the file each value came
+ * from when `origins` is given
+ */
+export function printEffectiveConfig(
+  config: DiffeSenseConfig,
+  source: string,
+  origins?: ConfigOrigins,
+): string {
   const lines: string[] = [];
 
   lines.push('# Effective DiffeSense Configuration');
@@ -244,6 +509,16 @@ export function printEffectiveConfig(config: DiffeSenseConfig, source: string):
 
   lines.push(yamlOutput);
 
+  const originPaths = Object.keys(origins || {}).sort();
+  if (originPaths.length > 0) {
+    const width = Math.max(...originPaths.map((p) => p.length));
+    lines.push('# Value sources (other values are defaults):');
+    for (const originPath of originPaths) {
+      lines.push(`#   ${originPath.padEnd(width)}  ${origins![originPath].join(', ')}`);
+    }
+    lines.push('');
+  }
+
   return lines.join('\n');
 }
 
@@ -0,0 +1,149 @@
+/**
+ * Config Modules
+ *
+ * Load `diffesense.config.{ts,mjs,cjs,js}` files. `.mjs` files are imported as
+ * native ES modules; the others are transpiled to CommonJS with the TypeScript
+ * compiler. Modules export either a config object or a function of the
+ * repository context, which may be async.
+ */
+
+import * as fs from 'fs';
+import { createRequire } from 'module';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import * as vm from 'vm';
+import { getTypeScript } from '../ast';
+import { getChangedFiles, getCurrentBranch, getGitRoot, DiffOptions } from '../git/diff';
+import { UserConfig } from './schema';
+
+/**
+ * Repository context passed to config functions
+ */
+export interface ConfigContext {
+  /** Directory DiffeSense runs in */
+  cwd: string;
+  /** Repository root (null outside a git repository) */
+  root: string | null;
+  /** Current branch (null when detached or outside a git repository) */
+  branch: string | null;
+  /** Files changed in the analyzed scope, computed when first read */
+  readonly changedFiles: string[];
+  env: NodeJS.ProcessEnv;
+}
+
+export type ConfigFunction = (context: ConfigContext) => UserConfig | Promise<UserConfig>;
+
+/** Scope whose changed files a config context reports */
+export type ConfigContextScope = Pick<DiffOptions, 'scope' | 'base' | 'commit' | 'range'>;
+
+export const CONFIG_MODULE_EXTENSIONS = ['.ts', '.mts', '.cts', '.mjs', '.cjs', '.js'];
+
+/**
+ * Typed helper for `diffesense.config.ts`
+ *
+ * @example
+ * ```typescript
+ * import { defineConfig } from 'diffesense';
+ *
+ * export default defineConfig(({ branch }) => ({
+ *   policyPack: branch === 'main' ? 'enterprise' : 'startup',
+ * }));
+ * ```
+ */
+export function defineConfig(config: UserConfig): UserConfig;
+export function defineConfig(config: ConfigFunction): ConfigFunction;
+export function defineConfig(config: UserConfig | ConfigFunction): UserConfig | ConfigFunction {
+  return config;
+}
+
+/**
+ * Check if a config file is a JavaScript or TypeScript module
+ */
+export function isConfigModule(filePath: string): boolean {
+  return CONFIG_MODULE_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Create the context for config functions; `changedFiles` diffs `scope`
+ * (default: the branch against its base)
+ */
+export function createConfigContext(
+  cwd: string,
+  scope: ConfigContextScope = { scope: 'branch' },
+): ConfigContext {
+  const root = getGitRoot(cwd);
+  let changedFiles: string[] | undefined;
+
+  return {
+    cwd,
+    root,
+    branch: root ? getCurrentBranch(cwd) : null,
+    get changedFiles() {
+      changedFiles ??= root ? getChangedFiles({ ...scope, cwd }).map((f) => f.path) : [];
+      return changedFiles;
+    },
+    env: process.env,
+  };
+}
+
+/**
+ * Evaluate a config module and return the config it exports
+ */
+export async function loadConfigModule(filePath: string, context: ConfigContext): Promise<unknown> {
+  // ES modules are cached by URL for the life of the process, so the query
+  // only changes (and the file is evaluated again) when the file does
+  const exports =
+    path.extname(filePath).toLowerCase() === '.mjs'
+      ? await importModule(
+          `${pathToFileURL(filePath).href}?mtime=${fs.statSync(filePath).mtimeMs}`,
+        )
+      : runCommonJsModule(filePath);
+
+  const exported = exports && typeof exports === 'object' && 'default' in exports
+    ? exports.default
+    : exports;
+  return typeof exported === 'function' ? await exported(context) : exported;
+}
+
+/**
+ * Import an ES module with Node's loader, through a JavaScript shim that keeps
+ * `import()` out of the TypeScript build
+ */
+function importModule(specifier: string): Promise<unknown> {
+  const esmImport: (specifier: string) => Promise<unknown> = require('./esmImport.cjs');
+  return esmImport(specifier);
+}
+
+/**
+ * Transpile a config module to CommonJS and run it, returning its exports
+ */
+function runCommonJsModule(filePath: string): unknown {
+  const ts = getTypeScript();
+  if (!ts) {
+    throw new Error('TypeScript is required to load JavaScript and TypeScript config files');
+  }
+
+  const { outputText } = ts.transpileModule(fs.readFileSync(filePath, 'utf-8'), {
+    fileName: filePath,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2022,
+      esModuleInterop: true,
+    },
+  });
+
+  // `defineConfig` imports resolve to this copy, which npx runs may not have installed
+  const configRequire = createRequire(filePath);
+  const requireModule = Object.assign(
+    (id: string) => (id === 'diffesense' ? { defineConfig } : configRequire(id)),
+    configRequire,
+  );
+
+  const configModule = { exports: {} as unknown };
+  const run = vm.runInThisContext(
+    `(function (exports, require, module, __filename, __dirname) {${outputText}\n})`,
+    { filename: filePath },
+  ) as (...args: unknown[]) => void;
+  run(configModule.exports, requireModule, configModule, filePath, path.dirname(filePath));
+  return configModule.exports;
+}
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { isPolicyPackRef } from '../policy/packs';
 
 export const SignalClassSchema = z.enum(['critical', 'behavioral', 'maintainability']);
 export const SeveritySchema = z.enum(['blocker', 'warning', 'info']);
@@ -19,7 +20,7 @@ export const ProfileNameSchema = z.enum([
 ]);
 export const PolicyPackSchema = z.enum(['enterprise', 'startup', 'oss']);
 export const ScopeSchema = z.enum(['branch', 'staged', 'worktree', 'auto']);
-export const FormatSchema = z.enum(['console', 'markdown', 'json']);
+export const FormatSchema = z.enum(['console', 'markdown', 'json', 'sarif']);
 export const DetectorSchema = z.enum([
   'auto',
   'generic',
@@ -56,8 +57,25 @@ export const RuleConditionSchema = z.object({
   evidenceTags: z.array(z.string()).optional().describe('Evidence must have these tags'),
   pathMatches: z.array(z.string()).optional().describe('File path must match these globs'),
   pathExcludes: z.array(z.string()).optional().describe('File path must NOT match these globs'),
-  signalTypes: z.array(z.string()).optional().describe('Signal types/IDs to match'),
+  signalTypes: z.array(z.string()).optional().describe('Signal types/IDs to match (globs allowed)'),
   signalClasses: z.array(SignalClassSchema).optional().describe('Signal classes to match'),
+  signalDelta: z
+    .array(z.enum(['introduced', 'pre-existing']))
+    .optional()
+    .describe('Only signals with this relation to the base version count'),
+  get all() {
+    return z.array(RuleConditionSchema).min(1).optional().describe('All conditions must match');
+  },
+  get any() {
+    return z
+      .array(RuleConditionSchema)
+      .min(1)
+      .optional()
+      .describe('At least one condition must match');
+  },
+  get not() {
+    return RuleConditionSchema.optional().describe('Condition must not match');
+  },
 });
 
 export const RuleActionSchema = z.object({
@@ -83,7 +101,19 @@ export const CustomPatternSchema = z.object({
   id: z.string().describe('Unique pattern identifier'),
   name: z.string().describe('Human-readable name'),
   description: z.string().describe('What this pattern detects'),
-  match: z.string().describe('Regex pattern to match'),
+  match: z
+    .string()
+    .superRefine((value, ctx) => {
+      try {
+        new RegExp(value);
+      } catch (error) {
+        ctx.addIssue({
+          code: 'custom',
+          message: `Invalid regular expression: ${error instanceof Error ? error.message : value}`,
+        });
+      }
+    })
+    .describe('Regex pattern to match'),
   category: CategorySchema.describe('Signal category'),
   signalType: z.string().describe('Signal type/ID'),
   weight: z.number().min(0).max(1).describe('Weight (0-1)'),
@@ -107,6 +137,45 @@ export const OwnershipSchema = z.object({
   defaultReviewers: z.array(z.string()).optional().describe('Default reviewers when no match'),
 });
 
+export const HistorySchema = z.object({
+  enabled: z.boolean().optional().default(false).describe('Enrich risk with git history'),
+  windows: z
+    .array(z.number().int().positive())
+    .min(1)
+    .optional()
+    .describe('Churn windows in days (default: [30, 90])'),
+  churnThreshold: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Commits in the first window that mark a hot spot (default: 10)'),
+  authorThreshold: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Distinct authors that mark a hot spot (default: 4)'),
+  fixRatioThreshold: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe('Share of fix/revert commits that marks a hot spot (default: 0.3)'),
+});
+
+export const DifferentialSchema = z.object({
+  enabled: z
+    .boolean()
+    .optional()
+    .describe('Compare signals with the base version (default: on with introducedOnly)'),
+  introducedOnly: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Score and report only signals the change introduced'),
+});
+
 /**
  * Severity counts for policy pack failOn configuration
  */
@@ -135,7 +204,26 @@ export const DiffeSenseConfigSchema = z.object({
 
   version: z.number().int().min(1).max(1).optional().default(1).describe('Config version'),
 
-  policyPack: PolicyPackSchema.optional().describe('Policy pack: enterprise, startup, or oss'),
+  extends: z
+    .union([z.string().min(1), z.array(z.string().min(1))])
+    .optional()
+    .describe('Configs to inherit (relative paths or npm packages), merged in order'),
+
+  policyPack: z
+    .string()
+    .min(1)
+    .superRefine((value, ctx) => {
+      if (!isPolicyPackRef(value)) {
+        ctx.addIssue({
+          code: 'custom',
+          message:
+            `Invalid policy pack "${value}": expected ${PolicyPackSchema.options.join(', ')}, ` +
+            'a pack file path or an npm package name',
+        });
+      }
+    })
+    .optional()
+    .describe('Policy pack: enterprise, startup, oss, or path or npm package of a custom pack'),
 
   profile: ProfileNameSchema.optional().default('minimal').describe('Base profile'),
 
@@ -213,25 +301,50 @@ export const DiffeSenseConfigSchema = z.object({
 
   ownership: OwnershipSchema.optional().describe('CODEOWNERS integration'),
 
+  history: HistorySchema.optional().describe('Git history risk enrichment'),
+
+  differential: DifferentialSchema.optional().describe('Introduced vs pre-existing signals'),
+
   customPatterns: z.array(CustomPatternSchema).optional().describe('Custom detection patterns'),
 
+  packs: z
+    .array(z.string())
+    .optional()
+    .describe('Detector packs to load (npm package names, local paths or YAML files)'),
+
   rules: z.array(RuleSchema).optional().describe('Custom rules'),
 
   exceptions: z.array(ExceptionSchema).optional().describe('Temporary exceptions'),
 });
 
 export type DiffeSenseConfig = z.infer<typeof DiffeSenseConfigSchema>;
+/** Config as written by users, before schema defaults are applied */
+export type UserConfig = z.input<typeof DiffeSenseConfigSchema>;
 export type Rule = z.infer<typeof RuleSchema>;
 export type Exception = z.infer<typeof ExceptionSchema>;
 export type CustomPattern = z.infer<typeof CustomPatternSchema>;
 export type ActionMapping = z.infer<typeof ActionMappingSchema>;
 export type Ownership = z.infer<typeof OwnershipSchema>;
+export type History = z.infer<typeof HistorySchema>;
+export type Differential = z.infer<typeof DifferentialSchema>;
 
 export interface ValidationResult {
   valid: boolean;
   config?: DiffeSenseConfig;
   errors: ValidationError[];
   warnings: string[];
+  /** Files the config was merged from, extended configs first */
+  layers?: ConfigLayer[];
+}
+
+/**
+ * Config file in an `extends` chain
+ */
+export interface ConfigLayer {
+  /** File path */
+  source: string;
+  /** Values as written in the file, without `extends` */
+  data: Record<string, unknown>;
 }
 
 export interface ValidationError {
@@ -7,15 +7,68 @@
  */
 
 import * as path from 'path';
-import { getChangedFiles, getCurrentBranch, isGitRepo, DiffScope, parseGitDiff } from '../git/diff';
-import { analyzeProject, ChangedFileDetail } from '../analyzers';
-import { buildDependencyGraph, calculateBlastRadiusFromGraph } from '../analyzers/blastRadius';
+import {
+  getChangedFiles,
+  getCurrentBranch,
+  getDiffBaseRef,
+  getDiffHeadRef,
+  isGitRepo,
+  filterChangedFiles,
+  DiffScope,
+  parseGitDiff,
+} from '../git/diff';
+import { createRepoSnapshot, readFilesAtRef } from '../git/objects';
+import { applyPatchToTree, findUnsafePatchPath, parsePatch } from '../git/patch';
+import { analyzeProject, ChangedFileDetail, ProjectAnalysis } from '../analyzers';
+import {
+  buildDependentsGraph,
+  calculateBlastRadiusFromGraph,
+  countUnresolvedImports,
+  DependencyGraph,
+} from '../analyzers/blastRadius';
+import { loadIndexedDependencyGraph } from '../analyzers/graphIndex';
+import { RepoFileReader } from '../analyzers/resolver';
+import {
+  calculateSymbolBlastRadius,
+  getSymbolDependents,
+  SymbolBlastRadius,
+} from '../analyzers/symbols';
 import { evaluateRules, EvaluationResult } from '../policy/engine';
 import { getProfileRules } from '../policy/loader';
-import { resolveConfig, DiffeSenseConfig } from '../config';
+import {
+  applyPolicyPack,
+  AppliedPolicyPack,
+  PolicyFailure,
+  shouldFailAnalysis,
+} from '../policy/packs/loader';
+import { resolveConfig, DiffeSenseConfig, ResolvedConfig } from '../config';
 import { DetectorProfile } from '../signals';
-import { buildIgnoreList, shouldIgnore, explainIgnore } from './ignore';
+import {
+  Confidence,
+  Severity,
+  Signal,
+  SignalCategory,
+  SignalClass,
+  SignalDelta,
+} from '../signals/types';
+import { buildIgnoreList, shouldIgnore, explainIgnore, IgnoreConfig } from './ignore';
 import { getRiskSeverity, RiskSeverity } from './severity';
+import { createPackRegistry, loadPacksFromConfig } from '../plugins/loader';
+import { registerPackSignalDescriptions } from '../plugins/detector';
+import { compileCustomPatterns, PatternDef } from '../patterns';
+import { registerSignalDescription, getDescriptionCategory } from '../output/signalDescriptions';
+import {
+  findCodeOwnersFile,
+  loadCodeOwners,
+  getFileOwnership,
+  routeReviewers,
+  CodeOwnersConfig,
+  FileOwnership,
+  ReviewerRouting,
+} from './codeowners';
+import { getActiveSuppressions, SuppressedSignal } from './suppressions';
+import { computeSignalFingerprints } from './fingerprint';
+import { getFileHistory, FileHistory, DEFAULT_HISTORY_THRESHOLDS } from '../git/history';
 
 export interface AnalyzeOptions {
   /** Working directory (defaults to process.cwd()) */
@@ -34,8 +87,12 @@ export interface AnalyzeOptions {
   detector?: DetectorProfile;
   /** Path to config file */
   configPath?: string;
+  /** Config already resolved by the caller; `configPath` is then not read */
+  resolvedConfig?: ResolvedConfig;
   /** Override fail threshold */
   threshold?: number;
+  /** Policy pack name, file or package (default: config policyPack, then startup) */
+  policyPack?: string;
   /** Include test files */
   includeTests?: boolean;
   /** Include config files */
@@ -44,12 +101,44 @@ export interface AnalyzeOptions {
   contextLines?: number;
   /** Skip blast radius calculation */
   skipBlastRadius?: boolean;
+  /** Persist the dependency-graph index in this cache directory and sync it incrementally */
+  graphCacheDir?: string;
   /** Analyze entire files, not just changed lines */
   fullFileAnalysis?: boolean;
   /** Use class-based scoring */
   classBasedScoring?: boolean;
   /** Analyze all files (not just changed) */
   analyzeAll?: boolean;
+  /** Enrich risk with git history (overrides config history.enabled) */
+  history?: boolean;
+  /**
+   * Compare signals with the base version (overrides config differential.enabled;
+   * default: on with introducedOnly)
+   */
+  differential?: boolean;
+  /** Score and report only introduced signals (overrides config differential.introducedOnly) */
+  introducedOnly?: boolean;
+  /** Unified diff to analyze instead of git changes; applied in memory to the files under cwd */
+  patch?: string;
+  /** Post-patch contents by path, used as given instead of applying the patch to cwd */
+  patchedFiles?: Record<string, string>;
+}
+
+export interface AnalyzedSignal {
+  id: string;
+  title: string;
+  category: SignalCategory;
+  class: SignalClass;
+  severity: Severity;
+  confidence: Confidence;
+  /** Lines the signal applies to (1-based) */
+  lines: number[];
+  snippet?: string;
+  message: string;
+  /** Stable identity across runs (see computeSignalFingerprints) */
+  fingerprint: string;
+  /** Relation to the base version (diff analysis with differential signals) */
+  delta?: SignalDelta;
 }
 
 export interface AnalyzedFileResult {
@@ -58,20 +147,40 @@ export interface AnalyzedFileResult {
   gatedRiskScore: number;
   severity: RiskSeverity;
   blastRadius: number;
+  /** How complete the import resolution behind blastRadius was */
+  blastRadiusConfidence?: 'high' | 'medium' | 'low';
+  /** Dependents per touched export (diff analysis of parseable files) */
+  symbolBlastRadius?: SymbolBlastRadius[];
   evidence: Array<{
     line?: number;
     message: string;
     severity: 'error' | 'warning' | 'info';
     tag?: string;
+    delta?: SignalDelta;
   }>;
   riskReasons: string[];
   signalTypes: string[];
+  /** Active signals, in evidence order */
+  signals: AnalyzedSignal[];
   gateStats?: {
     blocking: number;
     advisory: number;
     filtered: number;
     total: number;
   };
+  /** Owners and reviewers (when ownership routing is configured) */
+  ownership?: FileOwnership;
+  /** Signals hidden by suppressions, with the matching rule */
+  suppressed: SuppressedSignal[];
+  /** Churn, authorship and fix frequency (when history enrichment is enabled) */
+  history?: FileHistory;
+  /** Comparison with the base version (when differential signals are enabled) */
+  differential?: {
+    introduced: number;
+    preExisting: number;
+    /** Signals the change removed; lines refer to the base version */
+    resolved: AnalyzedSignal[];
+  };
 }
 
 export interface IgnoredFile {
@@ -87,7 +196,8 @@ export interface AnalysisWarning {
 
 export interface AnalysisMeta {
   cwd: string;
-  scope: DiffScope;
+  /** 'patch' for a unified diff and 'files' for in-memory contents instead of git changes */
+  scope: DiffScope | 'patch' | 'files';
   base: string;
   branch: string | null;
   profile: string;
@@ -115,6 +225,13 @@ export interface AnalysisResult {
     blockerCount: number;
     warningCount: number;
     infoCount: number;
+    suppressedCount: number;
+    /** Introduced, pre-existing and resolved signal totals (differential analysis) */
+    differential?: {
+      introduced: number;
+      preExisting: number;
+      resolved: number;
+    };
   };
   /** Analyzed files with risk scores */
   files: AnalyzedFileResult[];
@@ -122,12 +239,24 @@ export interface AnalysisResult {
   ignoredFiles: IgnoredFile[];
   /** Evaluation result from policy engine */
   evaluation: EvaluationResult | null;
+  /** Policy pack fail conditions behind the exit code (absent when no file was analyzed) */
+  policy?: PolicyOutcome;
   /** Config and analysis warnings (not errors) */
   warnings: AnalysisWarning[];
+  /** Aggregated reviewers (when ownership routing is configured) */
+  reviewers?: ReviewerRouting;
   /** Resolved config used for analysis */
   config: DiffeSenseConfig;
 }
 
+export interface PolicyOutcome {
+  /** Name of the applied pack */
+  pack: string;
+  outcome: 'PASS' | 'FAIL';
+  /** Pack rules that caused the failure */
+  failures: PolicyFailure[];
+}
+
 /**
  * Run analysis and return structured result.
  * This is the primary programmatic API.
@@ -164,18 +293,42 @@ export async function analyze(options: AnalyzeOptions = {}): Promise<AnalysisRes
     timestamp: new Date().toISOString(),
   };
 
-  if (!isGitRepo(cwd)) {
+  const patchFiles = options.patch !== undefined ? parsePatch(options.patch) : null;
+  const isGit = isGitRepo(cwd);
+
+  if (!patchFiles && !isGit) {
     return createErrorResult('Not a git repository', meta, warnings);
   }
+  if (patchFiles?.length === 0 && options.patch!.trim()) {
+    return createErrorResult('Patch contains no file changes', meta, warnings);
+  }
+  const unsafePath = patchFiles && findUnsafePatchPath(patchFiles);
+  if (unsafePath) {
+    return createErrorResult(
+      `Patch path ${unsafePath} must be relative and inside the analyzed directory`,
+      meta,
+      warnings,
+    );
+  }
 
-  const {
-    config,
-    source: configSource,
-    warnings: configWarnings,
-  } = resolveConfig({
-    configPath: options.configPath,
-    cwd,
-  });
+  let resolved = options.resolvedConfig;
+  if (!resolved) {
+    try {
+      resolved = await resolveConfig({
+        configPath: options.configPath,
+        cwd,
+        scope: {
+          scope: options.commit ? 'commit' : options.range ? 'range' : options.scope || 'branch',
+          base: options.base,
+          commit: options.commit,
+          range: options.range,
+        },
+      });
+    } catch (error) {
+      return createErrorResult((error as Error).message, meta, warnings);
+    }
+  }
+  const { config, source: configSource, warnings: configWarnings } = resolved;
 
   meta.configSource = configSource;
 
@@ -189,11 +342,17 @@ export async function analyze(options: AnalyzeOptions = {}): Promise<AnalysisRes
   } else if (options.range) {
     scope = 'range';
   }
-  meta.scope = scope;
+  meta.scope = patchFiles ? 'patch' : scope;
 
   const base = options.base || config.scope?.base || 'main';
   const profile = options.profile || config.profile || 'minimal';
   const detector = (options.detector || 'auto') as DetectorProfile;
+  let policy: AppliedPolicyPack;
+  try {
+    policy = applyPolicyPack(options.policyPack ?? config.policyPack, config, cwd);
+  } catch (error) {
+    return createErrorResult((error as Error).message, meta, warnings);
+  }
 
   meta.base = base;
   meta.profile = profile;
@@ -216,7 +375,28 @@ export async function analyze(options: AnalyzeOptions = {}): Promise<AnalysisRes
   const useDiffFocus = options.fullFileAnalysis !== true;
   const useClassBasedScoring = options.classBasedScoring !== false;
   const skipBlastRadius = options.skipBlastRadius || false;
-  const analyzeAll = options.analyzeAll || false;
+  const analyzeAll = !patchFiles && (options.analyzeAll || false);
+
+  const patchedTree = patchFiles ? applyPatchToTree(cwd, patchFiles, options.patchedFiles) : null;
+  for (const file of patchedTree?.rejected || []) {
+    warnings.push({
+      code: 'PATCH_NOT_APPLIED',
+      message: `Patch does not apply to ${file}; file skipped`,
+      path: file,
+    });
+  }
+
+  const listChangedFiles = (filter: IgnoreConfig) =>
+    patchFiles
+      ? filterChangedFiles(patchFiles.map((f) => ({ path: f.path, status: f.status })), filter)
+      : getChangedFiles({
+          scope,
+          base,
+          commit: options.commit,
+          range: options.range,
+          cwd,
+          ignoreConfig: filter,
+        });
 
   let filesToAnalyze: string[] = [];
   let changedFileDetails: ChangedFileDetail[] = [];
@@ -225,25 +405,11 @@ export async function analyze(options: AnalyzeOptions = {}): Promise<AnalysisRes
   if (analyzeAll) {
     meta.isDiffAnalysis = false;
   } else {
-    const rawChangedFiles = getChangedFiles({
-      scope,
-      base,
-      commit: options.commit,
-      range: options.range,
-      cwd,
-      ignoreConfig: { includeTests: true, includeConfig: true },
-    });
+    const rawChangedFiles = listChangedFiles({ includeTests: true, includeConfig: true });
 
     allChangedPaths = rawChangedFiles.map((f) => f.path);
 
-    const changedFiles = getChangedFiles({
-      scope,
-      base,
-      commit: options.commit,
-      range: options.range,
-      cwd,
-      ignoreConfig,
-    });
+    const changedFiles = listChangedFiles(ignoreConfig);
 
     for (const rawFile of rawChangedFiles) {
       const isIncluded = changedFiles.some((f) => f.path === rawFile.path);
@@ -263,14 +429,16 @@ export async function analyze(options: AnalyzeOptions = {}): Promise<AnalysisRes
     filesToAnalyze = changedFiles.map((f) => f.path);
 
     if (useDiffFocus) {
-      const diffDetails = parseGitDiff({
-        scope,
-        base,
-        commit: options.commit,
-        range: options.range,
-        cwd,
-        contextLines: 0,
-      });
+      const diffDetails = patchedTree
+        ? patchedTree.changes
+        : parseGitDiff({
+            scope,
+            base,
+            commit: options.commit,
+            range: options.range,
+            cwd,
+            contextLines: 0,
+          });
 
       changedFileDetails = diffDetails
         .filter((d) => !shouldIgnore(d.path, ignorePatterns))
@@ -284,6 +452,77 @@ export async function analyze(options: AnalyzeOptions = {}): Promise<AnalysisRes
     }
   }
 
+  const packRegistry = createPackRegistry();
+  await loadPacksFromConfig(config.packs || [], packRegistry, {
+    cwd,
+    warn: (message) => warnings.push({ code: 'PACK_WARNING', message }),
+    log: () => {},
+  });
+  const packDetectors = packRegistry.getAllDetectors();
+  registerPackSignalDescriptions(packDetectors);
+
+  const customPatterns = compileCustomPatterns(config.customPatterns || []);
+  registerCustomPatternDescriptions(customPatterns);
+
+  const suppressions = getActiveSuppressions(cwd, (message) =>
+    warnings.push({ code: 'SUPPRESSIONS_WARNING', message }),
+  );
+
+  // Commits and ranges are read from git objects, not from the working tree
+  const headRef =
+    analyzeAll || patchedTree
+      ? null
+      : getDiffHeadRef({ scope, base, commit: options.commit, range: options.range, cwd });
+  const snapshot = headRef !== null ? createRepoSnapshot(cwd, headRef) : null;
+  if (headRef !== null && !snapshot) {
+    return createErrorResult(`Cannot read revision '${headRef}'`, meta, warnings);
+  }
+
+  const headContents = new Map<string, string>();
+  snapshot?.readFiles(filesToAnalyze, (file, content) => headContents.set(file, content));
+  const readHeadFile = snapshot
+    ? (file: string) => headContents.get(file) ?? snapshot.readFile(file)
+    : patchedTree?.readFile;
+  const fileSource = snapshot ?? patchedTree ?? undefined;
+
+  const historyConfig = config.history;
+  const useHistory = isGit && (options.history ?? historyConfig?.enabled ?? false);
+  const history = useHistory
+    ? getFileHistory(analyzeAll ? undefined : filesToAnalyze, {
+        cwd,
+        windows: historyConfig?.windows,
+        ref: snapshot?.commit,
+        now: snapshot ? new Date(snapshot.timestamp) : undefined,
+      })
+    : undefined;
+
+  // Detection runs on both versions of every file, so the comparison is opt-in
+  const introducedOnly = options.introducedOnly ?? config.differential?.introducedOnly ?? false;
+  const useDifferential =
+    useDiffFocus &&
+    !analyzeAll &&
+    (options.differential ?? config.differential?.enabled ?? introducedOnly);
+  const baseRef =
+    useDifferential && !patchedTree
+      ? getDiffBaseRef({ scope, base, commit: options.commit, range: options.range, cwd })
+      : null;
+  let readBaseFile = patchedTree?.readBaseFile;
+  if (baseRef !== null) {
+    // Base versions of all changed files come from one batched read
+    const baseContents = readFilesAtRef(
+      cwd,
+      baseRef,
+      changedFileDetails.map((d) => d.oldPath || d.path),
+    );
+    readBaseFile = (file: string) => baseContents.get(file.replace(/\\/g, '/')) ?? null;
+  }
+  if (useDifferential && !readBaseFile) {
+    warnings.push({
+      code: 'DIFFERENTIAL_UNAVAILABLE',
+      message: 'Base revision could not be resolved; signals are not classified as introduced',
+    });
+  }
+
   const analysis = await analyzeProject({
     rootPath: cwd,
     includePatterns: config.patterns?.include,
@@ -295,6 +534,19 @@ export async function analyze(options: AnalyzeOptions = {}): Promise<AnalysisRes
     useClassBasedScoring,
     includeTests: options.includeTests || false,
     includeConfig: options.includeConfig || false,
+    packDetectors,
+    customPatterns,
+    suppressions,
+    history,
+    historyThresholds: {
+      churn: historyConfig?.churnThreshold ?? DEFAULT_HISTORY_THRESHOLDS.churn,
+      authors: historyConfig?.authorThreshold ?? DEFAULT_HISTORY_THRESHOLDS.authors,
+      fixRatio: historyConfig?.fixRatioThreshold ?? DEFAULT_HISTORY_THRESHOLDS.fixRatio,
+    },
+    readFile: readHeadFile,
+    readBaseFile: useDifferential ? readBaseFile : undefined,
+    introducedOnly,
+    categoryWeights: policy.effectiveConfig.weights,
   });
 
   meta.isDiffAnalysis = analysis.isDiffAnalysis;
@@ -305,45 +557,197 @@ export async function analyze(options: AnalyzeOptions = {}): Promise<AnalysisRes
 
   let dependencyGraph = null;
   if (!skipBlastRadius) {
-    const allFilePaths = analysis.analyzedFiles.map((f) => f.path);
-    dependencyGraph = buildDependencyGraph(cwd, allFilePaths);
+    const includeTests = options.includeTests || false;
+    // The persistent index tracks the working tree; without it (and for snapshots and
+    // patches) only the analyzed files and their dependents are read
+    dependencyGraph =
+      options.graphCacheDir && !fileSource
+        ? loadIndexedDependencyGraph(cwd, { cacheDir: options.graphCacheDir, includeTests }).graph
+        : buildDependentsGraph(
+            cwd,
+            analysis.analyzedFiles.map((f) => f.path),
+            { includeTests, snapshot: fileSource },
+          );
+
+    const unresolvedCount = countUnresolvedImports(dependencyGraph);
+    if (unresolvedCount > 0) {
+      const [firstFile, specifiers] = dependencyGraph.unresolved!.entries().next().value!;
+      warnings.push({
+        code: 'BLAST_RADIUS_UNRESOLVED',
+        message:
+          `${unresolvedCount} local import(s) could not be resolved ` +
+          `(e.g. '${specifiers[0]}'); blast radius may be incomplete`,
+        path: firstFile,
+      });
+    }
   }
 
+  let codeowners: CodeOwnersConfig | null = null;
+
+  if (config.ownership?.useCodeowners) {
+    if (findCodeOwnersFile(cwd)) {
+      codeowners = loadCodeOwners(cwd, (message) =>
+        warnings.push({ code: 'CODEOWNERS_WARNING', message }),
+      );
+    } else {
+      warnings.push({
+        code: 'CODEOWNERS_NOT_FOUND',
+        message: 'ownership.useCodeowners is enabled but no CODEOWNERS file was found',
+      });
+    }
+  }
+
+  return buildAnalysisResult({
+    cwd,
+    meta,
+    config,
+    profile,
+    threshold: options.threshold,
+    analysis,
+    changedFileDetails,
+    changedCount: analyzeAll ? analysis.analyzedFiles.length : allChangedPaths.length,
+    ignoredFiles,
+    warnings,
+    dependencyGraph,
+    readFile: readHeadFile,
+    codeowners,
+    policy,
+  });
+}
+
+/**
+ * Inputs shared by every entry point once files have been analyzed
+ */
+export interface ResultContext {
+  /** Root the file paths are relative to */
+  cwd: string;
+  meta: AnalysisMeta;
+  config: DiffeSenseConfig;
+  profile: string;
+  threshold?: number;
+  analysis: ProjectAnalysis;
+  changedFileDetails: ChangedFileDetail[];
+  changedCount: number;
+  ignoredFiles: IgnoredFile[];
+  warnings: AnalysisWarning[];
+  /** Import graph for blast radius (null skips it) */
+  dependencyGraph: DependencyGraph | null;
+  /** Read files for symbol-level blast radius (defaults to the working tree) */
+  readFile?: RepoFileReader;
+  codeowners: CodeOwnersConfig | null;
+  /** Policy pack whose fail conditions decide the exit code */
+  policy: AppliedPolicyPack;
+}
+
+/**
+ * Complete per-file analysis into an AnalysisResult: blast radius, fingerprints,
+ * ownership, policy evaluation and summary
+ */
+export function buildAnalysisResult(context: ResultContext): AnalysisResult {
+  const {
+    cwd,
+    meta,
+    config,
+    profile,
+    analysis,
+    changedFileDetails,
+    ignoredFiles,
+    warnings,
+    dependencyGraph,
+    codeowners,
+  } = context;
+  const ownership = config.ownership;
+  const routeOwnership = !!(ownership?.useCodeowners || ownership?.defaultReviewers?.length);
+
   const files: AnalyzedFileResult[] = [];
 
   for (const file of analysis.analyzedFiles) {
     let blastRadius = 0;
+    let blastRadiusConfidence: AnalyzedFileResult['blastRadiusConfidence'];
+    let symbolBlastRadius: SymbolBlastRadius[] | undefined;
 
-    if (!skipBlastRadius && dependencyGraph) {
+    if (dependencyGraph) {
       const radius = calculateBlastRadiusFromGraph(file.path, dependencyGraph);
       blastRadius = radius.totalDependents;
+      blastRadiusConfidence = radius.confidence;
+
+      // Count only importers that reference the exports the diff touched
+      const ranges = changedFileDetails.find((d) => d.path === file.path)?.ranges;
+      const symbols = calculateSymbolBlastRadius(
+        cwd,
+        file.path,
+        ranges,
+        dependencyGraph,
+        context.readFile,
+      );
+      if (symbols) {
+        symbolBlastRadius = symbols;
+        blastRadius = getSymbolDependents(symbols).length;
+      }
     }
 
+    const fingerprints = computeSignalFingerprints(file.path, [
+      ...file.signals.map((s) => ({
+        id: s.id,
+        line: s.lines[0],
+        snippet: s.snippet,
+        message: s.reason,
+      })),
+      ...file.suppressed.map((s) => ({
+        id: s.signalId,
+        line: s.line,
+        snippet: s.snippet,
+        message: s.message,
+      })),
+    ]);
+
     files.push({
       path: file.path,
       riskScore: file.riskScore,
       gatedRiskScore: file.gatedRiskScore,
       severity: getRiskSeverity(file.riskScore),
       blastRadius,
+      blastRadiusConfidence,
+      symbolBlastRadius,
       evidence: file.evidence.map((e) => ({
         line: e.line,
         message: e.message,
         severity: e.severity,
         tag: e.tag,
+        delta: e.delta,
       })),
       riskReasons: file.riskReasons,
       signalTypes: file.signalTypes,
+      signals: file.signals.map((s, i) => toAnalyzedSignal(s, fingerprints[i])),
       gateStats: file.gateStats,
+      ownership: routeOwnership
+        ? getFileOwnership(file, codeowners, {
+            defaultReviewers: ownership?.defaultReviewers,
+            escalateIfRiskAbove: ownership?.escalateIfRiskAbove,
+          })
+        : undefined,
+      suppressed: file.suppressed.map((s, i) => ({
+        ...s,
+        fingerprint: fingerprints[file.signals.length + i],
+      })),
+      history: file.history,
+      differential: file.differential
+        ? {
+            introduced: file.differential.introduced,
+            preExisting: file.differential.preExisting,
+            resolved: toResolvedSignals(file.path, file.differential.resolved),
+          }
+        : undefined,
     });
   }
 
   const rules = getProfileRules(profile, config.rules);
 
-  if (options.threshold !== undefined) {
+  if (context.threshold !== undefined) {
     rules.unshift({
       id: 'api-threshold-override',
       description: 'API threshold override',
-      when: { riskGte: options.threshold },
+      when: { riskGte: context.threshold },
       then: { severity: 'blocker' },
     });
   }
@@ -363,28 +767,88 @@ export async function analyze(options: AnalyzeOptions = {}): Promise<AnalysisRes
 
   const highestRisk = files.reduce((max, f) => Math.max(max, f.riskScore), 0);
 
+  // Pack fail conditions gate on gatedRiskScore, like the rules above
+  const { pack, effectiveConfig } = context.policy;
+  const severityCounts: Record<RiskSeverity, number> = { CRITICAL: 0, HIGH: 0, MED: 0, LOW: 0 };
+  let highestGatedRisk = 0;
+  for (const file of files) {
+    severityCounts[getRiskSeverity(file.gatedRiskScore)]++;
+    highestGatedRisk = Math.max(highestGatedRisk, file.gatedRiskScore);
+  }
+  const { shouldFail, failures } = shouldFailAnalysis(
+    { ...effectiveConfig, failThreshold: context.threshold ?? effectiveConfig.failThreshold },
+    {
+      highestRisk: highestGatedRisk,
+      blockerCount: evaluation.blockers.length,
+      severityCounts,
+    },
+  );
+
   return {
     success: true,
-    exitCode: evaluation.exitCode,
+    exitCode: shouldFail ? 1 : 0,
     meta,
     summary: {
-      changedCount: analyzeAll ? analysis.analyzedFiles.length : allChangedPaths.length,
+      changedCount: context.changedCount,
       analyzedCount: files.length,
       ignoredCount: ignoredFiles.length,
       highestRisk,
       blockerCount: evaluation.blockers.length,
       warningCount: evaluation.warnings.length,
       infoCount: evaluation.infos.length,
+      suppressedCount: files.reduce((sum, f) => sum + f.suppressed.length, 0),
+      differential: summarizeDifferential(files),
     },
     files,
     ignoredFiles,
     evaluation,
+    policy: { pack: pack.name, outcome: shouldFail ? 'FAIL' : 'PASS', failures },
     warnings,
+    reviewers: routeOwnership
+      ? routeReviewers(files, codeowners ? toRepoPath(cwd, codeowners.filePath) : null)
+      : undefined,
     config,
   };
 }
 
-function createErrorResult(
+function toAnalyzedSignal(signal: Signal, fingerprint: string): AnalyzedSignal {
+  return {
+    id: signal.id,
+    title: signal.title,
+    category: signal.category,
+    class: signal.class,
+    severity: signal.severity,
+    confidence: signal.confidence,
+    lines: signal.lines,
+    snippet: signal.snippet,
+    message: signal.reason,
+    fingerprint,
+    delta: signal.delta,
+  };
+}
+
+function toResolvedSignals(filePath: string, signals: Signal[]): AnalyzedSignal[] {
+  const fingerprints = computeSignalFingerprints(
+    filePath,
+    signals.map((s) => ({ id: s.id, line: s.lines[0], snippet: s.snippet, message: s.reason })),
+  );
+  return signals.map((s, i) => toAnalyzedSignal(s, fingerprints[i]));
+}
+
+function summarizeDifferential(
+  files: AnalyzedFileResult[],
+): AnalysisResult['summary']['differential'] {
+  const compared = files.filter((f) => f.differential);
+  if (compared.length === 0) return undefined;
+
+  return {
+    introduced: compared.reduce((sum, f) => sum + f.differential!.introduced, 0),
+    preExisting: compared.reduce((sum, f) => sum + f.differential!.preExisting, 0),
+    resolved: compared.reduce((sum, f) => sum + f.differential!.resolved.length, 0),
+  };
+}
+
+export function createErrorResult(
   error: string,
   meta: AnalysisMeta,
   warnings: AnalysisWarning[],
@@ -402,6 +866,7 @@ function createErrorResult(
       blockerCount: 0,
       warningCount: 0,
       infoCount: 0,
+      suppressedCount: 0,
     },
     files: [],
     ignoredFiles: [],
@@ -411,7 +876,7 @@ function createErrorResult(
   };
 }
 
-function createEmptyResult(
+export function createEmptyResult(
   meta: AnalysisMeta,
   warnings: AnalysisWarning[],
   ignoredFiles: IgnoredFile[],
@@ -430,6 +895,7 @@ function createEmptyResult(
       blockerCount: 0,
       warningCount: 0,
       infoCount: 0,
+      suppressedCount: 0,
     },
     files: [],
     ignoredFiles,
@@ -438,3 +904,22 @@ function createEmptyResult(
     config,
   };
 }
+
+/**
+ * Register descriptions so formatters show custom pattern names
+ */
+export function registerCustomPatternDescriptions(patterns: PatternDef[]): void {
+  for (const pattern of patterns) {
+    registerSignalDescription(pattern.signalType || pattern.id, {
+      title: pattern.name,
+      summary: pattern.description,
+      impact: pattern.description,
+      recommendation: 'Review this change carefully',
+      category: getDescriptionCategory(pattern.signalClass || 'behavioral'),
+    });
+  }
+}
+
+function toRepoPath(cwd: string, filePath: string): string {
+  return path.relative(cwd, filePath).replace(/\\/g, '/');
+}
@@ -0,0 +1,275 @@
+/**
+ * In-Memory Analysis API
+ *
+ * Analyze file contents passed as strings, without git, the filesystem or any
+ * other IO, so editors, review bots and workers get the same AnalysisResult as
+ * analyze().
+ */
+
+import { analyzeProject, ChangedFileDetail } from '../analyzers';
+import { DependencyGraph } from '../analyzers/blastRadius';
+import { DiffeSenseConfig, parseConfig, formatValidationErrors } from '../config/schema';
+import { filterChangedFiles } from '../git/diff';
+import { compileCustomPatterns } from '../patterns';
+import { DetectorDefinition } from '../plugins/types';
+import { isValidPolicyPack, PolicyPack } from '../policy/packs';
+import { applyPolicyPack } from '../policy/packs/loader';
+import { DetectorProfile } from '../signals';
+import {
+  AnalysisMeta,
+  AnalysisResult,
+  AnalysisWarning,
+  IgnoredFile,
+  buildAnalysisResult,
+  createEmptyResult,
+  createErrorResult,
+} from './analyze';
+import { explainIgnore, IgnoreConfig } from './ignore';
+import { SuppressionMatch } from './suppressions';
+import { computeChangedRanges } from './textDiff';
+
+export interface FileChange {
+  /** Repo-relative path */
+  path: string;
+  /** Content before the change (omit for added files) */
+  before?: string | null;
+  /** Content after the change (omit for deleted files) */
+  after?: string | null;
+}
+
+export interface AnalyzeFilesOptions {
+  /** Config object, validated like a config file (defaults when omitted) */
+  config?: Partial<DiffeSenseConfig>;
+  /** Profile name */
+  profile?: string;
+  /** Detector type */
+  detector?: DetectorProfile;
+  /** Override fail threshold */
+  threshold?: number;
+  /**
+   * Built-in policy pack name, or a pack resolved with resolvePolicyPack()
+   * (default: config policyPack, then startup)
+   */
+  policyPack?: string | PolicyPack;
+  /** Include test files */
+  includeTests?: boolean;
+  /** Include config files */
+  includeConfig?: boolean;
+  /** Context lines around changes */
+  contextLines?: number;
+  /** Analyze entire files, not just changed lines */
+  fullFileAnalysis?: boolean;
+  /** Use class-based scoring */
+  classBasedScoring?: boolean;
+  /**
+   * Compare signals with the before contents (overrides config differential.enabled;
+   * default: on with introducedOnly)
+   */
+  differential?: boolean;
+  /** Score and report only introduced signals (overrides config differential.introducedOnly) */
+  introducedOnly?: boolean;
+  /** Files each file imports (repo-relative paths); enables blast radius */
+  imports?: Record<string, string[]>;
+  /** Detector definitions, e.g. from packs the caller loaded */
+  packDetectors?: DetectorDefinition[];
+  /** Suppressions to apply, e.g. from getActiveSuppressions() */
+  suppressions?: SuppressionMatch[];
+  /** Root reported in meta (default: '.') */
+  cwd?: string;
+}
+
+/**
+ * Analyze before/after file pairs
+ *
+ * Changed ranges are computed from the two versions; files whose contents are
+ * equal are skipped. History and CODEOWNERS need the repository and are not
+ * applied, and suppressions only when passed in. Custom policy packs must be
+ * passed resolved, and pack and custom pattern descriptions are left for the
+ * caller to register.
+ */
+export async function analyzeFiles(
+  changes: FileChange[],
+  options: AnalyzeFilesOptions = {},
+): Promise<AnalysisResult> {
+  const cwd = options.cwd ?? '.';
+  const warnings: AnalysisWarning[] = [];
+  const ignoredFiles: IgnoredFile[] = [];
+
+  const meta: AnalysisMeta = {
+    cwd,
+    scope: 'files',
+    base: '',
+    branch: null,
+    profile: 'minimal',
+    detector: 'auto',
+    configSource: options.config ? 'api' : 'defaults',
+    isDiffAnalysis: true,
+    timestamp: new Date().toISOString(),
+  };
+
+  const validation = parseConfig(options.config ?? {});
+  if (!validation.valid || !validation.config) {
+    return createErrorResult(formatValidationErrors(validation), meta, warnings);
+  }
+  const config = validation.config;
+  for (const warn of validation.warnings) {
+    warnings.push({ code: 'CONFIG_WARNING', message: warn });
+  }
+
+  const profile = options.profile || config.profile || 'minimal';
+  const detector = options.detector || 'auto';
+  const packRef = options.policyPack ?? config.policyPack;
+  if (typeof packRef === 'string' && !isValidPolicyPack(packRef)) {
+    return createErrorResult(
+      `Policy pack "${packRef}" is not a built-in pack; in-memory analysis does not read ` +
+        'pack files or packages, so pass the pack resolved with resolvePolicyPack()',
+      meta,
+      warnings,
+    );
+  }
+  const policy = applyPolicyPack(packRef, config);
+  meta.profile = profile;
+  meta.detector = detector;
+
+  if (config.ownership?.useCodeowners) {
+    warnings.push({
+      code: 'CODEOWNERS_NOT_FOUND',
+      message: 'ownership.useCodeowners is not supported for in-memory analysis',
+    });
+  }
+  if (config.packs?.length && !options.packDetectors) {
+    warnings.push({
+      code: 'PACK_WARNING',
+      message: 'packs are not loaded by in-memory analysis; pass their detectors as packDetectors',
+    });
+  }
+
+  const configIgnore = config.ignore;
+  const ignoreConfig: IgnoreConfig = {
+    includeTests: options.includeTests || false,
+    includeConfig: options.includeConfig || false,
+    patterns: Array.isArray(configIgnore)
+      ? configIgnore
+      : (configIgnore as { patterns?: string[] })?.patterns,
+  };
+
+  const after = new Map<string, string>();
+  const before = new Map<string, string>();
+  const details: ChangedFileDetail[] = [];
+
+  for (const change of changes) {
+    const filePath = change.path.replace(/\\/g, '/');
+    const oldContent = change.before ?? null;
+    const newContent = change.after ?? null;
+    if (oldContent === newContent) continue;
+
+    if (oldContent !== null) before.set(filePath, oldContent);
+    if (newContent === null) {
+      details.push({ path: filePath, status: 'deleted', ranges: [], totalLinesChanged: 0 });
+      continue;
+    }
+
+    const ranges = computeChangedRanges(oldContent, newContent);
+    if (oldContent !== null && ranges.length === 0) continue;
+
+    after.set(filePath, newContent);
+    details.push({
+      path: filePath,
+      status: oldContent === null ? 'added' : 'modified',
+      ranges,
+      totalLinesChanged: ranges.reduce((sum, r) => sum + r.lineCount, 0),
+    });
+  }
+
+  const rawChangedFiles = filterChangedFiles(details, { includeTests: true, includeConfig: true });
+  const included = new Set(filterChangedFiles(details, ignoreConfig).map((f) => f.path));
+
+  for (const file of rawChangedFiles) {
+    if (!included.has(file.path)) {
+      ignoredFiles.push({
+        path: file.path,
+        reason: explainIgnore(file.path, ignoreConfig).reason || 'Filtered by ignore rules',
+      });
+    }
+  }
+
+  const changedFileDetails = details.filter((d) => included.has(d.path));
+  if (changedFileDetails.length === 0) {
+    return createEmptyResult(meta, warnings, ignoredFiles, config, rawChangedFiles.length);
+  }
+
+  const packDetectors = options.packDetectors || [];
+  const customPatterns = compileCustomPatterns(config.customPatterns || []);
+
+  const useDiffFocus = options.fullFileAnalysis !== true;
+  const introducedOnly = options.introducedOnly ?? config.differential?.introducedOnly ?? false;
+  const useDifferential =
+    useDiffFocus && (options.differential ?? config.differential?.enabled ?? introducedOnly);
+  const readFile = (filePath: string) => after.get(filePath) ?? null;
+
+  const analysis = await analyzeProject({
+    rootPath: cwd,
+    files: changedFileDetails.map((d) => d.path),
+    detectorProfile: detector,
+    changedFileDetails: useDiffFocus ? changedFileDetails : undefined,
+    contextLines: options.contextLines ?? config.contextLines ?? 5,
+    useClassBasedScoring: options.classBasedScoring !== false,
+    includeTests: options.includeTests || false,
+    includeConfig: options.includeConfig || false,
+    packDetectors,
+    customPatterns,
+    suppressions: options.suppressions,
+    readFile,
+    readBaseFile: useDifferential ? (filePath) => before.get(filePath) ?? null : undefined,
+    introducedOnly,
+    categoryWeights: policy.effectiveConfig.weights,
+  });
+
+  meta.isDiffAnalysis = analysis.isDiffAnalysis;
+
+  if (analysis.analyzedFiles.length === 0) {
+    return createEmptyResult(meta, warnings, ignoredFiles, config, rawChangedFiles.length);
+  }
+
+  return buildAnalysisResult({
+    cwd,
+    meta,
+    config,
+    profile,
+    threshold: options.threshold,
+    analysis,
+    changedFileDetails,
+    changedCount: rawChangedFiles.length,
+    ignoredFiles,
+    warnings,
+    dependencyGraph: options.imports ? createImportGraph(options.imports) : null,
+    readFile,
+    codeowners: null,
+    policy,
+  });
+}
+
+/**
+ * Build a dependency graph from a caller-supplied import map
+ */
+function createImportGraph(imports: Record<string, string[]>): DependencyGraph {
+  const dependents = new Map<string, Set<string>>();
+  const dependencies = new Map<string, Set<string>>();
+  const normalize = (p: string) => p.replace(/\\/g, '/');
+
+  for (const [file, targets] of Object.entries(imports)) {
+    const importer = normalize(file);
+    const deps = new Set(targets.map(normalize).filter((t) => t !== importer));
+    dependencies.set(importer, deps);
+
+    for (const target of deps) {
+      if (!dependents.has(target)) {
+        dependents.set(target, new Set());
+      }
+      dependents.get(target)!.add(importer);
+    }
+  }
+
+  // The caller resolved every import, so the graph counts as complete and exact
+  return { dependents, dependencies, complete: true, extraction: 'ast' };
+}
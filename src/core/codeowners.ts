@@ -118,7 +118,10 @@ function normalizePattern(pattern: string): string {
   return pattern;
 }
 
-export function loadCodeOwners(repoRoot: string = process.cwd()): CodeOwnersConfig | null {
+export function loadCodeOwners(
+  repoRoot: string = process.cwd(),
+  warn: (message: string) => void = (message) => console.warn(`Warning: ${message}`),
+): CodeOwnersConfig | null {
   const filePath = findCodeOwnersFile(repoRoot);
 
   if (!filePath) {
@@ -129,7 +132,7 @@ export function loadCodeOwners(repoRoot: string = process.cwd()): CodeOwnersConf
     const content = fs.readFileSync(filePath, 'utf-8');
     return parseCodeOwners(content, filePath);
   } catch (error) {
-    console.warn(`Warning: Could not read CODEOWNERS file: ${error}`);
+    warn(`Could not read CODEOWNERS file: ${error}`);
     return null;
   }
 }
@@ -202,30 +205,25 @@ export function suggestReviewers(
   escalation?: EscalationConfig,
 ): ReviewerSuggestion[] {
   const suggestions: ReviewerSuggestion[] = [];
-  const allOwners = new Set<string>();
 
   for (const file of files) {
-    const match = getOwnersForFile(file.path, config);
-
-    if (match) {
-      const suggestion: ReviewerSuggestion = {
-        filePath: file.path,
-        reviewers: [...match.owners],
-        reason: `Matched pattern: ${match.matchedPattern}`,
-        isEscalation: false,
-      };
-
-      if (escalation && file.riskScore >= escalation.riskThreshold) {
-        suggestion.reviewers = [
-          ...new Set([...suggestion.reviewers, ...escalation.escalationOwners]),
-        ];
-        suggestion.reason += ` (escalated due to risk ${file.riskScore.toFixed(1)})`;
-        suggestion.isEscalation = true;
-      }
-
-      suggestions.push(suggestion);
-      match.owners.forEach((o) => allOwners.add(o));
+    const ownership = getFileOwnership(file, config, {
+      escalateIfRiskAbove: escalation?.riskThreshold,
+      escalationReviewers: escalation?.escalationOwners,
+    });
+    if (ownership.matchedPattern === null) continue;
+
+    let reason = `Matched pattern: ${ownership.matchedPattern}`;
+    if (ownership.escalated) {
+      reason += ` (escalated due to risk ${file.riskScore.toFixed(1)})`;
     }
+
+    suggestions.push({
+      filePath: file.path,
+      reviewers: ownership.reviewers,
+      reason,
+      isEscalation: ownership.escalated,
+    });
   }
 
   return suggestions;
@@ -252,3 +250,90 @@ export function formatReviewersForComment(reviewers: string[]): string {
 
   return `${reviewers.slice(0, 3).join(', ')} (+${reviewers.length - 3} more)`;
 }
+
+export interface FileOwnership {
+  /** Owners from CODEOWNERS, or defaultReviewers when no rule matches */
+  owners: string[];
+  /** Owners plus escalation reviewers */
+  reviewers: string[];
+  /** CODEOWNERS pattern that matched (null when defaultReviewers were used) */
+  matchedPattern: string | null;
+  /** Whether the file's risk reached the escalation threshold */
+  escalated: boolean;
+}
+
+export interface ReviewerRouting {
+  /** Unique reviewers across all files, riskiest files first */
+  reviewers: string[];
+  /** Reviewers added by escalation */
+  escalationReviewers: string[];
+  /** Files whose risk reached the escalation threshold */
+  escalatedFiles: string[];
+  /** CODEOWNERS file used for routing (null when only defaultReviewers apply) */
+  codeownersPath: string | null;
+}
+
+export interface RoutingOptions {
+  defaultReviewers?: string[];
+  escalateIfRiskAbove?: number;
+  /** Reviewers added when a file escalates (default: defaultReviewers) */
+  escalationReviewers?: string[];
+}
+
+/**
+ * Resolve owners for a file, escalating to extra reviewers when risk reaches the threshold
+ */
+export function getFileOwnership(
+  file: { path: string; riskScore: number },
+  config: CodeOwnersConfig | null,
+  options: RoutingOptions = {},
+): FileOwnership {
+  const defaultReviewers = options.defaultReviewers || [];
+  const match = config ? getOwnersForFile(file.path, config) : null;
+  const owners = match ? [...match.owners] : [...defaultReviewers];
+
+  const escalationReviewers = options.escalationReviewers || defaultReviewers;
+  const escalated =
+    options.escalateIfRiskAbove !== undefined && file.riskScore >= options.escalateIfRiskAbove;
+
+  return {
+    owners,
+    reviewers: escalated ? [...new Set([...owners, ...escalationReviewers])] : owners,
+    matchedPattern: match ? match.matchedPattern : null,
+    escalated,
+  };
+}
+
+/**
+ * Aggregate per-file ownership into a single reviewer list for the run
+ */
+export function routeReviewers(
+  files: Array<{ path: string; riskScore: number; ownership?: FileOwnership }>,
+  codeownersPath: string | null = null,
+): ReviewerRouting {
+  const reviewers = new Set<string>();
+  const escalationReviewers = new Set<string>();
+  const escalatedFiles: string[] = [];
+
+  const byRisk = [...files].sort((a, b) => b.riskScore - a.riskScore);
+
+  for (const file of byRisk) {
+    if (!file.ownership) continue;
+
+    file.ownership.reviewers.forEach((r) => reviewers.add(r));
+
+    if (file.ownership.escalated) {
+      escalatedFiles.push(file.path);
+      file.ownership.reviewers
+        .filter((r) => !file.ownership!.owners.includes(r))
+        .forEach((r) => escalationReviewers.add(r));
+    }
+  }
+
+  return {
+    reviewers: Array.from(reviewers),
+    escalationReviewers: Array.from(escalationReviewers),
+    escalatedFiles,
+    codeownersPath,
+  };
+}
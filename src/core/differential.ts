@@ -0,0 +1,109 @@
+/**
+ * Differential Signals
+ *
+ * Compare the signals of the head version of a changed file with those of its
+ * base version, so a change is not blamed for risks that were already there.
+ */
+
+import { ChangedRange, Signal, SignalDelta } from '../signals/types';
+import { getSignalContent } from './fingerprint';
+
+export interface DifferentialResult {
+  /** Delta of each head signal, in input order */
+  deltas: Array<Exclude<SignalDelta, 'resolved'>>;
+  /** Base signals with no counterpart in the head version (lines refer to the base) */
+  resolved: Signal[];
+}
+
+/**
+ * Classify the reported head signals as introduced or pre-existing, and find
+ * the base signals the change removed
+ *
+ * Signals are matched by ID and normalized snippet, not by line, so code that
+ * merely moved stays pre-existing. When the head has more matching signals than
+ * the base, the surplus is introduced, preferring signals on changed lines.
+ *
+ * @param signals - Signals reported for the head (possibly limited to the diff window)
+ * @param headAll - All signals of the whole head file
+ * @param baseAll - All signals of the whole base file
+ */
+export function classifySignalDeltas(
+  signals: Signal[],
+  headAll: Signal[],
+  baseAll: Signal[],
+  changedRanges: ChangedRange[] = [],
+): DifferentialResult {
+  const headCounts = countByKey(headAll);
+  const baseGroups = groupByKey(baseAll);
+  const reported = new Map<string, number[]>();
+  signals.forEach((signal, index) => {
+    const key = getKey(signal);
+    reported.set(key, [...(reported.get(key) ?? []), index]);
+  });
+
+  const deltas: DifferentialResult['deltas'] = signals.map(() => 'pre-existing');
+
+  for (const [key, indexes] of reported) {
+    const headCount = Math.max(headCounts.get(key) ?? 0, indexes.length);
+    const baseCount = baseGroups.get(key)?.length ?? 0;
+    let introduced = headCount - baseCount;
+    if (introduced <= 0) continue;
+
+    indexes.sort(
+      (a, b) =>
+        Number(touchesRanges(signals[b], changedRanges)) -
+          Number(touchesRanges(signals[a], changedRanges)) ||
+        (signals[a].lines[0] ?? 0) - (signals[b].lines[0] ?? 0),
+    );
+
+    for (const index of indexes) {
+      if (introduced-- <= 0) break;
+      deltas[index] = 'introduced';
+    }
+  }
+
+  const resolved: Signal[] = [];
+  for (const [key, group] of baseGroups) {
+    const remaining = headCounts.get(key) ?? 0;
+    for (const signal of group.slice(remaining)) {
+      resolved.push({ ...signal, delta: 'resolved' });
+    }
+  }
+
+  resolved.sort((a, b) => (a.lines[0] ?? 0) - (b.lines[0] ?? 0));
+
+  return { deltas, resolved };
+}
+
+function getKey(signal: Signal): string {
+  return `${signal.id}\0${getSignalContent({ ...signal, message: signal.reason })}`;
+}
+
+function groupByKey(signals: Signal[]): Map<string, Signal[]> {
+  const groups = new Map<string, Signal[]>();
+  for (const signal of signals) {
+    const key = getKey(signal);
+    const group = groups.get(key);
+    if (group) {
+      group.push(signal);
+    } else {
+      groups.set(key, [signal]);
+    }
+  }
+  return groups;
+}
+
+function countByKey(signals: Signal[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const signal of signals) {
+    const key = getKey(signal);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function touchesRanges(signal: Signal, ranges: ChangedRange[]): boolean {
+  return signal.lines.some((line) =>
+    ranges.some((r) => line >= r.startLine && line <= r.endLine),
+  );
+}
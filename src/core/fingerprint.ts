@@ -0,0 +1,58 @@
+/**
+ * Signal Fingerprints
+ *
+ * Identify the same finding across runs. Fingerprints use the signal ID, file
+ * path and normalized source snippet rather than line numbers, so edits that
+ * shift code up or down keep the fingerprint stable.
+ */
+
+import * as crypto from 'crypto';
+
+export interface FingerprintInput {
+  id: string;
+  line?: number;
+  snippet?: string;
+  message: string;
+}
+
+/**
+ * Compute fingerprints for all signals of one file
+ *
+ * Identical signals (same ID and snippet) are told apart by their order in the file.
+ */
+export function computeSignalFingerprints(filePath: string, signals: FingerprintInput[]): string[] {
+  const path = filePath.replace(/\\/g, '/');
+  const order = signals
+    .map((signal, index) => ({ signal, index }))
+    .sort((a, b) => (a.signal.line ?? 0) - (b.signal.line ?? 0) || a.index - b.index);
+
+  const occurrences = new Map<string, number>();
+  const fingerprints: string[] = new Array(signals.length);
+
+  for (const { signal, index } of order) {
+    const key = `${signal.id}\0${path}\0${getSignalContent(signal)}`;
+    const occurrence = occurrences.get(key) ?? 0;
+    occurrences.set(key, occurrence + 1);
+
+    fingerprints[index] = crypto
+      .createHash('sha256')
+      .update(`${key}\0${occurrence}`, 'utf8')
+      .digest('hex')
+      .substring(0, 32);
+  }
+
+  return fingerprints;
+}
+
+/**
+ * Line-independent content of a signal: its normalized snippet, or its message
+ * when there is no snippet
+ */
+export function getSignalContent(signal: FingerprintInput): string {
+  // Messages can embed counts (e.g. file size), so digits are ignored there
+  return normalize(signal.snippet) || normalize(signal.message).replace(/\d+/g, '#');
+}
+
+function normalize(text: string | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
@@ -8,6 +8,18 @@ export {
   AnalysisMeta,
 } from './analyze';
 
+export { analyzeFiles, AnalyzeFilesOptions, FileChange } from './analyzeFiles';
+export { analyzeCommits, CommitAnalysis, CommitBlocker, PerCommitResult } from './perCommit';
+export { traceSignal, TraceOptions, TraceResult, SignalIntroduction } from './trace';
+export { checkPush, PrePushOptions, PrePushResult, PushRefCheck } from './prePush';
+export {
+  createWatchSession,
+  watchWorkingTree,
+  WatchOptions,
+  WatchSession,
+  WatchUpdate,
+} from './watch';
+
 export { RiskSeverity, getRiskSeverity, getSeverityColor, sortFilesBySeverity } from './severity';
 
 export {
@@ -82,6 +94,9 @@ export {
   OwnerMatch,
   EscalationConfig,
   ReviewerSuggestion,
+  FileOwnership,
+  ReviewerRouting,
+  RoutingOptions,
   findCodeOwnersFile,
   parseCodeOwners,
   loadCodeOwners,
@@ -90,6 +105,8 @@ export {
   suggestReviewers,
   getUniqueReviewers,
   formatReviewersForComment,
+  getFileOwnership,
+  routeReviewers,
 } from './codeowners';
 
 export {
@@ -135,6 +152,7 @@ export {
   AddSuppressionOptions,
   RemoveSuppressionOptions,
   SuppressionMatch,
+  SuppressedSignal,
   getLocalSuppressionsPath,
   getGlobalSuppressionsPath,
   normalizePath,
@@ -0,0 +1,115 @@
+/**
+ * Per-Commit Analysis
+ *
+ * Analyze each commit of a range on its own instead of collapsing the range
+ * into one diff, so stacked branches and release trains show which commit
+ * introduced each blocker.
+ */
+
+import { getRangeCommits, isGitRepo } from '../git/diff';
+import { analyze, AnalyzeOptions, AnalysisResult } from './analyze';
+
+export interface CommitAnalysis {
+  sha: string;
+  shortSha: string;
+  subject: string;
+  result: AnalysisResult;
+}
+
+export interface CommitBlocker {
+  ruleId: string;
+  file: string;
+  /** First commit of the range that reported the blocker */
+  introducedBy: { sha: string; subject: string };
+  /** Every commit that reported it, oldest first */
+  commits: string[];
+}
+
+export interface PerCommitResult {
+  /** Whether every commit was analyzed */
+  success: boolean;
+  /** Error message if the range could not be listed */
+  error?: string;
+  /** Worst exit code of all commits (0 = pass, 1 = fail/blockers, 2 = error) */
+  exitCode: 0 | 1 | 2;
+  range: string;
+  /** Results oldest first */
+  commits: CommitAnalysis[];
+  /** Blockers of all commits, attributed to the commit that introduced them */
+  blockers: CommitBlocker[];
+}
+
+/**
+ * Analyze every non-merge commit of `options.range` separately
+ */
+export async function analyzeCommits(
+  options: AnalyzeOptions & { range: string },
+): Promise<PerCommitResult> {
+  const cwd = options.cwd || process.cwd();
+  const { range } = options;
+
+  const isGit = isGitRepo(cwd);
+  const commits = isGit ? getRangeCommits(cwd, range) : null;
+  if (!commits) {
+    return {
+      success: false,
+      error: isGit ? `Invalid commit range '${range}'` : 'Not a git repository',
+      exitCode: 2,
+      range,
+      commits: [],
+      blockers: [],
+    };
+  }
+
+  const analyses: CommitAnalysis[] = [];
+  for (const commit of commits) {
+    const result = await analyze({ ...options, cwd, range: undefined, commit: commit.sha });
+    analyses.push({
+      sha: commit.sha,
+      shortSha: commit.sha.substring(0, 7),
+      subject: commit.subject,
+      result,
+    });
+  }
+
+  return {
+    success: analyses.every((a) => a.result.success),
+    exitCode: analyses.reduce<0 | 1 | 2>(
+      (worst, a) => (a.result.exitCode > worst ? a.result.exitCode : worst),
+      0,
+    ),
+    range,
+    commits: analyses,
+    blockers: attributeBlockers(analyses),
+  };
+}
+
+/**
+ * Merge the blockers of all commits, keyed by rule, file and the fingerprints
+ * of the file's signals, so a later commit adding another risk to the same
+ * file is credited with its own blocker
+ */
+function attributeBlockers(analyses: CommitAnalysis[]): CommitBlocker[] {
+  const blockers = new Map<string, CommitBlocker>();
+
+  for (const analysis of analyses) {
+    for (const blocker of analysis.result.evaluation?.blockers || []) {
+      const file = analysis.result.files.find((f) => f.path === blocker.file.path);
+      const fingerprints = (file?.signals || []).map((s) => s.fingerprint).sort();
+      const key = [blocker.ruleId, blocker.file.path, ...fingerprints].join('\0');
+      const existing = blockers.get(key);
+      if (existing) {
+        if (!existing.commits.includes(analysis.sha)) existing.commits.push(analysis.sha);
+        continue;
+      }
+      blockers.set(key, {
+        ruleId: blocker.ruleId,
+        file: blocker.file.path,
+        introducedBy: { sha: analysis.sha, subject: analysis.subject },
+        commits: [analysis.sha],
+      });
+    }
+  }
+
+  return [...blockers.values()];
+}
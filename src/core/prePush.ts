@@ -0,0 +1,87 @@
+/**
+ * Pre-Push Check
+ *
+ * Analyze every ref of a push separately and decide, using the configured
+ * policy pack and `failOn`, whether the push should be blocked.
+ */
+
+import { parsePushInput, PushedRef, resolvePushRange } from '../git/prePush';
+import { analyze, AnalysisResult } from './analyze';
+
+export interface PrePushOptions {
+  /** Hook stdin: one `<local ref> <local sha> <remote ref> <remote sha>` line per ref */
+  input: string;
+  /** Remote being pushed to (first hook argument) */
+  remote?: string;
+  /** Working directory (default: process.cwd()) */
+  cwd?: string;
+  /** Path to config file */
+  configPath?: string;
+  /** Policy pack name, file or package (default: config policyPack, then startup) */
+  policyPack?: string;
+  /** Override fail threshold */
+  threshold?: number;
+}
+
+export interface PushRefCheck {
+  ref: PushedRef;
+  range: string;
+  /** The remote does not have the branch yet */
+  newBranch: boolean;
+  result: AnalysisResult;
+  /** The ref fails the policy */
+  blocked: boolean;
+  /** Fail conditions that were met */
+  reasons: string[];
+}
+
+export interface PrePushResult {
+  /** 0 = push allowed, 1 = blocked by policy, 2 = analysis error */
+  exitCode: 0 | 1 | 2;
+  checks: PushRefCheck[];
+  /** Refs that add no commits (deletions, commits the remote already has) */
+  skipped: PushedRef[];
+}
+
+/**
+ * Analyze the commits each pushed ref adds to the remote
+ */
+export async function checkPush(options: PrePushOptions): Promise<PrePushResult> {
+  const cwd = options.cwd || process.cwd();
+  const { configPath, policyPack, threshold } = options;
+
+  const checks: PushRefCheck[] = [];
+  const skipped: PushedRef[] = [];
+
+  for (const ref of parsePushInput(options.input)) {
+    const { range, newBranch } = resolvePushRange(cwd, ref, options.remote);
+    if (!range) {
+      skipped.push(ref);
+      continue;
+    }
+
+    const result = await analyze({ cwd, range, configPath, policyPack, threshold });
+    if (!result.success) {
+      checks.push({
+        ref,
+        range,
+        newBranch,
+        result,
+        blocked: true,
+        reasons: [result.error || 'Analysis failed'],
+      });
+      continue;
+    }
+
+    const reasons = result.policy?.failures.map((f) => f.message) || [];
+    checks.push({ ref, range, newBranch, result, blocked: result.exitCode === 1, reasons });
+  }
+
+  const exitCode = checks.some((c) => !c.result.success)
+    ? 2
+    : checks.some((c) => c.blocked)
+      ? 1
+      : 0;
+
+  return { exitCode, checks, skipped };
+}
@@ -114,6 +114,8 @@ export const SIGNAL_ID_CLASS: Record<string, SignalClass> = {
   'blast-radius-high': 'behavioral',
   'blast-radius-critical': 'critical',
 
+  'history-hotspot': 'behavioral',
+
   'large-file': 'maintainability',
   'deep-nesting': 'maintainability',
   'long-function': 'maintainability',
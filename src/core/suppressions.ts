@@ -20,6 +20,7 @@ import * as os from 'os';
 import { createHash } from 'crypto';
 import { minimatch } from 'minimatch';
 import { z } from 'zod';
+import { Severity } from '../signals/types';
 
 export const SUPPRESSIONS_SCHEMA_VERSION = 1;
 
@@ -64,6 +65,31 @@ export interface SuppressionMatch {
   specificity?: number;
 }
 
+/**
+ * A detected signal hidden by a suppression (reported for auditing)
+ */
+export interface SuppressedSignal {
+  signalId: string;
+  line?: number;
+  message: string;
+  snippet?: string;
+  /** Severity the detector assigned before the signal was suppressed */
+  severity?: Severity;
+  /** Stable identity across runs (see computeSignalFingerprints) */
+  fingerprint?: string;
+  /** Signal ID or pattern of the matching suppression */
+  rule: string;
+  fileGlob?: string;
+  scope: SuppressionScope;
+  reason?: string;
+  createdBy?: string;
+  expiresAt?: string;
+}
+
+type WarnFn = (message: string) => void;
+
+const defaultWarn: WarnFn = (message) => console.warn(`Warning: ${message}`);
+
 const LOCAL_SUPPRESSIONS_DIR = '.diffesense';
 const LOCAL_SUPPRESSIONS_FILE = 'suppressions.json';
 const GLOBAL_CONFIG_DIR = path.join(os.homedir(), '.config', 'diffesense');
@@ -204,7 +230,10 @@ export function parseDuration(duration: string): number | null {
 /**
  * Load suppressions from a file with validation
  */
-export function loadSuppressionsFile(filePath: string): SuppressionsFile | null {
+export function loadSuppressionsFile(
+  filePath: string,
+  warn: WarnFn = defaultWarn,
+): SuppressionsFile | null {
   try {
     if (!fs.existsSync(filePath)) {
       return null;
@@ -215,13 +244,13 @@ export function loadSuppressionsFile(filePath: string): SuppressionsFile | null
 
     const result = SuppressionsFileSchema.safeParse(parsed);
     if (!result.success) {
-      console.warn(`Warning: Invalid suppressions file at ${filePath}: ${result.error.message}`);
+      warn(`Invalid suppressions file at ${filePath}: ${result.error.message}`);
       return null;
     }
 
     return result.data;
   } catch (error) {
-    console.warn(`Warning: Could not read suppressions file at ${filePath}`);
+    warn(`Could not read suppressions file at ${filePath}`);
     return null;
   }
 }
@@ -289,7 +318,10 @@ export function matchesSuppression(
 /**
  * Load all suppressions (global + local, with local taking precedence)
  */
-export function loadAllSuppressions(cwd: string): {
+export function loadAllSuppressions(
+  cwd: string,
+  warn: WarnFn = defaultWarn,
+): {
   local: SuppressionsFile | null;
   global: SuppressionsFile | null;
 } {
@@ -297,8 +329,8 @@ export function loadAllSuppressions(cwd: string): {
   const globalPath = getGlobalSuppressionsPath();
 
   return {
-    local: loadSuppressionsFile(localPath),
-    global: loadSuppressionsFile(globalPath),
+    local: loadSuppressionsFile(localPath, warn),
+    global: loadSuppressionsFile(globalPath, warn),
   };
 }
 
@@ -313,8 +345,11 @@ export function loadAllSuppressions(cwd: string): {
  * When checking if a signal is suppressed, the LAST matching entry wins,
  * which means local entries override global ones.
  */
-export function getActiveSuppressions(cwd: string): SuppressionMatch[] {
-  const { local, global } = loadAllSuppressions(cwd);
+export function getActiveSuppressions(
+  cwd: string,
+  warn: WarnFn = defaultWarn,
+): SuppressionMatch[] {
+  const { local, global } = loadAllSuppressions(cwd, warn);
   const result: SuppressionMatch[] = [];
 
   // Global first (lower priority - will be checked first but overridden by later matches)
@@ -630,7 +665,7 @@ export function getSuppressionsHash(cwd: string): string {
 
 /**
  * Apply suppressions to signals array
- * Returns filtered signals and stats
+ * Returns filtered signals and stats; matches[i] is the suppression that hid suppressed[i]
  */
 export function applySuppressions<T extends { id: string }>(
   signals: T[],
@@ -639,14 +674,18 @@ export function applySuppressions<T extends { id: string }>(
 ): {
   active: T[];
   suppressed: T[];
+  matches: SuppressionMatch[];
   stats: { total: number; suppressed: number; active: number };
 } {
   const active: T[] = [];
   const suppressed: T[] = [];
+  const matches: SuppressionMatch[] = [];
 
   for (const signal of signals) {
-    if (isSuppressed(signal.id, filePath, suppressions)) {
+    const match = isSuppressed(signal.id, filePath, suppressions);
+    if (match) {
       suppressed.push(signal);
+      matches.push(match);
     } else {
       active.push(signal);
     }
@@ -655,6 +694,7 @@ export function applySuppressions<T extends { id: string }>(
   return {
     active,
     suppressed,
+    matches,
     stats: {
       total: signals.length,
       suppressed: suppressed.length,
@@ -0,0 +1,109 @@
+/**
+ * Text Diff
+ *
+ * Line diff of two versions of a file, mapped onto the same changed ranges a
+ * git diff produces, for callers that have contents rather than a repository.
+ */
+
+import { ChangedRange, collectChangedRanges } from '../git/diffParser';
+
+/** Above this many edits, the differing block is treated as replaced wholesale */
+const MAX_EDIT_DISTANCE = 2000;
+
+type LineOp = ' ' | '-' | '+';
+
+/**
+ * Changed line ranges of the new version (before is null for added files)
+ */
+export function computeChangedRanges(before: string | null, after: string): ChangedRange[] {
+  const oldLines = before === null ? [] : splitLines(before);
+  const newLines = splitLines(after);
+  const ops = diffLines(oldLines, newLines);
+  if (ops.every((op) => op === ' ')) return [];
+
+  return collectChangedRanges(
+    [`@@ -1,${oldLines.length} +1,${newLines.length} @@`, ...ops],
+    before === null ? 'added' : 'modified',
+  );
+}
+
+/**
+ * Edit script between two line lists (Myers), with the common prefix and suffix
+ * matched up front
+ */
+function diffLines(a: string[], b: string[]): LineOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const same = (count: number): LineOp[] => new Array(count).fill(' ');
+  return [
+    ...same(start),
+    ...myers(a.slice(start, endA), b.slice(start, endB)),
+    ...same(a.length - endA),
+  ];
+}
+
+function myers(a: string[], b: string[]): LineOp[] {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(trace, offset, n, m);
+    }
+  }
+
+  return [...new Array<LineOp>(n).fill('-'), ...new Array<LineOp>(m).fill('+')];
+}
+
+function backtrack(trace: Int32Array[], offset: number, n: number, m: number): LineOp[] {
+  const ops: LineOp[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = v[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push(' ');
+      x--;
+      y--;
+    }
+    if (d > 0) ops.push(x === prevX ? '+' : '-');
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+function splitLines(content: string): string[] {
+  return content === '' ? [] : content.replace(/\r?\n$/, '').split(/\r?\n/);
+}
@@ -0,0 +1,246 @@
+/**
+ * Signal Trace
+ *
+ * Walk the commits of a range and find the commit that introduced a signal in
+ * each file, instead of bisecting by hand.
+ */
+
+import { detectFileSignals, FileDetectors } from '../analyzers';
+import { resolveConfig } from '../config';
+import {
+  filterChangedFiles,
+  getCommitDiffText,
+  getRangeCommits,
+  isGitRepo,
+  parseGitDiff,
+  readFileAtRef,
+  RangeCommit,
+} from '../git/diff';
+import { parsePatch, PatchHunk } from '../git/patch';
+import { compileCustomPatterns } from '../patterns';
+import { createPackRegistry, loadPacksFromConfig } from '../plugins/loader';
+import { DetectorProfile, Signal } from '../signals';
+import { AnalysisWarning } from './analyze';
+import { classifySignalDeltas } from './differential';
+
+export interface TraceOptions {
+  /** Signal to trace (e.g. 'sec-eval') */
+  signalId: string;
+  /** Commit range (e.g. 'main..HEAD') */
+  range: string;
+  /** Only report this file (path at the end of the range) */
+  file?: string;
+  /** Detector profile (default: 'auto') */
+  detector?: DetectorProfile;
+  /** Config file whose packs and customPatterns also run (default: found from cwd) */
+  configPath?: string;
+  /** Working directory (default: process.cwd()) */
+  cwd?: string;
+}
+
+export interface SignalIntroduction {
+  /** Path in the introducing commit */
+  file: string;
+  /** Path at the end of the range (null when the file was deleted later) */
+  path: string | null;
+  commit: RangeCommit;
+  /** Lines of the introduced signal in the introducing commit */
+  lines: number[];
+  snippet?: string;
+  /** Diff hunk of the commit containing the signal (null when none contains it) */
+  hunk: string | null;
+}
+
+export interface TraceResult {
+  success: boolean;
+  error?: string;
+  signalId: string;
+  range: string;
+  /** Commits walked, oldest first */
+  commitsScanned: number;
+  /** First appearance of the signal in each file, in commit order */
+  introductions: SignalIntroduction[];
+  /** Files (path at the end of the range) that had the signal before the range */
+  preExisting: string[];
+  warnings: AnalysisWarning[];
+}
+
+interface FileLineage {
+  introduction?: SignalIntroduction;
+  preExisting?: boolean;
+}
+
+/**
+ * Find the commit of a range that introduced a signal in each file
+ *
+ * Each changed file of a commit is run through the detectors before and after
+ * the commit (following renames), and the first commit whose version has more
+ * occurrences of the signal than its parent is reported. Files are not examined
+ * again once an introduction was found. The detectors are those analyze() runs,
+ * including the config's detector packs and custom patterns.
+ */
+export async function traceSignal(options: TraceOptions): Promise<TraceResult> {
+  const cwd = options.cwd || process.cwd();
+  const { signalId, range } = options;
+
+  const result: TraceResult = {
+    success: true,
+    signalId,
+    range,
+    commitsScanned: 0,
+    introductions: [],
+    preExisting: [],
+    warnings: [],
+  };
+
+  const isGit = isGitRepo(cwd);
+  const commits = isGit ? getRangeCommits(cwd, range) : null;
+  if (!commits) {
+    return {
+      ...result,
+      success: false,
+      error: isGit ? `Invalid commit range '${range}'` : 'Not a git repository',
+    };
+  }
+
+  let detectors: FileDetectors;
+  try {
+    detectors = await loadDetectors(cwd, options, result.warnings);
+  } catch (error) {
+    return { ...result, success: false, error: (error as Error).message };
+  }
+
+  // Keyed by the file's current path, so renames carry the state along
+  const lineages = new Map<string, FileLineage>();
+  const detect = (content: string | null, filePath: string): Signal[] =>
+    content === null
+      ? []
+      : detectFileSignals(content, filePath, detectors).filter((s) => s.id === signalId);
+
+  for (const commit of commits) {
+    result.commitsScanned++;
+    const changes = parseGitDiff({ scope: 'commit', commit: commit.sha, cwd });
+
+    for (const change of changes) {
+      const oldPath = change.oldPath || change.path;
+      const lineage = lineages.get(oldPath);
+      if (change.oldPath) lineages.delete(change.oldPath);
+
+      if (change.status === 'deleted') {
+        if (lineage?.introduction) lineage.introduction.path = null;
+        lineages.delete(change.path);
+        continue;
+      }
+      if (lineage) lineages.set(change.path, lineage);
+      if (lineage?.introduction || !isTraceable(change.path)) continue;
+
+      const base =
+        change.status === 'added'
+          ? []
+          : detect(readFileAtRef(cwd, `${commit.sha}^`, oldPath), oldPath);
+      const head = detect(readFileAtRef(cwd, commit.sha, change.path), change.path);
+
+      // Occurrences in the parent of the first commit touching the file predate the range
+      if (!lineage && base.length > 0) {
+        lineages.set(change.path, { preExisting: true });
+      }
+
+      const { deltas } = classifySignalDeltas(head, head, base, change.ranges);
+      const introduced = head.find((_, i) => deltas[i] === 'introduced');
+      if (!introduced) continue;
+
+      const introduction: SignalIntroduction = {
+        file: change.path,
+        path: change.path,
+        commit,
+        lines: introduced.lines,
+        snippet: introduced.snippet,
+        hunk: findHunk(cwd, commit.sha, oldPath, change.path, introduced.lines[0]),
+      };
+      result.introductions.push(introduction);
+      lineages.set(change.path, { ...lineages.get(change.path), introduction });
+    }
+  }
+
+  for (const [filePath, lineage] of lineages) {
+    if (lineage.introduction) lineage.introduction.path = filePath;
+    if (lineage.preExisting) result.preExisting.push(filePath);
+  }
+
+  if (options.file) {
+    const file = options.file.replace(/\\/g, '/').replace(/^\.\//, '');
+    result.introductions = result.introductions.filter((i) => i.path === file);
+    result.preExisting = result.preExisting.filter((p) => p === file);
+  }
+
+  result.preExisting.sort();
+  return result;
+}
+
+/**
+ * Detectors of the config in effect: the profile, detector packs and custom patterns
+ */
+async function loadDetectors(
+  cwd: string,
+  options: TraceOptions,
+  warnings: AnalysisWarning[],
+): Promise<FileDetectors> {
+  const { config, warnings: configWarnings } = await resolveConfig({
+    configPath: options.configPath,
+    cwd,
+    scope: { scope: 'range', range: options.range },
+  });
+  for (const message of configWarnings) {
+    warnings.push({ code: 'CONFIG_WARNING', message });
+  }
+
+  const packRegistry = createPackRegistry();
+  await loadPacksFromConfig(config.packs || [], packRegistry, {
+    cwd,
+    warn: (message) => warnings.push({ code: 'PACK_WARNING', message }),
+    log: () => {},
+  });
+
+  return {
+    detectorProfile: options.detector || 'auto',
+    packDetectors: packRegistry.getAllDetectors(),
+    customPatterns: compileCustomPatterns(config.customPatterns || []),
+  };
+}
+
+function isTraceable(filePath: string): boolean {
+  return (
+    filterChangedFiles([{ path: filePath, status: 'modified' }], {
+      includeTests: true,
+      includeConfig: true,
+    }).length > 0
+  );
+}
+
+/**
+ * Text of the commit's hunk whose new side contains the line
+ */
+function findHunk(
+  cwd: string,
+  sha: string,
+  oldPath: string,
+  filePath: string,
+  line: number | undefined,
+): string | null {
+  const paths = oldPath === filePath ? [filePath] : [oldPath, filePath];
+  const patch = parsePatch(getCommitDiffText(cwd, sha, paths));
+  const hunks = patch.find((f) => f.path === filePath)?.hunks || [];
+
+  const hunk =
+    line === undefined
+      ? undefined
+      : hunks.find((h) => line >= h.newStart && line < h.newStart + Math.max(h.newLines, 1));
+  return hunk ? formatHunk(hunk) : null;
+}
+
+function formatHunk(hunk: PatchHunk): string {
+  return [
+    `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+    ...hunk.lines,
+  ].join('\n');
+}
@@ -0,0 +1,540 @@
+/**
+ * Watch Session
+ *
+ * Keep config, detectors and the import graph in memory and re-analyze the
+ * working tree on each save, re-running detection only for files whose
+ * content or diff changed since the previous update.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { analyzeProject, AnalyzedFile, ChangedFileDetail } from '../analyzers';
+import {
+  buildGraphFromSpecifiers,
+  countUnresolvedImports,
+  DependencyGraph,
+  extractModuleSpecifiers,
+  isGraphSourceFile,
+  listRepoFiles,
+} from '../analyzers/blastRadius';
+import { ModuleResolver } from '../analyzers/resolver';
+import { resolveConfig, DiffeSenseConfig } from '../config';
+import {
+  getChangedFiles,
+  getCurrentBranch,
+  isGitRepo,
+  parseGitDiff,
+  readFileAtRef,
+} from '../git/diff';
+import { compileCustomPatterns, PatternDef } from '../patterns';
+import { registerPackSignalDescriptions } from '../plugins/detector';
+import { createPackRegistry, loadPacksFromConfig } from '../plugins/loader';
+import { DetectorDefinition } from '../plugins/types';
+import { applyPolicyPack, AppliedPolicyPack } from '../policy/packs/loader';
+import {
+  AnalysisMeta,
+  AnalysisResult,
+  AnalysisWarning,
+  AnalyzeOptions,
+  IgnoredFile,
+  buildAnalysisResult,
+  createEmptyResult,
+  createErrorResult,
+  registerCustomPatternDescriptions,
+} from './analyze';
+import { findCodeOwnersFile, loadCodeOwners, CodeOwnersConfig } from './codeowners';
+import { explainIgnore, IgnoreConfig } from './ignore';
+import { getActiveSuppressions, SuppressionMatch } from './suppressions';
+
+export type WatchOptions = Pick<
+  AnalyzeOptions,
+  | 'cwd'
+  | 'profile'
+  | 'detector'
+  | 'configPath'
+  | 'threshold'
+  | 'policyPack'
+  | 'includeTests'
+  | 'includeConfig'
+  | 'contextLines'
+  | 'skipBlastRadius'
+  | 'fullFileAnalysis'
+  | 'classBasedScoring'
+  | 'differential'
+  | 'introducedOnly'
+>;
+
+export interface WatchUpdate {
+  result: AnalysisResult;
+  /** Files whose detection ran in this update */
+  reanalyzed: string[];
+  durationMs: number;
+}
+
+export interface WatchSession {
+  /**
+   * Analyze the current working-tree changes
+   *
+   * @param touched - Repo-relative paths saved since the last update
+   */
+  update(touched?: string[]): Promise<WatchUpdate>;
+  /** Reload config, packs, suppressions and the import graph */
+  reload(): Promise<void>;
+}
+
+interface SessionState {
+  config: DiffeSenseConfig;
+  configSource: string;
+  configWarnings: AnalysisWarning[];
+  packDetectors: DetectorDefinition[];
+  customPatterns: PatternDef[];
+  suppressions: SuppressionMatch[];
+  codeowners: CodeOwnersConfig | null;
+  policy: AppliedPolicyPack;
+}
+
+/** Directories whose changes never affect the analysis */
+const IGNORED_DIRS = new Set(['node_modules', '.git', 'dist', 'build', 'coverage', 'out']);
+
+/**
+ * Create a watch session for the repository at `options.cwd`
+ */
+export async function createWatchSession(options: WatchOptions = {}): Promise<WatchSession> {
+  const cwd = options.cwd || process.cwd();
+  const detector = options.detector || 'auto';
+  const useDiffFocus = options.fullFileAnalysis !== true;
+
+  let state: SessionState;
+  let graph: LiveDependencyGraph | null = null;
+  // Detection results keyed by path, valid while content and changed ranges match
+  const analyzed = new Map<string, { key: string; file: AnalyzedFile }>();
+
+  const reload = async (): Promise<void> => {
+    const warnings: AnalysisWarning[] = [];
+    let resolved: Awaited<ReturnType<typeof resolveConfig>>;
+    try {
+      resolved = await resolveConfig({
+        configPath: options.configPath,
+        cwd,
+        scope: { scope: 'working' },
+      });
+    } catch (error) {
+      // A config saved mid-edit keeps the last valid one until it is fixed
+      if (!state) throw error;
+      state = {
+        ...state,
+        configWarnings: [
+          ...state.configWarnings.filter((w) => w.code !== 'CONFIG_ERROR'),
+          {
+            code: 'CONFIG_ERROR',
+            message: `${(error as Error).message} (keeping the last valid config)`,
+          },
+        ],
+      };
+      return;
+    }
+    const { config, source, warnings: configWarnings } = resolved;
+    for (const warn of configWarnings) {
+      warnings.push({ code: 'CONFIG_WARNING', message: warn });
+    }
+
+    const packRegistry = createPackRegistry();
+    await loadPacksFromConfig(config.packs || [], packRegistry, {
+      cwd,
+      warn: (message) => warnings.push({ code: 'PACK_WARNING', message }),
+      log: () => {},
+    });
+    const packDetectors = packRegistry.getAllDetectors();
+    registerPackSignalDescriptions(packDetectors);
+
+    const customPatterns = compileCustomPatterns(config.customPatterns || []);
+    registerCustomPatternDescriptions(customPatterns);
+
+    const suppressions = getActiveSuppressions(cwd, (message) =>
+      warnings.push({ code: 'SUPPRESSIONS_WARNING', message }),
+    );
+
+    const codeowners =
+      config.ownership?.useCodeowners && findCodeOwnersFile(cwd)
+        ? loadCodeOwners(cwd, (message) => warnings.push({ code: 'CODEOWNERS_WARNING', message }))
+        : null;
+
+    let policy: AppliedPolicyPack;
+    try {
+      policy = applyPolicyPack(options.policyPack ?? config.policyPack, config, cwd);
+    } catch (error) {
+      // Keep watching with the default pack rather than stopping the session
+      warnings.push({
+        code: 'POLICY_PACK_WARNING',
+        message: `${(error as Error).message} (using the default policy pack)`,
+      });
+      policy = applyPolicyPack(undefined, config);
+    }
+
+    state = {
+      config,
+      configSource: source,
+      configWarnings: warnings,
+      packDetectors,
+      customPatterns,
+      suppressions,
+      codeowners,
+      policy,
+    };
+    graph = options.skipBlastRadius
+      ? null
+      : createLiveDependencyGraph(cwd, options.includeTests || false);
+    analyzed.clear();
+  };
+
+  const update = async (touched: string[] = []): Promise<WatchUpdate> => {
+    const startTime = Date.now();
+
+    const packSource = state.policy.pack.source;
+    const isPackFile = (f: string) =>
+      packSource !== undefined && path.resolve(cwd, f) === packSource;
+    if (touched.some((f) => isSettingsFile(f) || isPackFile(f))) {
+      await reload();
+    } else {
+      graph?.update(touched);
+    }
+
+    const { config } = state;
+    const warnings = [...state.configWarnings];
+    const ignoredFiles: IgnoredFile[] = [];
+    const meta: AnalysisMeta = {
+      cwd,
+      scope: 'working',
+      base: config.scope?.base || 'main',
+      branch: getCurrentBranch(cwd),
+      profile: options.profile || config.profile || 'minimal',
+      detector,
+      configSource: state.configSource,
+      isDiffAnalysis: true,
+      timestamp: new Date().toISOString(),
+    };
+
+    if (!isGitRepo(cwd)) {
+      return done(createErrorResult('Not a git repository', meta, warnings), [], startTime);
+    }
+
+    const configIgnore = config.ignore;
+    const ignoreConfig: IgnoreConfig = {
+      includeTests: options.includeTests || false,
+      includeConfig: options.includeConfig || false,
+      patterns: Array.isArray(configIgnore)
+        ? configIgnore
+        : (configIgnore as { patterns?: string[] })?.patterns,
+    };
+
+    const rawChangedFiles = getChangedFiles({
+      scope: 'working',
+      cwd,
+      ignoreConfig: { includeTests: true, includeConfig: true },
+    });
+    const changedFiles = getChangedFiles({ scope: 'working', cwd, ignoreConfig });
+    const included = new Set(changedFiles.map((f) => f.path));
+    for (const file of rawChangedFiles) {
+      if (!included.has(file.path)) {
+        ignoredFiles.push({
+          path: file.path,
+          reason: explainIgnore(file.path, ignoreConfig).reason || 'Filtered by ignore rules',
+        });
+      }
+    }
+
+    const changedFileDetails: ChangedFileDetail[] = useDiffFocus
+      ? parseGitDiff({ scope: 'working', cwd, contextLines: 0 }).filter((d) =>
+          included.has(d.path),
+        )
+      : [];
+    const detailsByPath = new Map(changedFileDetails.map((d) => [d.path, d]));
+
+    // Re-run detection only where content or changed ranges differ from the cache
+    const stale: string[] = [];
+    const keys = new Map<string, string>();
+    for (const file of changedFiles) {
+      const content = readWorkingFile(cwd, file.path);
+      if (content === null) continue;
+      const key = hashKey(content, detailsByPath.get(file.path)?.ranges);
+      keys.set(file.path, key);
+      if (analyzed.get(file.path)?.key !== key) stale.push(file.path);
+    }
+    for (const filePath of analyzed.keys()) {
+      if (!keys.has(filePath)) analyzed.delete(filePath);
+    }
+
+    if (stale.length > 0) {
+      const introducedOnly =
+        options.introducedOnly ?? config.differential?.introducedOnly ?? false;
+      const useDifferential =
+        useDiffFocus && (options.differential ?? config.differential?.enabled ?? introducedOnly);
+      const analysis = await analyzeProject({
+        rootPath: cwd,
+        files: stale,
+        detectorProfile: detector,
+        changedFileDetails: useDiffFocus ? changedFileDetails : undefined,
+        contextLines: options.contextLines ?? config.contextLines ?? 5,
+        useClassBasedScoring: options.classBasedScoring !== false,
+        includeTests: options.includeTests || false,
+        includeConfig: options.includeConfig || false,
+        packDetectors: state.packDetectors,
+        customPatterns: state.customPatterns,
+        suppressions: state.suppressions,
+        // The working scope diffs against the index
+        readBaseFile: useDifferential ? (file) => readFileAtRef(cwd, '', file) : undefined,
+        introducedOnly,
+        categoryWeights: state.policy.effectiveConfig.weights,
+      });
+      for (const file of analysis.analyzedFiles) {
+        analyzed.set(file.path, { key: keys.get(file.path)!, file });
+      }
+    }
+
+    const analyzedFiles = changedFiles
+      .map((f) => analyzed.get(f.path)?.file)
+      .filter((f): f is AnalyzedFile => f !== undefined);
+    meta.isDiffAnalysis = useDiffFocus && changedFileDetails.length > 0;
+
+    if (analyzedFiles.length === 0) {
+      return done(
+        createEmptyResult(meta, warnings, ignoredFiles, config, rawChangedFiles.length),
+        stale,
+        startTime,
+      );
+    }
+
+    const dependencyGraph = graph?.get() ?? null;
+    const unresolvedCount = dependencyGraph ? countUnresolvedImports(dependencyGraph) : 0;
+    if (unresolvedCount > 0) {
+      warnings.push({
+        code: 'BLAST_RADIUS_UNRESOLVED',
+        message:
+          `${unresolvedCount} local import(s) could not be resolved; ` +
+          'blast radius may be incomplete',
+      });
+    }
+
+    const result = buildAnalysisResult({
+      cwd,
+      meta,
+      config,
+      profile: meta.profile,
+      threshold: options.threshold,
+      analysis: {
+        rootPath: cwd,
+        analyzedFiles,
+        dependencyGraph: new Map(),
+        isDiffAnalysis: meta.isDiffAnalysis,
+      },
+      changedFileDetails,
+      changedCount: rawChangedFiles.length,
+      ignoredFiles,
+      warnings,
+      dependencyGraph,
+      codeowners: state.codeowners,
+      policy: state.policy,
+    });
+    return done(result, stale, startTime);
+  };
+
+  await reload();
+  return { update, reload };
+}
+
+/**
+ * Watch the working tree and report saved files, batched over `debounceMs`
+ *
+ * Each directory gets its own watcher (recursive `fs.watch` is unavailable on
+ * Linux before Node 20); directories created later are picked up as they
+ * appear. Changes under node_modules, .git and build output are ignored.
+ */
+export function watchWorkingTree(
+  cwd: string,
+  onChange: (files: string[]) => void,
+  debounceMs = 150,
+): { close(): void } {
+  const pending = new Set<string>();
+  const watchers = new Map<string, fs.FSWatcher>();
+  let timer: NodeJS.Timeout | null = null;
+
+  const report = (filePath: string) => {
+    pending.add(filePath);
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      const files = [...pending];
+      pending.clear();
+      onChange(files);
+    }, debounceMs);
+  };
+
+  const unwatch = (dir: string) => {
+    for (const [watched, watcher] of watchers) {
+      if (watched === dir || watched.startsWith(`${dir}/`)) {
+        watcher.close();
+        watchers.delete(watched);
+      }
+    }
+  };
+
+  // `dir` is repo-relative, '' for the root; files of directories created
+  // while watching are reported since they may be written before the watcher
+  const watchDirectory = (dir: string, created = false) => {
+    if (watchers.has(dir) || isIgnoredPath(dir)) return;
+
+    let watcher: fs.FSWatcher;
+    try {
+      watcher = fs.watch(path.join(cwd, dir), (_event, fileName) => {
+        if (!fileName) return;
+        const filePath = dir ? `${dir}/${fileName}` : fileName.toString();
+        if (isIgnoredPath(filePath)) return;
+
+        let stats: fs.Stats | null = null;
+        try {
+          stats = fs.statSync(path.join(cwd, filePath));
+        } catch {
+          // Deleted; drop watchers of a removed directory
+          unwatch(filePath);
+        }
+        if (stats?.isDirectory()) {
+          watchDirectory(filePath, true);
+        } else {
+          report(filePath);
+        }
+      });
+    } catch {
+      return;
+    }
+    watcher.on('error', () => unwatch(dir));
+    watchers.set(dir, watcher);
+
+    let entries: fs.Dirent[] = [];
+    try {
+      entries = fs.readdirSync(path.join(cwd, dir), { withFileTypes: true });
+    } catch {
+      // Removed while being watched
+    }
+    for (const entry of entries) {
+      const entryPath = dir ? `${dir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) watchDirectory(entryPath, created);
+      else if (created && !isIgnoredPath(entryPath)) report(entryPath);
+    }
+  };
+
+  watchDirectory('');
+
+  return {
+    close: () => {
+      if (timer) clearTimeout(timer);
+      for (const watcher of watchers.values()) watcher.close();
+      watchers.clear();
+    },
+  };
+}
+
+interface LiveDependencyGraph {
+  get(): DependencyGraph;
+  /** Re-read the specifiers of saved files; the graph is rebuilt when they changed */
+  update(touched: string[]): void;
+}
+
+/**
+ * Import graph over the whole repo, kept in memory with each file's module
+ * specifiers so a save only re-resolves imports instead of re-reading the repo
+ */
+function createLiveDependencyGraph(cwd: string, includeTests: boolean): LiveDependencyGraph {
+  const allFiles = new Set(listRepoFiles(cwd));
+  const specifiers = new Map<string, string[]>();
+  const readSpecifiers = (file: string) => {
+    const content = readWorkingFile(cwd, file);
+    return content === null ? null : extractModuleSpecifiers(content);
+  };
+
+  for (const file of allFiles) {
+    if (!isGraphSourceFile(file, includeTests)) continue;
+    const fileSpecifiers = readSpecifiers(file);
+    if (fileSpecifiers) specifiers.set(file, fileSpecifiers);
+  }
+
+  const build = (): DependencyGraph => {
+    const files = [...allFiles];
+    const graph = buildGraphFromSpecifiers(
+      files.filter((f) => specifiers.has(f)),
+      new ModuleResolver(cwd, files),
+      (file) => specifiers.get(file) ?? null,
+    );
+    graph.complete = true;
+    return graph;
+  };
+
+  let graph = build();
+
+  return {
+    get: () => graph,
+    update: (touched) => {
+      let changed = false;
+      for (const file of touched) {
+        const exists = fs.existsSync(path.join(cwd, file));
+        if (exists !== allFiles.has(file)) {
+          if (exists) allFiles.add(file);
+          else allFiles.delete(file);
+          changed = true;
+        }
+        if (!isGraphSourceFile(file, includeTests)) continue;
+
+        const next = exists ? readSpecifiers(file) : null;
+        const previous = specifiers.get(file);
+        if (next === null) {
+          changed = specifiers.delete(file) || changed;
+        } else if (!previous || previous.join('\0') !== next.join('\0')) {
+          specifiers.set(file, next);
+          changed = true;
+        }
+      }
+      if (changed) graph = build();
+    },
+  };
+}
+
+function done(result: AnalysisResult, reanalyzed: string[], startTime: number): WatchUpdate {
+  return { result, reanalyzed, durationMs: Date.now() - startTime };
+}
+
+/**
+ * Config and suppression files, which require a full reload
+ */
+export function isSettingsFile(filePath: string): boolean {
+  const name = path.basename(filePath);
+  return (
+    /^(\.diffesense\.(ya?ml|json)|diffesense\.config\.(ya?ml|json|[mc]?ts|[mc]?js))$/.test(name) ||
+    filePath === '.diffesense/suppressions.json' ||
+    name === 'CODEOWNERS'
+  );
+}
+
+function isIgnoredPath(filePath: string): boolean {
+  return (
+    filePath.split('/').some((s) => IGNORED_DIRS.has(s)) ||
+    filePath === '.diffesense/cache' ||
+    filePath.startsWith('.diffesense/cache/')
+  );
+}
+
+function readWorkingFile(cwd: string, filePath: string): string | null {
+  try {
+    return fs.readFileSync(path.join(cwd, filePath), 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+function hashKey(content: string, ranges: ChangedFileDetail['ranges'] | undefined): string {
+  return crypto
+    .createHash('sha1')
+    .update(content)
+    .update('\0')
+    .update(JSON.stringify(ranges ?? []))
+    .digest('hex');
+}
@@ -18,6 +18,15 @@ export interface ChangedFile {
   status: 'added' | 'modified' | 'deleted' | 'renamed';
 }
 
+export interface RangeCommit {
+  sha: string;
+  subject: string;
+  author: string;
+  email: string;
+  /** Author date (ISO 8601) */
+  date: string;
+}
+
 export {
   parseGitDiff,
   ChangedFileDetail,
@@ -92,6 +101,156 @@ export function getChangedFiles(options: DiffOptions): ChangedFile[] {
   return files.filter((f) => !shouldIgnore(f.path, ignorePatterns));
 }
 
+/**
+ * Apply source-file and ignore filtering to changed files from another origin
+ * (e.g. a patch), the same way getChangedFiles filters git output
+ */
+export function filterChangedFiles(
+  files: ChangedFile[],
+  ignoreConfig?: IgnoreConfig,
+): ChangedFile[] {
+  const sourceOptions: SourceFileOptions = {
+    includeTests: ignoreConfig?.includeTests,
+    includeConfig: ignoreConfig?.includeConfig,
+  };
+  const ignorePatterns = buildIgnoreList(ignoreConfig);
+  return files.filter(
+    (f) => isSourceFile(f.path, sourceOptions) && !shouldIgnore(f.path, ignorePatterns),
+  );
+}
+
+/**
+ * Resolve the revision a scope's diff compares against
+ *
+ * Returns '' for the index (working scope) and null when it cannot be resolved.
+ */
+export function getDiffBaseRef(options: DiffOptions): string | null {
+  const { scope, cwd = process.cwd() } = options;
+
+  switch (scope) {
+    case 'branch': {
+      const base = options.base || detectBaseBranch(cwd);
+      const remote = detectUpstreamRemote(cwd, base);
+      return (
+        (remote && mergeBase(cwd, `${remote}/${base}`, 'HEAD')) || mergeBase(cwd, base, 'HEAD')
+      );
+    }
+    case 'staged':
+      return 'HEAD';
+    case 'working':
+    case 'worktree':
+      return '';
+    case 'commit':
+      return `${options.commit || 'HEAD'}^`;
+    case 'range': {
+      const range = options.range || '';
+      const symmetric = range.split('...');
+      if (symmetric.length === 2) {
+        return mergeBase(cwd, symmetric[0] || 'HEAD', symmetric[1] || 'HEAD');
+      }
+      return range.split('..')[0] || 'HEAD';
+    }
+  }
+}
+
+/**
+ * Resolve the revision holding the changed side of a commit or range diff
+ *
+ * Returns null when the changed side is the working tree (other scopes, or a
+ * range with a single ref).
+ */
+export function getDiffHeadRef(options: DiffOptions): string | null {
+  switch (options.scope) {
+    case 'commit':
+      return options.commit || 'HEAD';
+    case 'range': {
+      const range = options.range || '';
+      const separator = range.includes('...') ? '...' : range.includes('..') ? '..' : null;
+      return separator ? range.split(separator)[1] || 'HEAD' : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Read a file as of a revision ('' reads the index); null when it does not exist there
+ */
+export function readFileAtRef(cwd: string, ref: string, filePath: string): string | null {
+  const result = spawnSync('git', ['show', `${ref}:${filePath.replace(/\\/g, '/')}`], {
+    encoding: 'utf-8',
+    cwd,
+    stdio: ['pipe', 'pipe', 'pipe'],
+    maxBuffer: 50 * 1024 * 1024,
+  });
+  return result.status === 0 ? result.stdout : null;
+}
+
+/**
+ * Non-merge commits of a range, oldest first (null when the range is invalid)
+ *
+ * `A...B` lists the commits of B since the merge base, like `A..B`.
+ */
+export function getRangeCommits(cwd: string, range: string): RangeCommit[] | null {
+  const result = spawnSync(
+    'git',
+    [
+      'log',
+      '--reverse',
+      '--no-merges',
+      '--format=%H%x1f%s%x1f%an%x1f%ae%x1f%aI',
+      range.replace('...', '..'),
+      '--',
+    ],
+    {
+      encoding: 'utf-8',
+      cwd,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      maxBuffer: 16 * 1024 * 1024,
+    },
+  );
+  if (result.status !== 0) return null;
+
+  return result.stdout
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => {
+      const [sha, subject = '', author = '', email = '', date = ''] = line.split('\x1f');
+      return { sha, subject, author, email, date };
+    });
+}
+
+/**
+ * Unified diff of a commit against its first parent, limited to the given paths
+ */
+export function getCommitDiffText(
+  cwd: string,
+  sha: string,
+  paths: string[] = [],
+  contextLines = 3,
+): string {
+  const result = spawnSync(
+    'git',
+    ['diff', `${sha}^`, sha, `-U${contextLines}`, '-M', '--no-color', '--', ...paths],
+    {
+      encoding: 'utf-8',
+      cwd,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      maxBuffer: 50 * 1024 * 1024,
+    },
+  );
+  return result.status === 0 ? result.stdout : '';
+}
+
+function mergeBase(cwd: string, a: string, b: string): string | null {
+  const result = spawnSync('git', ['merge-base', a, b], {
+    encoding: 'utf-8',
+    cwd,
+    stdio: ['pipe', 'pipe', 'pipe'],
+  });
+  return result.status === 0 && result.stdout ? result.stdout.trim() : null;
+}
+
 /**
  * Detect the upstream remote for a branch
  * Returns 'origin' if it exists, otherwise checks for other common remotes
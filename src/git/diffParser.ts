@@ -116,11 +116,32 @@ function parseFileChunk(chunk: string): ChangedFileDetail | null {
   else if (deleteLine) status = 'deleted';
   else if (renameLine || oldPath !== newPath) status = 'renamed';
 
+  const ranges = collectChangedRanges(lines, status);
+  const totalLinesChanged = ranges.reduce((sum, r) => sum + r.lineCount, 0);
+
+  return {
+    path: newPath,
+    status,
+    ranges,
+    totalLinesChanged,
+    oldPath: oldPath !== newPath ? oldPath : undefined,
+  };
+}
+
+/**
+ * Map the hunks of one file's diff onto changed line ranges of the new version
+ *
+ * Lines before the first `@@` header are ignored. Files without hunks (e.g. pure
+ * renames) get a single range on line 1 unless they were deleted.
+ */
+export function collectChangedRanges(
+  lines: string[],
+  status: ChangedFileDetail['status'],
+): ChangedRange[] {
   const ranges: ChangedRange[] = [];
 
   const hunkPattern = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
 
-  let currentLine = 0;
   let inHunk = false;
   let hunkNewStart = 0;
   let hunkNewLine = 0;
@@ -131,6 +152,14 @@ function parseFileChunk(chunk: string): ChangedFileDetail | null {
     const hunkMatch = line.match(hunkPattern);
 
     if (hunkMatch) {
+      if (rangeStart > 0) {
+        ranges.push({
+          startLine: rangeStart,
+          endLine: Math.max(hunkNewLine - 1, rangeStart),
+          type: rangeType,
+          lineCount: Math.max(hunkNewLine - rangeStart, 1),
+        });
+      }
       hunkNewStart = parseInt(hunkMatch[3], 10);
       hunkNewLine = hunkNewStart;
       inHunk = true;
@@ -183,15 +212,7 @@ function parseFileChunk(chunk: string): ChangedFileDetail | null {
     });
   }
 
-  const totalLinesChanged = ranges.reduce((sum, r) => sum + r.lineCount, 0);
-
-  return {
-    path: newPath,
-    status,
-    ranges,
-    totalLinesChanged,
-    oldPath: oldPath !== newPath ? oldPath : undefined,
-  };
+  return ranges;
 }
 
 export function expandRangesWithContext(
@@ -0,0 +1,199 @@
+/**
+ * Git History Analyzer
+ *
+ * Computes per-file churn, authorship and bug-fix frequency from `git log`.
+ * Files that change often, by many people, mostly to fix things are hot spots.
+ */
+
+import { spawnSync } from 'child_process';
+
+export interface HistoryOptions {
+  cwd?: string;
+  /** Churn windows in days (largest window bounds the log) */
+  windows?: number[];
+  /** Maximum commits to read */
+  maxCommits?: number;
+  /** Reference time for windows (defaults to now) */
+  now?: Date;
+  /** Read history leading up to this revision (defaults to HEAD) */
+  ref?: string;
+}
+
+export interface FileHistory {
+  path: string;
+  /** Commits touching the file per window */
+  churn: Array<{ days: number; commits: number }>;
+  /** Commits in the largest window */
+  commits: number;
+  /** Distinct author emails in the largest window */
+  authors: number;
+  /** Commits whose subject marks a fix or revert */
+  fixCommits: number;
+  /** Share of fix/revert commits (0-1) */
+  fixRatio: number;
+}
+
+export interface HistoryThresholds {
+  /** Commits in the first window that mark a hot spot */
+  churn: number;
+  /** Distinct authors that mark a hot spot */
+  authors: number;
+  /** Share of fix/revert commits that marks a hot spot */
+  fixRatio: number;
+}
+
+export const DEFAULT_HISTORY_WINDOWS = [30, 90];
+
+export const DEFAULT_HISTORY_THRESHOLDS: HistoryThresholds = {
+  churn: 10,
+  authors: 4,
+  fixRatio: 0.3,
+};
+
+const DEFAULT_MAX_COMMITS = 2000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RECORD_SEP = '\x1e';
+const FIELD_SEP = '\x1f';
+
+const FIX_PATTERN = /\b(fix(es|ed)?|bug\s?fix(es)?|hotfix(es)?|revert(s|ed)?)\b/i;
+
+interface LogCommit {
+  timestamp: number;
+  author: string;
+  isFix: boolean;
+  files: string[];
+}
+
+/**
+ * Check if a commit subject marks a fix or revert
+ */
+export function isFixCommit(subject: string): boolean {
+  return FIX_PATTERN.test(subject);
+}
+
+/**
+ * Get history metrics for files (paths relative to cwd)
+ *
+ * Files without commits in the largest window get zeroed metrics. Without
+ * filePaths, every file touched in the largest window is returned.
+ */
+export function getFileHistory(
+  filePaths: string[] | undefined,
+  options: HistoryOptions = {},
+): Map<string, FileHistory> {
+  const windows = [...(options.windows || DEFAULT_HISTORY_WINDOWS)].sort((a, b) => a - b);
+  const now = (options.now || new Date()).getTime();
+  const maxWindow = windows[windows.length - 1];
+
+  const commits = readLog(options.cwd || process.cwd(), now - maxWindow * DAY_MS, options);
+  const wanted = filePaths ? new Set(filePaths.map((p) => p.replace(/\\/g, '/'))) : null;
+  const touched = new Map<string, LogCommit[]>();
+
+  for (const commit of commits) {
+    for (const file of commit.files) {
+      if (wanted && !wanted.has(file)) continue;
+      const list = touched.get(file) || [];
+      list.push(commit);
+      touched.set(file, list);
+    }
+  }
+
+  const result = new Map<string, FileHistory>();
+
+  for (const filePath of wanted || touched.keys()) {
+    const fileCommits = touched.get(filePath) || [];
+    const fixCommits = fileCommits.filter((c) => c.isFix).length;
+
+    result.set(filePath, {
+      path: filePath,
+      churn: windows.map((days) => ({
+        days,
+        commits: fileCommits.filter((c) => c.timestamp >= now - days * DAY_MS).length,
+      })),
+      commits: fileCommits.length,
+      authors: new Set(fileCommits.map((c) => c.author)).size,
+      fixCommits,
+      fixRatio: fileCommits.length > 0 ? fixCommits / fileCommits.length : 0,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * List the hot-spot criteria a file meets
+ */
+export function getHotspotFactors(
+  history: FileHistory,
+  thresholds: HistoryThresholds = DEFAULT_HISTORY_THRESHOLDS,
+): string[] {
+  const factors: string[] = [];
+  const primary = history.churn[0];
+
+  if (primary && primary.commits >= thresholds.churn) {
+    factors.push(`${primary.commits} commits in ${primary.days}d`);
+  }
+
+  if (history.authors >= thresholds.authors) {
+    factors.push(`${history.authors} authors`);
+  }
+
+  // A single fix commit is not a pattern
+  if (history.fixCommits >= 2 && history.fixRatio >= thresholds.fixRatio) {
+    factors.push(`${Math.round(history.fixRatio * 100)}% fix/revert commits`);
+  }
+
+  return factors;
+}
+
+function readLog(cwd: string, sinceMs: number, options: HistoryOptions): LogCommit[] {
+  const result = spawnSync(
+    'git',
+    [
+      'log',
+      '--no-merges',
+      '--relative',
+      '--name-only',
+      `--max-count=${options.maxCommits || DEFAULT_MAX_COMMITS}`,
+      `--since=${new Date(sinceMs).toISOString()}`,
+      `--format=${RECORD_SEP}%at${FIELD_SEP}%ae${FIELD_SEP}%s`,
+      ...(options.ref ? [options.ref, '--'] : []),
+    ],
+    {
+      encoding: 'utf-8',
+      cwd,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      maxBuffer: 64 * 1024 * 1024,
+    },
+  );
+
+  if (result.status !== 0 || !result.stdout) {
+    return [];
+  }
+
+  return parseGitLog(result.stdout);
+}
+
+/**
+ * Parse `git log --name-only` output produced with the record/field separators
+ */
+function parseGitLog(output: string): LogCommit[] {
+  const commits: LogCommit[] = [];
+
+  for (const record of output.split(RECORD_SEP)) {
+    if (!record.trim()) continue;
+
+    const [header, ...fileLines] = record.split('\n');
+    const [timestamp, author, subject = ''] = header.split(FIELD_SEP);
+
+    commits.push({
+      timestamp: parseInt(timestamp, 10) * 1000,
+      author: author.toLowerCase(),
+      isFix: isFixCommit(subject),
+      files: fileLines.map((l) => l.trim()).filter(Boolean),
+    });
+  }
+
+  return commits;
+}
@@ -0,0 +1,299 @@
+/**
+ * Git Hook Installation
+ *
+ * Install or remove the DiffeSense pre-commit and pre-push hooks, either as
+ * scripts in the git hooks directory or in the husky or lefthook setup the
+ * repository already uses.
+ */
+
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+
+export type HookName = 'pre-commit' | 'pre-push';
+
+export type HookManager = 'git' | 'husky' | 'lefthook';
+
+export interface HookChange {
+  hook: HookName;
+  /** File written or removed */
+  path: string;
+  action: 'installed' | 'removed' | 'unchanged' | 'skipped';
+  /** Why the hook was skipped, or what to do by hand */
+  message?: string;
+}
+
+export interface HooksResult {
+  success: boolean;
+  error?: string;
+  manager: HookManager;
+  changes: HookChange[];
+}
+
+export const HOOK_NAMES: HookName[] = ['pre-commit', 'pre-push'];
+
+/** Commands the hooks run; pre-push forwards the remote name and URL */
+export const HOOK_COMMANDS: Record<HookName, string> = {
+  'pre-commit': 'npx diffesense --scope staged --quiet',
+  'pre-push': 'npx diffesense hook pre-push "$1" "$2"',
+};
+
+const LEFTHOOK_COMMANDS: Record<HookName, string> = {
+  'pre-commit': 'npx diffesense --scope staged --quiet',
+  'pre-push': 'npx diffesense hook pre-push {1} {2}',
+};
+
+const LEFTHOOK_CONFIGS = ['lefthook.yml', '.lefthook.yml', 'lefthook.yaml', '.lefthook.yaml'];
+
+/** Marks hook scripts written by DiffeSense */
+const SCRIPT_MARKER = '# Installed by DiffeSense (dsense hooks install)';
+
+/** Trails each line DiffeSense adds to a husky hook */
+const LINE_MARKER = '# diffesense';
+
+/**
+ * Hook manager of the repository: lefthook config, then a .husky directory,
+ * then plain git hooks
+ */
+export function detectHookManager(root: string): { manager: HookManager; configPath?: string } {
+  const lefthookConfig = LEFTHOOK_CONFIGS.map((name) => path.join(root, name)).find((p) =>
+    fs.existsSync(p),
+  );
+  if (lefthookConfig) {
+    return { manager: 'lefthook', configPath: lefthookConfig };
+  }
+  if (fs.existsSync(path.join(root, '.husky'))) {
+    return { manager: 'husky' };
+  }
+  return { manager: 'git' };
+}
+
+/**
+ * Install the pre-commit and pre-push hooks
+ *
+ * @param force - Overwrite hook scripts that DiffeSense did not write
+ */
+export function installHooks(cwd: string = process.cwd(), force = false): HooksResult {
+  const root = getRepoRoot(cwd);
+  if (!root) {
+    return { success: false, error: 'Not a git repository', manager: 'git', changes: [] };
+  }
+
+  const { manager, configPath } = detectHookManager(root);
+  const changes =
+    manager === 'lefthook'
+      ? HOOK_NAMES.map((hook) => installLefthook(configPath!, hook))
+      : manager === 'husky'
+        ? HOOK_NAMES.map((hook) => installHuskyHook(path.join(root, '.husky', hook), hook))
+        : HOOK_NAMES.map((hook) => installGitHook(getHooksDir(root), hook, force));
+
+  return { success: true, manager, changes };
+}
+
+/**
+ * Remove the hooks DiffeSense installed, leaving other hooks untouched
+ */
+export function uninstallHooks(cwd: string = process.cwd()): HooksResult {
+  const root = getRepoRoot(cwd);
+  if (!root) {
+    return { success: false, error: 'Not a git repository', manager: 'git', changes: [] };
+  }
+
+  const { manager, configPath } = detectHookManager(root);
+  const changes =
+    manager === 'lefthook'
+      ? HOOK_NAMES.map((hook) => uninstallLefthook(configPath!, hook))
+      : manager === 'husky'
+        ? HOOK_NAMES.map((hook) => uninstallHuskyHook(path.join(root, '.husky', hook), hook))
+        : HOOK_NAMES.map((hook) => uninstallGitHook(getHooksDir(root), hook));
+
+  return { success: true, manager, changes };
+}
+
+function installGitHook(hooksDir: string, hook: HookName, force: boolean): HookChange {
+  const hookPath = path.join(hooksDir, hook);
+  const script = ['#!/bin/sh', SCRIPT_MARKER, HOOK_COMMANDS[hook], ''].join('\n');
+
+  if (fs.existsSync(hookPath)) {
+    const existing = fs.readFileSync(hookPath, 'utf-8');
+    if (existing === script) {
+      return { hook, path: hookPath, action: 'unchanged' };
+    }
+    if (!existing.includes(SCRIPT_MARKER) && !force) {
+      return {
+        hook,
+        path: hookPath,
+        action: 'skipped',
+        message: `Existing ${hook} hook was not written by DiffeSense (use --force to replace it)`,
+      };
+    }
+  }
+
+  if (fs.existsSync(hooksDir) && !fs.statSync(hooksDir).isDirectory()) {
+    return {
+      hook,
+      path: hookPath,
+      action: 'skipped',
+      message: `Hooks path ${hooksDir} is not a directory (check core.hooksPath)`,
+    };
+  }
+
+  fs.mkdirSync(hooksDir, { recursive: true });
+  fs.writeFileSync(hookPath, script, { mode: 0o755 });
+  fs.chmodSync(hookPath, 0o755);
+  return { hook, path: hookPath, action: 'installed' };
+}
+
+function uninstallGitHook(hooksDir: string, hook: HookName): HookChange {
+  const hookPath = path.join(hooksDir, hook);
+  if (!fs.existsSync(hookPath)) {
+    return { hook, path: hookPath, action: 'unchanged' };
+  }
+  if (!fs.readFileSync(hookPath, 'utf-8').includes(SCRIPT_MARKER)) {
+    return {
+      hook,
+      path: hookPath,
+      action: 'skipped',
+      message: `Existing ${hook} hook was not written by DiffeSense`,
+    };
+  }
+
+  fs.unlinkSync(hookPath);
+  return { hook, path: hookPath, action: 'removed' };
+}
+
+function installHuskyHook(hookPath: string, hook: HookName): HookChange {
+  const existing = fs.existsSync(hookPath) ? fs.readFileSync(hookPath, 'utf-8') : '';
+  if (existing.split('\n').some((line) => line.endsWith(LINE_MARKER))) {
+    return { hook, path: hookPath, action: 'unchanged' };
+  }
+
+  const prefix = existing === '' || existing.endsWith('\n') ? existing : `${existing}\n`;
+  fs.writeFileSync(hookPath, `${prefix}${HOOK_COMMANDS[hook]} ${LINE_MARKER}\n`, { mode: 0o755 });
+  return { hook, path: hookPath, action: 'installed' };
+}
+
+function uninstallHuskyHook(hookPath: string, hook: HookName): HookChange {
+  if (!fs.existsSync(hookPath)) {
+    return { hook, path: hookPath, action: 'unchanged' };
+  }
+
+  const lines = fs.readFileSync(hookPath, 'utf-8').split('\n');
+  const kept = lines.filter((line) => !line.endsWith(LINE_MARKER));
+  if (kept.length === lines.length) {
+    return { hook, path: hookPath, action: 'unchanged' };
+  }
+
+  // Drop the file when only blank lines and comments (e.g. a shebang) remain
+  if (kept.every((line) => line.trim() === '' || line.trim().startsWith('#'))) {
+    fs.unlinkSync(hookPath);
+  } else {
+    fs.writeFileSync(hookPath, kept.join('\n'));
+  }
+  return { hook, path: hookPath, action: 'removed' };
+}
+
+function installLefthook(configPath: string, hook: HookName): HookChange {
+  const content = fs.readFileSync(configPath, 'utf-8');
+  const config = loadLefthookConfig(content);
+  if (config === null) {
+    return {
+      hook,
+      path: configPath,
+      action: 'skipped',
+      message: 'Could not parse lefthook config',
+    };
+  }
+
+  const existing = config[hook] as { commands?: Record<string, unknown> } | undefined;
+  if (existing?.commands?.diffesense) {
+    return { hook, path: configPath, action: 'unchanged' };
+  }
+  if (existing) {
+    // Rewriting the user's YAML would drop its comments and layout
+    return {
+      hook,
+      path: configPath,
+      action: 'skipped',
+      message:
+        `${hook} is already configured; add this under ${hook}.commands:\n` +
+        lefthookCommand(hook, '  '),
+    };
+  }
+
+  const prefix = content === '' || content.endsWith('\n') ? content : `${content}\n`;
+  const block = [
+    `# diffesense:begin ${hook}`,
+    `${hook}:`,
+    '  commands:',
+    lefthookCommand(hook, '    '),
+    `# diffesense:end ${hook}`,
+    '',
+  ].join('\n');
+  fs.writeFileSync(configPath, `${prefix}${block}`);
+  return { hook, path: configPath, action: 'installed' };
+}
+
+function uninstallLefthook(configPath: string, hook: HookName): HookChange {
+  const content = fs.readFileSync(configPath, 'utf-8');
+  const begin = content.indexOf(`# diffesense:begin ${hook}\n`);
+  const endMarker = `# diffesense:end ${hook}\n`;
+  const end = begin === -1 ? -1 : content.indexOf(endMarker, begin);
+
+  if (end === -1) {
+    const config = loadLefthookConfig(content);
+    const commands = (config?.[hook] as { commands?: Record<string, unknown> } | undefined)
+      ?.commands;
+    return commands?.diffesense
+      ? {
+          hook,
+          path: configPath,
+          action: 'skipped',
+          message: `Remove ${hook}.commands.diffesense from ${path.basename(configPath)} by hand`,
+        }
+      : { hook, path: configPath, action: 'unchanged' };
+  }
+
+  fs.writeFileSync(configPath, content.slice(0, begin) + content.slice(end + endMarker.length));
+  return { hook, path: configPath, action: 'removed' };
+}
+
+function lefthookCommand(hook: HookName, indent: string): string {
+  const lines = ['diffesense:', `  run: ${LEFTHOOK_COMMANDS[hook]}`];
+  if (hook === 'pre-push') {
+    lines.push('  use_stdin: true');
+  }
+  return lines.map((line) => `${indent}${line}`).join('\n');
+}
+
+function loadLefthookConfig(content: string): Record<string, unknown> | null {
+  try {
+    const data = yaml.load(content);
+    return data && typeof data === 'object' ? (data as Record<string, unknown>) : {};
+  } catch {
+    return null;
+  }
+}
+
+function getRepoRoot(cwd: string): string | null {
+  const result = spawnSync('git', ['rev-parse', '--show-toplevel'], {
+    encoding: 'utf-8',
+    cwd,
+    stdio: ['pipe', 'pipe', 'pipe'],
+  });
+  return result.status === 0 ? result.stdout.trim() : null;
+}
+
+/**
+ * Hooks directory git runs hooks from (honors core.hooksPath and worktrees)
+ */
+function getHooksDir(root: string): string {
+  const result = spawnSync('git', ['rev-parse', '--git-path', 'hooks'], {
+    encoding: 'utf-8',
+    cwd: root,
+    stdio: ['pipe', 'pipe', 'pipe'],
+  });
+  const hooksDir = result.status === 0 ? result.stdout.trim() : '.git/hooks';
+  return path.resolve(root, hooksDir);
+}
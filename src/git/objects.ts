@@ -0,0 +1,140 @@
+/**
+ * Git Object Reader
+ *
+ * Reads repository files at a revision straight from git objects, so commits
+ * and ranges are analyzed as they were without checking them out.
+ */
+
+import { spawnSync } from 'child_process';
+
+/**
+ * Repository files read from somewhere other than the working tree
+ */
+export interface RepoFileSource {
+  /** Every file (repo-relative, outside node_modules) */
+  files: string[];
+  /** Read one file (null when it does not exist) */
+  readFile(filePath: string): string | null;
+  /** Read many files; missing files are skipped */
+  readFiles(filePaths: string[], onFile: (filePath: string, content: string) => void): void;
+}
+
+/**
+ * Repository files as of one commit
+ */
+export interface RepoSnapshot extends RepoFileSource {
+  /** Resolved commit SHA */
+  commit: string;
+  /** Commit time (ms since epoch) */
+  timestamp: number;
+}
+
+const BATCH_SIZE = 500;
+
+/**
+ * Open a snapshot of the repo at a revision (null when it does not name a commit)
+ */
+export function createRepoSnapshot(cwd: string, ref: string): RepoSnapshot | null {
+  const info = git(cwd, ['show', '-s', '--format=%H %ct', `${ref}^{commit}`]);
+  if (!info) return null;
+
+  const [commit, seconds] = info.toString('utf-8').trim().split(' ');
+
+  const tree = git(cwd, ['ls-tree', '-r', '-z', '--full-tree', '--name-only', commit]);
+  const files = tree
+    ? tree
+        .toString('utf-8')
+        .split('\0')
+        .filter((f) => f && !f.split('/').includes('node_modules'))
+    : [];
+  const fileSet = new Set(files);
+
+  const readFiles = (filePaths: string[], onFile: (filePath: string, content: string) => void) => {
+    const wanted = filePaths.map(toPosix).filter((f) => fileSet.has(f));
+    for (let i = 0; i < wanted.length; i += BATCH_SIZE) {
+      const batch = wanted.slice(i, i + BATCH_SIZE);
+      const blobs = catFileBatch(cwd, batch.map((f) => `${commit}:${f}`));
+      batch.forEach((f, j) => {
+        const blob = blobs[j];
+        if (blob !== null) onFile(f, blob);
+      });
+    }
+  };
+
+  return {
+    commit,
+    timestamp: parseInt(seconds, 10) * 1000,
+    files,
+    readFile: (filePath) => {
+      let content: string | null = null;
+      readFiles([filePath], (_, blob) => (content = blob));
+      return content;
+    },
+    readFiles,
+  };
+}
+
+/**
+ * Read files at a revision in one batch, keyed by repo-relative path
+ *
+ * `ref` '' reads the index. Missing files are left out.
+ */
+export function readFilesAtRef(cwd: string, ref: string, filePaths: string[]): Map<string, string> {
+  const contents = new Map<string, string>();
+  const wanted = [...new Set(filePaths.map(toPosix))];
+  for (let i = 0; i < wanted.length; i += BATCH_SIZE) {
+    const batch = wanted.slice(i, i + BATCH_SIZE);
+    const blobs = catFileBatch(cwd, batch.map((f) => `${ref}:${f}`));
+    batch.forEach((f, j) => {
+      const blob = blobs[j];
+      if (blob !== null) contents.set(f, blob);
+    });
+  }
+  return contents;
+}
+
+/**
+ * Read objects with `git cat-file --batch` (null for missing objects)
+ */
+function catFileBatch(cwd: string, objects: string[]): Array<string | null> {
+  const output = git(cwd, ['cat-file', '--batch'], objects.join('\n') + '\n');
+  if (!output) return objects.map(() => null);
+
+  const results: Array<string | null> = [];
+  let offset = 0;
+
+  for (let i = 0; i < objects.length && offset < output.length; i++) {
+    const headerEnd = output.indexOf(0x0a, offset);
+    if (headerEnd === -1) break;
+
+    // "<sha> <type> <size>" or "<object> missing"
+    const header = output.toString('utf-8', offset, headerEnd).split(' ');
+    offset = headerEnd + 1;
+
+    if (header[header.length - 1] === 'missing') {
+      results.push(null);
+      continue;
+    }
+
+    const size = parseInt(header[2], 10);
+    results.push(header[1] === 'blob' ? output.toString('utf-8', offset, offset + size) : null);
+    offset += size + 1;
+  }
+
+  while (results.length < objects.length) results.push(null);
+  return results;
+}
+
+function git(cwd: string, args: string[], input?: string): Buffer | null {
+  const result = spawnSync('git', args, {
+    cwd,
+    input,
+    stdio: ['pipe', 'pipe', 'pipe'],
+    maxBuffer: 256 * 1024 * 1024,
+  });
+  return result.status === 0 ? result.stdout : null;
+}
+
+function toPosix(p: string): string {
+  return p.replace(/\\/g, '/');
+}
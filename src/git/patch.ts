@@ -0,0 +1,368 @@
+/**
+ * Unified Diff Patches
+ *
+ * Parse patches received as text (e.g. from a code-review bot) and apply them to
+ * a source tree in memory, so changes can be analyzed without a git repository.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { listRepoFiles } from '../analyzers/blastRadius';
+import { isGitRepo } from './diff';
+import { ChangedFileDetail, collectChangedRanges } from './diffParser';
+import { RepoFileSource } from './objects';
+
+export interface PatchHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** Hunk body lines, each prefixed with ' ', '+' or '-' */
+  lines: string[];
+  /** Last line of the old version has no trailing newline */
+  oldNoNewline?: boolean;
+  /** Last line of the new version has no trailing newline */
+  newNoNewline?: boolean;
+}
+
+export interface PatchFile {
+  /** Path after the change (the old path for deletions) */
+  path: string;
+  /** Path before the change, when renamed */
+  oldPath?: string;
+  status: ChangedFileDetail['status'];
+  hunks: PatchHunk[];
+  /** Binary change without a textual diff */
+  binary?: boolean;
+}
+
+/**
+ * Source tree with a patch applied in memory
+ */
+export interface PatchedTree extends RepoFileSource {
+  /** Changed files with their line ranges in the new version */
+  changes: ChangedFileDetail[];
+  /** Read a file as it was before the patch (null when it did not exist) */
+  readBaseFile(filePath: string): string | null;
+  /** Files whose hunks did not apply to the source tree */
+  rejected: string[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+const DEV_NULL = '/dev/null';
+
+/**
+ * Parse a unified diff (`git diff` or plain `diff -u` output)
+ */
+export function parsePatch(text: string): PatchFile[] {
+  const lines = text.split('\n');
+  const files: PatchFile[] = [];
+
+  let file: PatchFile | undefined;
+  let hunk: PatchHunk | undefined;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].replace(/\r$/, '');
+
+    if (hunk && (oldRemaining > 0 || newRemaining > 0)) {
+      // Some tools strip the space of empty context lines
+      const body = lines[i] === '' ? ' ' : lines[i];
+      const prefix = body[0];
+      if (prefix === ' ' || prefix === '+' || prefix === '-') {
+        hunk.lines.push(body);
+        if (prefix !== '+') oldRemaining--;
+        if (prefix !== '-') newRemaining--;
+        continue;
+      }
+    }
+
+    if (line.startsWith('\\')) {
+      // "\ No newline at end of file" refers to the preceding line
+      const previous = hunk?.lines[hunk.lines.length - 1]?.[0];
+      if (hunk && previous !== '+') hunk.oldNoNewline = true;
+      if (hunk && previous !== '-') hunk.newNoNewline = true;
+      continue;
+    }
+
+    const gitHeader = line.match(/^diff --git "?a\/(.+?)"? "?b\/(.+?)"?$/);
+    if (gitHeader) {
+      file = { path: gitHeader[2], status: 'modified', hunks: [] };
+      if (gitHeader[1] !== gitHeader[2]) {
+        file.oldPath = gitHeader[1];
+        file.status = 'renamed';
+      }
+      files.push(file);
+      hunk = undefined;
+      continue;
+    }
+
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      const oldName = parseFileName(line.slice(4));
+      const newName = parseFileName(lines[++i].slice(4));
+
+      // Plain diffs have no "diff --git" line, so the file starts here
+      if (!file || file.hunks.length > 0) {
+        file = { path: '', status: 'modified', hunks: [] };
+        files.push(file);
+        hunk = undefined;
+      }
+
+      if (oldName === null) {
+        file.status = 'added';
+        file.path = newName ?? file.path;
+        file.oldPath = undefined;
+      } else if (newName === null) {
+        file.status = 'deleted';
+        file.path = oldName;
+        file.oldPath = undefined;
+      } else {
+        file.path = newName;
+        if (oldName !== newName) {
+          file.oldPath = oldName;
+          file.status = 'renamed';
+        }
+      }
+      continue;
+    }
+
+    if (!file) continue;
+
+    const hunkMatch = line.match(HUNK_HEADER);
+    if (hunkMatch) {
+      hunk = {
+        oldStart: parseInt(hunkMatch[1], 10),
+        oldLines: hunkMatch[2] !== undefined ? parseInt(hunkMatch[2], 10) : 1,
+        newStart: parseInt(hunkMatch[3], 10),
+        newLines: hunkMatch[4] !== undefined ? parseInt(hunkMatch[4], 10) : 1,
+        lines: [],
+      };
+      oldRemaining = hunk.oldLines;
+      newRemaining = hunk.newLines;
+      file.hunks.push(hunk);
+    } else if (line.startsWith('new file mode')) {
+      file.status = 'added';
+    } else if (line.startsWith('deleted file mode')) {
+      file.status = 'deleted';
+    } else if (line.startsWith('rename from ')) {
+      file.oldPath = line.slice('rename from '.length);
+      file.status = 'renamed';
+    } else if (line.startsWith('rename to ')) {
+      file.path = line.slice('rename to '.length);
+    } else if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+      file.binary = true;
+    }
+  }
+
+  return files.filter((f) => f.path);
+}
+
+/**
+ * First path of a patch that is absolute or has `..` segments, and so could
+ * read files outside the tree it is applied to
+ */
+export function findUnsafePatchPath(files: PatchFile[]): string | undefined {
+  const isUnsafe = (filePath: string) => {
+    const normalized = filePath.replace(/\\/g, '/');
+    return (
+      normalized.startsWith('/') ||
+      /^[a-zA-Z]:/.test(normalized) ||
+      normalized.split('/').includes('..')
+    );
+  };
+
+  for (const file of files) {
+    for (const filePath of [file.path, file.oldPath]) {
+      if (filePath && isUnsafe(filePath)) return filePath;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Map a patched file onto the changed-file model used for git diffs
+ */
+export function toChangedFileDetail(file: PatchFile): ChangedFileDetail {
+  const lines = file.hunks.flatMap((h) => [
+    `@@ -${h.oldStart},${h.oldLines} +${h.newStart},${h.newLines} @@`,
+    ...h.lines,
+  ]);
+  const ranges = collectChangedRanges(lines, file.status);
+
+  return {
+    path: file.path,
+    status: file.status,
+    ranges,
+    totalLinesChanged: ranges.reduce((sum, r) => sum + r.lineCount, 0),
+    oldPath: file.oldPath,
+  };
+}
+
+/**
+ * Apply hunks to file content (null when a hunk does not match)
+ *
+ * Hunks are matched exactly, at their stated line or the nearest offset.
+ */
+export function applyHunks(content: string, hunks: PatchHunk[]): string | null {
+  const source = content === '' ? [] : content.replace(/\n$/, '').split('\n');
+  let trailingNewline = content === '' || content.endsWith('\n');
+
+  const result: string[] = [];
+  let cursor = 0;
+
+  for (const hunk of hunks) {
+    const expected = hunk.lines.filter((l) => l[0] !== '+').map((l) => l.slice(1));
+    const replacement = hunk.lines.filter((l) => l[0] !== '-').map((l) => l.slice(1));
+
+    const preferred = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const at = findHunk(source, expected, preferred, cursor);
+    if (at === -1) return null;
+
+    result.push(...source.slice(cursor, at), ...replacement);
+    cursor = at + expected.length;
+
+    if (cursor === source.length) {
+      if (hunk.newNoNewline) trailingNewline = false;
+      else if (hunk.oldNoNewline) trailingNewline = true;
+    }
+  }
+
+  result.push(...source.slice(cursor));
+  if (result.length === 0) return '';
+  return result.join('\n') + (trailingNewline ? '\n' : '');
+}
+
+/**
+ * Swap the old and new side of hunks, to recover the old content from the new
+ */
+export function reverseHunks(hunks: PatchHunk[]): PatchHunk[] {
+  return hunks.map((h) => ({
+    oldStart: h.newStart,
+    oldLines: h.newLines,
+    newStart: h.oldStart,
+    newLines: h.oldLines,
+    lines: h.lines.map((l) =>
+      l[0] === '+' ? `-${l.slice(1)}` : l[0] === '-' ? `+${l.slice(1)}` : l,
+    ),
+    oldNoNewline: h.newNoNewline,
+    newNoNewline: h.oldNoNewline,
+  }));
+}
+
+/**
+ * Apply a patch to the files under rootPath in memory
+ *
+ * The tree lists the repository's files, or only the patched files when
+ * rootPath is not a git repository.
+ *
+ * @param contents - Post-patch contents by path; these files are taken as given
+ *   instead of being patched, and their old version is recovered from the hunks
+ */
+export function applyPatchToTree(
+  rootPath: string,
+  files: PatchFile[],
+  contents: Record<string, string> = {},
+): PatchedTree {
+  const readFromDisk = (filePath: string): string | null => {
+    try {
+      return fs.readFileSync(path.join(rootPath, filePath), 'utf-8');
+    } catch {
+      return null;
+    }
+  };
+
+  const after = new Map<string, string>();
+  const before = new Map<string, string | null>();
+  const removed = new Set<string>();
+  const rejected: string[] = [];
+
+  for (const file of files) {
+    const oldPath = file.oldPath || file.path;
+    if (file.oldPath) removed.add(file.oldPath);
+
+    if (file.status === 'deleted') {
+      removed.add(file.path);
+      continue;
+    }
+
+    const given = contents[file.path];
+    if (given !== undefined) {
+      after.set(file.path, given);
+      before.set(
+        oldPath,
+        file.status === 'added' ? null : applyHunks(given, reverseHunks(file.hunks)),
+      );
+      continue;
+    }
+
+    if (file.binary) continue;
+
+    const original = file.status === 'added' ? '' : readFromDisk(oldPath);
+    const patched = original !== null ? applyHunks(original, file.hunks) : null;
+    if (patched === null) {
+      rejected.push(file.path);
+      removed.add(file.path);
+      continue;
+    }
+
+    after.set(file.path, patched);
+  }
+
+  // Outside a git repository only the patched files are known, rather than
+  // walking a directory of unknown size
+  const treeFiles = new Set(isGitRepo(rootPath) ? listRepoFiles(rootPath) : []);
+  for (const filePath of removed) treeFiles.delete(filePath);
+  for (const filePath of after.keys()) treeFiles.add(filePath);
+
+  const readFile = (filePath: string): string | null => {
+    const normalized = filePath.replace(/\\/g, '/');
+    if (after.has(normalized)) return after.get(normalized)!;
+    return removed.has(normalized) ? null : readFromDisk(normalized);
+  };
+
+  return {
+    files: [...treeFiles].filter((f) => !f.split('/').includes('node_modules')),
+    readFile,
+    readFiles: (filePaths, onFile) => {
+      for (const filePath of filePaths) {
+        const content = readFile(filePath);
+        if (content !== null) onFile(filePath, content);
+      }
+    },
+    readBaseFile: (filePath) => {
+      const normalized = filePath.replace(/\\/g, '/');
+      return before.has(normalized) ? before.get(normalized)! : readFromDisk(normalized);
+    },
+    changes: files.map(toChangedFileDetail),
+    rejected,
+  };
+}
+
+/**
+ * Find where a hunk's old lines start, searching outward from the preferred line
+ */
+function findHunk(source: string[], expected: string[], preferred: number, from: number): number {
+  const last = source.length - expected.length;
+  const matches = (at: number) => expected.every((line, j) => source[at + j] === line);
+
+  for (let offset = 0; offset <= source.length; offset++) {
+    const candidates = offset === 0 ? [preferred] : [preferred - offset, preferred + offset];
+    for (const at of candidates) {
+      if (at >= from && at <= last && matches(at)) return at;
+    }
+    if (preferred - offset < from && preferred + offset > last) break;
+  }
+
+  return -1;
+}
+
+/**
+ * Path from a `---`/`+++` line: strips timestamps, quotes and the a/ b/ prefix
+ */
+function parseFileName(raw: string): string | null {
+  let name = raw.replace(/\r$/, '').split('\t')[0].trim();
+  if (name.startsWith('"') && name.endsWith('"')) name = name.slice(1, -1);
+  if (name === DEV_NULL) return null;
+  return name.replace(/^[ab]\//, '');
+}
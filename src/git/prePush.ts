@@ -0,0 +1,116 @@
+/**
+ * Pre-Push Protocol
+ *
+ * Parse the refs git passes to a pre-push hook on stdin and turn each one into
+ * the commit range the push adds to the remote.
+ */
+
+import { spawnSync } from 'child_process';
+
+export interface PushedRef {
+  localRef: string;
+  localSha: string;
+  remoteRef: string;
+  remoteSha: string;
+}
+
+export interface PushRange {
+  ref: PushedRef;
+  /** Range to analyze (null when the push adds no commits, e.g. a deletion) */
+  range: string | null;
+  /** The remote does not have the branch yet */
+  newBranch: boolean;
+}
+
+/** Tree of an empty repository, the base for pushes that include the root commit */
+export const EMPTY_TREE_SHA = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+/**
+ * Parse `<local ref> <local sha> <remote ref> <remote sha>` lines
+ */
+export function parsePushInput(input: string): PushedRef[] {
+  return input
+    .split(/\r?\n/)
+    .map((line) => line.trim().split(/\s+/))
+    .filter((parts) => parts.length === 4)
+    .map(([localRef, localSha, remoteRef, remoteSha]) => ({
+      localRef,
+      localSha,
+      remoteRef,
+      remoteSha,
+    }));
+}
+
+/**
+ * Resolve the commits a pushed ref adds to the remote
+ *
+ * Updates of known remote commits use `<remote sha>..<local sha>`. New branches
+ * (and remote commits missing locally) start at the merge base with the
+ * remote's tracking refs that leaves the fewest commits, so commits merged in
+ * from the remote's branches are not counted again.
+ */
+export function resolvePushRange(cwd: string, ref: PushedRef, remote?: string): PushRange {
+  if (isZeroSha(ref.localSha)) {
+    return { ref, range: null, newBranch: false };
+  }
+
+  const newBranch = isZeroSha(ref.remoteSha);
+  if (!newBranch && commitExists(cwd, ref.remoteSha)) {
+    return { ref, range: `${ref.remoteSha}..${ref.localSha}`, newBranch };
+  }
+
+  const base = findRemoteMergeBase(cwd, ref.localSha, remote);
+  if (base?.ahead === 0) {
+    return { ref, range: null, newBranch };
+  }
+  return { ref, range: `${base?.sha ?? EMPTY_TREE_SHA}..${ref.localSha}`, newBranch };
+}
+
+/**
+ * Merge base of `sha` with the remote's tracking refs that has the fewest
+ * commits up to `sha` (null when it shares no history with them)
+ */
+function findRemoteMergeBase(
+  cwd: string,
+  sha: string,
+  remote?: string,
+): { sha: string; ahead: number } | null {
+  const tips = git(cwd, [
+    'for-each-ref',
+    '--format=%(objectname)',
+    remote ? `refs/remotes/${remote}/` : 'refs/remotes/',
+  ]);
+
+  let best: { sha: string; ahead: number } | null = null;
+  for (const tip of new Set(tips?.split('\n').filter(Boolean))) {
+    const base = git(cwd, ['merge-base', sha, tip]);
+    if (!base) continue;
+    const ahead = parseInt(git(cwd, ['rev-list', '--count', `${base}..${sha}`]) ?? '', 10);
+    if (!isNaN(ahead) && (!best || ahead < best.ahead)) {
+      best = { sha: base, ahead };
+    }
+  }
+  return best;
+}
+
+function git(cwd: string, args: string[]): string | null {
+  const result = spawnSync('git', args, {
+    encoding: 'utf-8',
+    cwd,
+    stdio: ['pipe', 'pipe', 'pipe'],
+    maxBuffer: 16 * 1024 * 1024,
+  });
+  return result.status === 0 ? result.stdout.trim() : null;
+}
+
+function isZeroSha(sha: string): boolean {
+  return /^0+$/.test(sha);
+}
+
+function commitExists(cwd: string, rev: string): boolean {
+  const result = spawnSync('git', ['cat-file', '-e', `${rev}^{commit}`], {
+    cwd,
+    stdio: 'pipe',
+  });
+  return result.status === 0;
+}
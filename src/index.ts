@@ -9,11 +9,27 @@ export {
   AnalyzeOptions,
   AnalysisResult,
   AnalyzedFileResult,
+  AnalyzedSignal,
   IgnoredFile,
   AnalysisWarning,
   AnalysisMeta,
+  PolicyOutcome,
 } from './core/analyze';
 
+export { analyzeFiles, AnalyzeFilesOptions, FileChange } from './core/analyzeFiles';
+export { analyzeCommits, CommitAnalysis, CommitBlocker, PerCommitResult } from './core/perCommit';
+export { traceSignal, TraceOptions, TraceResult, SignalIntroduction } from './core/trace';
+export { checkPush, PrePushOptions, PrePushResult, PushRefCheck } from './core/prePush';
+export {
+  createWatchSession,
+  watchWorkingTree,
+  WatchOptions,
+  WatchSession,
+  WatchUpdate,
+} from './core/watch';
+export { startLspServer, LspServerOptions, LspServer, SUPPRESS_COMMAND } from './lsp/server';
+export { createApiServer, ApiServerOptions } from './server/api';
+
 export {
   RiskSeverity,
   getRiskSeverity,
@@ -22,13 +38,32 @@ export {
 } from './core/severity';
 
 export { formatConsoleOutput, OutputContext } from './output/formatters/dsConsole';
-export { formatMarkdownOutput } from './output/formatters/dsMarkdown';
-export { formatJsonOutput, JsonOutput, JsonIssue } from './output/formatters/dsJson';
+export {
+  formatMarkdownOutput,
+  formatPerCommitMarkdownOutput,
+} from './output/formatters/dsMarkdown';
+export {
+  formatJsonOutput,
+  formatPerCommitJsonOutput,
+  toJsonOutput,
+  JsonOutput,
+  JsonPerCommitOutput,
+  JsonIssue,
+} from './output/formatters/dsJson';
+export { formatSarifOutput, SarifLog } from './output/formatters/dsSarif';
 
 export type { DiffScope } from './git/diff';
-export type { DetectorProfile } from './signals';
-export type { DiffeSenseConfig } from './config/schema';
+export type { DetectorProfile, SignalDelta } from './signals';
+export type { DiffeSenseConfig, UserConfig } from './config/schema';
+export type { ResolvedConfig } from './config/loader';
+export { defineConfig, ConfigContext, ConfigFunction } from './config/module';
 export type { EvaluationResult, RuleResult } from './policy/engine';
+export type { PolicyFailure } from './policy/packs/loader';
+export { diffPolicyPacks, PolicyPackDifference } from './policy/packs/loader';
+export { resolvePolicyPack, loadPolicyPackFile, PolicyPackDocument } from './policy/packs/custom';
+export type { PolicyPack } from './policy/packs';
+export type { FileOwnership, ReviewerRouting } from './core/codeowners';
+export type { FileHistory } from './git/history';
 
 export {
   AnalysisCache,
@@ -0,0 +1,83 @@
+/**
+ * LSP Base Protocol
+ *
+ * JSON-RPC messages framed with a `Content-Length` header, as exchanged by
+ * language servers and editors over stdio.
+ */
+
+import { Readable, Writable } from 'stream';
+
+export interface RpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+/** JSON-RPC and LSP error codes */
+export const ErrorCodes = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InternalError: -32603,
+  ServerNotInitialized: -32002,
+} as const;
+
+const HEADER_END = Buffer.from('\r\n\r\n');
+
+/**
+ * Read framed messages from a stream
+ *
+ * Messages whose body is not valid JSON are reported as `null`.
+ */
+export function readMessages(
+  input: Readable,
+  onMessage: (message: RpcMessage | null) => void,
+): void {
+  let buffer = Buffer.alloc(0);
+
+  input.on('data', (chunk: Buffer | string) => {
+    buffer = Buffer.concat([buffer, typeof chunk === 'string' ? Buffer.from(chunk) : chunk]);
+
+    for (;;) {
+      const headerEnd = buffer.indexOf(HEADER_END);
+      if (headerEnd === -1) return;
+
+      const header = buffer.subarray(0, headerEnd).toString('ascii');
+      const match = /Content-Length:\s*(\d+)/i.exec(header);
+      if (!match) {
+        // Unframed input; drop the header and resynchronize
+        buffer = buffer.subarray(headerEnd + HEADER_END.length);
+        continue;
+      }
+
+      const start = headerEnd + HEADER_END.length;
+      const end = start + parseInt(match[1], 10);
+      if (buffer.length < end) return;
+
+      const body = buffer.subarray(start, end).toString('utf-8');
+      buffer = buffer.subarray(end);
+      onMessage(parseMessage(body));
+    }
+  });
+}
+
+/**
+ * Write a message with its `Content-Length` header
+ */
+export function writeMessage(output: Writable, message: RpcMessage): void {
+  const body = Buffer.from(JSON.stringify(message), 'utf-8');
+  output.write(`Content-Length: ${body.length}\r\n\r\n`);
+  output.write(body);
+}
+
+function parseMessage(body: string): RpcMessage | null {
+  try {
+    const message = JSON.parse(body);
+    return message && typeof message === 'object' ? (message as RpcMessage) : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,477 @@
+/**
+ * DiffeSense Language Server
+ *
+ * Publish signals on the uncommitted lines of open documents as diagnostics,
+ * with hover descriptions and quick fixes that add suppressions. Buffers are
+ * analyzed in memory against their HEAD version, so unsaved edits count.
+ */
+
+import * as path from 'path';
+import { Readable, Writable } from 'stream';
+import { fileURLToPath } from 'url';
+import { getDefaultConfig, resolveConfig, DiffeSenseConfig } from '../config';
+import { getGitRoot, readFileAtRef } from '../git/diff';
+import { getSignalDescription } from '../output/signalDescriptions';
+import { compileCustomPatterns } from '../patterns';
+import { registerPackSignalDescriptions } from '../plugins/detector';
+import { createPackRegistry, loadPacksFromConfig } from '../plugins/loader';
+import { DetectorDefinition } from '../plugins/types';
+import { getPolicyPack, DEFAULT_POLICY_PACK, PolicyPack } from '../policy/packs';
+import { resolvePolicyPack } from '../policy/packs/custom';
+import { DetectorProfile, Severity } from '../signals';
+import { VERSION } from '../version';
+import { AnalyzedSignal, registerCustomPatternDescriptions } from '../core/analyze';
+import { analyzeFiles } from '../core/analyzeFiles';
+import {
+  addSuppression,
+  getActiveSuppressions,
+  isSecuritySignal,
+  SuppressionMatch,
+} from '../core/suppressions';
+import { isSettingsFile } from '../core/watch';
+import { ErrorCodes, readMessages, RpcMessage, writeMessage } from './protocol';
+import {
+  CodeAction,
+  CodeActionParams,
+  Diagnostic,
+  DidChangeTextDocumentParams,
+  DidCloseTextDocumentParams,
+  DidOpenTextDocumentParams,
+  DidSaveTextDocumentParams,
+  ExecuteCommandParams,
+  Hover,
+  InitializeParams,
+  InitializeResult,
+  PublishDiagnosticsParams,
+  TextDocumentPositionParams,
+} from './types';
+
+export interface LspServerOptions {
+  input: Readable;
+  output: Writable;
+  /** Workspace root when the client sends none (default: process.cwd()) */
+  cwd?: string;
+  /** Detector profile (default: 'auto') */
+  detector?: DetectorProfile;
+  /** Delay before re-analyzing a document after an edit (default: 300) */
+  debounceMs?: number;
+}
+
+export interface LspServer {
+  /** Resolves with the exit code once the client sends `exit` or closes the input */
+  exited: Promise<number>;
+}
+
+/** Command run by the suppression quick fixes */
+export const SUPPRESS_COMMAND = 'diffesense.suppress';
+
+/** LSP DiagnosticSeverity for each signal severity */
+const DIAGNOSTIC_SEVERITY: Record<Severity, number> = {
+  blocker: 1,
+  warn: 2,
+  info: 3,
+};
+
+const MessageType = { Error: 1, Warning: 2, Info: 3 } as const;
+
+/** Arguments of the suppression command */
+interface SuppressArguments {
+  signalId: string;
+  fileGlob?: string;
+  reason?: string;
+}
+
+/** Params of each handled request */
+interface RequestParams {
+  initialize: InitializeParams;
+  shutdown: undefined;
+  'textDocument/hover': TextDocumentPositionParams;
+  'textDocument/codeAction': CodeActionParams;
+  'workspace/executeCommand': ExecuteCommandParams;
+}
+
+/** Params of each handled notification */
+interface NotificationParams {
+  exit: undefined;
+  'textDocument/didOpen': DidOpenTextDocumentParams;
+  'textDocument/didChange': DidChangeTextDocumentParams;
+  'textDocument/didSave': DidSaveTextDocumentParams;
+  'textDocument/didClose': DidCloseTextDocumentParams;
+}
+
+interface OpenDocument {
+  uri: string;
+  /** Repo-relative path (null outside the workspace) */
+  path: string | null;
+  version: number;
+  text: string;
+  diagnostics: Diagnostic[];
+  timer?: NodeJS.Timeout;
+}
+
+interface Workspace {
+  root: string;
+  config: DiffeSenseConfig;
+  policyPack: PolicyPack;
+  packDetectors: DetectorDefinition[];
+  suppressions: SuppressionMatch[];
+}
+
+/**
+ * Start a language server speaking LSP over the given streams
+ */
+export function startLspServer(options: LspServerOptions): LspServer {
+  const { input, output } = options;
+  const debounceMs = options.debounceMs ?? 300;
+  const documents = new Map<string, OpenDocument>();
+
+  let workspace: Promise<Workspace> | null = null;
+  let shutdown = false;
+  let resolveExit: (code: number) => void = () => {};
+  const exited = new Promise<number>((resolve) => {
+    resolveExit = resolve;
+  });
+
+  const send = (message: Omit<RpcMessage, 'jsonrpc'>) =>
+    writeMessage(output, { jsonrpc: '2.0', ...message });
+  const notify = (method: string, params: unknown) => send({ method, params });
+  const log = (type: number, message: string) =>
+    notify('window/logMessage', { type, message: `[diffesense] ${message}` });
+  const logError = (error: unknown) =>
+    log(MessageType.Error, error instanceof Error ? error.message : String(error));
+  const publishDiagnostics = (params: PublishDiagnosticsParams) =>
+    notify('textDocument/publishDiagnostics', params);
+
+  /**
+   * Load config, packs and suppressions; an invalid config is reported and the
+   * previous workspace (or the default config) is kept until it is fixed
+   */
+  const loadWorkspace = async (root: string, previous?: Workspace): Promise<Workspace> => {
+    const warn = (message: string) => log(MessageType.Warning, message);
+    let config: DiffeSenseConfig;
+    try {
+      const resolved = await resolveConfig({ cwd: root });
+      config = resolved.config;
+      resolved.warnings.forEach(warn);
+    } catch (error) {
+      const fallback = previous ? 'Keeping the last valid config' : 'Using the default config';
+      const message = error instanceof Error ? error.message : String(error);
+      notify('window/showMessage', {
+        type: MessageType.Error,
+        message: `[diffesense] ${fallback}:\n${message}`,
+      });
+      if (previous) return previous;
+      config = getDefaultConfig();
+    }
+
+    // In-memory analysis does not read pack files, so custom packs are resolved here
+    let policyPack = getPolicyPack(DEFAULT_POLICY_PACK);
+    try {
+      if (config.policyPack) policyPack = resolvePolicyPack(config.policyPack, root);
+    } catch (error) {
+      warn(`${(error as Error).message} (using the default policy pack)`);
+    }
+
+    const packRegistry = createPackRegistry();
+    await loadPacksFromConfig(config.packs || [], packRegistry, { cwd: root, warn, log: () => {} });
+    const packDetectors = packRegistry.getAllDetectors();
+    registerPackSignalDescriptions(packDetectors);
+    registerCustomPatternDescriptions(compileCustomPatterns(config.customPatterns || []));
+
+    return {
+      root,
+      config,
+      policyPack,
+      packDetectors,
+      suppressions: getActiveSuppressions(root, warn),
+    };
+  };
+
+  const analyzeDocument = async (doc: OpenDocument): Promise<void> => {
+    if (!workspace) return;
+    const ws = await workspace;
+    const { version, text } = doc;
+
+    let diagnostics: Diagnostic[] = [];
+    if (doc.path) {
+      const result = await analyzeFiles(
+        [{ path: doc.path, before: readFileAtRef(ws.root, 'HEAD', doc.path), after: text }],
+        {
+          config: ws.config,
+          policyPack: ws.policyPack,
+          detector: options.detector,
+          // Only the changed lines themselves, not the context around them
+          contextLines: 0,
+          packDetectors: ws.packDetectors,
+          suppressions: ws.suppressions,
+          cwd: ws.root,
+        },
+      );
+      if (!result.success) {
+        log(MessageType.Error, result.error || 'Analysis failed');
+      }
+      const signals = result.files.find((f) => f.path === doc.path)?.signals || [];
+      diagnostics = signals
+        .filter((s) => s.delta !== 'resolved' && s.lines.length > 0)
+        .map((s) => toDiagnostic(s, text));
+    }
+
+    // A newer version is already scheduled, or the document was closed
+    if (documents.get(doc.uri) !== doc || doc.version !== version) return;
+    doc.diagnostics = diagnostics;
+    publishDiagnostics({ uri: doc.uri, version, diagnostics });
+  };
+
+  const schedule = (doc: OpenDocument, delay: number) => {
+    if (doc.timer) clearTimeout(doc.timer);
+    doc.timer = setTimeout(() => {
+      doc.timer = undefined;
+      analyzeDocument(doc).catch(logError);
+    }, delay);
+  };
+
+  const reanalyzeAll = () => {
+    for (const doc of documents.values()) schedule(doc, 0);
+  };
+
+  const toRelative = (uri: string, root: string): string | null => {
+    if (!uri.startsWith('file:')) return null;
+    const relative = path.relative(root, fileURLToPath(uri)).replace(/\\/g, '/');
+    return relative.startsWith('../') || path.isAbsolute(relative) ? null : relative;
+  };
+
+  const requests: {
+    [M in keyof RequestParams]: (params: RequestParams[M]) => unknown;
+  } = {
+    initialize: async (params): Promise<InitializeResult> => {
+      const folder = params?.workspaceFolders?.[0]?.uri ?? params?.rootUri;
+      const dir =
+        typeof folder === 'string' && folder.startsWith('file:')
+          ? fileURLToPath(folder)
+          : params?.rootPath || options.cwd || process.cwd();
+      workspace = loadWorkspace(getGitRoot(dir) || dir);
+      await workspace;
+
+      return {
+        capabilities: {
+          textDocumentSync: { openClose: true, change: 1, save: { includeText: false } },
+          hoverProvider: true,
+          codeActionProvider: { codeActionKinds: ['quickfix'] },
+          executeCommandProvider: { commands: [SUPPRESS_COMMAND] },
+        },
+        serverInfo: { name: 'diffesense', version: VERSION },
+      };
+    },
+
+    shutdown: () => {
+      shutdown = true;
+      for (const doc of documents.values()) {
+        if (doc.timer) clearTimeout(doc.timer);
+      }
+      return null;
+    },
+
+    'textDocument/hover': (params): Hover | null => {
+      const doc = documents.get(params.textDocument.uri);
+      const { line } = params.position;
+      const diagnostic = doc?.diagnostics.find(
+        (d) => line >= d.range.start.line && line <= d.range.end.line,
+      );
+      if (!diagnostic) return null;
+
+      const desc = getSignalDescription(diagnostic.code);
+      return {
+        contents: {
+          kind: 'markdown',
+          value: [
+            `**${desc.title}** \`${diagnostic.code}\``,
+            desc.summary,
+            `**Impact:** ${desc.impact}`,
+            `**Recommendation:** ${desc.recommendation}`,
+          ].join('\n\n'),
+        },
+        range: diagnostic.range,
+      };
+    },
+
+    'textDocument/codeAction': (params): CodeAction[] => {
+      const doc = documents.get(params.textDocument.uri);
+      if (!doc?.path) return [];
+
+      const diagnostics = params.context?.diagnostics || [];
+      const actions: CodeAction[] = [];
+      for (const diagnostic of diagnostics) {
+        // Security suppressions require a written reason (see addSuppression)
+        if (diagnostic.source !== 'diffesense' || isSecuritySignal(diagnostic.code)) continue;
+
+        const signalId = diagnostic.code;
+        actions.push(
+          suppressAction(`Suppress ${signalId} in ${path.basename(doc.path)}`, diagnostic, {
+            signalId,
+            fileGlob: doc.path,
+          }),
+          suppressAction(`Suppress ${signalId} in all files`, diagnostic, { signalId }),
+        );
+      }
+      return actions;
+    },
+
+    'workspace/executeCommand': async (params) => {
+      if (params.command !== SUPPRESS_COMMAND || !workspace) return null;
+      const ws = await workspace;
+      const args = (params.arguments?.[0] || {}) as SuppressArguments;
+
+      const result = addSuppression(ws.root, {
+        signalId: args.signalId,
+        fileGlob: args.fileGlob,
+        reason: args.reason,
+      });
+      notify('window/showMessage', {
+        type: result.success ? MessageType.Info : MessageType.Error,
+        message: result.message,
+      });
+      if (result.success) {
+        ws.suppressions = getActiveSuppressions(ws.root, (m) => log(MessageType.Warning, m));
+        reanalyzeAll();
+      }
+      return null;
+    },
+  };
+
+  const notifications: {
+    [M in keyof NotificationParams]: (params: NotificationParams[M]) => void;
+  } = {
+    exit: () => resolveExit(shutdown ? 0 : 1),
+
+    'textDocument/didOpen': (params) => {
+      const { uri, version, text } = params.textDocument;
+      const doc: OpenDocument = { uri, path: null, version, text, diagnostics: [] };
+      documents.set(uri, doc);
+      workspace
+        ?.then((ws) => {
+          doc.path = toRelative(uri, ws.root);
+          schedule(doc, 0);
+        })
+        .catch(logError);
+    },
+
+    'textDocument/didChange': (params) => {
+      const doc = documents.get(params.textDocument.uri);
+      const changes = params.contentChanges || [];
+      if (!doc || changes.length === 0) return;
+
+      // Full sync: the last change carries the whole document
+      doc.text = changes[changes.length - 1].text;
+      doc.version = params.textDocument.version;
+      schedule(doc, debounceMs);
+    },
+
+    'textDocument/didSave': (params) => {
+      const doc = documents.get(params.textDocument.uri);
+      if (!doc?.path || !isSettingsFile(doc.path) || !workspace) return;
+
+      workspace = workspace.then((ws) => loadWorkspace(ws.root, ws));
+      reanalyzeAll();
+    },
+
+    'textDocument/didClose': (params) => {
+      const { uri } = params.textDocument;
+      const doc = documents.get(uri);
+      if (doc?.timer) clearTimeout(doc.timer);
+      documents.delete(uri);
+      publishDiagnostics({ uri, diagnostics: [] });
+    },
+  };
+
+  const handle = async (message: RpcMessage | null): Promise<void> => {
+    if (!message || typeof message.method !== 'string') {
+      if (message === null) {
+        send({ id: null, error: { code: ErrorCodes.ParseError, message: 'Invalid JSON' } });
+      }
+      return;
+    }
+
+    // Params are trusted to have the shape the client's method promises
+    const isRequest = message.id !== undefined;
+    if (!isRequest) {
+      const notification = Object.hasOwn(notifications, message.method)
+        ? (notifications[message.method as keyof NotificationParams] as (params: unknown) => void)
+        : undefined;
+      notification?.(message.params);
+      return;
+    }
+
+    const handler = Object.hasOwn(requests, message.method)
+      ? (requests[message.method as keyof RequestParams] as (params: unknown) => unknown)
+      : undefined;
+    if (!handler) {
+      send({
+        id: message.id,
+        error: { code: ErrorCodes.MethodNotFound, message: `Unhandled method ${message.method}` },
+      });
+      return;
+    }
+    if (!workspace && message.method !== 'initialize') {
+      send({
+        id: message.id,
+        error: { code: ErrorCodes.ServerNotInitialized, message: 'Server not initialized' },
+      });
+      return;
+    }
+
+    try {
+      send({ id: message.id, result: await handler(message.params) });
+    } catch (error) {
+      send({
+        id: message.id,
+        error: {
+          code: ErrorCodes.InternalError,
+          message: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  };
+
+  // Handle messages in arrival order, e.g. no didOpen before initialize has answered
+  let queue = Promise.resolve();
+  readMessages(input, (message) => {
+    queue = queue.then(() => handle(message));
+  });
+  input.on('end', () => resolveExit(shutdown ? 0 : 1));
+
+  return { exited };
+}
+
+/**
+ * Diagnostic covering the whole first line of a signal
+ */
+function toDiagnostic(signal: AnalyzedSignal, text: string): Diagnostic {
+  const line = signal.lines[0] - 1;
+  const lineText = text.split(/\r?\n/)[line] ?? '';
+  const desc = getSignalDescription(signal.id);
+
+  return {
+    range: {
+      start: { line, character: lineText.length - lineText.trimStart().length },
+      end: { line, character: lineText.length },
+    },
+    severity: DIAGNOSTIC_SEVERITY[signal.severity],
+    code: signal.id,
+    source: 'diffesense',
+    message: `${desc.title}: ${desc.summary}`,
+    data: { signalId: signal.id, fingerprint: signal.fingerprint },
+  };
+}
+
+function suppressAction(
+  title: string,
+  diagnostic: Diagnostic,
+  args: SuppressArguments,
+): CodeAction {
+  return {
+    title,
+    kind: 'quickfix',
+    diagnostics: [diagnostic],
+    command: { title, command: SUPPRESS_COMMAND, arguments: [args] },
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * LSP Types
+ *
+ * The Language Server Protocol structures the server reads and sends.
+ */
+
+export interface Position {
+  line: number;
+  character: number;
+}
+
+export interface Range {
+  start: Position;
+  end: Position;
+}
+
+export interface Diagnostic {
+  range: Range;
+  severity: number;
+  code: string;
+  source: 'diffesense';
+  message: string;
+  data: { signalId: string; fingerprint: string };
+}
+
+export interface TextDocumentIdentifier {
+  uri: string;
+}
+
+export interface VersionedTextDocumentIdentifier extends TextDocumentIdentifier {
+  version: number;
+}
+
+export interface TextDocumentItem extends VersionedTextDocumentIdentifier {
+  languageId: string;
+  text: string;
+}
+
+export interface InitializeParams {
+  rootUri?: string | null;
+  rootPath?: string | null;
+  workspaceFolders?: Array<{ uri: string; name: string }> | null;
+}
+
+export interface InitializeResult {
+  capabilities: {
+    textDocumentSync: { openClose: boolean; change: number; save: { includeText: boolean } };
+    hoverProvider: boolean;
+    codeActionProvider: { codeActionKinds: string[] };
+    executeCommandProvider: { commands: string[] };
+  };
+  serverInfo: { name: string; version: string };
+}
+
+export interface TextDocumentPositionParams {
+  textDocument: TextDocumentIdentifier;
+  position: Position;
+}
+
+export interface Hover {
+  contents: { kind: 'markdown'; value: string };
+  range: Range;
+}
+
+export interface CodeActionParams {
+  textDocument: TextDocumentIdentifier;
+  range: Range;
+  context: { diagnostics: Diagnostic[] };
+}
+
+export interface Command {
+  title: string;
+  command: string;
+  arguments?: unknown[];
+}
+
+export interface CodeAction {
+  title: string;
+  kind: 'quickfix';
+  diagnostics: Diagnostic[];
+  command: Command;
+}
+
+export interface ExecuteCommandParams {
+  command: string;
+  arguments?: unknown[];
+}
+
+export interface DidOpenTextDocumentParams {
+  textDocument: TextDocumentItem;
+}
+
+export interface DidChangeTextDocumentParams {
+  textDocument: VersionedTextDocumentIdentifier;
+  /** Full sync: each change carries the whole document */
+  contentChanges: Array<{ text: string }>;
+}
+
+export interface DidSaveTextDocumentParams {
+  textDocument: TextDocumentIdentifier;
+}
+
+export interface DidCloseTextDocumentParams {
+  textDocument: TextDocumentIdentifier;
+}
+
+export interface PublishDiagnosticsParams {
+  uri: string;
+  version?: number;
+  diagnostics: Diagnostic[];
+}
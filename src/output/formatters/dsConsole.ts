@@ -1,8 +1,10 @@
 import chalk from 'chalk';
 import * as path from 'path';
-import { AnalysisResult } from '../../core/analyze';
+import { AnalysisResult, AnalyzedFileResult } from '../../core/analyze';
+import { PerCommitResult } from '../../core/perCommit';
 import { getRiskSeverity, getSeverityColor, sortFilesBySeverity } from '../../core/severity';
-import { getActiveSuppressions } from '../../core/suppressions';
+import { formatReviewersForComment } from '../../core/codeowners';
+import { ConditionExplanation } from '../../policy/engine';
 import { VERSION } from '../../version';
 import {
   parseRiskReason,
@@ -43,6 +45,83 @@ export function formatConsoleOutput(
   return formatDefaultOutput(result, config);
 }
 
+/**
+ * Format per-commit analysis: one status line per commit, then the blockers
+ * with the commit that introduced them
+ */
+export function formatPerCommitConsoleOutput(
+  result: PerCommitResult,
+  config: ConsoleOutputConfig = {},
+): string {
+  const status = result.exitCode === 0 ? 'PASS' : result.exitCode === 1 ? 'FAIL' : 'ERROR';
+
+  if (config.quiet) {
+    return (
+      `DiffeSense ${VERSION} | ${status} | commits=${result.commits.length} | ` +
+      `blockers=${result.blockers.length}`
+    );
+  }
+
+  const lines: string[] = [];
+  lines.push('');
+  lines.push(
+    chalk.bold.cyan(`DiffeSense ${VERSION}`) + chalk.gray(` — per commit (${result.range})`),
+  );
+  lines.push('');
+
+  if (result.error) {
+    lines.push(chalk.bgYellow.black.bold(' ERROR ') + chalk.yellow(` ${result.error}`));
+    return lines.join('\n');
+  }
+
+  if (result.commits.length === 0) {
+    lines.push(chalk.dim('No commits in range'));
+    return lines.join('\n');
+  }
+
+  for (const commit of result.commits) {
+    const { summary, exitCode } = commit.result;
+    const badge =
+      exitCode === 0
+        ? chalk.green('PASS ')
+        : exitCode === 1
+          ? chalk.red.bold('FAIL ')
+          : chalk.yellow('ERROR');
+    const blockers =
+      summary.blockerCount > 0 ? chalk.red.bold(`${summary.blockerCount} blocker(s)`) : '';
+    lines.push(
+      `  ${badge} ${chalk.yellow(commit.shortSha)} ${commit.subject} ` +
+        chalk.dim(`(${summary.analyzedCount} file(s), risk `) +
+        formatRiskScore(summary.highestRisk) +
+        chalk.dim(')') +
+        (blockers ? ` ${blockers}` : ''),
+    );
+  }
+
+  if (result.blockers.length > 0) {
+    lines.push('');
+    lines.push(chalk.bold('Blockers by commit:'));
+    for (const blocker of result.blockers) {
+      lines.push(
+        `  ${chalk.red('●')} ${chalk.bold(blocker.file)} ${chalk.dim(blocker.ruleId)} ` +
+          chalk.dim('introduced in ') +
+          chalk.yellow(blocker.introducedBy.sha.substring(0, 7)),
+      );
+    }
+  }
+
+  lines.push('');
+  lines.push(chalk.gray('─'.repeat(60)));
+  lines.push(
+    `${chalk.white('Commits: ')}${chalk.bold(result.commits.length)}${chalk.gray('  •  ')}` +
+      `${chalk.white('Blockers: ')}` +
+      (result.blockers.length > 0 ? chalk.red.bold(result.blockers.length) : chalk.green('0')),
+  );
+  lines.push(chalk.gray('─'.repeat(60)));
+
+  return lines.join('\n');
+}
+
 function formatQuietOutput(result: AnalysisResult): string {
   const status = result.exitCode === 0 ? 'PASS' : result.exitCode === 1 ? 'FAIL' : 'ERROR';
   return `DiffeSense ${VERSION} | ${status} | risk=${result.summary.highestRisk.toFixed(
@@ -61,9 +140,14 @@ function formatDefaultOutput(result: AnalysisResult, config: ConsoleOutputConfig
   if (result.exitCode === 0) {
     lines.push(chalk.bgGreen.black.bold(' PASS ') + chalk.green(' No blocking issues found'));
   } else if (result.exitCode === 1) {
+    const failures = result.policy?.failures || [];
     lines.push(
       chalk.bgRed.white.bold(' FAIL ') +
-        chalk.red(` ${result.summary.blockerCount} blocking issue(s) detected`),
+        chalk.red(
+          failures.length > 0
+            ? ` ${result.policy!.pack} policy: ${failures.map((f) => f.message).join('; ')}`
+            : ` ${result.summary.blockerCount} blocking issue(s) detected`,
+        ),
     );
   } else {
     lines.push(chalk.bgYellow.black.bold(' ERROR ') + chalk.yellow(' Analysis encountered errors'));
@@ -103,6 +187,14 @@ function formatDefaultOutput(result: AnalysisResult, config: ConsoleOutputConfig
         lines.push(chalk.yellow(`  ⚡ Blast radius: ${file.blastRadius} dependent(s)`));
       }
 
+      if (file.ownership && file.ownership.reviewers.length > 0) {
+        const escalated = file.ownership.escalated ? chalk.red(' (escalated)') : '';
+        lines.push(
+          chalk.magenta(`  👥 Owners: ${formatReviewersForComment(file.ownership.reviewers)}`) +
+            escalated,
+        );
+      }
+
       lines.push('');
     }
 
@@ -123,6 +215,11 @@ function formatDefaultOutput(result: AnalysisResult, config: ConsoleOutputConfig
   lines.push(formatSummaryBox(result));
   lines.push('');
 
+  if (result.reviewers) {
+    lines.push(...formatReviewers(result));
+    lines.push('');
+  }
+
   if (result.summary.blockerCount > 0 || result.summary.highestRisk >= 7.0) {
     lines.push(chalk.yellow.bold('→ What to do:'));
     lines.push(chalk.white('  1. Review the high-risk files listed above'));
@@ -181,18 +278,40 @@ function formatDetailedOutput(result: AnalysisResult, config: ConsoleOutputConfi
     lines.push(chalk.cyan.underline(clickablePath));
     lines.push('');
 
-    lines.push(chalk.gray('  ┌─ Risk Score:       ') + formatRiskScore(file.riskScore));
-    lines.push(
-      chalk.gray('  ├─ Gated Score:      ') +
-        formatRiskScore(file.gatedRiskScore) +
-        chalk.dim(' (for PASS/FAIL)'),
-    );
-    lines.push(
-      chalk.gray('  └─ Blast Radius:     ') +
+    const rows: Array<[string, string]> = [
+      ['Risk Score:', formatRiskScore(file.riskScore)],
+      ['Gated Score:', formatRiskScore(file.gatedRiskScore) + chalk.dim(' (for PASS/FAIL)')],
+      [
+        'Blast Radius:',
         (file.blastRadius > 0
           ? chalk.yellow(`${file.blastRadius} dependents`)
-          : chalk.dim('isolated')),
-    );
+          : chalk.dim('isolated')) +
+          (file.blastRadiusConfidence
+            ? chalk.dim(` (${file.blastRadiusConfidence} confidence)`)
+            : ''),
+      ],
+    ];
+    if (file.ownership) {
+      const owners = file.ownership.reviewers.join(', ');
+      const source = file.ownership.matchedPattern
+        ? chalk.dim(` (${file.ownership.matchedPattern})`)
+        : '';
+      rows.push([
+        'Owners:',
+        (owners ? chalk.magenta(owners) + source : chalk.dim('none')) +
+          (file.ownership.escalated ? chalk.red(' (escalated)') : ''),
+      ]);
+    }
+    if (file.symbolBlastRadius && file.symbolBlastRadius.length > 0) {
+      rows.push(['Changed Exports:', formatSymbolBlastRadius(file.symbolBlastRadius)]);
+    }
+    if (file.history) {
+      rows.push(['History:', formatHistory(file.history)]);
+    }
+    rows.forEach(([label, value], i) => {
+      const branch = i === 0 ? '┌─' : i === rows.length - 1 ? '└─' : '├─';
+      lines.push(chalk.gray(`  ${branch} ${label.padEnd(18)}`) + value);
+    });
     lines.push('');
 
     if (file.gateStats && (file.gateStats.advisory > 0 || file.gateStats.filtered > 0)) {
@@ -214,7 +333,29 @@ function formatDetailedOutput(result: AnalysisResult, config: ConsoleOutputConfi
             ? chalk.yellow('⚠')
             : chalk.blue('ℹ');
         const lineNum = ev.line ? chalk.gray(` :${ev.line}`) : '';
-        lines.push(`    ${sevIcon} ${ev.message}${lineNum}`);
+        const delta = ev.delta === 'pre-existing' ? chalk.dim(' (pre-existing)') : '';
+        lines.push(`    ${sevIcon} ${ev.message}${lineNum}${delta}`);
+      }
+      lines.push('');
+    }
+
+    if (file.differential && file.differential.resolved.length > 0) {
+      lines.push(chalk.bold.white('  Resolved:'));
+      for (const s of file.differential.resolved) {
+        const lineNum = s.lines[0] ? chalk.gray(` :${s.lines[0]} (base)`) : '';
+        lines.push(chalk.green(`    ✓ ${s.message}`) + lineNum);
+      }
+      lines.push('');
+    }
+
+    if (file.suppressed.length > 0) {
+      lines.push(chalk.bold.white('  Suppressed:'));
+      for (const s of file.suppressed) {
+        const lineNum = s.line ? chalk.gray(` :${s.line}`) : '';
+        const reason = s.reason ? chalk.dim(` — ${s.reason}`) : '';
+        lines.push(
+          chalk.dim(`    🔕 ${s.signalId}${lineNum} (rule: ${s.rule}, ${s.scope})`) + reason,
+        );
       }
       lines.push('');
     }
@@ -249,12 +390,90 @@ function formatDetailedOutput(result: AnalysisResult, config: ConsoleOutputConfi
       }`,
     );
     lines.push(`  Warnings:  ${chalk.yellow(result.evaluation.warnings.length)}`);
+    const matches = [...result.evaluation.blockers, ...result.evaluation.warnings];
+    if (matches.length > 0) {
+      lines.push('');
+      lines.push(chalk.bold.white('  Rule Matches:'));
+      for (const match of matches) {
+        const icon = match.severity === 'blocker' ? chalk.red('●') : chalk.yellow('●');
+        lines.push(`    ${icon} ${chalk.bold(match.file.path)} ${chalk.dim(match.ruleId)}`);
+        // The conditions of a rule are implicitly ANDed, so its root `all` is not shown
+        for (const condition of match.explanation.children || []) {
+          lines.push(...formatExplanation(condition, 6));
+        }
+      }
+      lines.push('');
+    }
+    if (result.policy) {
+      lines.push(`  Pack:      ${result.policy.pack}`);
+      for (const failure of result.policy.failures) {
+        lines.push(chalk.red(`  ✗ ${failure.message} (${failure.rule})`));
+      }
+    }
+    lines.push('');
+  }
+
+  if (result.reviewers) {
+    lines.push(...formatReviewers(result));
     lines.push('');
   }
 
   return lines.join('\n');
 }
 
+function formatExplanation(explanation: ConditionExplanation, indent: number): string[] {
+  const icon = explanation.matched ? chalk.green('✓') : chalk.red('✗');
+  const detail = explanation.detail ? chalk.dim(`  ${explanation.detail}`) : '';
+  return [
+    `${' '.repeat(indent)}${icon} ${explanation.condition}${detail}`,
+    ...(explanation.children || []).flatMap((child) => formatExplanation(child, indent + 2)),
+  ];
+}
+
+function formatSymbolBlastRadius(
+  symbols: NonNullable<AnalyzedFileResult['symbolBlastRadius']>,
+): string {
+  return symbols
+    .map((s) => {
+      const name = s.symbol === '*' ? '(module)' : s.symbol;
+      const count = s.directDependents.length + s.indirectDependents.length;
+      return `${name} → ${count > 0 ? chalk.yellow(String(count)) : chalk.dim('0')}`;
+    })
+    .join(', ');
+}
+
+function formatHistory(history: NonNullable<AnalyzedFileResult['history']>): string {
+  const churn = history.churn.map((w) => `${w.commits} in ${w.days}d`).join(', ');
+  const fixes =
+    history.fixCommits > 0
+      ? `, ${history.fixCommits} fix/revert (${Math.round(history.fixRatio * 100)}%)`
+      : '';
+  const text = `${churn} · ${history.authors} author(s)${fixes}`;
+  return history.commits > 0 ? text : chalk.dim('no recent commits');
+}
+
+function formatReviewers(result: AnalysisResult): string[] {
+  const routing = result.reviewers!;
+  const lines: string[] = [];
+
+  lines.push(
+    chalk.bold.white('👥 Reviewers: ') +
+      (routing.reviewers.length > 0
+        ? chalk.magenta(routing.reviewers.join(', '))
+        : chalk.dim('No specific reviewers found')),
+  );
+
+  if (routing.escalatedFiles.length > 0) {
+    const escalation =
+      routing.escalationReviewers.length > 0 ? ` → ${routing.escalationReviewers.join(', ')}` : '';
+    lines.push(
+      chalk.red(`  ↑ Escalated: ${routing.escalatedFiles.length} high-risk file(s)${escalation}`),
+    );
+  }
+
+  return lines;
+}
+
 function formatSeverityBadge(severity: string): string {
   switch (severity) {
     case 'CRITICAL':
@@ -294,14 +513,6 @@ function formatSummaryBox(result: AnalysisResult): string {
 
   const gateStats = calculateGateStats(result);
 
-  let suppressedCount = 0;
-  try {
-    const activeSuppressions = getActiveSuppressions(result.meta.cwd);
-    suppressedCount = activeSuppressions.length;
-  } catch {
-    // Ignore errors when reading suppressions
-  }
-
   lines.push(chalk.gray('─'.repeat(60)));
   lines.push(`${filesStr}${sep}${riskStr}${sep}${blockersStr}`);
 
@@ -317,9 +528,24 @@ function formatSummaryBox(result: AnalysisResult): string {
     lines.push(gateStr);
   }
 
-  if (suppressedCount > 0) {
+  const differential = result.summary.differential;
+  if (differential) {
+    lines.push(
+      chalk.white('Changes: ') +
+        (differential.introduced > 0
+          ? chalk.yellow.bold(`+${differential.introduced}`)
+          : chalk.green('+0')) +
+        chalk.dim(' introduced, ') +
+        chalk.dim(`${differential.preExisting} pre-existing, `) +
+        (differential.resolved > 0
+          ? chalk.green.bold(`${differential.resolved} resolved`)
+          : chalk.dim('0 resolved')),
+    );
+  }
+
+  if (result.summary.suppressedCount > 0) {
     lines.push(
-      chalk.dim(`Suppressed: ${suppressedCount} rule(s) active — run `) +
+      chalk.dim(`Suppressed: ${result.summary.suppressedCount} signal(s) — run `) +
         chalk.cyan('dsense suppress list') +
         chalk.dim(' to see'),
     );
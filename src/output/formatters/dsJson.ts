@@ -1,4 +1,6 @@
-import { AnalysisResult } from '../../core/analyze';
+import { AnalysisResult, PolicyOutcome } from '../../core/analyze';
+import { PerCommitResult } from '../../core/perCommit';
+import { SignalDelta } from '../../signals/types';
 import { sortFilesBySeverity } from '../../core/severity';
 import { VERSION, SCHEMA_VERSION } from '../../version';
 import { getSignalDescription, parseRiskReason } from '../signalDescriptions';
@@ -31,16 +33,31 @@ export interface JsonOutput {
     warningCount: number;
     highestRisk: number;
     blockerCount: number;
+    suppressedCount: number;
     topN: number;
+    differential?: {
+      introduced: number;
+      preExisting: number;
+      resolved: number;
+    };
   };
   files: JsonIssue[];
   ignoredFiles: Array<{ path: string; reason: string }>;
+  suppressed: JsonSuppressedSignal[];
   warnings: Array<{ code: string; message: string; path?: string }>;
+  reviewers?: {
+    reviewers: string[];
+    escalationReviewers: string[];
+    escalatedFiles: string[];
+    codeownersPath: string | null;
+  };
   evaluation: {
     outcome: 'PASS' | 'FAIL';
     blockers: Array<{ ruleId: string; message: string; file: string }>;
     warnings: Array<{ ruleId: string; message: string; file: string }>;
   } | null;
+  /** Policy pack fail conditions behind exitCode */
+  policy?: PolicyOutcome;
 }
 
 export interface JsonSignal {
@@ -52,12 +69,31 @@ export interface JsonSignal {
   recommendation: string;
 }
 
+export interface JsonSuppressedSignal {
+  path: string;
+  signalId: string;
+  line?: number;
+  message: string;
+  rule: string;
+  fileGlob?: string;
+  scope: 'local' | 'global';
+  reason?: string;
+  createdBy?: string;
+  expiresAt?: string;
+}
+
 export interface JsonIssue {
   path: string;
   riskScore: number;
   gatedRiskScore: number;
   severity: 'LOW' | 'MED' | 'HIGH' | 'CRITICAL';
   blastRadius: number;
+  blastRadiusConfidence?: 'high' | 'medium' | 'low';
+  symbolBlastRadius?: Array<{
+    symbol: string;
+    directDependents: string[];
+    indirectDependents: string[];
+  }>;
   signalTypes: string[];
   reasons: string[];
   signals: JsonSignal[];
@@ -66,13 +102,49 @@ export interface JsonIssue {
     line?: number;
     message: string;
     severity: 'error' | 'warning' | 'info';
+    delta?: SignalDelta;
   }>;
+  differential?: {
+    introduced: number;
+    preExisting: number;
+    resolved: Array<{ id: string; line?: number; message: string; fingerprint: string }>;
+  };
   gateStats?: {
     blocking: number;
     advisory: number;
     filtered: number;
     total: number;
   };
+  ownership?: {
+    owners: string[];
+    reviewers: string[];
+    matchedPattern: string | null;
+    escalated: boolean;
+  };
+  history?: {
+    churn: Array<{ days: number; commits: number }>;
+    commits: number;
+    authors: number;
+    fixCommits: number;
+    fixRatio: number;
+  };
+}
+
+export interface JsonPerCommitOutput {
+  schemaVersion: string;
+  toolVersion: string;
+  success: boolean;
+  exitCode: 0 | 1 | 2;
+  status: 'PASS' | 'FAIL' | 'ERROR';
+  range: string;
+  error?: string;
+  commits: Array<{ sha: string; subject: string; result: JsonOutput }>;
+  blockers: Array<{
+    ruleId: string;
+    file: string;
+    introducedBy: { sha: string; subject: string };
+    commits: string[];
+  }>;
 }
 
 /**
@@ -82,12 +154,53 @@ export function formatJsonOutput(
   result: AnalysisResult,
   config: { topN?: number; showAll?: boolean } = {},
 ): string {
+  return JSON.stringify(toJsonOutput(result, config), null, 2);
+}
+
+/**
+ * Format per-commit analysis as JSON, with each commit's result nested under its SHA and subject
+ */
+export function formatPerCommitJsonOutput(
+  result: PerCommitResult,
+  config: { topN?: number; showAll?: boolean } = {},
+): string {
+  const output: JsonPerCommitOutput = {
+    schemaVersion: SCHEMA_VERSION,
+    toolVersion: VERSION,
+    success: result.success,
+    exitCode: result.exitCode,
+    status: result.exitCode === 0 ? 'PASS' : result.exitCode === 1 ? 'FAIL' : 'ERROR',
+    range: result.range,
+    error: result.error,
+    commits: result.commits.map((commit) => ({
+      sha: commit.sha,
+      subject: commit.subject,
+      result: toJsonOutput(commit.result, config),
+    })),
+    blockers: result.blockers,
+  };
+
+  return JSON.stringify(output, null, 2);
+}
+
+/**
+ * Build the JSON output object (formatJsonOutput without serialization)
+ */
+export function toJsonOutput(
+  result: AnalysisResult,
+  config: { topN?: number; showAll?: boolean },
+): JsonOutput {
   const topN = config.topN || 5;
   const sorted = sortFilesBySeverity(result.files);
   const topFiles = config.showAll ? sorted : sorted.slice(0, topN);
 
   const repoName = result.meta.cwd.split(/[/\\]/).pop() || 'unknown';
-  const range = result.meta.isDiffAnalysis ? `${result.meta.base}...HEAD` : 'full';
+  const range =
+    result.meta.scope === 'patch' || result.meta.scope === 'files'
+      ? result.meta.scope
+      : result.meta.isDiffAnalysis
+        ? `${result.meta.base}...HEAD`
+        : 'full';
 
   const status: 'PASS' | 'FAIL' | 'ERROR' =
     result.exitCode === 0 ? 'PASS' : result.exitCode === 1 ? 'FAIL' : 'ERROR';
@@ -119,7 +232,9 @@ export function formatJsonOutput(
       warningCount: result.summary.warningCount,
       highestRisk: parseFloat(result.summary.highestRisk.toFixed(1)),
       blockerCount: result.summary.blockerCount,
+      suppressedCount: result.summary.suppressedCount,
       topN: topFiles.length,
+      differential: result.summary.differential,
     },
     files: topFiles.map((file) => {
       // Extract signal IDs from reasons and enrich with descriptions
@@ -142,6 +257,8 @@ export function formatJsonOutput(
         gatedRiskScore: parseFloat(file.gatedRiskScore.toFixed(1)),
         severity: file.severity as any,
         blastRadius: file.blastRadius,
+        blastRadiusConfidence: file.blastRadiusConfidence,
+        symbolBlastRadius: file.symbolBlastRadius,
         signalTypes: file.signalTypes,
         reasons: file.riskReasons,
         signals: enrichedSignals,
@@ -150,12 +267,39 @@ export function formatJsonOutput(
           line: ev.line,
           message: ev.message,
           severity: ev.severity,
+          delta: ev.delta,
         })),
+        differential: file.differential
+          ? {
+              introduced: file.differential.introduced,
+              preExisting: file.differential.preExisting,
+              resolved: file.differential.resolved.map((s) => ({
+                id: s.id,
+                line: s.lines[0],
+                message: s.message,
+                fingerprint: s.fingerprint,
+              })),
+            }
+          : undefined,
         gateStats: file.gateStats,
+        ownership: file.ownership,
+        history: file.history
+          ? {
+              churn: file.history.churn,
+              commits: file.history.commits,
+              authors: file.history.authors,
+              fixCommits: file.history.fixCommits,
+              fixRatio: parseFloat(file.history.fixRatio.toFixed(2)),
+            }
+          : undefined,
       };
     }),
     ignoredFiles: result.ignoredFiles,
+    suppressed: result.files.flatMap((file) =>
+      file.suppressed.map((s) => ({ path: file.path, ...s })),
+    ),
     warnings: result.warnings,
+    reviewers: result.reviewers,
     evaluation: result.evaluation
       ? {
           outcome: result.exitCode === 0 ? 'PASS' : 'FAIL',
@@ -171,9 +315,10 @@ export function formatJsonOutput(
           })),
         }
       : null,
+    policy: result.policy,
   };
 
-  return JSON.stringify(output, null, 2);
+  return output;
 }
 
 /**
@@ -1,4 +1,5 @@
 import { AnalysisResult } from '../../core/analyze';
+import { PerCommitResult } from '../../core/perCommit';
 import { sortFilesBySeverity } from '../../core/severity';
 import { VERSION } from '../../version';
 import { formatReasonDefault, formatReasonDetailed, parseRiskReason } from '../signalDescriptions';
@@ -41,6 +42,15 @@ export function formatMarkdownOutput(
   );
   lines.push('');
 
+  const differential = result.summary.differential;
+  if (differential) {
+    lines.push(
+      `🆕 **${differential.introduced}** introduced · ${differential.preExisting} pre-existing · ` +
+        `✅ **${differential.resolved}** resolved`,
+    );
+    lines.push('');
+  }
+
   if (result.files.length > 0) {
     const topN = config.topN || 5;
     const sorted = sortFilesBySeverity(result.files);
@@ -148,6 +158,10 @@ export function formatMarkdownOutput(
     lines.push('');
   }
 
+  if (result.reviewers) {
+    lines.push(...formatReviewersSection(result));
+  }
+
   if (result.ignoredFiles.length > 0) {
     lines.push('<details>');
     lines.push(`<summary>📁 Ignored Files (${result.ignoredFiles.length})</summary>`);
@@ -164,6 +178,47 @@ export function formatMarkdownOutput(
     lines.push('');
   }
 
+  const resolved = result.files.flatMap((file) =>
+    (file.differential?.resolved || []).map((s) => ({ path: file.path, ...s })),
+  );
+  if (resolved.length > 0) {
+    lines.push('<details>');
+    lines.push(`<summary>✅ Resolved Signals (${resolved.length})</summary>`);
+    lines.push('');
+    for (const s of resolved) {
+      const location = s.lines[0] ? `${s.path}:${s.lines[0]}` : s.path;
+      lines.push(`- \`${location}\` — ${s.message} (\`${s.id}\`)`);
+    }
+    lines.push('');
+    lines.push('</details>');
+    lines.push('');
+  }
+
+  const suppressed = result.files.flatMap((file) =>
+    file.suppressed.map((s) => ({ path: file.path, ...s })),
+  );
+  if (suppressed.length > 0) {
+    lines.push('<details>');
+    lines.push(`<summary>🔕 Suppressed Signals (${suppressed.length})</summary>`);
+    lines.push('');
+    lines.push('| File | Signal | Rule | Reason | By | Expires |');
+    lines.push('|------|--------|------|--------|----|---------|');
+    for (const s of suppressed) {
+      const location = s.line ? `${s.path}:${s.line}` : s.path;
+      const rule = s.fileGlob ? `${s.rule} (${s.fileGlob})` : s.rule;
+      const expires = s.expiresAt ? s.expiresAt.slice(0, 10) : 'never';
+      const reason = s.reason ? s.reason.replace(/\|/g, '\\|') : '—';
+      lines.push(
+        `| \`${location}\` | \`${s.signalId}\` | \`${rule}\` ${s.scope} | ${reason} | ${
+          s.createdBy || '—'
+        } | ${expires} |`,
+      );
+    }
+    lines.push('');
+    lines.push('</details>');
+    lines.push('');
+  }
+
   if (result.warnings.length > 0) {
     lines.push('<details>');
     lines.push(`<summary>⚠️ Warnings (${result.warnings.length})</summary>`);
@@ -178,14 +233,134 @@ export function formatMarkdownOutput(
 
   lines.push('---');
   lines.push('');
+  const scope =
+    result.meta.scope === 'patch' || result.meta.scope === 'files'
+      ? result.meta.scope
+      : `${result.meta.scope} (${result.meta.base}...HEAD)`;
   lines.push(
-    `<sub>Profile: ${result.meta.profile} | Detector: ${result.meta.detector} | Scope: ${result.meta.scope} (${result.meta.base}...HEAD)</sub>`,
+    `<sub>Profile: ${result.meta.profile} | Detector: ${result.meta.detector} | Scope: ${scope}</sub>`,
   );
   lines.push('');
 
   return lines.join('\n');
 }
 
+/**
+ * Format per-commit analysis as Markdown: one table row per commit and the
+ * blockers attributed to the commit that introduced them
+ */
+export function formatPerCommitMarkdownOutput(result: PerCommitResult): string {
+  const lines: string[] = [];
+
+  lines.push(MARKER);
+  lines.push('');
+  lines.push(`# 🔍 DiffeSense ${VERSION}`);
+  lines.push('');
+
+  const exitIcon = result.exitCode === 0 ? '✅' : result.exitCode === 1 ? '❌' : '⛔';
+  const exitLabel = result.exitCode === 0 ? 'PASS' : result.exitCode === 1 ? 'FAIL' : 'ERROR';
+  const statusStyle = result.exitCode === 0 ? '' : '**';
+  const status = result.error
+    ? result.error
+    : result.exitCode === 1
+      ? `${result.blockers.length} blocking issue(s) across ${result.commits.length} commit(s)`
+      : `${result.commits.length} commit(s) analyzed`;
+
+  lines.push(`> ${exitIcon} ${statusStyle}${exitLabel}${statusStyle} — ${status}`);
+  lines.push('');
+
+  lines.push(`### 🧱 Commits (\`${result.range}\`)`);
+  lines.push('');
+
+  if (result.commits.length === 0) {
+    lines.push('_No commits in range_');
+    lines.push('');
+  } else {
+    lines.push('| Commit | Subject | Status | 📁 Files | ⚠️ Risk | 🚫 Blockers |');
+    lines.push('|:-------|:--------|:------:|:--------:|:-------:|:-----------:|');
+    for (const commit of result.commits) {
+      const { summary, exitCode } = commit.result;
+      const label = exitCode === 0 ? '✅ PASS' : exitCode === 1 ? '❌ FAIL' : '⛔ ERROR';
+      lines.push(
+        `| \`${commit.shortSha}\` | ${escapeCell(commit.subject)} | ${label} | ` +
+          `${summary.analyzedCount}/${summary.changedCount} | ` +
+          `${summary.highestRisk.toFixed(1)}/10 | ` +
+          `${summary.blockerCount > 0 ? `**${summary.blockerCount}**` : '0'} |`,
+      );
+    }
+    lines.push('');
+  }
+
+  if (result.blockers.length > 0) {
+    lines.push('### 🚫 Blockers by Commit');
+    lines.push('');
+    lines.push('| File | Rule | Introduced in |');
+    lines.push('|:-----|:-----|:--------------|');
+    for (const blocker of result.blockers) {
+      const later = blocker.commits.length - 1;
+      lines.push(
+        `| \`${blocker.file}\` | \`${blocker.ruleId}\` | ` +
+          `\`${blocker.introducedBy.sha.substring(0, 7)}\` ` +
+          `${escapeCell(blocker.introducedBy.subject)}` +
+          `${later > 0 ? ` (still reported by ${later} later commit(s))` : ''} |`,
+      );
+    }
+    lines.push('');
+  }
+
+  lines.push('---');
+  lines.push('');
+  lines.push(`<sub>Scope: per-commit (${result.range})</sub>`);
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|');
+}
+
+function formatReviewersSection(result: AnalysisResult): string[] {
+  const routing = result.reviewers!;
+  const lines: string[] = [];
+
+  lines.push('### 👥 Reviewers');
+  lines.push('');
+  lines.push(
+    routing.reviewers.length > 0 ? routing.reviewers.join(', ') : '_No specific reviewers found_',
+  );
+  lines.push('');
+
+  if (routing.escalatedFiles.length > 0) {
+    const escalation =
+      routing.escalationReviewers.length > 0 ? ` → ${routing.escalationReviewers.join(', ')}` : '';
+    lines.push(
+      `> ⬆️ **Escalated:** ${routing.escalatedFiles.length} high-risk file(s)${escalation}`,
+    );
+    for (const filePath of routing.escalatedFiles) {
+      lines.push(`> - \`${filePath}\``);
+    }
+    lines.push('');
+  }
+
+  const owned = sortFilesBySeverity(result.files).filter(
+    (f) => f.ownership && f.ownership.reviewers.length > 0,
+  );
+  if (owned.length > 0) {
+    lines.push('<details>');
+    lines.push(`<summary>Owners by file (${owned.length})</summary>`);
+    lines.push('');
+    for (const file of owned) {
+      lines.push(`- \`${file.path}\` — ${file.ownership!.reviewers.join(', ')}`);
+    }
+    lines.push('');
+    lines.push('</details>');
+    lines.push('');
+  }
+
+  return lines;
+}
+
 function formatSeverityBadge(severity: string): string {
   switch (severity) {
     case 'CRITICAL':
@@ -229,7 +404,10 @@ function getStatusMessage(result: AnalysisResult): string {
   if (result.exitCode === 0) {
     return 'No blocking issues found';
   } else if (result.exitCode === 1) {
-    return `${result.summary.blockerCount} blocking issue(s) require attention`;
+    const failures = result.policy?.failures || [];
+    return failures.length > 0
+      ? `${result.policy!.pack} policy: ${failures.map((f) => f.message).join('; ')}`
+      : `${result.summary.blockerCount} blocking issue(s) require attention`;
   }
   return 'Analysis encountered errors';
 }
@@ -0,0 +1,254 @@
+import { AnalysisResult, AnalyzedSignal } from '../../core/analyze';
+import { Severity, SignalDelta } from '../../signals/types';
+import { VERSION } from '../../version';
+import { getSignalDescription } from '../signalDescriptions';
+
+export type SarifLevel = 'error' | 'warning' | 'note' | 'none';
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: SarifRun[];
+}
+
+export interface SarifRun {
+  tool: {
+    driver: {
+      name: string;
+      version: string;
+      informationUri: string;
+      rules: SarifRule[];
+    };
+  };
+  originalUriBaseIds: Record<string, { uri: string }>;
+  results: SarifResult[];
+  properties: {
+    status: 'PASS' | 'FAIL' | 'ERROR';
+    highestRisk: number;
+    scope: string;
+    base: string;
+  };
+}
+
+export interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  fullDescription: { text: string };
+  help: { text: string; markdown: string };
+  defaultConfiguration: { level: SarifLevel };
+  properties: { category: string; tags: string[] };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  kind?: 'fail' | 'pass';
+  level: SarifLevel;
+  message: { text: string };
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: string };
+      region?: {
+        startLine: number;
+        endLine?: number;
+        snippet?: { text: string };
+      };
+    };
+  }>;
+  partialFingerprints: Record<string, string>;
+  baselineState?: 'new' | 'unchanged' | 'absent';
+  suppressions?: Array<{ kind: 'external'; justification?: string }>;
+  properties: Record<string, unknown>;
+}
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const FINGERPRINT_KEY = 'diffesenseFingerprint/v1';
+const SRCROOT = '%SRCROOT%';
+
+const LEVELS: Record<Severity, SarifLevel> = {
+  blocker: 'error',
+  warn: 'warning',
+  info: 'note',
+};
+
+const SEVERITY_RANK: Record<Severity, number> = { info: 0, warn: 1, blocker: 2 };
+
+const BASELINE_STATES: Record<SignalDelta, SarifResult['baselineState']> = {
+  introduced: 'new',
+  'pre-existing': 'unchanged',
+  resolved: 'absent',
+};
+
+/**
+ * Format analysis result as SARIF 2.1.0 for code-scanning dashboards
+ *
+ * Every analyzed file is included (not just the top N). Suppressed signals are
+ * reported with an external suppression so dashboards can show them as dismissed,
+ * and resolved signals as passing results with an `absent` baseline state.
+ */
+export function formatSarifOutput(result: AnalysisResult): string {
+  const rules: SarifRule[] = [];
+  const ruleIndex = new Map<string, number>();
+  const ruleSeverity = new Map<string, Severity>();
+
+  // The rule level follows the highest severity the detector assigned, so it does not
+  // depend on whether a live, suppressed or resolved result registered the rule first
+  const getRuleIndex = (id: string, severity: Severity | undefined): number => {
+    let index = ruleIndex.get(id);
+    if (index === undefined) {
+      index = rules.length;
+      ruleIndex.set(id, index);
+      rules.push(createRule(id));
+    }
+    const current = ruleSeverity.get(id);
+    if (severity && (!current || SEVERITY_RANK[severity] > SEVERITY_RANK[current])) {
+      ruleSeverity.set(id, severity);
+      rules[index].defaultConfiguration.level = LEVELS[severity];
+    }
+    return index;
+  };
+
+  const results: SarifResult[] = [];
+
+  for (const file of result.files) {
+    for (const signal of file.signals) {
+      results.push({
+        ruleId: signal.id,
+        ruleIndex: getRuleIndex(signal.id, signal.severity),
+        level: LEVELS[signal.severity],
+        message: { text: signal.message },
+        locations: [createLocation(file.path, signal)],
+        partialFingerprints: { [FINGERPRINT_KEY]: signal.fingerprint },
+        baselineState: signal.delta ? BASELINE_STATES[signal.delta] : undefined,
+        properties: {
+          category: signal.category,
+          class: signal.class,
+          confidence: signal.confidence,
+          riskScore: parseFloat(file.riskScore.toFixed(1)),
+        },
+      });
+    }
+
+    for (const suppressed of file.suppressed) {
+      results.push({
+        ruleId: suppressed.signalId,
+        ruleIndex: getRuleIndex(suppressed.signalId, suppressed.severity),
+        level: 'note',
+        message: { text: suppressed.message },
+        locations: [
+          createLocation(file.path, {
+            lines: suppressed.line ? [suppressed.line] : [],
+            snippet: suppressed.snippet,
+          }),
+        ],
+        partialFingerprints: suppressed.fingerprint
+          ? { [FINGERPRINT_KEY]: suppressed.fingerprint }
+          : {},
+        suppressions: [{ kind: 'external', justification: suppressed.reason }],
+        properties: {
+          suppressionRule: suppressed.rule,
+          suppressionScope: suppressed.scope,
+        },
+      });
+    }
+
+    for (const signal of file.differential?.resolved || []) {
+      results.push({
+        ruleId: signal.id,
+        ruleIndex: getRuleIndex(signal.id, signal.severity),
+        kind: 'pass',
+        level: 'none',
+        message: { text: `Resolved: ${signal.message}` },
+        // Lines refer to the base version, so only the file is located
+        locations: [createLocation(file.path, { lines: [] })],
+        partialFingerprints: { [FINGERPRINT_KEY]: signal.fingerprint },
+        baselineState: 'absent',
+        properties: {
+          category: signal.category,
+          class: signal.class,
+          baseLine: signal.lines[0],
+        },
+      });
+    }
+  }
+
+  const log: SarifLog = {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'DiffeSense',
+            version: VERSION,
+            informationUri: 'https://github.com/djkepa/diffesense',
+            rules,
+          },
+        },
+        originalUriBaseIds: {
+          [SRCROOT]: { uri: toFileUri(result.meta.cwd) },
+        },
+        results,
+        properties: {
+          status: result.exitCode === 0 ? 'PASS' : result.exitCode === 1 ? 'FAIL' : 'ERROR',
+          highestRisk: parseFloat(result.summary.highestRisk.toFixed(1)),
+          scope: result.meta.scope,
+          base: result.meta.base,
+        },
+      },
+    ],
+  };
+
+  return JSON.stringify(log, null, 2);
+}
+
+function createRule(id: string): SarifRule {
+  const desc = getSignalDescription(id);
+  return {
+    id,
+    name: id.replace(/(^|-)(\w)/g, (_, __, c: string) => c.toUpperCase()),
+    shortDescription: { text: desc.title },
+    fullDescription: { text: desc.summary },
+    help: {
+      text: `${desc.impact}\n${desc.recommendation}`,
+      markdown: `**Impact:** ${desc.impact}\n\n**Recommendation:** ${desc.recommendation}`,
+    },
+    defaultConfiguration: { level: 'warning' },
+    properties: {
+      category: desc.category,
+      tags: desc.category === 'security' ? ['security', 'diffesense'] : ['diffesense'],
+    },
+  };
+}
+
+function createLocation(
+  filePath: string,
+  signal: Pick<AnalyzedSignal, 'lines' | 'snippet'>,
+): SarifResult['locations'][number] {
+  const lines = signal.lines.filter((l) => l > 0);
+  const startLine = lines.length > 0 ? Math.min(...lines) : 0;
+  const endLine = lines.length > 0 ? Math.max(...lines) : 0;
+
+  return {
+    physicalLocation: {
+      artifactLocation: { uri: encodeURI(filePath.replace(/\\/g, '/')), uriBaseId: SRCROOT },
+      region:
+        startLine > 0
+          ? {
+              startLine,
+              endLine: endLine > startLine ? endLine : undefined,
+              // The snippet is the first line only, so it is omitted for multi-line regions
+              snippet:
+                signal.snippet && endLine === startLine ? { text: signal.snippet } : undefined,
+            }
+          : undefined,
+    },
+  };
+}
+
+function toFileUri(dir: string): string {
+  const normalized = dir.replace(/\\/g, '/');
+  const prefixed = normalized.startsWith('/') ? normalized : `/${normalized}`;
+  return `file://${encodeURI(prefixed)}${prefixed.endsWith('/') ? '' : '/'}`;
+}
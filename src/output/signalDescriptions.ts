@@ -344,6 +344,15 @@ export const signalDescriptions: Record<string, SignalDescription> = {
     category: 'style',
   },
 
+  // === GIT HISTORY ===
+  'history-hotspot': {
+    title: 'Change hot spot',
+    summary: 'File changes often, by many authors, or mostly to fix bugs',
+    impact: 'Frequently fixed code is likely to break again',
+    recommendation: 'Review extra carefully and add regression tests',
+    category: 'behavioral',
+  },
+
   // === REACT SPECIFIC ===
   'react-useeffect': {
     title: 'useEffect hook',
@@ -1439,6 +1448,13 @@ export const signalDescriptions: Record<string, SignalDescription> = {
     recommendation: 'Use ref or add to dependency array',
     category: 'behavioral',
   },
+  'react-effect-missing-deps': {
+    title: 'Effect dependencies incomplete',
+    summary: 'Effect reads props/state missing from its dependency array',
+    impact: 'Effect keeps using stale values after they change',
+    recommendation: 'Add the missing values to the dependency array',
+    category: 'behavioral',
+  },
   'react-set-state-unmounted': {
     title: 'setState after unmount risk',
     summary: 'Async setState without unmount check',
@@ -1801,6 +1817,26 @@ export function getSignalDescription(signalId: string): SignalDescription {
   };
 }
 
+/**
+ * Register a description for a signal defined outside the built-in set
+ * (detector packs, custom patterns). Built-in descriptions are never replaced.
+ */
+export function registerSignalDescription(signalId: string, description: SignalDescription): void {
+  if (signalDescriptions[signalId]) return;
+  signalDescriptions[signalId] = description;
+}
+
+/**
+ * Map a signal class onto the description category used for grouping
+ */
+export function getDescriptionCategory(
+  signalClass: 'critical' | 'behavioral' | 'maintainability',
+): SignalDescription['category'] {
+  if (signalClass === 'critical') return 'security';
+  if (signalClass === 'maintainability') return 'style';
+  return 'behavioral';
+}
+
 /**
  * Format signals into human-readable grouped output
  * Used by console and markdown formatters
@@ -2,6 +2,8 @@ export {
   PatternDef,
   DEFAULT_PATTERNS,
   PatternRegistry,
+  PatternRegistryOptions,
+  compileCustomPatterns,
   getPatternRegistry,
   initPatternRegistry,
   resetPatternRegistry,
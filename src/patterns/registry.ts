@@ -1,7 +1,10 @@
 import { SignalCategory, SignalClass, Confidence } from '../signals/types';
+import type { CustomPattern } from '../config/schema';
 
 export interface PatternDef {
   id: string;
+  /** Signal ID emitted on match (defaults to id) */
+  signalType?: string;
   name: string;
   description: string;
   match: RegExp;
@@ -400,6 +403,11 @@ export const DEFAULT_PATTERNS: PatternDef[] = [
   },
 ];
 
+export interface PatternRegistryOptions {
+  /** Register DEFAULT_PATTERNS before custom patterns (default: true) */
+  includeDefaults?: boolean;
+}
+
 /**
  * Pattern Registry
  */
@@ -408,9 +416,11 @@ export class PatternRegistry {
   private patternsByCategory: Map<SignalCategory, PatternDef[]> = new Map();
   private patternsByFramework: Map<string, PatternDef[]> = new Map();
 
-  constructor(customPatterns?: PatternDef[]) {
-    for (const pattern of DEFAULT_PATTERNS) {
-      this.register({ ...pattern, enabled: pattern.enabled !== false });
+  constructor(customPatterns?: PatternDef[], options: PatternRegistryOptions = {}) {
+    if (options.includeDefaults !== false) {
+      for (const pattern of DEFAULT_PATTERNS) {
+        this.register({ ...pattern, enabled: pattern.enabled !== false });
+      }
     }
 
     if (customPatterns) {
@@ -502,6 +512,27 @@ export class PatternRegistry {
   }
 }
 
+/**
+ * Compile config custom patterns into pattern definitions
+ *
+ * Regexes are validated by the config schema; an invalid one still throws here.
+ */
+export function compileCustomPatterns(customPatterns: CustomPattern[]): PatternDef[] {
+  return customPatterns.map((pattern) => ({
+    id: pattern.id,
+    signalType: pattern.signalType,
+    name: pattern.name,
+    description: pattern.description,
+    match: new RegExp(pattern.match),
+    category: pattern.category,
+    weight: pattern.weight,
+    signalClass: pattern.signalClass,
+    framework: pattern.framework,
+    tags: pattern.tags,
+    enabled: pattern.enabled,
+  }));
+}
+
 let globalRegistry: PatternRegistry | null = null;
 
 export function getPatternRegistry(): PatternRegistry {
@@ -0,0 +1,333 @@
+/**
+ * Pack Detector - Runs detector pack definitions against a file
+ *
+ * Executes the declarative detection methods of loaded detector packs
+ * (regex, AST and composite) and turns their signal templates into canonical
+ * signals, so pack findings are scored, gated and reported like built-in ones.
+ */
+
+import { minimatch } from 'minimatch';
+import { Signal, Evidence, ActionRecommendation } from '../signals/types';
+import { BaseDetector, DetectorOptions } from '../signals/detectors/base';
+import { getDetectorProfileName } from '../signals/detectors';
+import { registerSignalDescription, getDescriptionCategory } from '../output/signalDescriptions';
+import { AstSourceFile, parseSource, querySource, SUPPORTED_QUERY_LANGUAGES } from '../ast';
+import {
+  DetectorDefinition,
+  DetectionMethod,
+  RegexDetectionMethod,
+  ASTDetectionMethod,
+  CompositeDetectionMethod,
+  RegexPattern,
+  SignalTemplate,
+  ActionTemplate,
+  PatternContext,
+} from './types';
+
+export interface PackDetectorOptions extends DetectorOptions {
+  /** Framework of the file (auto-detected from content when omitted) */
+  framework?: string;
+}
+
+export class PackDetector extends BaseDetector {
+  private definitions: DetectorDefinition[];
+  private framework: string;
+  private sourceFile: AstSourceFile | null | undefined;
+
+  constructor(
+    content: string,
+    filePath: string,
+    definitions: DetectorDefinition[],
+    options: PackDetectorOptions = {},
+  ) {
+    super(content, filePath, options.changedRanges, options.contextLines ?? 5);
+    this.definitions = definitions;
+    this.framework = options.framework || getDetectorProfileName(content, filePath);
+  }
+
+  detect(): Signal[] {
+    const signals: Signal[] = [];
+
+    for (const definition of this.definitions) {
+      if (!this.appliesTo(definition)) continue;
+      signals.push(...this.runMethod(definition, definition.detect));
+    }
+
+    return this.deduplicateSignals(signals);
+  }
+
+  /**
+   * Check enabled flag, file patterns and framework scope of a detector
+   */
+  private appliesTo(definition: DetectorDefinition): boolean {
+    if (definition.enabled === false) return false;
+
+    const { filePath } = this.ctx;
+
+    if (definition.filePatterns && definition.filePatterns.length > 0) {
+      const matches = definition.filePatterns.some((p) =>
+        minimatch(filePath, p, { dot: true, matchBase: !p.includes('/') }),
+      );
+      if (!matches) return false;
+    }
+
+    if (definition.frameworks && definition.frameworks.length > 0) {
+      if (!definition.frameworks.includes(this.framework)) return false;
+    }
+
+    return true;
+  }
+
+  protected runMethod(definition: DetectorDefinition, method: DetectionMethod): Signal[] {
+    switch (method.type) {
+      case 'regex':
+        return this.runRegex(definition, method);
+      case 'ast':
+        return this.runAst(definition, method);
+      case 'composite':
+        return this.runComposite(definition, method);
+      default:
+        // Custom handlers are not executed by this detector
+        return [];
+    }
+  }
+
+  private runRegex(definition: DetectorDefinition, method: RegexDetectionMethod): Signal[] {
+    const signals: Signal[] = [];
+    const { lines } = this.ctx;
+
+    for (const pattern of method.patterns || []) {
+      if (!this.matchesPathContext(pattern.context)) continue;
+
+      const regex = compilePattern(pattern);
+      if (!regex) continue;
+
+      for (let i = 0; i < lines.length; i++) {
+        const lineNum = i + 1;
+        if (!this.shouldAnalyzeLine(lineNum)) continue;
+        if (pattern.context?.inChangedLines && !this.isChangedLine(lineNum)) continue;
+
+        const match = regex.exec(lines[i]);
+        if (!match) continue;
+
+        if (!this.matchesSurroundingContext(lineNum, pattern.context)) continue;
+
+        signals.push(
+          this.createSignalFromTemplate(pattern.signal, lineNum, {
+            kind: 'regex',
+            pattern: pattern.pattern,
+            details: { matchText: match[0], detector: definition.id, patternId: pattern.id },
+          }),
+        );
+      }
+    }
+
+    return signals;
+  }
+
+  /**
+   * Match AST queries; a node is reported when any of its lines is in focus
+   */
+  private runAst(definition: DetectorDefinition, method: ASTDetectionMethod): Signal[] {
+    if (!SUPPORTED_QUERY_LANGUAGES.includes(method.queryLanguage)) return [];
+
+    const sourceFile = this.getSourceFile();
+    if (!sourceFile) return [];
+
+    const signals: Signal[] = [];
+
+    for (const query of method.queries || []) {
+      for (const match of querySource(sourceFile, query.query)) {
+        const { startLine, endLine } = match.range;
+        let inFocus = false;
+        for (let line = startLine; line <= endLine && !inFocus; line++) {
+          inFocus = this.shouldAnalyzeLine(line);
+        }
+        if (!inFocus) continue;
+
+        signals.push(
+          this.createSignalFromTemplate(query.signal, startLine, {
+            kind: 'ast',
+            pattern: query.query,
+            astNode: match.kind,
+            range: match.range,
+            details: { detector: definition.id, queryId: query.id },
+          }),
+        );
+      }
+    }
+
+    return signals;
+  }
+
+  private getSourceFile(): AstSourceFile | null {
+    if (this.sourceFile === undefined) {
+      this.sourceFile = parseSource(this.ctx.content, this.ctx.filePath);
+    }
+    return this.sourceFile;
+  }
+
+  /**
+   * 'any' reports every sub-method's signals; 'all' reports them only
+   * when each sub-method produced at least one signal.
+   */
+  private runComposite(definition: DetectorDefinition, method: CompositeDetectionMethod): Signal[] {
+    const results = (method.methods || []).map((m) => this.runMethod(definition, m));
+
+    if (method.combine === 'all' && results.some((r) => r.length === 0)) {
+      return [];
+    }
+
+    return results.flat();
+  }
+
+  private matchesPathContext(context?: PatternContext): boolean {
+    if (!context) return true;
+
+    const { filePath } = this.ctx;
+
+    if (context.fileExtensions && context.fileExtensions.length > 0) {
+      const hasExt = context.fileExtensions.some((ext) =>
+        filePath.endsWith(ext.startsWith('.') ? ext : `.${ext}`),
+      );
+      if (!hasExt) return false;
+    }
+
+    if (context.includePaths && context.includePaths.length > 0) {
+      if (!context.includePaths.some((p) => minimatch(filePath, p, { dot: true }))) return false;
+    }
+
+    if (context.excludePaths && context.excludePaths.length > 0) {
+      if (context.excludePaths.some((p) => minimatch(filePath, p, { dot: true }))) return false;
+    }
+
+    return true;
+  }
+
+  private matchesSurroundingContext(lineNum: number, context?: PatternContext): boolean {
+    const surrounding = context?.surroundingContext;
+    if (!surrounding) return true;
+
+    const window = this.ctx.contextLines ?? 5;
+    const idx = lineNum - 1;
+
+    if (surrounding.before) {
+      const before = this.ctx.lines.slice(Math.max(0, idx - window), idx).join('\n');
+      if (!new RegExp(surrounding.before).test(before)) return false;
+    }
+
+    if (surrounding.after) {
+      const after = this.ctx.lines.slice(idx + 1, idx + 1 + window).join('\n');
+      if (!new RegExp(surrounding.after).test(after)) return false;
+    }
+
+    return true;
+  }
+
+  protected createSignalFromTemplate(
+    template: SignalTemplate,
+    lineNum: number,
+    evidence: Evidence,
+  ): Signal {
+    const signal = this.createSignal({
+      id: template.id,
+      title: template.title,
+      category: template.category,
+      reason: template.reason,
+      weight: template.weight,
+      lines: [lineNum],
+      snippet: this.getSnippet(lineNum),
+      confidence: template.confidence,
+      signalClass: template.class,
+      tags: template.tags,
+      evidence,
+      actions: template.actions?.map(toActionRecommendation),
+      meta: { source: 'pack', detector: evidence.details?.detector },
+    });
+
+    return { ...signal, severity: template.severity };
+  }
+
+  private deduplicateSignals(signals: Signal[]): Signal[] {
+    const seen = new Set<string>();
+    return signals.filter((signal) => {
+      const key = `${signal.id}:${signal.lines[0] || 0}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+}
+
+/**
+ * Compile a pack regex pattern, dropping stateful flags.
+ * Returns null when the pattern is not a valid regular expression (packs loaded
+ * through the loader have their patterns checked already).
+ */
+function compilePattern(pattern: RegexPattern): RegExp | null {
+  try {
+    const flags = (pattern.flags || '').replace(/[gy]/g, '');
+    return new RegExp(pattern.pattern, flags);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Map a pack action template onto a signal action recommendation
+ */
+function toActionRecommendation(action: ActionTemplate): ActionRecommendation {
+  switch (action.type) {
+    case 'test':
+      return { type: 'test_command', text: action.text, command: action.command };
+    case 'review':
+      return { type: 'review_request', text: action.text };
+    default:
+      return { type: 'mitigation_steps', text: action.text, command: action.command };
+  }
+}
+
+/**
+ * Run detector pack definitions against a file
+ */
+export function detectWithPacks(
+  content: string,
+  filePath: string,
+  definitions: DetectorDefinition[],
+  options: PackDetectorOptions = {},
+): Signal[] {
+  if (definitions.length === 0) return [];
+  const detector = new PackDetector(content, filePath, definitions, options);
+  return detector.detect();
+}
+
+/**
+ * Register human-readable descriptions for every signal a set of
+ * detector definitions can emit, so formatters show pack titles
+ */
+export function registerPackSignalDescriptions(definitions: DetectorDefinition[]): void {
+  for (const definition of definitions) {
+    for (const template of collectTemplates(definition.detect)) {
+      registerSignalDescription(template.id, {
+        title: template.title,
+        summary: template.reason,
+        impact: definition.description,
+        recommendation: template.actions?.[0]?.text || 'Review this change carefully',
+        category: getDescriptionCategory(template.class),
+      });
+    }
+  }
+}
+
+function collectTemplates(method: DetectionMethod): SignalTemplate[] {
+  switch (method.type) {
+    case 'regex':
+      return (method.patterns || []).map((p) => p.signal);
+    case 'ast':
+      return (method.queries || []).map((q) => q.signal);
+    case 'composite':
+      return (method.methods || []).flatMap(collectTemplates);
+    default:
+      return [];
+  }
+}
@@ -36,4 +36,12 @@ export {
   createPackRegistry,
   loadPacksFromConfig,
   getBuiltinPacks,
+  PackLoadOptions,
 } from './loader';
+
+export {
+  PackDetector,
+  PackDetectorOptions,
+  detectWithPacks,
+  registerPackSignalDescriptions,
+} from './detector';
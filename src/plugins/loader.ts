@@ -15,37 +15,54 @@ import * as path from 'path';
 import {
   DetectorPackManifest,
   DetectorDefinition,
+  DetectionMethod,
   PatternDefinition,
   RulePreset,
   LoadedPack,
   PackRegistry,
 } from './types';
+import { compileSelector, SUPPORTED_QUERY_LANGUAGES } from '../ast';
+
+/**
+ * Options for loading packs
+ */
+export interface PackLoadOptions {
+  /** Directory used to resolve local paths and npm packages (defaults to process.cwd()) */
+  cwd?: string;
+  /** Receives warnings (defaults to console.warn) */
+  warn?: (message: string) => void;
+  /** Receives informational messages (defaults to console.log) */
+  log?: (message: string) => void;
+}
 
 /**
  * Load pack from npm package
  */
 export async function loadPackFromPackage(
   packageName: string,
+  options: PackLoadOptions = {},
 ): Promise<DetectorPackManifest | null> {
+  const warn = options.warn || console.warn;
+
   try {
-    const entryPath = require.resolve(packageName);
+    const entryPath = require.resolve(packageName, { paths: [options.cwd || process.cwd()] });
     const manifestPath = findPackageJson(entryPath);
 
     if (!manifestPath) {
-      console.warn(`Package ${packageName} has no package.json`);
+      warn(`Package ${packageName} has no package.json`);
       return null;
     }
 
     const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
 
     if (!manifest.diffesense || manifest.diffesense.type !== 'detector-pack') {
-      console.warn(`Package ${packageName} is not a DiffeSense detector pack`);
+      warn(`Package ${packageName} is not a DiffeSense detector pack`);
       return null;
     }
 
-    return validateManifest(manifest);
+    return validateManifest(manifest, warn);
   } catch (error) {
-    console.warn(`Could not load pack ${packageName}: ${error}`);
+    warn(`Could not load pack ${packageName}: ${error}`);
     return null;
   }
 }
@@ -73,23 +90,28 @@ function findPackageJson(startPath: string): string | null {
 /**
  * Load pack from local path
  */
-export async function loadPackFromPath(packPath: string): Promise<DetectorPackManifest | null> {
+export async function loadPackFromPath(
+  packPath: string,
+  options: PackLoadOptions = {},
+): Promise<DetectorPackManifest | null> {
+  const warn = options.warn || console.warn;
+
   try {
-    const fullPath = path.isAbsolute(packPath) ? packPath : path.resolve(packPath);
+    const fullPath = resolvePackPath(packPath, options.cwd);
 
     const manifestPath = fs.statSync(fullPath).isDirectory()
       ? path.join(fullPath, 'package.json')
       : fullPath;
 
     if (!fs.existsSync(manifestPath)) {
-      console.warn(`Pack manifest not found: ${manifestPath}`);
+      warn(`Pack manifest not found: ${manifestPath}`);
       return null;
     }
 
     const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
-    return validateManifest(manifest);
+    return validateManifest(manifest, warn);
   } catch (error) {
-    console.warn(`Could not load pack from ${packPath}: ${error}`);
+    warn(`Could not load pack from ${packPath}: ${error}`);
     return null;
   }
 }
@@ -97,18 +119,44 @@ export async function loadPackFromPath(packPath: string): Promise<DetectorPackMa
 /**
  * Load pack from YAML definition file
  */
-export async function loadPackFromYaml(yamlPath: string): Promise<DetectorPackManifest | null> {
+export async function loadPackFromYaml(
+  yamlPath: string,
+  options: PackLoadOptions = {},
+): Promise<DetectorPackManifest | null> {
+  const warn = options.warn || console.warn;
+
   try {
     const yaml = require('js-yaml');
-    const content = fs.readFileSync(yamlPath, 'utf-8');
+    const content = fs.readFileSync(resolvePackPath(yamlPath, options.cwd), 'utf-8');
     const manifest = yaml.load(content);
-    return validateManifest(manifest);
+    return validateManifest(manifest, warn);
   } catch (error) {
-    console.warn(`Could not load pack from YAML ${yamlPath}: ${error}`);
+    warn(`Could not load pack from YAML ${yamlPath}: ${error}`);
     return null;
   }
 }
 
+/**
+ * Resolve a local pack path against the working directory
+ */
+function resolvePackPath(packPath: string, cwd?: string): string {
+  return path.isAbsolute(packPath) ? packPath : path.resolve(cwd || process.cwd(), packPath);
+}
+
+/**
+ * Check if a pack reference is a local path (not an npm package name)
+ */
+export function isPackPath(packName: string): boolean {
+  return isYamlPack(packName) || (packName.includes('/') && !packName.startsWith('@'));
+}
+
+/**
+ * Check if a pack reference points at a YAML definition file
+ */
+function isYamlPack(packName: string): boolean {
+  return packName.endsWith('.yml') || packName.endsWith('.yaml');
+}
+
 /** Valid severity values */
 const VALID_SEVERITIES = ['blocker', 'warn', 'info'];
 
@@ -117,8 +165,14 @@ const SUPPORTED_API_VERSION = 1;
 
 /**
  * Validate pack manifest
+ *
+ * Detectors with invalid regular expressions are skipped with a warning, so one
+ * broken pattern cannot fail detection of every file it is run on.
  */
-export function validateManifest(manifest: unknown): DetectorPackManifest {
+export function validateManifest(
+  manifest: unknown,
+  warn: (message: string) => void = console.warn,
+): DetectorPackManifest {
   if (!manifest || typeof manifest !== 'object') {
     throw new Error('Invalid manifest: not an object');
   }
@@ -155,8 +209,16 @@ export function validateManifest(manifest: unknown): DetectorPackManifest {
     throw new Error('Invalid manifest: detectors must be an array');
   }
 
+  const detectors: DetectorDefinition[] = [];
   for (const detector of ds.detectors) {
     validateDetector(detector);
+    const definition = detector as DetectorDefinition;
+    const invalidRegex = findInvalidRegex(definition.detect);
+    if (invalidRegex) {
+      warn(`Skipping detector ${definition.id} of ${m.name}: ${invalidRegex}`);
+      continue;
+    }
+    detectors.push(definition);
   }
 
   if (ds.patterns && Array.isArray(ds.patterns)) {
@@ -171,7 +233,7 @@ export function validateManifest(manifest: unknown): DetectorPackManifest {
     }
   }
 
-  return manifest as DetectorPackManifest;
+  return { ...m, diffesense: { ...ds, detectors } } as DetectorPackManifest;
 }
 
 /**
@@ -195,6 +257,75 @@ function validateDetector(detector: unknown): void {
   if (!d.detect || typeof d.detect !== 'object') {
     throw new Error(`Invalid detector ${d.id}: missing detect method`);
   }
+
+  validateDetectionMethod(d.id as string, d.detect as Record<string, unknown>);
+}
+
+/**
+ * Validate AST queries up front, so broken selectors fail at load time
+ */
+function validateDetectionMethod(detectorId: string, method: Record<string, unknown>): void {
+  if (method.type === 'composite' && Array.isArray(method.methods)) {
+    for (const sub of method.methods) {
+      if (sub && typeof sub === 'object') {
+        validateDetectionMethod(detectorId, sub as Record<string, unknown>);
+      }
+    }
+    return;
+  }
+
+  if (method.type !== 'ast') return;
+
+  if (!SUPPORTED_QUERY_LANGUAGES.includes(method.queryLanguage as string)) {
+    throw new Error(
+      `Invalid detector ${detectorId}: unsupported queryLanguage "${method.queryLanguage}" ` +
+        `(supported: ${SUPPORTED_QUERY_LANGUAGES.join(', ')})`,
+    );
+  }
+
+  if (!Array.isArray(method.queries)) {
+    throw new Error(`Invalid detector ${detectorId}: ast method requires queries`);
+  }
+
+  for (const query of method.queries as Array<Record<string, unknown>>) {
+    if (!query || typeof query.query !== 'string') {
+      throw new Error(`Invalid detector ${detectorId}: ast query must have a query string`);
+    }
+    compileSelector(query.query);
+  }
+}
+
+/**
+ * Find the first regex of a detection method that does not compile
+ */
+function findInvalidRegex(method: DetectionMethod): string | null {
+  if (method.type === 'composite' && Array.isArray(method.methods)) {
+    for (const sub of method.methods) {
+      const invalid = sub && typeof sub === 'object' ? findInvalidRegex(sub) : null;
+      if (invalid) return invalid;
+    }
+    return null;
+  }
+
+  if (method.type !== 'regex' || !Array.isArray(method.patterns)) return null;
+
+  for (const pattern of method.patterns) {
+    const surrounding = pattern.context?.surroundingContext;
+    const sources: Array<[string, string | undefined, string | undefined]> = [
+      ['pattern', pattern.pattern, pattern.flags],
+      ['surroundingContext.before', surrounding?.before, undefined],
+      ['surroundingContext.after', surrounding?.after, undefined],
+    ];
+    for (const [field, source, flags] of sources) {
+      if (source === undefined) continue;
+      try {
+        new RegExp(source, flags);
+      } catch (error) {
+        return `invalid ${field} of ${pattern.id} (${(error as Error).message})`;
+      }
+    }
+  }
+  return null;
 }
 
 /**
@@ -291,43 +422,55 @@ export function createPackRegistry(): PackRegistry {
 
 /**
  * Load packs from config
+ *
+ * Returns the packs that were loaded and registered.
  */
 export async function loadPacksFromConfig(
   packNames: string[],
   registry: PackRegistry,
-): Promise<void> {
-  if (packNames.length > 0) {
-    console.warn('⚠️  Loading external detector packs. Packs execute code during analysis.');
-    console.warn('   Only use packs from trusted sources.');
-  }
+  options: PackLoadOptions = {},
+): Promise<LoadedPack[]> {
+  const warn = options.warn || console.warn;
+  const log = options.log || console.log;
+  const loaded: LoadedPack[] = [];
 
   for (const packName of packNames) {
     let manifest: DetectorPackManifest | null = null;
+    let source: LoadedPack['source'] = 'local';
+    let sourcePath = packName;
 
-    if (packName.startsWith('@') || !packName.includes('/')) {
-      manifest = await loadPackFromPackage(packName);
-    }
-
-    if (!manifest) {
-      manifest = await loadPackFromPath(packName);
-    }
+    if (isYamlPack(packName)) {
+      manifest = await loadPackFromYaml(packName, options);
+      sourcePath = resolvePackPath(packName, options.cwd);
+    } else {
+      if (packName.startsWith('@') || !packName.includes('/')) {
+        manifest = await loadPackFromPackage(packName, options);
+        source = 'npm';
+      }
 
-    if ((!manifest && packName.endsWith('.yml')) || packName.endsWith('.yaml')) {
-      manifest = await loadPackFromYaml(packName);
+      if (!manifest) {
+        manifest = await loadPackFromPath(packName, options);
+        source = 'local';
+        sourcePath = resolvePackPath(packName, options.cwd);
+      }
     }
 
     if (manifest) {
-      registry.packs.set(manifest.name, {
+      const pack: LoadedPack = {
         manifest,
-        source: packName.startsWith('@') ? 'npm' : 'local',
-        sourcePath: packName,
+        source,
+        sourcePath,
         enabled: true,
-      });
-      console.log(`✓ Loaded detector pack: ${manifest.name} v${manifest.version}`);
+      };
+      registry.packs.set(manifest.name, pack);
+      loaded.push(pack);
+      log(`✓ Loaded detector pack: ${manifest.name} v${manifest.version}`);
     } else {
-      console.warn(`⚠️  Could not load pack: ${packName}`);
+      warn(`⚠️  Could not load pack: ${packName}`);
     }
   }
+
+  return loaded;
 }
 
 /**
@@ -30,6 +30,25 @@ export interface RuleCondition {
   pathExcludes?: string[];
   signalTypes?: string[];
   signalClasses?: Array<'critical' | 'behavioral' | 'maintainability'>;
+  signalDelta?: Array<'introduced' | 'pre-existing'>;
+  /** Every nested condition must match */
+  all?: RuleCondition[];
+  /** At least one nested condition must match */
+  any?: RuleCondition[];
+  /** The nested condition must not match */
+  not?: RuleCondition;
+}
+
+/**
+ * Why a file matched a rule condition or not: one node per checked field
+ * (e.g. `riskGte`) and per combinator (`all`, `any`, `not`)
+ */
+export interface ConditionExplanation {
+  condition: string;
+  matched: boolean;
+  /** The compared file value, e.g. `risk 7.2 >= 6` */
+  detail?: string;
+  children?: ConditionExplanation[];
 }
 
 export interface RuleAction {
@@ -67,7 +86,7 @@ export interface AnalyzedFile {
   evidence: Evidence[];
   riskReasons: string[];
   signalTypes?: string[];
-  signals?: Signal[];
+  signals?: Array<Pick<Signal, 'id' | 'class' | 'severity' | 'confidence' | 'lines' | 'delta'>>;
   riskBreakdown?: RiskScoreBreakdown;
   changedLines?: number;
   isDiffAnalysis?: boolean;
@@ -80,6 +99,8 @@ export interface RuleResult {
   severity: 'blocker' | 'warning' | 'info';
   file: AnalyzedFile;
   actions: ActionItem[];
+  /** Which conditions of the rule fired */
+  explanation: ConditionExplanation;
 }
 
 /**
@@ -123,7 +144,8 @@ export function evaluateRules(
     if (isExcepted(file.path, exceptions)) continue;
 
     for (const rule of rules) {
-      if (matchesConditions(file, rule.when, useGatedScoring)) {
+      const explanation = explainConditions(file, rule.when, useGatedScoring);
+      if (explanation.matched) {
         const actions = rule.then.actions || generateActionsForFile(file, options.actionMappings);
 
         results.push({
@@ -131,6 +153,7 @@ export function evaluateRules(
           severity: rule.then.severity,
           file,
           actions,
+          explanation,
         });
       }
     }
@@ -151,37 +174,87 @@ export function evaluateRules(
 }
 
 /**
- * Check if file matches rule conditions
+ * Evaluate a rule condition against a file, explaining which conditions fired
+ *
+ * Fields of a condition and its `all`/`any`/`not` combinators must all match.
  */
-function matchesConditions(
+export function explainConditions(
   file: AnalyzedFile,
   when: RuleCondition,
   useGatedScoring: boolean = true,
-): boolean {
+): ConditionExplanation {
+  const children: ConditionExplanation[] = [];
+  const check = (condition: string, matched: boolean, detail: string) =>
+    children.push({ condition, matched, detail });
+
   const effectiveRiskScore =
     useGatedScoring && file.gatedRiskScore !== undefined ? file.gatedRiskScore : file.riskScore;
+  const risk = effectiveRiskScore.toFixed(1);
 
-  if (when.riskGte !== undefined && effectiveRiskScore < when.riskGte) return false;
-  if (when.riskLte !== undefined && effectiveRiskScore > when.riskLte) return false;
-  if (when.blastRadiusGte !== undefined && file.blastRadius < when.blastRadiusGte) return false;
+  if (when.riskGte !== undefined) {
+    const matched = effectiveRiskScore >= when.riskGte;
+    check('riskGte', matched, `risk ${risk} ${matched ? '>=' : '<'} ${when.riskGte}`);
+  }
+  if (when.riskLte !== undefined) {
+    const matched = effectiveRiskScore <= when.riskLte;
+    check('riskLte', matched, `risk ${risk} ${matched ? '<=' : '>'} ${when.riskLte}`);
+  }
+  if (when.blastRadiusGte !== undefined) {
+    const matched = file.blastRadius >= when.blastRadiusGte;
+    check(
+      'blastRadiusGte',
+      matched,
+      `blast radius ${file.blastRadius} ${matched ? '>=' : '<'} ${when.blastRadiusGte}`,
+    );
+  }
 
-  if (when.signalTypes && when.signalTypes.length > 0 && file.signalTypes) {
-    const hasMatch = when.signalTypes.some((st) => file.signalTypes?.includes(st));
-    if (!hasMatch) return false;
+  // With signalDelta, signal conditions only look at signals with that delta
+  let signalTypes = file.signalTypes;
+  let fileClasses = file.signalTypes?.map((st) => getSignalClass(st));
+  if (when.signalDelta && when.signalDelta.length > 0) {
+    const matching = (file.signals || []).filter(
+      (s) => s.delta && (when.signalDelta as string[]).includes(s.delta),
+    );
+    check(
+      'signalDelta',
+      matching.length > 0,
+      matching.length > 0
+        ? matching.map((s) => `${s.id} (${s.delta})`).join(', ')
+        : `no ${when.signalDelta.join(' or ')} signals`,
+    );
+    signalTypes = matching.map((s) => s.id);
+    fileClasses = matching.map((s) => s.class);
+  }
+
+  if (when.signalTypes && when.signalTypes.length > 0 && signalTypes) {
+    const patterns = when.signalTypes;
+    const matching = signalTypes.filter((id) => patterns.some((p) => matchesSignalType(id, p)));
+    check(
+      'signalTypes',
+      matching.length > 0,
+      matching.length > 0 ? [...new Set(matching)].join(', ') : `no ${patterns.join(', ')} signal`,
+    );
   }
 
-  if (when.signalClasses && when.signalClasses.length > 0 && file.signalTypes) {
-    const fileClasses = file.signalTypes.map((st) => getSignalClass(st));
-    const hasMatch = when.signalClasses.some((sc) => fileClasses.includes(sc));
-    if (!hasMatch) return false;
+  if (when.signalClasses && when.signalClasses.length > 0 && fileClasses) {
+    const matching = when.signalClasses.filter((sc) => fileClasses.includes(sc));
+    check(
+      'signalClasses',
+      matching.length > 0,
+      matching.length > 0 ? matching.join(', ') : `no ${when.signalClasses.join(', ')} signal`,
+    );
   }
 
   if (when.evidenceTags && when.evidenceTags.length > 0) {
     const fileTags = file.evidence.map((e) => e.tag).filter(Boolean);
-    const hasTagMatch = when.evidenceTags.some((tag) =>
+    const matching = when.evidenceTags.filter((tag) =>
       fileTags.some((t) => t?.toLowerCase() === tag.toLowerCase()),
     );
-    if (!hasTagMatch) return false;
+    check(
+      'evidenceTags',
+      matching.length > 0,
+      matching.length > 0 ? matching.join(', ') : `no ${when.evidenceTags.join(', ')} tag`,
+    );
   }
 
   if (when.evidenceContains && when.evidenceContains.length > 0) {
@@ -189,23 +262,66 @@ function matchesConditions(
       s.toLowerCase(),
     );
 
-    const hasMatch = when.evidenceContains.some((pattern) =>
+    const matching = when.evidenceContains.filter((pattern) =>
       allEvidence.some((e) => e.includes(pattern.toLowerCase())),
     );
-    if (!hasMatch) return false;
+    check(
+      'evidenceContains',
+      matching.length > 0,
+      matching.length > 0
+        ? `evidence mentions ${matching.join(', ')}`
+        : `no evidence mentions ${when.evidenceContains.join(', ')}`,
+    );
   }
 
   if (when.pathMatches && when.pathMatches.length > 0) {
-    const matches = when.pathMatches.some((p) => minimatch(file.path, p));
-    if (!matches) return false;
+    const match = when.pathMatches.find((p) => minimatch(file.path, p));
+    check(
+      'pathMatches',
+      match !== undefined,
+      match ? `${file.path} matches ${match}` : `${file.path} matches none`,
+    );
   }
 
   if (when.pathExcludes && when.pathExcludes.length > 0) {
-    const excluded = when.pathExcludes.some((p) => minimatch(file.path, p));
-    if (excluded) return false;
+    const excluded = when.pathExcludes.find((p) => minimatch(file.path, p));
+    check(
+      'pathExcludes',
+      excluded === undefined,
+      excluded ? `${file.path} matches ${excluded}` : `${file.path} matches none`,
+    );
+  }
+
+  if (when.all) {
+    const nested = when.all.map((c) => unwrap(explainConditions(file, c, useGatedScoring)));
+    children.push({ condition: 'all', matched: nested.every((c) => c.matched), children: nested });
+  }
+
+  if (when.any) {
+    const nested = when.any.map((c) => unwrap(explainConditions(file, c, useGatedScoring)));
+    children.push({ condition: 'any', matched: nested.some((c) => c.matched), children: nested });
+  }
+
+  if (when.not) {
+    const nested = unwrap(explainConditions(file, when.not, useGatedScoring));
+    children.push({ condition: 'not', matched: !nested.matched, children: [nested] });
   }
 
-  return true;
+  return { condition: 'all', matched: children.every((c) => c.matched), children };
+}
+
+/**
+ * A nested condition with a single field is shown as that field
+ */
+function unwrap(explanation: ConditionExplanation): ConditionExplanation {
+  return explanation.children?.length === 1 ? explanation.children[0] : explanation;
+}
+
+/**
+ * Signal IDs match exactly, or as globs (e.g. `sec-*`)
+ */
+function matchesSignalType(id: string, pattern: string): boolean {
+  return pattern.includes('*') ? minimatch(id, pattern) : id === pattern;
 }
 
 /**
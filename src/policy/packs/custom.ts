@@ -0,0 +1,200 @@
+/**
+ * Custom Policy Packs
+ *
+ * Load policy packs from JSON or YAML files and npm packages. A custom pack can
+ * extend a built-in pack and override only the settings it changes.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { z } from 'zod';
+import { PolicyPackSchema } from '../../config/schema';
+import {
+  getAvailablePolicyPacks,
+  getPolicyPack,
+  isPolicyPackPath,
+  isPolicyPackRef,
+  isValidPolicyPack,
+  PolicyPack,
+} from './index';
+
+const FailOnSchema = z.strictObject({
+  minHighestRisk: z.number().min(0).max(10),
+  minBlockers: z.number().int().min(0),
+  severityCounts: z.strictObject({
+    CRITICAL: z.number().int().min(0).optional(),
+    HIGH: z.number().int().min(0).optional(),
+    MED: z.number().int().min(0).optional(),
+    LOW: z.number().int().min(0).optional(),
+  }),
+});
+
+const WeightsSchema = z.strictObject({
+  security: z.number().min(0),
+  ssrBoundary: z.number().min(0),
+  apiContract: z.number().min(0),
+  correctness: z.number().min(0),
+  performance: z.number().min(0),
+  maintainability: z.number().min(0),
+  supplyChain: z.number().min(0),
+});
+
+const DefaultsSchema = z.strictObject({
+  topN: z.number().int().min(1),
+  details: z.boolean(),
+});
+
+/**
+ * Policy pack document; settings missing from it come from the pack it extends
+ */
+export const PolicyPackDocumentSchema = z.strictObject({
+  name: z.string().min(1).optional(),
+  description: z.string().optional(),
+  extends: PolicyPackSchema.optional(),
+  failOn: FailOnSchema.partial().optional(),
+  weights: WeightsSchema.partial().optional(),
+  defaults: DefaultsSchema.partial().optional(),
+});
+
+export type PolicyPackDocument = z.infer<typeof PolicyPackDocumentSchema>;
+
+const CompletePolicyPackSchema = z.object({
+  failOn: FailOnSchema,
+  weights: WeightsSchema,
+  defaults: DefaultsSchema,
+});
+
+/**
+ * Resolve a policy pack reference: a built-in pack name, a path to a JSON or
+ * YAML pack file (or a directory with a package.json), or an npm package
+ *
+ * Relative paths and packages resolve from `cwd`.
+ *
+ * @throws Error when the pack cannot be found or is invalid
+ */
+export function resolvePolicyPack(ref: string, cwd: string = process.cwd()): PolicyPack {
+  if (isValidPolicyPack(ref)) {
+    return getPolicyPack(ref);
+  }
+  if (!isPolicyPackRef(ref)) {
+    throw new Error(
+      `Invalid policy pack "${ref}": expected ${getAvailablePolicyPacks().join(', ')}, ` +
+        'a pack file path or an npm package name',
+    );
+  }
+
+  const isPackage = !isPolicyPackPath(ref);
+
+  if (isPackage) {
+    const manifestPath = resolvePackageManifest(ref, cwd);
+    if (manifestPath) {
+      return loadPackageManifest(manifestPath, ref);
+    }
+  }
+
+  const fullPath = path.resolve(cwd, ref);
+  if (!fs.existsSync(fullPath)) {
+    throw new Error(
+      isPackage
+        ? `Policy pack not found: ${ref} is not a built-in pack, installed package or file`
+        : `Policy pack file not found: ${fullPath}`,
+    );
+  }
+  if (fs.statSync(fullPath).isDirectory()) {
+    return loadPackageManifest(path.join(fullPath, 'package.json'), ref);
+  }
+  return loadPolicyPackFile(fullPath);
+}
+
+/**
+ * Load a policy pack from a JSON or YAML file
+ *
+ * The pack is named after the file when the document has no `name`.
+ */
+export function loadPolicyPackFile(filePath: string): PolicyPack {
+  let document: unknown;
+  try {
+    const content = fs.readFileSync(filePath, 'utf-8');
+    document = filePath.endsWith('.json') ? JSON.parse(content) : yaml.load(content);
+  } catch (error) {
+    throw new Error(`Could not read policy pack ${filePath}: ${(error as Error).message}`);
+  }
+  return buildPolicyPack(document, path.basename(filePath, path.extname(filePath)), filePath);
+}
+
+/**
+ * Validate a policy pack document and merge it over the pack it extends
+ */
+export function buildPolicyPack(
+  document: unknown,
+  defaultName: string,
+  source: string,
+): PolicyPack {
+  const parsed = PolicyPackDocumentSchema.safeParse(document ?? {});
+  if (!parsed.success) {
+    throw new Error(`Invalid policy pack ${source}:\n${z.prettifyError(parsed.error)}`);
+  }
+
+  const doc = parsed.data;
+  const base = doc.extends ? getPolicyPack(doc.extends) : undefined;
+  const merged = {
+    failOn: {
+      ...base?.failOn,
+      ...doc.failOn,
+      severityCounts: { ...base?.failOn.severityCounts, ...doc.failOn?.severityCounts },
+    },
+    weights: { ...base?.weights, ...doc.weights },
+    defaults: { ...base?.defaults, ...doc.defaults },
+  };
+
+  const complete = CompletePolicyPackSchema.safeParse(merged);
+  if (!complete.success) {
+    throw new Error(
+      `Invalid policy pack ${source} (set the missing settings or \`extends\` a built-in pack):\n` +
+        z.prettifyError(complete.error),
+    );
+  }
+
+  return {
+    name: doc.name ?? defaultName,
+    description: doc.description ?? (base ? `Extends the ${base.name} pack` : ''),
+    ...complete.data,
+    extends: doc.extends,
+    source,
+  };
+}
+
+function resolvePackageManifest(packageName: string, cwd: string): string | null {
+  try {
+    return require.resolve(`${packageName}/package.json`, { paths: [cwd] });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load a pack from the `diffesense` field of a package.json
+ * (`"diffesense": { "type": "policy-pack", ... }`)
+ */
+function loadPackageManifest(manifestPath: string, ref: string): PolicyPack {
+  let manifest: Record<string, unknown>;
+  try {
+    manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read policy pack ${manifestPath}: ${(error as Error).message}`);
+  }
+
+  const { type, ...document } = (manifest.diffesense ?? {}) as Record<string, unknown>;
+  if (type !== 'policy-pack') {
+    throw new Error(
+      `${ref} is not a DiffeSense policy pack (diffesense.type must be "policy-pack")`,
+    );
+  }
+
+  return buildPolicyPack(
+    { description: manifest.description, ...document },
+    typeof manifest.name === 'string' ? manifest.name : ref,
+    manifestPath,
+  );
+}
@@ -7,6 +7,8 @@
  * - oss: Open-source friendly, focus on supply-chain and correctness
  */
 
+import * as path from 'path';
+
 export type PolicyPackName = 'enterprise' | 'startup' | 'oss';
 
 export interface SeverityCounts {
@@ -38,11 +40,16 @@ export interface PolicyPackDefaults {
 }
 
 export interface PolicyPack {
-  name: PolicyPackName;
+  /** Built-in pack name, or the name of a custom pack */
+  name: string;
   description: string;
   failOn: FailOnConfig;
   weights: CategoryWeights;
   defaults: PolicyPackDefaults;
+  /** Built-in pack a custom pack extends */
+  extends?: PolicyPackName;
+  /** File a custom pack was loaded from */
+  source?: string;
 }
 
 /**
@@ -178,6 +185,30 @@ export function isValidPolicyPack(name: string): name is PolicyPackName {
   return name in policyPacks;
 }
 
+const PACK_FILE_EXTENSIONS = ['.json', '.yml', '.yaml'];
+const PACKAGE_NAME = /^(@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+
+/**
+ * Check if a policy pack reference is a file or directory path (not a
+ * built-in pack or an npm package)
+ */
+export function isPolicyPackPath(ref: string): boolean {
+  if (isValidPolicyPack(ref)) return false;
+  const isPath =
+    ref.startsWith('.') ||
+    path.isAbsolute(ref) ||
+    PACK_FILE_EXTENSIONS.includes(path.extname(ref).toLowerCase());
+  return isPath || !(ref.startsWith('@') || !ref.includes('/'));
+}
+
+/**
+ * Check if a policy pack reference can name a pack: a built-in pack, a path,
+ * or a valid npm package name (whether it exists is only known on resolving)
+ */
+export function isPolicyPackRef(ref: string): boolean {
+  return isValidPolicyPack(ref) || isPolicyPackPath(ref) || PACKAGE_NAME.test(ref);
+}
+
 /**
  * Default policy pack for new users
  */
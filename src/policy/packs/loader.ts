@@ -7,19 +7,32 @@
 import { DiffeSenseConfig } from '../../config/schema';
 import {
   PolicyPack,
-  PolicyPackName,
   getPolicyPack,
-  isValidPolicyPack,
   DEFAULT_POLICY_PACK,
   SeverityCounts,
   CategoryWeights,
 } from './index';
+import { resolvePolicyPack } from './custom';
 
 export interface AppliedPolicyPack {
   pack: PolicyPack;
   effectiveConfig: EffectiveConfig;
 }
 
+/** Fail condition of a policy pack that was met */
+export interface PolicyFailure {
+  /** Pack rule, e.g. `minHighestRisk` or `severityCounts.HIGH` */
+  rule:
+    | 'minHighestRisk'
+    | 'minBlockers'
+    | 'severityCounts.CRITICAL'
+    | 'severityCounts.HIGH'
+    | 'severityCounts.MED';
+  actual: number;
+  limit: number;
+  message: string;
+}
+
 export interface EffectiveConfig {
   failThreshold: number;
   minBlockers: number;
@@ -32,13 +45,22 @@ export interface EffectiveConfig {
 /**
  * Apply policy pack to configuration
  * Returns the effective settings after merging pack defaults with user config
+ *
+ * @param packRef - Built-in pack name, path or package of a custom pack (resolved from
+ *   `cwd`), or an already resolved pack
+ * @throws Error when a custom pack cannot be loaded
  */
 export function applyPolicyPack(
-  packName: PolicyPackName | undefined,
+  packRef: string | PolicyPack | undefined,
   config?: Partial<DiffeSenseConfig>,
+  cwd?: string,
 ): AppliedPolicyPack {
-  const resolvedPackName = packName && isValidPolicyPack(packName) ? packName : DEFAULT_POLICY_PACK;
-  const pack = getPolicyPack(resolvedPackName);
+  const pack =
+    typeof packRef === 'object'
+      ? packRef
+      : packRef
+      ? resolvePolicyPack(packRef, cwd)
+      : getPolicyPack(DEFAULT_POLICY_PACK);
 
   const effectiveConfig: EffectiveConfig = {
     failThreshold:
@@ -70,50 +92,48 @@ export function shouldFailAnalysis(
     blockerCount: number;
     severityCounts: { CRITICAL: number; HIGH: number; MED: number; LOW: number };
   },
-): { shouldFail: boolean; reasons: string[] } {
-  const reasons: string[] = [];
+): { shouldFail: boolean; reasons: string[]; failures: PolicyFailure[] } {
+  const failures: PolicyFailure[] = [];
 
   if (analysisResult.highestRisk >= effectiveConfig.failThreshold) {
-    reasons.push(
-      `Highest risk ${analysisResult.highestRisk.toFixed(1)} >= threshold ${
+    failures.push({
+      rule: 'minHighestRisk',
+      actual: analysisResult.highestRisk,
+      limit: effectiveConfig.failThreshold,
+      message: `Highest risk ${analysisResult.highestRisk.toFixed(1)} >= threshold ${
         effectiveConfig.failThreshold
       }`,
-    );
+    });
   }
 
   if (analysisResult.blockerCount >= effectiveConfig.minBlockers) {
-    reasons.push(
-      `Blockers ${analysisResult.blockerCount} >= minimum ${effectiveConfig.minBlockers}`,
-    );
+    failures.push({
+      rule: 'minBlockers',
+      actual: analysisResult.blockerCount,
+      limit: effectiveConfig.minBlockers,
+      message: `Blockers ${analysisResult.blockerCount} >= minimum ${effectiveConfig.minBlockers}`,
+    });
   }
 
   const { severityCounts } = effectiveConfig;
 
-  if (
-    severityCounts.CRITICAL !== undefined &&
-    analysisResult.severityCounts.CRITICAL >= severityCounts.CRITICAL
-  ) {
-    reasons.push(
-      `CRITICAL count ${analysisResult.severityCounts.CRITICAL} >= limit ${severityCounts.CRITICAL}`,
-    );
-  }
-
-  if (
-    severityCounts.HIGH !== undefined &&
-    analysisResult.severityCounts.HIGH >= severityCounts.HIGH
-  ) {
-    reasons.push(
-      `HIGH count ${analysisResult.severityCounts.HIGH} >= limit ${severityCounts.HIGH}`,
-    );
-  }
-
-  if (severityCounts.MED !== undefined && analysisResult.severityCounts.MED >= severityCounts.MED) {
-    reasons.push(`MED count ${analysisResult.severityCounts.MED} >= limit ${severityCounts.MED}`);
+  for (const severity of ['CRITICAL', 'HIGH', 'MED'] as const) {
+    const limit = severityCounts[severity];
+    const actual = analysisResult.severityCounts[severity];
+    if (limit !== undefined && actual >= limit) {
+      failures.push({
+        rule: `severityCounts.${severity}`,
+        actual,
+        limit,
+        message: `${severity} count ${actual} >= limit ${limit}`,
+      });
+    }
   }
 
   return {
-    shouldFail: reasons.length > 0,
-    reasons,
+    shouldFail: failures.length > 0,
+    reasons: failures.map((f) => f.message),
+    failures,
   };
 }
 
@@ -170,6 +190,47 @@ export function getSignalCategoryWeight(signalId: string, weights: CategoryWeigh
   return 1.0;
 }
 
+/** Setting whose value differs between two policy packs */
+export interface PolicyPackDifference {
+  /** Setting path, e.g. `failOn.minHighestRisk` or `weights.security` */
+  setting: string;
+  left: number | boolean | undefined;
+  right: number | boolean | undefined;
+}
+
+/**
+ * Compare the fail conditions, weights and defaults of two policy packs
+ */
+export function diffPolicyPacks(left: PolicyPack, right: PolicyPack): PolicyPackDifference[] {
+  const leftSettings = flattenPolicyPack(left);
+  const rightSettings = flattenPolicyPack(right);
+  const settings = new Set([...Object.keys(leftSettings), ...Object.keys(rightSettings)]);
+
+  return [...settings]
+    .filter((setting) => leftSettings[setting] !== rightSettings[setting])
+    .map((setting) => ({
+      setting,
+      left: leftSettings[setting],
+      right: rightSettings[setting],
+    }));
+}
+
+function flattenPolicyPack(pack: PolicyPack): Record<string, number | boolean | undefined> {
+  const settings: Record<string, number | boolean | undefined> = {
+    'failOn.minHighestRisk': pack.failOn.minHighestRisk,
+    'failOn.minBlockers': pack.failOn.minBlockers,
+  };
+  for (const severity of ['CRITICAL', 'HIGH', 'MED', 'LOW'] as const) {
+    settings[`failOn.severityCounts.${severity}`] = pack.failOn.severityCounts[severity];
+  }
+  for (const [category, weight] of Object.entries(pack.weights)) {
+    settings[`weights.${category}`] = weight;
+  }
+  settings['defaults.topN'] = pack.defaults.topN;
+  settings['defaults.details'] = pack.defaults.details;
+  return settings;
+}
+
 /**
  * Format policy pack for display
  */
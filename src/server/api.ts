@@ -0,0 +1,348 @@
+/**
+ * HTTP API
+ *
+ * Serve the analysis API over HTTP/JSON so tools can call DiffeSense without
+ * spawning a process per request. Analysis responses use the JsonOutput schema
+ * of `--format json`.
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { z } from 'zod';
+import { AnalysisCache, buildCacheKeyComponents, createCache, shortHash } from '../cache';
+import { resolveConfig, ResolvedConfig } from '../config';
+import { DetectorSchema } from '../config/schema';
+import { getGitRoot } from '../git/diff';
+import { toJsonOutput } from '../output/formatters/dsJson';
+import { signalDescriptions } from '../output/signalDescriptions';
+import { getAvailablePolicyPacks, getPolicyPack, isValidPolicyPack } from '../policy/packs';
+import { SCHEMA_VERSION, VERSION } from '../version';
+import { analyze, AnalysisResult, AnalyzeOptions } from '../core/analyze';
+import { analyzeFiles, AnalyzeFilesOptions } from '../core/analyzeFiles';
+import { getSuppressionsHash } from '../core/suppressions';
+
+export interface ApiServerOptions {
+  /** Directory analyses run in when a request has no `cwd` (default: process.cwd()) */
+  cwd?: string;
+  /** Cache results across requests (default: true) */
+  cache?: boolean;
+  /** Largest accepted request body in bytes (default: 10 MB) */
+  maxBodyBytes?: number;
+}
+
+/** Results of file-pair requests kept in memory */
+const MAX_MEMORY_ENTRIES = 100;
+
+const AnalyzeOptionsSchema = z.strictObject({
+  cwd: z.string().optional(),
+  scope: z.enum(['branch', 'staged', 'working', 'worktree', 'commit', 'range']).optional(),
+  base: z.string().optional(),
+  commit: z.string().optional(),
+  range: z.string().optional(),
+  profile: z.string().optional(),
+  detector: DetectorSchema.optional(),
+  configPath: z.string().optional(),
+  threshold: z.number().min(0).max(10).optional(),
+  includeTests: z.boolean().optional(),
+  includeConfig: z.boolean().optional(),
+  contextLines: z.number().int().min(0).optional(),
+  skipBlastRadius: z.boolean().optional(),
+  fullFileAnalysis: z.boolean().optional(),
+  classBasedScoring: z.boolean().optional(),
+  analyzeAll: z.boolean().optional(),
+  history: z.boolean().optional(),
+  differential: z.boolean().optional(),
+  introducedOnly: z.boolean().optional(),
+  patch: z.string().optional(),
+  patchedFiles: z.record(z.string(), z.string()).optional(),
+});
+
+const FilesRequestSchema = z.strictObject({
+  files: z.array(
+    z.strictObject({
+      path: z.string().min(1),
+      before: z.string().nullable().optional(),
+      after: z.string().nullable().optional(),
+    }),
+  ),
+  options: z
+    .strictObject({
+      config: z.record(z.string(), z.unknown()).optional(),
+      profile: z.string().optional(),
+      detector: DetectorSchema.optional(),
+      threshold: z.number().min(0).max(10).optional(),
+      includeTests: z.boolean().optional(),
+      includeConfig: z.boolean().optional(),
+      contextLines: z.number().int().min(0).optional(),
+      fullFileAnalysis: z.boolean().optional(),
+      classBasedScoring: z.boolean().optional(),
+      differential: z.boolean().optional(),
+      introducedOnly: z.boolean().optional(),
+      imports: z.record(z.string(), z.array(z.string())).optional(),
+    })
+    .optional(),
+});
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Create the API server (call `listen()` on it to start serving)
+ *
+ * Endpoints:
+ * - `POST /analyze` - body is `AnalyzeOptions`, or `{ files, options }` for analyzeFiles()
+ * - `GET /signals` - signal catalog
+ * - `GET /packs` - policy packs
+ * - `GET /health` - liveness and versions
+ */
+export function createApiServer(options: ApiServerOptions = {}): http.Server {
+  const defaultCwd = path.resolve(options.cwd || process.cwd());
+  const useCache = options.cache !== false;
+  const maxBodyBytes = options.maxBodyBytes ?? 10 * 1024 * 1024;
+
+  // One disk cache per repository; file pairs only live in memory
+  const repoCaches = new Map<string, AnalysisCache>();
+  const memoryCache = new Map<string, AnalysisResult>();
+
+  const getRepoCache = (root: string): AnalysisCache => {
+    let cache = repoCaches.get(root);
+    if (!cache) {
+      cache = createCache(root, { enabled: useCache });
+      repoCaches.set(root, cache);
+    }
+    return cache;
+  };
+
+  const analyzeGit = async (
+    body: z.infer<typeof AnalyzeOptionsSchema>,
+  ): Promise<{ result: AnalysisResult; cached: boolean }> => {
+    // Config files can be modules that run code, so requests stay inside the served directory
+    const cwd = resolveInside(defaultCwd, defaultCwd, body.cwd || '.', 'cwd');
+    if (body.configPath !== undefined) {
+      resolveInside(defaultCwd, cwd, body.configPath, 'configPath');
+    }
+
+    let resolvedConfig: ResolvedConfig;
+    try {
+      resolvedConfig = await resolveConfig({
+        configPath: body.configPath,
+        cwd,
+        scope: {
+          scope: body.commit ? 'commit' : body.range ? 'range' : body.scope || 'branch',
+          base: body.base,
+          commit: body.commit,
+          range: body.range,
+        },
+      });
+    } catch (error) {
+      throw new HttpError(400, (error as Error).message);
+    }
+
+    const root = getGitRoot(cwd);
+    const cache = root ? getRepoCache(root) : null;
+    const analyzeOptions: AnalyzeOptions = {
+      ...body,
+      cwd,
+      resolvedConfig,
+      graphCacheDir: cache && useCache ? cache.getCacheDir() : undefined,
+    };
+
+    // Only commits and ranges are fixed by their inputs; working-tree scopes change under us
+    const cacheable =
+      cache !== null &&
+      useCache &&
+      (body.commit !== undefined || body.range !== undefined) &&
+      body.patch === undefined;
+    if (!cacheable) {
+      return { result: await analyze(analyzeOptions), cached: false };
+    }
+
+    const keyComponents = buildCacheKeyComponents({
+      cwd,
+      scope: body.commit !== undefined ? 'commit' : 'range',
+      base: body.base || 'main',
+      toolVersion: VERSION,
+      config: { ...body, cwd, resolvedConfig: resolvedConfig.config },
+      suppressionsHash: getSuppressionsHash(cwd),
+    });
+    const hit = cache.get<AnalysisResult>(keyComponents);
+    if (hit) {
+      return { result: hit.data, cached: true };
+    }
+
+    const startTime = Date.now();
+    const result = await analyze(analyzeOptions);
+    if (result.success) {
+      cache.set(keyComponents, result, Date.now() - startTime);
+    }
+    return { result, cached: false };
+  };
+
+  const analyzePairs = async (
+    body: z.infer<typeof FilesRequestSchema>,
+  ): Promise<{ result: AnalysisResult; cached: boolean }> => {
+    // Pack files and packages would be read from disk, outside the resolveInside() checks
+    const policyPack = body.options?.config?.policyPack;
+    if (typeof policyPack === 'string' && !isValidPolicyPack(policyPack)) {
+      throw new HttpError(400, 'config.policyPack must be a built-in pack for file pairs');
+    }
+    if (body.options?.config?.packs !== undefined) {
+      throw new HttpError(400, 'config.packs is not supported for file pairs');
+    }
+
+    const key = shortHash(JSON.stringify(body));
+    const hit = useCache ? memoryCache.get(key) : undefined;
+    if (hit) {
+      return { result: hit, cached: true };
+    }
+
+    const result = await analyzeFiles(body.files, {
+      ...(body.options as AnalyzeFilesOptions),
+      cwd: defaultCwd,
+    });
+    if (useCache && result.success) {
+      if (memoryCache.size >= MAX_MEMORY_ENTRIES) {
+        memoryCache.delete(memoryCache.keys().next().value!);
+      }
+      memoryCache.set(key, result);
+    }
+    return { result, cached: false };
+  };
+
+  const routes: Record<string, Record<string, RouteHandler>> = {
+    '/health': {
+      GET: async () =>
+        json(200, { status: 'ok', toolVersion: VERSION, schemaVersion: SCHEMA_VERSION }),
+    },
+    '/signals': {
+      GET: async () =>
+        json(200, {
+          signals: Object.keys(signalDescriptions)
+            .sort()
+            .map((id) => ({ id, ...signalDescriptions[id] })),
+        }),
+    },
+    '/packs': {
+      GET: async () =>
+        json(200, { packs: getAvailablePolicyPacks().map((name) => getPolicyPack(name)) }),
+    },
+    '/analyze': {
+      POST: async (req) => {
+        if (!isJsonRequest(req)) {
+          throw new HttpError(415, 'Content-Type must be application/json');
+        }
+        const body = parseJson(await readBody(req, maxBodyBytes));
+        const isFiles = typeof body === 'object' && body !== null && 'files' in body;
+        const parsed = isFiles
+          ? FilesRequestSchema.safeParse(body)
+          : AnalyzeOptionsSchema.safeParse(body ?? {});
+        if (!parsed.success) {
+          throw new HttpError(400, z.prettifyError(parsed.error));
+        }
+
+        const { result, cached } = isFiles
+          ? await analyzePairs(parsed.data as z.infer<typeof FilesRequestSchema>)
+          : await analyzeGit(parsed.data as z.infer<typeof AnalyzeOptionsSchema>);
+        return json(200, toJsonOutput(result, { showAll: true }), {
+          'X-DiffeSense-Cache': cached ? 'hit' : 'miss',
+        });
+      },
+    },
+  };
+
+  return http.createServer((req, res) => {
+    const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+    const route = routes[pathname];
+    const handler = route?.[req.method || 'GET'];
+
+    // Browsers send Origin with cross-site requests; the API is only for local tools
+    const respond =
+      req.headers.origin !== undefined
+        ? Promise.reject(new HttpError(403, 'Cross-origin requests are not allowed'))
+        : handler
+        ? handler(req)
+        : Promise.reject(
+            route
+              ? new HttpError(405, `${req.method} is not allowed on ${pathname}`)
+              : new HttpError(404, `No route for ${pathname}`),
+          );
+
+    respond
+      .catch((error: unknown) =>
+        error instanceof HttpError
+          ? json(error.status, { error: error.message })
+          : json(500, { error: error instanceof Error ? error.message : String(error) }),
+      )
+      .then((response) => {
+        res.writeHead(response.status, {
+          'Content-Type': 'application/json; charset=utf-8',
+          ...response.headers,
+        });
+        res.end(response.body);
+      });
+  });
+}
+
+interface Response {
+  status: number;
+  body: string;
+  headers: Record<string, string>;
+}
+
+type RouteHandler = (req: http.IncomingMessage) => Promise<Response>;
+
+function json(status: number, data: unknown, headers: Record<string, string> = {}): Response {
+  return { status, body: JSON.stringify(data, null, 2), headers };
+}
+
+function readBody(req: http.IncomingMessage, maxBytes: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      // Keep draining an oversized body so the error response can still be sent
+      if (size <= maxBytes) chunks.push(chunk);
+    });
+    req.on('end', () =>
+      size > maxBytes
+        ? reject(new HttpError(413, `Request body exceeds ${maxBytes} bytes`))
+        : resolve(Buffer.concat(chunks).toString('utf-8')),
+    );
+    req.on('error', reject);
+  });
+}
+
+function isJsonRequest(req: http.IncomingMessage): boolean {
+  const contentType = req.headers['content-type'] || '';
+  return contentType.split(';')[0].trim().toLowerCase() === 'application/json';
+}
+
+/**
+ * Resolve `target` from `from`, rejecting paths (and symlinks) leading outside `root`
+ */
+function resolveInside(root: string, from: string, target: string, field: string): string {
+  const resolved = path.resolve(from, target);
+  const real = (p: string) => (fs.existsSync(p) ? fs.realpathSync(p) : p);
+  const relative = path.relative(real(root), real(resolved));
+  if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new HttpError(403, `${field} must be inside ${root}`);
+  }
+  return resolved;
+}
+
+function parseJson(body: string): unknown {
+  if (body.trim() === '') return {};
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+}
@@ -19,6 +19,8 @@ export interface PatternDetectorOptions {
   contextLines?: number;
   framework?: 'react' | 'vue' | 'angular' | 'node' | 'generic';
   customPatterns?: PatternDef[];
+  /** Run DEFAULT_PATTERNS alongside customPatterns (default: true) */
+  includeDefaults?: boolean;
   excludePatterns?: string[];
 }
 
@@ -32,14 +34,22 @@ export class PatternDetector {
   private framework?: string;
 
   constructor(content: string, filePath: string, options: PatternDetectorOptions = {}) {
-    const { changedRanges, contextLines = 5, framework, customPatterns } = options;
+    const {
+      changedRanges,
+      contextLines = 5,
+      framework,
+      customPatterns,
+      includeDefaults,
+    } = options;
 
     this.filePath = filePath;
     this.content = content;
     this.lines = content.split('\n');
     this.framework = framework;
 
-    this.registry = customPatterns ? new PatternRegistry(customPatterns) : getPatternRegistry();
+    this.registry = customPatterns
+      ? new PatternRegistry(customPatterns, { includeDefaults })
+      : getPatternRegistry();
 
     this.changedLineNumbers = new Set<number>();
     this.focusLineNumbers = new Set<number>();
@@ -86,7 +96,7 @@ export class PatternDetector {
     const inChangedRange = this.isChangedLine(lineNumber);
 
     return {
-      id: pattern.id,
+      id: pattern.signalType || pattern.id,
       title: pattern.name,
       class: signalClass,
       category: pattern.category as SignalCategory,
@@ -3,6 +3,7 @@
  *
  * Comprehensive React/Next.js/React Native detection covering:
  * - REACT-001 to REACT-012: Hook and component patterns
+ * - Effect dependency analysis (AST)
  * - PERF signals: Performance anti-patterns
  * - Security: XSS, injection risks
  * - State management patterns
@@ -10,6 +11,7 @@
 
 import { Signal, ChangedRange } from '../types';
 import { BaseDetector } from './base';
+import { parseSource, findMissingEffectDependencies } from '../../ast';
 
 export class ReactDetector extends BaseDetector {
   constructor(content: string, filePath: string, changedRanges?: ChangedRange[], contextLines = 5) {
@@ -26,6 +28,7 @@ export class ReactDetector extends BaseDetector {
     return [
       ...baseSignals,
       ...this.detectHooks(),
+      ...this.detectEffectDependencies(),
       ...this.detectComponentPatterns(),
       ...this.detectStatePatterns(),
       ...this.detectPerformanceIssues(),
@@ -220,6 +223,59 @@ export class ReactDetector extends BaseDetector {
     return signals;
   }
 
+  /**
+   * Effects whose dependency array omits values the effect reads (stale closures)
+   */
+  private detectEffectDependencies(): Signal[] {
+    const sourceFile = parseSource(this.ctx.content, this.ctx.filePath);
+    if (!sourceFile) return [];
+
+    const signals: Signal[] = [];
+
+    for (const effect of findMissingEffectDependencies(sourceFile)) {
+      const { startLine, endLine } = effect.range;
+      let inFocus = false;
+      for (let line = startLine; line <= endLine && !inFocus; line++) {
+        inFocus = this.shouldAnalyzeLine(line);
+      }
+      if (!inFocus) continue;
+
+      const missing = effect.missing.join(', ');
+      signals.push(
+        this.createSignal({
+          id: 'react-effect-missing-deps',
+          title: 'Effect Dependencies Incomplete',
+          category: 'async',
+          reason: `${effect.hook} dependency array omits ${missing} - effect may use stale values`,
+          weight: 0.7,
+          lines: [startLine],
+          snippet: this.getSnippet(startLine, Math.min(endLine, startLine + 4)),
+          signalClass: 'behavioral',
+          confidence: 'medium',
+          tags: ['react', 'hooks', 'closure'],
+          evidence: {
+            kind: 'ast',
+            astNode: 'CallExpression',
+            range: effect.range,
+            details: { missing: effect.missing },
+          },
+          actions: [
+            {
+              type: 'mitigation_steps',
+              text: `Add ${missing} to the dependency array`,
+              steps: [
+                'List every prop, state value and local the effect reads',
+                'Move values that should not re-trigger the effect into a ref',
+              ],
+            },
+          ],
+        }),
+      );
+    }
+
+    return signals;
+  }
+
   private detectComponentPatterns(): Signal[] {
     const signals: Signal[] = [];
     const { lines } = this.ctx;
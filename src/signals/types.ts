@@ -4,6 +4,9 @@ export type Severity = 'blocker' | 'warn' | 'info';
 
 export type Confidence = 'high' | 'medium' | 'low';
 
+/** How a signal relates to the base version of the file */
+export type SignalDelta = 'introduced' | 'resolved' | 'pre-existing';
+
 export type EvidenceKind = 'regex' | 'ast' | 'history' | 'graph' | 'heuristic';
 
 export type ActionType = 'test_command' | 'review_request' | 'runbook_link' | 'mitigation_steps';
@@ -50,6 +53,13 @@ export interface Evidence {
   details?: Record<string, unknown>;
   pattern?: string;
   astNode?: string;
+  /** Precise node position for AST evidence (1-based lines and columns) */
+  range?: {
+    startLine: number;
+    startColumn: number;
+    endLine: number;
+    endColumn: number;
+  };
 }
 
 export interface ActionRecommendation {
@@ -92,6 +102,8 @@ export interface Signal {
 
   inChangedRange?: boolean;
 
+  delta?: SignalDelta;
+
   meta?: Record<string, unknown>;
 }
 
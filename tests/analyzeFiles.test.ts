@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeFiles } from '../src/core/analyzeFiles';
+import { computeChangedRanges } from '../src/core/textDiff';
+import { getSignalDescription } from '../src/output/signalDescriptions';
+import { enterprisePack } from '../src/policy/packs';
+import { applyPolicyPack, shouldFailAnalysis } from '../src/policy/packs/loader';
+
+const BEFORE = ['export function run(code: string) {', '  return code;', '}', ''].join('\n');
+const AFTER = ['export function run(code: string) {', '  return eval(code);', '}', ''].join('\n');
+
+describe('In-Memory Analysis', () => {
+  describe('computeChangedRanges', () => {
+    it('should find modified and inserted lines', () => {
+      const before = ['a', 'b', 'c', 'd', ''].join('\n');
+      const after = ['a', 'B', 'c', 'x', 'y', 'd', ''].join('\n');
+
+      expect(computeChangedRanges(before, after)).toEqual([
+        { startLine: 2, endLine: 2, type: 'modified', lineCount: 1 },
+        { startLine: 4, endLine: 5, type: 'modified', lineCount: 2 },
+      ]);
+    });
+
+    it('should mark every line of an added file', () => {
+      expect(computeChangedRanges(null, 'a\nb\n')).toEqual([
+        { startLine: 1, endLine: 2, type: 'added', lineCount: 2 },
+      ]);
+    });
+
+    it('should return no ranges for equal contents', () => {
+      expect(computeChangedRanges('a\nb\n', 'a\r\nb\r\n')).toEqual([]);
+    });
+  });
+
+  describe('analyzeFiles', () => {
+    it('should analyze file pairs without a repository', async () => {
+      const result = await analyzeFiles(
+        [{ path: 'src/run.ts', before: BEFORE, after: AFTER }],
+        { cwd: '/does/not/exist', differential: true },
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.meta.scope).toBe('files');
+      expect(result.evaluation).not.toBeNull();
+
+      const file = result.files[0];
+      expect(file.path).toBe('src/run.ts');
+      expect(file.signals.find((s) => s.id === 'sec-eval')).toMatchObject({
+        lines: [2],
+        delta: 'introduced',
+      });
+    });
+
+    it('should skip unchanged files and ignore filtered ones', async () => {
+      const result = await analyzeFiles([
+        { path: 'src/same.ts', before: BEFORE, after: BEFORE },
+        { path: 'src/run.test.ts', before: BEFORE, after: AFTER },
+        { path: 'src/run.ts', after: AFTER },
+      ]);
+
+      expect(result.files.map((f) => f.path)).toEqual(['src/run.ts']);
+      expect(result.ignoredFiles.map((f) => f.path)).toEqual(['src/run.test.ts']);
+      expect(result.summary.changedCount).toBe(2);
+    });
+
+    it('should compute blast radius from a supplied import map', async () => {
+      const result = await analyzeFiles([{ path: 'src/run.ts', before: BEFORE, after: AFTER }], {
+        imports: {
+          'src/app.ts': ['src/run.ts'],
+          'src/main.ts': ['src/app.ts'],
+        },
+      });
+
+      expect(result.files[0].blastRadius).toBe(2);
+      expect(result.files[0].blastRadiusConfidence).toBe('high');
+    });
+
+    it('should apply policy thresholds', async () => {
+      const result = await analyzeFiles([{ path: 'src/run.ts', before: BEFORE, after: AFTER }], {
+        threshold: 0.1,
+      });
+
+      expect(result.exitCode).toBe(1);
+      expect(result.summary.blockerCount).toBeGreaterThan(0);
+    });
+
+    it('should not register custom pattern descriptions globally', async () => {
+      const result = await analyzeFiles([{ path: 'src/run.ts', before: BEFORE, after: AFTER }], {
+        config: {
+          customPatterns: [
+            {
+              id: 'files-eval',
+              name: 'Eval From Files',
+              description: 'Calls eval',
+              match: 'eval\\(',
+              category: 'side-effect',
+              signalType: 'files-eval',
+              weight: 0.5,
+              signalClass: 'behavioral',
+              enabled: true,
+            },
+          ],
+        },
+      });
+
+      expect(result.files[0].signals.some((s) => s.id === 'files-eval')).toBe(true);
+      expect(getSignalDescription('files-eval').title).toBe('Files Eval');
+    });
+
+    it('should warn about config packs it does not load', async () => {
+      const result = await analyzeFiles([{ path: 'src/run.ts', before: BEFORE, after: AFTER }], {
+        config: { packs: ['./packs/local'] },
+      });
+
+      expect(result.warnings).toContainEqual(expect.objectContaining({ code: 'PACK_WARNING' }));
+    });
+
+    it('should reject an invalid config', async () => {
+      const result = await analyzeFiles([{ path: 'src/run.ts', after: AFTER }], {
+        config: { profile: 42 } as never,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('profile');
+    });
+  });
+
+  describe('policy packs', () => {
+    it('should weigh signals by the pack category weights', async () => {
+      const files = [{ path: 'src/run.ts', before: BEFORE, after: AFTER }];
+      const startup = await analyzeFiles(files, { policyPack: 'startup' });
+      const enterprise = await analyzeFiles(files, { policyPack: 'enterprise' });
+
+      expect(startup.policy?.pack).toBe('startup');
+      expect(enterprise.policy?.pack).toBe('enterprise');
+      expect(enterprise.files[0].riskScore).toBeGreaterThan(startup.files[0].riskScore);
+    });
+
+    it('should accept resolved packs and refuse pack files or packages', async () => {
+      const files = [{ path: 'src/run.ts', before: BEFORE, after: AFTER }];
+      const custom = await analyzeFiles(files, {
+        policyPack: { ...enterprisePack, name: 'payments' },
+      });
+      const fromFile = await analyzeFiles(files, { config: { policyPack: './payments.yml' } });
+
+      expect(custom.policy?.pack).toBe('payments');
+      expect(fromFile.success).toBe(false);
+      expect(fromFile.error).toContain('not a built-in pack');
+    });
+
+    it('should fail on pack conditions and report the rule', async () => {
+      const result = await analyzeFiles([{ path: 'src/run.ts', before: BEFORE, after: AFTER }], {
+        config: { failOn: { minHighestRisk: 1 } },
+      });
+
+      expect(result.exitCode).toBe(1);
+      expect(result.policy).toMatchObject({ pack: 'startup', outcome: 'FAIL' });
+      expect(result.policy?.failures.map((f) => f.rule)).toEqual(['minHighestRisk']);
+    });
+
+    it('should fail on severity counts', () => {
+      const { effectiveConfig } = applyPolicyPack('enterprise');
+      const { shouldFail, failures } = shouldFailAnalysis(effectiveConfig, {
+        highestRisk: 7,
+        blockerCount: 0,
+        severityCounts: { CRITICAL: 0, HIGH: 2, MED: 0, LOW: 0 },
+      });
+
+      expect(shouldFail).toBe(true);
+      expect(failures).toEqual([
+        expect.objectContaining({ rule: 'severityCounts.HIGH', actual: 2, limit: 2 }),
+      ]);
+    });
+  });
+});
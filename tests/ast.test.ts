@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseSelector,
+  compileSelector,
+  queryAst,
+  parseSource,
+  findMissingEffectDependencies,
+} from '../src/ast';
+import { detectWithPacks, validateManifest, DetectorDefinition } from '../src/plugins';
+import { detectSignals } from '../src/signals/detectors';
+
+describe('AST engine', () => {
+  describe('parseSelector', () => {
+    it('should parse compound selectors with attributes and pseudos', () => {
+      const [selector] = parseSelector(
+        'CallExpression[expression.text="useEffect"]:has(> ArrayLiteralExpression)',
+      );
+
+      expect(selector.steps).toHaveLength(1);
+      const compound = selector.steps[0].compound;
+      expect(compound.kind).toBe('CallExpression');
+      expect(compound.attributes[0]).toEqual({
+        path: ['expression', 'text'],
+        operator: '=',
+        value: { type: 'string', value: 'useEffect' },
+      });
+      expect(compound.pseudos[0].type).toBe('has');
+      expect(compound.pseudos[0].selectors[0].steps[0].combinator).toBe('child');
+    });
+
+    it('should parse combinators and selector lists', () => {
+      const selectors = parseSelector('FunctionDeclaration > Block CallExpression, Identifier');
+
+      expect(selectors).toHaveLength(2);
+      expect(selectors[0].steps.map((s) => s.combinator)).toEqual([
+        undefined,
+        'child',
+        'descendant',
+      ]);
+    });
+
+    it('should reject malformed selectors', () => {
+      expect(() => parseSelector('CallExpression[')).toThrow(/Invalid selector/);
+      expect(() => parseSelector(':first-child')).toThrow(/unknown pseudo-class/);
+      expect(() => compileSelector('NotAKind')).toThrow(/unknown node kind/);
+    });
+  });
+
+  describe('queryAst', () => {
+    const source = [
+      "import { useEffect } from 'react';",
+      'export function load(id: string) {',
+      '  fetch(`/api/${id}`);',
+      '  return window.fetch(id);',
+      '}',
+      'const handler = async () => fetch("/x");',
+    ].join('\n');
+
+    it('should match nodes by kind and attribute with precise ranges', () => {
+      const matches = queryAst(source, 'api.ts', 'CallExpression[expression.text="fetch"]');
+
+      expect(matches).toHaveLength(2);
+      expect(matches[0].kind).toBe('CallExpression');
+      expect(matches[0].range).toEqual({ startLine: 3, startColumn: 3, endLine: 3, endColumn: 22 });
+      expect(matches[1].range.startLine).toBe(6);
+    });
+
+    it('should fall back to source text for text attributes', () => {
+      const matches = queryAst(source, 'api.ts', 'CallExpression[expression.text=/fetch$/]');
+      expect(matches.map((m) => m.text)).toContain('window.fetch(id)');
+    });
+
+    it('should support descendant, child, :has and :not', () => {
+      expect(queryAst(source, 'api.ts', 'FunctionDeclaration CallExpression')).toHaveLength(2);
+      expect(queryAst(source, 'api.ts', 'ReturnStatement > CallExpression')).toHaveLength(1);
+      expect(
+        queryAst(source, 'api.ts', 'ArrowFunction:has(CallExpression[expression.text="fetch"])'),
+      ).toHaveLength(1);
+      expect(
+        queryAst(source, 'api.ts', 'CallExpression:not([expression.text="fetch"])'),
+      ).toHaveLength(1);
+    });
+
+    it('should return nothing for files it cannot parse', () => {
+      expect(queryAst('<template></template>', 'App.vue', 'Identifier')).toEqual([]);
+    });
+  });
+
+  describe('findMissingEffectDependencies', () => {
+    const component = [
+      "import { useEffect, useState, useRef } from 'react';",
+      'export function Profile({ userId, theme }: Props) {',
+      '  const [user, setUser] = useState(null);',
+      '  const timer = useRef(0);',
+      '  useEffect(() => {',
+      '    fetchUser(userId, theme).then(setUser);',
+      '    timer.current = 1;',
+      '  }, [theme]);',
+      '  useEffect(() => {',
+      '    const local = user;',
+      '    console.log(local);',
+      '  }, [user]);',
+      '  return null;',
+      '}',
+    ].join('\n');
+
+    it('should report identifiers read by the effect but not listed', () => {
+      const results = findMissingEffectDependencies(parseSource(component, 'Profile.tsx')!);
+
+      expect(results).toHaveLength(1);
+      expect(results[0].hook).toBe('useEffect');
+      expect(results[0].missing).toEqual(['userId']);
+      expect(results[0].range.startLine).toBe(5);
+    });
+
+    it('should emit an ast signal from the React detector', () => {
+      const signals = detectSignals(component, 'Profile.tsx', 'react');
+      const signal = signals.find((s) => s.id === 'react-effect-missing-deps');
+
+      expect(signal).toBeDefined();
+      expect(signal!.evidence.kind).toBe('ast');
+      expect(signal!.evidence.range?.startLine).toBe(5);
+      expect(signal!.lines).toEqual([5]);
+    });
+  });
+
+  describe('pack AST detection', () => {
+    const detector: DetectorDefinition = {
+      id: 'no-eval',
+      name: 'No eval',
+      description: 'eval calls',
+      detect: {
+        type: 'ast',
+        queryLanguage: 'tsquery',
+        queries: [
+          {
+            id: 'eval-call',
+            query: 'CallExpression[expression.text="eval"]',
+            signal: {
+              id: 'team-eval',
+              title: 'eval call',
+              reason: 'eval executes arbitrary code',
+              class: 'critical',
+              category: 'side-effect',
+              severity: 'blocker',
+              confidence: 'high',
+              weight: 1,
+            },
+          },
+        ],
+      },
+    };
+
+    it('should emit signals with ast evidence and node ranges', () => {
+      const content = 'const a = 1;\n// eval("x") in a comment\nconst b = eval(input);\n';
+      const signals = detectWithPacks(content, 'src/run.ts', [detector]);
+
+      expect(signals).toHaveLength(1);
+      expect(signals[0].lines).toEqual([3]);
+      expect(signals[0].evidence).toMatchObject({
+        kind: 'ast',
+        astNode: 'CallExpression',
+        range: { startLine: 3, startColumn: 11, endLine: 3, endColumn: 22 },
+      });
+    });
+
+    it('should reject packs with invalid queries at load time', () => {
+      const manifest = (query: string, queryLanguage = 'tsquery') => ({
+        name: 'bad-pack',
+        version: '1.0.0',
+        description: 'Bad',
+        diffesenseVersion: '>=1.0.0',
+        diffesense: {
+          type: 'detector-pack',
+          detectors: [
+            {
+              ...detector,
+              detect: { type: 'ast', queryLanguage, queries: [{ id: 'q', query, signal: {} }] },
+            },
+          ],
+        },
+      });
+
+      expect(() => validateManifest(manifest('CallExpression[expression.text='))).toThrow(
+        /Invalid selector/,
+      );
+      expect(() => validateManifest(manifest('Identifier', 'tree-sitter'))).toThrow(
+        /unsupported queryLanguage/,
+      );
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { execSync } from 'child_process';
+import {
+  buildDependencyGraph,
+  buildDependentsGraph,
+  buildRepoDependencyGraph,
+  calculateBlastRadiusFromGraph,
+  extractModuleSpecifiers,
+} from '../src/analyzers/blastRadius';
+import { ModuleResolver } from '../src/analyzers/resolver';
+import { analyze } from '../src/core/analyze';
+
+describe('Blast Radius', () => {
+  let tempDir: string;
+
+  function write(file: string, content: string) {
+    const fullPath = path.join(tempDir, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  }
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'diffesense-blast-'));
+    execSync('git init', { cwd: tempDir, stdio: 'pipe' });
+    execSync('git config user.email "test@test.com"', { cwd: tempDir, stdio: 'pipe' });
+    execSync('git config user.name "Test"', { cwd: tempDir, stdio: 'pipe' });
+
+    write('package.json', JSON.stringify({ name: 'app', private: true }));
+    write(
+      'tsconfig.json',
+      `{
+        // path aliases
+        "compilerOptions": { "baseUrl": ".", "paths": { "@app/*": ["src/*"] }, },
+      }`,
+    );
+    write('src/core/util.ts', 'export const util = 1;\n');
+    write('src/core/index.ts', "export * from './util';\n");
+    write('src/feature/a.ts', "import { util } from '@app/core';\nexport const a = util;\n");
+    write('src/feature/b.ts', "import { a } from './a.js';\nexport const b = a;\n");
+    write('src/feature/a.test.ts', "import { util } from '../core/util';\n");
+    write(
+      'src/feature/c.ts',
+      [
+        "import React from 'react';",
+        "import { shared } from '@acme/shared';",
+        "import { add } from '@acme/shared/utils/math';",
+        'export const c = [React, shared, add];',
+        '',
+      ].join('\n'),
+    );
+    write(
+      'packages/shared/package.json',
+      JSON.stringify({
+        name: '@acme/shared',
+        exports: {
+          '.': { types: './dist/index.d.ts', import: './dist/index.js' },
+          './utils/*': './dist/utils/*.js',
+        },
+      }),
+    );
+    write('packages/shared/src/index.ts', 'export const shared = true;\n');
+    write('packages/shared/src/utils/math.ts', 'export const add = 1;\n');
+
+    execSync('git add . && git commit -q -m "init"', { cwd: tempDir, stdio: 'pipe' });
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('extractModuleSpecifiers', () => {
+    it('should include re-exports, require and dynamic imports', () => {
+      const specifiers = extractModuleSpecifiers(
+        [
+          "export * from './a';",
+          "export { b } from './b';",
+          "import type { C } from '@app/c';",
+          "const d = require('./d');",
+          "const e = await import('./e');",
+        ].join('\n'),
+      );
+
+      expect(specifiers).toEqual(['./a', './b', '@app/c', './d', './e']);
+    });
+  });
+
+  describe('ModuleResolver', () => {
+    it('should resolve tsconfig paths to index barrels', () => {
+      const resolver = new ModuleResolver(tempDir);
+
+      expect(resolver.resolve('@app/core', 'src/feature/a.ts').path).toBe('src/core/index.ts');
+      expect(resolver.resolve('@app/core/util', 'src/feature/a.ts').path).toBe(
+        'src/core/util.ts',
+      );
+    });
+
+    it('should map .js specifiers to TypeScript sources', () => {
+      const resolver = new ModuleResolver(tempDir);
+
+      expect(resolver.resolve('./a.js', 'src/feature/b.ts').path).toBe('src/feature/a.ts');
+    });
+
+    it('should resolve workspace package exports back to source', () => {
+      const resolver = new ModuleResolver(tempDir);
+
+      expect(resolver.resolve('@acme/shared', 'src/feature/c.ts').path).toBe(
+        'packages/shared/src/index.ts',
+      );
+      expect(resolver.resolve('@acme/shared/utils/math', 'src/feature/c.ts').path).toBe(
+        'packages/shared/src/utils/math.ts',
+      );
+    });
+
+    it('should treat npm packages as external', () => {
+      const resolver = new ModuleResolver(tempDir);
+
+      expect(resolver.resolve('react', 'src/feature/c.ts')).toEqual({
+        specifier: 'react',
+        path: null,
+        external: true,
+      });
+    });
+  });
+
+  describe('buildRepoDependencyGraph', () => {
+    it('should follow aliases and export * chains transitively', () => {
+      const graph = buildRepoDependencyGraph(tempDir);
+      const radius = calculateBlastRadiusFromGraph('src/core/util.ts', graph);
+
+      expect(radius.directDependents).toEqual(['src/core/index.ts']);
+      expect(radius.indirectDependents.sort()).toEqual(['src/feature/a.ts', 'src/feature/b.ts']);
+    });
+
+    it('should report high confidence when every local import resolves', () => {
+      const graph = buildRepoDependencyGraph(tempDir);
+
+      expect(calculateBlastRadiusFromGraph('src/core/util.ts', graph).confidence).toBe('high');
+      expect(graph.dependents.get('packages/shared/src/utils/math.ts')).toEqual(
+        new Set(['src/feature/c.ts']),
+      );
+    });
+
+    it('should exclude test files unless requested', () => {
+      const withoutTests = buildRepoDependencyGraph(tempDir);
+      const withTests = buildRepoDependencyGraph(tempDir, { includeTests: true });
+
+      expect(withoutTests.dependents.get('src/core/util.ts')!.has('src/feature/a.test.ts')).toBe(
+        false,
+      );
+      expect(withTests.dependents.get('src/core/util.ts')!.has('src/feature/a.test.ts')).toBe(
+        true,
+      );
+    });
+
+    it('should lower confidence when local imports are unresolved', () => {
+      write('src/feature/broken.ts', "import { x } from './missing';\n");
+      try {
+        const graph = buildRepoDependencyGraph(tempDir);
+        const radius = calculateBlastRadiusFromGraph('src/core/util.ts', graph);
+
+        expect(graph.unresolved!.get('src/feature/broken.ts')).toEqual(['./missing']);
+        expect(radius.confidence).toBe('medium');
+        expect(radius.confidenceReason).toContain('1 local import(s)');
+      } finally {
+        fs.rmSync(path.join(tempDir, 'src/feature/broken.ts'));
+      }
+    });
+
+    it('should report medium confidence for a subset graph', () => {
+      const graph = buildDependencyGraph(tempDir, ['src/core/index.ts', 'src/core/util.ts']);
+
+      expect(calculateBlastRadiusFromGraph('src/core/util.ts', graph).confidence).toBe('medium');
+    });
+  });
+
+  describe('buildDependentsGraph', () => {
+    it('should find the same dependents as the whole-repo graph', () => {
+      const graph = buildDependentsGraph(tempDir, ['src/core/util.ts']);
+      const radius = calculateBlastRadiusFromGraph('src/core/util.ts', graph);
+
+      expect(radius.directDependents).toEqual(['src/core/index.ts']);
+      expect(radius.indirectDependents.sort()).toEqual(['src/feature/a.ts', 'src/feature/b.ts']);
+      expect(radius.confidence).toBe('high');
+    });
+
+    it('should only read files that import the targets', () => {
+      const graph = buildDependentsGraph(tempDir, ['packages/shared/src/index.ts']);
+
+      expect([...graph.dependencies.keys()].sort()).toEqual([
+        'packages/shared/src/index.ts',
+        'src/feature/c.ts',
+      ]);
+    });
+  });
+
+  describe('analyze() integration', () => {
+    it('should count dependents outside the diff', async () => {
+      write('src/core/util.ts', 'export const util = 2;\n');
+      try {
+        const result = await analyze({ cwd: tempDir, scope: 'working' });
+        const file = result.files.find((f) => f.path === 'src/core/util.ts')!;
+
+        // The index.ts barrel only re-exports util, so it is not counted
+        expect(file.blastRadius).toBe(2);
+        expect(file.blastRadiusConfidence).toBe('high');
+        expect(result.warnings.some((w) => w.code === 'BLAST_RADIUS_UNRESOLVED')).toBe(false);
+      } finally {
+        execSync('git checkout -- .', { cwd: tempDir, stdio: 'pipe' });
+      }
+    });
+  });
+});
@@ -5,6 +5,8 @@ import {
   suggestReviewers,
   getUniqueReviewers,
   formatReviewersForComment,
+  getFileOwnership,
+  routeReviewers,
   CodeOwnersConfig,
 } from '../src/core/codeowners';
 
@@ -217,5 +219,87 @@ src/* @team
       expect(formatted).toContain('No specific reviewers');
     });
   });
+
+  describe('getFileOwnership', () => {
+    const config: CodeOwnersConfig = {
+      filePath: 'CODEOWNERS',
+      rules: [{ line: 1, pattern: 'src/auth/**', owners: ['@security'], negation: false }],
+      defaultOwners: [],
+    };
+
+    it('should use CODEOWNERS match when available', () => {
+      const ownership = getFileOwnership({ path: 'src/auth/login.ts', riskScore: 3.0 }, config, {
+        defaultReviewers: ['@leads'],
+      });
+
+      expect(ownership.owners).toEqual(['@security']);
+      expect(ownership.reviewers).toEqual(['@security']);
+      expect(ownership.matchedPattern).toBe('src/auth/**');
+      expect(ownership.escalated).toBe(false);
+    });
+
+    it('should fall back to defaultReviewers when no rule matches', () => {
+      const ownership = getFileOwnership({ path: 'src/utils.ts', riskScore: 3.0 }, config, {
+        defaultReviewers: ['@leads'],
+      });
+
+      expect(ownership.owners).toEqual(['@leads']);
+      expect(ownership.matchedPattern).toBeNull();
+    });
+
+    it('should escalate to defaultReviewers when risk reaches threshold', () => {
+      const ownership = getFileOwnership({ path: 'src/auth/login.ts', riskScore: 8.0 }, config, {
+        defaultReviewers: ['@leads'],
+        escalateIfRiskAbove: 7.0,
+      });
+
+      expect(ownership.escalated).toBe(true);
+      expect(ownership.owners).toEqual(['@security']);
+      expect(ownership.reviewers).toEqual(['@security', '@leads']);
+    });
+
+    it('should work without a CODEOWNERS file', () => {
+      const ownership = getFileOwnership({ path: 'src/auth/login.ts', riskScore: 1.0 }, null, {
+        defaultReviewers: ['@leads'],
+      });
+
+      expect(ownership.owners).toEqual(['@leads']);
+    });
+  });
+
+  describe('routeReviewers', () => {
+    it('should aggregate reviewers with riskiest files first', () => {
+      const routing = routeReviewers(
+        [
+          {
+            path: 'src/utils.ts',
+            riskScore: 2.0,
+            ownership: {
+              owners: ['@core'],
+              reviewers: ['@core'],
+              matchedPattern: '*',
+              escalated: false,
+            },
+          },
+          {
+            path: 'src/auth/login.ts',
+            riskScore: 8.0,
+            ownership: {
+              owners: ['@security'],
+              reviewers: ['@security', '@leads'],
+              matchedPattern: 'src/auth/**',
+              escalated: true,
+            },
+          },
+        ],
+        'CODEOWNERS',
+      );
+
+      expect(routing.reviewers).toEqual(['@security', '@leads', '@core']);
+      expect(routing.escalationReviewers).toEqual(['@leads']);
+      expect(routing.escalatedFiles).toEqual(['src/auth/login.ts']);
+      expect(routing.codeownersPath).toBe('CODEOWNERS');
+    });
+  });
 });
 
@@ -1,10 +1,14 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
 import {
   parseConfig,
   formatValidationErrors,
   getDefaultConfig,
   DiffeSenseConfig,
 } from '../src/config/schema';
+import { loadConfigFile, resolveConfig } from '../src/config/loader';
 
 describe('Config Schema', () => {
   describe('parseConfig', () => {
@@ -88,6 +92,24 @@ describe('Config Schema', () => {
       expect(result.errors.some((e) => e.message.includes('10'))).toBe(true);
     });
 
+    it('should reject policy packs that cannot name a pack', () => {
+      const result = parseConfig({ policyPack: 'Strict Pack' });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].path).toBe('policyPack');
+      expect(result.errors[0].message).toContain('Invalid policy pack "Strict Pack"');
+
+      for (const policyPack of [
+        'oss',
+        './packs/strict.yml',
+        'strict.json',
+        '@acme/pack',
+        'diffesense-pack-acme',
+      ]) {
+        expect(parseConfig({ policyPack }).valid).toBe(true);
+      }
+    });
+
     it('should accept ignore as array', () => {
       const result = parseConfig({
         ignore: ['**/dist/**', '**/*.lock'],
@@ -158,6 +180,27 @@ describe('Config Schema', () => {
       expect(result.valid).toBe(false);
     });
 
+    it('should reject custom patterns with invalid regex', () => {
+      const result = parseConfig({
+        customPatterns: [
+          {
+            id: 'my-pattern',
+            name: 'My Pattern',
+            description: 'Detects something',
+            match: 'myFunction(',
+            category: 'side-effect',
+            signalType: 'my-signal',
+            weight: 0.5,
+            signalClass: 'behavioral',
+          },
+        ],
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].path).toBe('customPatterns.0.match');
+      expect(result.errors[0].message).toContain('Invalid regular expression');
+    });
+
     it('should validate rules', () => {
       const result = parseConfig({
         rules: [
@@ -237,5 +280,246 @@ describe('Config Schema', () => {
       expect(formatted).toContain('deprecated');
     });
   });
+
+  describe('extends', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'diffesense-config-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    const writeFile = (relativePath: string, content: string): string => {
+      const fullPath = path.join(tempDir, relativePath);
+      fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+      fs.writeFileSync(fullPath, content);
+      return fullPath;
+    };
+
+    it('should merge extended packages and files in order', async () => {
+      const shared = writeFile(
+        'node_modules/@acme/diffesense-config/.diffesense.yml',
+        [
+          'profile: react',
+          'policyPack: enterprise',
+          'failOn:',
+          '  minBlockers: 2',
+          '  severityCounts:',
+          '    HIGH: 3',
+          'packs: [shared-pack]',
+          '',
+        ].join('\n'),
+      );
+      writeFile(
+        'node_modules/@acme/diffesense-config/package.json',
+        '{"name":"@acme/diffesense-config"}',
+      );
+      const team = writeFile('config/team.json', JSON.stringify({ failOn: { minBlockers: 1 } }));
+      const local = writeFile(
+        '.diffesense.yml',
+        [
+          'extends:',
+          '  - "@acme/diffesense-config"',
+          '  - ./config/team.json',
+          'packs: [local-pack]',
+          '',
+        ].join('\n'),
+      );
+
+      const result = await loadConfigFile(local);
+
+      expect(result.valid).toBe(true);
+      expect(result.layers?.map((l) => l.source)).toEqual([shared, team, local]);
+      expect(result.config).toMatchObject({
+        profile: 'react',
+        policyPack: 'enterprise',
+        failOn: { minBlockers: 1, severityCounts: { HIGH: 3 } },
+        packs: ['shared-pack', 'local-pack'],
+      });
+    });
+
+    it('should record which file set each value', async () => {
+      const base = writeFile('base.yml', 'profile: react\nthresholds:\n  fail: 8\npacks: [a]\n');
+      const local = writeFile(
+        '.diffesense.yml',
+        'extends: ./base.yml\nthresholds:\n  warn: 4\npacks: [b]\n',
+      );
+
+      const { origins } = await resolveConfig({ cwd: tempDir });
+
+      expect(origins).toMatchObject({
+        profile: [base],
+        'thresholds.fail': [base],
+        'thresholds.warn': [local],
+        packs: [base, local],
+      });
+      expect(origins.contextLines).toBeUndefined();
+    });
+
+    it('should resolve relative pack paths from the extended config', async () => {
+      const shared = writeFile(
+        'shared/.diffesense.yml',
+        'policyPack: ./policy.yml\npacks: [./packs/web.yml, "@acme/pack", lint-pack]\n',
+      );
+      const local = writeFile(
+        '.diffesense.yml',
+        'extends: ./shared\npacks: [./packs/local.yml]\n',
+      );
+
+      const result = await loadConfigFile(local);
+
+      expect(result.layers?.map((l) => l.source)).toEqual([shared, local]);
+      expect(result.config).toMatchObject({
+        policyPack: path.join(tempDir, 'shared/policy.yml'),
+        packs: [
+          path.join(tempDir, 'shared/packs/web.yml'),
+          '@acme/pack',
+          'lint-pack',
+          './packs/local.yml',
+        ],
+      });
+    });
+
+    it('should report missing and circular extends', async () => {
+      const missing = writeFile('missing.yml', 'extends: ./nope.yml\n');
+      writeFile('a.yml', 'extends: ./b.yml\n');
+      writeFile('b.yml', 'extends: ./a.yml\n');
+
+      expect((await loadConfigFile(missing)).errors[0].message).toContain(
+        'Cannot find config "./nope.yml"',
+      );
+      expect((await loadConfigFile(path.join(tempDir, 'a.yml'))).errors[0].code).toBe(
+        'extends_cycle',
+      );
+    });
+  });
+
+  describe('config modules', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'diffesense-config-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    const writeFile = (relativePath: string, content: string): string => {
+      const fullPath = path.join(tempDir, relativePath);
+      fs.writeFileSync(fullPath, content);
+      return fullPath;
+    };
+
+    it('should load a TypeScript config written with defineConfig', async () => {
+      const file = writeFile(
+        'diffesense.config.ts',
+        [
+          "import { defineConfig, UserConfig } from 'diffesense';",
+          '',
+          "const paths: string[] = ['src/payments/**', 'src/billing/**'];",
+          '',
+          'export default defineConfig({',
+          "  profile: 'backend',",
+          '  actions: {',
+          "    mapping: paths.map((pattern) => ({ pattern, reviewers: ['@payments'] })),",
+          '  },',
+          '} satisfies UserConfig);',
+          '',
+        ].join('\n'),
+      );
+
+      const result = await loadConfigFile(file);
+
+      expect(result.errors).toEqual([]);
+      expect(result.config?.profile).toBe('backend');
+      expect(result.config?.actions?.mapping?.map((m) => m.pattern)).toEqual([
+        'src/payments/**',
+        'src/billing/**',
+      ]);
+    });
+
+    it('should call exported functions with the repository context', async () => {
+      writeFile(
+        'diffesense.config.mjs',
+        [
+          'export default async ({ cwd, branch, changedFiles, env }) => ({',
+          "  policyPack: env.DIFFESENSE_TEST_PACK,",
+          '  topN: changedFiles.length + 1,',
+          "  profile: branch === null && cwd.length > 0 ? 'minimal' : 'react',",
+          '});',
+          '',
+        ].join('\n'),
+      );
+      process.env.DIFFESENSE_TEST_PACK = 'enterprise';
+
+      try {
+        const { config, source } = await resolveConfig({ cwd: tempDir });
+
+        expect(source).toBe(path.join(tempDir, 'diffesense.config.mjs'));
+        expect(config).toMatchObject({ policyPack: 'enterprise', topN: 1, profile: 'minimal' });
+      } finally {
+        delete process.env.DIFFESENSE_TEST_PACK;
+      }
+    });
+
+    it('should import .mjs configs as ES modules', async () => {
+      const file = writeFile(
+        'diffesense.config.mjs',
+        [
+          "import { basename } from 'node:path';",
+          '',
+          'const profile = await Promise.resolve(',
+          "  basename(new URL(import.meta.url).pathname).startsWith('diffesense') ? 'react' : 'vue',",
+          ');',
+          'export default { profile };',
+          '',
+        ].join('\n'),
+      );
+
+      const result = await loadConfigFile(file);
+
+      expect(result.errors).toEqual([]);
+      expect(result.config?.profile).toBe('react');
+    });
+
+    it('should evaluate .mjs configs again only when they change', async () => {
+      const file = writeFile(
+        'diffesense.config.mjs',
+        [
+          'globalThis.__dsenseConfigLoads = (globalThis.__dsenseConfigLoads ?? 0) + 1;',
+          'export default { topN: globalThis.__dsenseConfigLoads };',
+          '',
+        ].join('\n'),
+      );
+
+      try {
+        expect((await loadConfigFile(file)).config?.topN).toBe(1);
+        expect((await loadConfigFile(file)).config?.topN).toBe(1);
+
+        const later = new Date(Date.now() + 5000);
+        fs.utimesSync(file, later, later);
+        expect((await loadConfigFile(file)).config?.topN).toBe(2);
+      } finally {
+        delete (globalThis as Record<string, unknown>).__dsenseConfigLoads;
+      }
+    });
+
+    it('should validate the exported config and report module errors', async () => {
+      const invalid = writeFile('invalid.config.cjs', 'module.exports = { topN: 0 };\n');
+      const throwing = writeFile('throwing.config.js', "throw new Error('no config today');\n");
+
+      const invalidResult = await loadConfigFile(invalid);
+      const throwingResult = await loadConfigFile(throwing);
+
+      expect(invalidResult.valid).toBe(false);
+      expect(invalidResult.errors[0].path).toBe('topN');
+      expect(throwingResult.errors[0]).toMatchObject({ code: 'parse_error' });
+      expect(throwingResult.errors[0].message).toContain('no config today');
+    });
+  });
 });
 
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import {
+  collectChangedRanges,
   expandRangesWithContext,
   mergeRanges,
   isLineInChangedRange,
@@ -9,6 +10,33 @@ import {
 } from '../src/git/diffParser';
 
 describe('diffParser', () => {
+  describe('collectChangedRanges', () => {
+    it('should close a range at the next hunk header', () => {
+      // Hunks without context lines, as in `git diff -U0`
+      const ranges = collectChangedRanges(
+        ['@@ -2 +2 @@', '-old', '+new', '@@ -10,0 +11,2 @@', '+one', '+two'],
+        'modified',
+      );
+
+      expect(ranges).toEqual([
+        { startLine: 2, endLine: 2, type: 'modified', lineCount: 1 },
+        { startLine: 11, endLine: 12, type: 'modified', lineCount: 2 },
+      ]);
+    });
+
+    it('should report a deletion-only hunk as a one-line range', () => {
+      const ranges = collectChangedRanges(
+        ['@@ -4,2 +3,0 @@', '-gone', '-also gone', '@@ -9 +8 @@', '-a', '+b'],
+        'modified',
+      );
+
+      expect(ranges.map((r) => [r.startLine, r.endLine])).toEqual([
+        [3, 3],
+        [8, 8],
+      ]);
+    });
+  });
+
   describe('expandRangesWithContext', () => {
     it('should expand ranges with context lines', () => {
       const ranges: ChangedRange[] = [
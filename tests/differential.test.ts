@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { execSync } from 'child_process';
+import { analyze } from '../src/core/analyze';
+import { classifySignalDeltas } from '../src/core/differential';
+import { formatJsonOutput } from '../src/output/formatters/dsJson';
+import { evaluateRules } from '../src/policy/engine';
+import { Signal } from '../src/signals/types';
+
+function signal(id: string, line: number, snippet: string): Signal {
+  return {
+    id,
+    title: id,
+    class: 'critical',
+    category: 'side-effect',
+    severity: 'blocker',
+    confidence: 'high',
+    weight: 1,
+    filePath: 'src/a.ts',
+    lines: [line],
+    snippet,
+    reason: `${id} found`,
+    evidence: { kind: 'regex' },
+  };
+}
+
+describe('Differential Signals', () => {
+  describe('classifySignalDeltas', () => {
+    it('should mark signals present in the base as pre-existing even when moved', () => {
+      const head = [signal('sec-eval', 12, 'eval(code);')];
+      const base = [signal('sec-eval', 3, '  eval(code);')];
+
+      const result = classifySignalDeltas(head, head, base);
+
+      expect(result.deltas).toEqual(['pre-existing']);
+      expect(result.resolved).toEqual([]);
+    });
+
+    it('should mark new signals as introduced and removed ones as resolved', () => {
+      const head = [signal('sec-eval', 5, 'eval(input);')];
+      const base = [signal('sec-eval', 5, 'eval(code);')];
+
+      const result = classifySignalDeltas(head, head, base);
+
+      expect(result.deltas).toEqual(['introduced']);
+      expect(result.resolved).toHaveLength(1);
+      expect(result.resolved[0]).toMatchObject({ snippet: 'eval(code);', delta: 'resolved' });
+    });
+
+    it('should attribute a duplicated signal to the changed line', () => {
+      const old = signal('sec-eval', 2, 'eval(code);');
+      const added = signal('sec-eval', 8, 'eval(code);');
+
+      const result = classifySignalDeltas([old, added], [old, added], [old], [
+        { startLine: 8, endLine: 8, type: 'added', lineCount: 1 },
+      ]);
+
+      expect(result.deltas).toEqual(['pre-existing', 'introduced']);
+    });
+
+    it('should count signals outside the reported window', () => {
+      const old = signal('sec-eval', 2, 'eval(code);');
+      const added = signal('sec-eval', 40, 'eval(code);');
+
+      // Only the new signal is in the diff window, but the head has two
+      const result = classifySignalDeltas([added], [old, added], [old]);
+
+      expect(result.deltas).toEqual(['introduced']);
+    });
+  });
+
+  describe('analyze() integration', () => {
+    const EDITED_NEXT_TO_EVAL = [
+      'export function run(code: string) {',
+      '  const x = 2;',
+      '  return eval(code);',
+      '}',
+    ];
+
+    let tempDir: string;
+
+    function writeRun(lines: string[]) {
+      fs.writeFileSync(path.join(tempDir, 'src', 'run.ts'), [...lines, ''].join('\n'));
+    }
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'diffesense-differential-'));
+      execSync('git init', { cwd: tempDir, stdio: 'pipe' });
+      execSync('git config user.email "test@test.com"', { cwd: tempDir, stdio: 'pipe' });
+      execSync('git config user.name "Test"', { cwd: tempDir, stdio: 'pipe' });
+
+      fs.mkdirSync(path.join(tempDir, 'src'));
+      writeRun([
+        'export function run(code: string) {',
+        '  const x = 1;',
+        '  return eval(code);',
+        '}',
+      ]);
+      execSync('git add . && git commit -m "init"', { cwd: tempDir, stdio: 'pipe' });
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should not blame an edit next to an old eval for it', async () => {
+      writeRun(EDITED_NEXT_TO_EVAL);
+
+      const result = await analyze({ cwd: tempDir, scope: 'working', differential: true });
+      const file = result.files[0];
+      const evalSignal = file.signals.find((s) => s.id === 'sec-eval');
+
+      expect(evalSignal?.delta).toBe('pre-existing');
+      expect(file.differential?.preExisting).toBeGreaterThan(0);
+      expect(result.summary.differential?.introduced).toBe(file.differential?.introduced);
+    });
+
+    it('should report newly added risks as introduced and removed ones as resolved', async () => {
+      writeRun([
+        'export function run(code: string) {',
+        '  const x = 1;',
+        '  return new Function(code)();',
+        '}',
+      ]);
+
+      const result = await analyze({ cwd: tempDir, scope: 'working', differential: true });
+      const file = result.files[0];
+
+      expect(file.signals.find((s) => s.id === 'sec-eval')?.delta).toBe('introduced');
+      expect(file.differential?.resolved.map((s) => s.id)).toContain('sec-eval');
+
+      const json = JSON.parse(formatJsonOutput(result));
+      expect(json.files[0].differential.resolved[0]).toMatchObject({ id: 'sec-eval', line: 3 });
+      expect(json.summary.differential.resolved).toBeGreaterThan(0);
+    });
+
+    it('should leave pre-existing signals out of scoring with introducedOnly', async () => {
+      writeRun(EDITED_NEXT_TO_EVAL);
+
+      const all = await analyze({ cwd: tempDir, scope: 'working' });
+      const focused = await analyze({ cwd: tempDir, scope: 'working', introducedOnly: true });
+
+      expect(all.files[0].signalTypes).toContain('sec-eval');
+      const file = focused.files[0];
+      expect(file?.signalTypes ?? []).not.toContain('sec-eval');
+      expect(file?.riskScore ?? 0).toBeLessThan(all.files[0].riskScore);
+      expect(focused.summary.differential?.preExisting).toBeGreaterThan(0);
+    });
+
+    it('should classify renamed files against their old path', async () => {
+      execSync('git mv src/run.ts src/exec.ts', { cwd: tempDir, stdio: 'pipe' });
+      fs.appendFileSync(path.join(tempDir, 'src', 'exec.ts'), 'export const y = 1;\n');
+      execSync('git add .', { cwd: tempDir, stdio: 'pipe' });
+
+      const result = await analyze({ cwd: tempDir, scope: 'staged', differential: true });
+      const file = result.files.find((f) => f.path === 'src/exec.ts');
+
+      expect(file?.differential).toBeDefined();
+      expect(file?.signals.find((s) => s.id === 'sec-eval')?.delta ?? 'pre-existing').toBe(
+        'pre-existing',
+      );
+    });
+
+    it('should skip classification unless enabled', async () => {
+      writeRun(EDITED_NEXT_TO_EVAL);
+
+      const result = await analyze({ cwd: tempDir, scope: 'working' });
+      const disabled = await analyze({
+        cwd: tempDir,
+        scope: 'working',
+        introducedOnly: true,
+        differential: false,
+      });
+
+      expect(result.files[0].differential).toBeUndefined();
+      expect(result.summary.differential).toBeUndefined();
+      expect(disabled.files[0].differential).toBeUndefined();
+    });
+  });
+
+  describe('policy rules', () => {
+    it('should match signalDelta conditions against signal deltas', () => {
+      const file = {
+        path: 'src/a.ts',
+        riskScore: 8,
+        blastRadius: 0,
+        evidence: [],
+        riskReasons: [],
+        signalTypes: ['sec-eval'],
+        signals: [
+          {
+            id: 'sec-eval',
+            class: 'critical',
+            severity: 'blocker',
+            confidence: 'high',
+            lines: [3],
+            delta: 'pre-existing',
+          },
+        ],
+      } as any;
+      const rule = {
+        id: 'new-critical',
+        when: { signalDelta: ['introduced'], signalClasses: ['critical'] },
+        then: { severity: 'blocker' },
+      } as any;
+
+      expect(evaluateRules([file], [rule]).blockers).toHaveLength(0);
+
+      file.signals[0].delta = 'introduced';
+      expect(evaluateRules([file], [rule]).blockers).toHaveLength(1);
+    });
+  });
+});
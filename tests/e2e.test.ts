@@ -153,6 +153,49 @@ describe('E2E Integration Tests', () => {
     });
   });
 
+  describe('Custom Patterns', () => {
+    it('should report signals from config customPatterns', async () => {
+      fs.writeFileSync(
+        path.join(tempDir, '.diffesense.yml'),
+        [
+          'customPatterns:',
+          '  - id: legacy-api',
+          '    name: Legacy API call',
+          '    description: Calls the deprecated legacy API',
+          "    match: 'legacyApi\\.'",
+          '    category: side-effect',
+          '    signalType: legacy-api-call',
+          '    weight: 0.6',
+          '    signalClass: behavioral',
+          '  - id: vue-only',
+          '    name: Vue only',
+          '    description: Only applies to Vue files',
+          "    match: 'legacyApi'",
+          '    category: side-effect',
+          '    signalType: vue-only-signal',
+          '    weight: 0.6',
+          '    signalClass: behavioral',
+          '    framework: vue',
+          '',
+        ].join('\n'),
+      );
+      fs.writeFileSync(path.join(tempDir, 'legacy.ts'), `export const r = legacyApi.get();\n`);
+      execSync('git add legacy.ts', { cwd: tempDir, stdio: 'pipe' });
+
+      try {
+        const result = await analyze({ cwd: tempDir, scope: 'staged' });
+
+        const file = result.files.find((f) => f.path === 'legacy.ts');
+        expect(file?.signalTypes).toContain('legacy-api-call');
+        expect(file?.signalTypes).not.toContain('vue-only-signal');
+      } finally {
+        execSync('git reset HEAD', { cwd: tempDir, stdio: 'pipe' });
+        fs.unlinkSync(path.join(tempDir, 'legacy.ts'));
+        fs.unlinkSync(path.join(tempDir, '.diffesense.yml'));
+      }
+    });
+  });
+
   describe('Test File Filtering', () => {
     it('should exclude test files by default', async () => {
       fs.writeFileSync(path.join(tempDir, 'utils.test.ts'), `test('x', () => {});\n`);
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { execSync } from 'child_process';
+import { analyze } from '../src/core/analyze';
+import { createRepoSnapshot, readFilesAtRef } from '../src/git/objects';
+import { buildRepoDependencyGraph } from '../src/analyzers/blastRadius';
+
+describe('Git Object Snapshots', () => {
+  let tempDir: string;
+  let firstCommit: string;
+  let secondCommit: string;
+
+  function write(file: string, lines: string[]) {
+    fs.mkdirSync(path.dirname(path.join(tempDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, file), [...lines, ''].join('\n'));
+  }
+
+  function commit(message: string): string {
+    execSync(`git add -A && git commit -m "${message}"`, { cwd: tempDir, stdio: 'pipe' });
+    return execSync('git rev-parse HEAD', { cwd: tempDir, encoding: 'utf-8' }).trim();
+  }
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'diffesense-objects-'));
+    execSync('git init', { cwd: tempDir, stdio: 'pipe' });
+    execSync('git config user.email "test@test.com"', { cwd: tempDir, stdio: 'pipe' });
+    execSync('git config user.name "Test"', { cwd: tempDir, stdio: 'pipe' });
+
+    write('src/run.ts', ['export function run(code: string) {', '  return code;', '}']);
+    write('src/app.ts', ["import { run } from './run';", 'run("1");']);
+    firstCommit = commit('init');
+
+    write('src/run.ts', ['export function run(code: string) {', '  return eval(code);', '}']);
+    secondCommit = commit('use eval');
+
+    // The working tree no longer matches either commit
+    write('src/run.ts', ['export function run(code: string) {', '  return code.trim();', '}']);
+    fs.rmSync(path.join(tempDir, 'src', 'app.ts'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('createRepoSnapshot', () => {
+    it('should read files as of the commit', () => {
+      const snapshot = createRepoSnapshot(tempDir, firstCommit)!;
+
+      expect(snapshot.commit).toBe(firstCommit);
+      expect(snapshot.files.sort()).toEqual(['src/app.ts', 'src/run.ts']);
+      expect(snapshot.readFile('src/run.ts')).toContain('return code;');
+      expect(snapshot.readFile('src/missing.ts')).toBeNull();
+    });
+
+    it('should read many files in one pass and skip missing ones', () => {
+      const snapshot = createRepoSnapshot(tempDir, secondCommit)!;
+      const contents = new Map<string, string>();
+
+      snapshot.readFiles(['src/run.ts', 'src/missing.ts', 'src/app.ts'], (file, content) =>
+        contents.set(file, content),
+      );
+
+      expect([...contents.keys()]).toEqual(['src/run.ts', 'src/app.ts']);
+      expect(contents.get('src/run.ts')).toContain('eval(code)');
+    });
+
+    it('should return null for an unknown revision', () => {
+      expect(createRepoSnapshot(tempDir, 'no-such-ref')).toBeNull();
+    });
+
+    it('should build the dependency graph from the snapshot', () => {
+      const snapshot = createRepoSnapshot(tempDir, secondCommit)!;
+
+      const graph = buildRepoDependencyGraph(tempDir, { snapshot });
+
+      expect([...(graph.dependents.get('src/run.ts') ?? [])]).toEqual(['src/app.ts']);
+    });
+  });
+
+  describe('readFilesAtRef', () => {
+    it('should read files at a revision in one batch', () => {
+      const contents = readFilesAtRef(tempDir, firstCommit, ['src/run.ts', 'src/missing.ts']);
+
+      expect([...contents.keys()]).toEqual(['src/run.ts']);
+      expect(contents.get('src/run.ts')).toContain('return code;');
+    });
+
+    it('should read the index for an empty ref', () => {
+      const contents = readFilesAtRef(tempDir, '', ['src/run.ts', 'src/app.ts']);
+
+      expect(contents.get('src/run.ts')).toContain('eval(code)');
+      expect(contents.has('src/app.ts')).toBe(true);
+    });
+  });
+
+  describe('analyze()', () => {
+    it('should analyze a commit as it was, not the working tree', async () => {
+      const result = await analyze({ cwd: tempDir, scope: 'commit', commit: secondCommit });
+
+      const file = result.files.find((f) => f.path === 'src/run.ts');
+      expect(file?.signals.map((s) => s.id)).toContain('sec-eval');
+      expect(file?.blastRadius).toBe(1);
+    });
+
+    it('should read the right side of a range', async () => {
+      const result = await analyze({
+        cwd: tempDir,
+        scope: 'range',
+        range: `${firstCommit}..${secondCommit}`,
+        differential: true,
+      });
+
+      const file = result.files.find((f) => f.path === 'src/run.ts');
+      expect(file?.signals.find((s) => s.id === 'sec-eval')?.delta).toBe('introduced');
+    });
+  });
+});
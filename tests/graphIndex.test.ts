@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { execSync } from 'child_process';
+import {
+  loadIndexedDependencyGraph,
+  rebuildGraphIndex,
+  getGraphIndexStats,
+} from '../src/analyzers/graphIndex';
+import { calculateBlastRadiusFromGraph } from '../src/analyzers/blastRadius';
+import { createCache, getGraphIndexPath, readGraphIndex } from '../src/cache';
+
+describe('Graph Index', () => {
+  let tempDir: string;
+  let cacheDir: string;
+
+  function write(file: string, content: string) {
+    const fullPath = path.join(tempDir, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  }
+
+  function commitAll(message: string) {
+    execSync(`git add . && git commit -q -m "${message}"`, { cwd: tempDir, stdio: 'pipe' });
+  }
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'diffesense-graph-'));
+    cacheDir = path.join(tempDir, '.diffesense/cache');
+    execSync('git init', { cwd: tempDir, stdio: 'pipe' });
+    execSync('git config user.email "test@test.com"', { cwd: tempDir, stdio: 'pipe' });
+    execSync('git config user.name "Test"', { cwd: tempDir, stdio: 'pipe' });
+
+    write('.gitignore', '.diffesense/\n');
+    write('src/util.ts', 'export const util = 1;\n');
+    write('src/a.ts', "import { util } from './util';\nexport const a = util;\n");
+    write('src/b.ts', "import { a } from './a';\nexport const b = a;\n");
+    commitAll('init');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should build a fresh index on first load', () => {
+    const { graph, sync } = loadIndexedDependencyGraph(tempDir, { cacheDir });
+
+    expect(sync).toMatchObject({ mode: 'fresh', files: 3, reparsed: 3 });
+    expect(calculateBlastRadiusFromGraph('src/util.ts', graph).totalDependents).toBe(2);
+    expect(fs.existsSync(getGraphIndexPath(cacheDir))).toBe(true);
+  });
+
+  it('should reuse entries when nothing changed', () => {
+    loadIndexedDependencyGraph(tempDir, { cacheDir });
+    const { sync } = loadIndexedDependencyGraph(tempDir, { cacheDir });
+
+    expect(sync).toMatchObject({ mode: 'incremental', reparsed: 0, removed: 0 });
+  });
+
+  it('should re-read only changed files', () => {
+    loadIndexedDependencyGraph(tempDir, { cacheDir });
+
+    write('src/b.ts', "import { util } from './util';\nexport const b = util;\n");
+    write('src/c.ts', "import { b } from './b';\n");
+    const { graph, sync } = loadIndexedDependencyGraph(tempDir, { cacheDir });
+
+    expect(sync.reparsed).toBe(2);
+    expect(graph.dependencies.get('src/b.ts')).toEqual(new Set(['src/util.ts']));
+    expect(calculateBlastRadiusFromGraph('src/util.ts', graph).totalDependents).toBe(3);
+  });
+
+  it('should pick up files reverted after indexing', () => {
+    write('src/a.ts', 'export const a = 2;\n');
+    loadIndexedDependencyGraph(tempDir, { cacheDir });
+    expect(readGraphIndex(cacheDir)!.dirty).toEqual(['src/a.ts']);
+
+    execSync('git checkout -- src/a.ts', { cwd: tempDir, stdio: 'pipe' });
+    const { graph, sync } = loadIndexedDependencyGraph(tempDir, { cacheDir });
+
+    expect(sync.reparsed).toBe(1);
+    expect(graph.dependencies.get('src/a.ts')).toEqual(new Set(['src/util.ts']));
+  });
+
+  it('should follow new commits and deletions', () => {
+    loadIndexedDependencyGraph(tempDir, { cacheDir });
+
+    fs.rmSync(path.join(tempDir, 'src/b.ts'));
+    commitAll('remove b');
+    const { graph, sync } = loadIndexedDependencyGraph(tempDir, { cacheDir });
+
+    expect(sync).toMatchObject({ mode: 'incremental', files: 2, removed: 1 });
+    expect(graph.dependencies.has('src/b.ts')).toBe(false);
+    expect(readGraphIndex(cacheDir)!.headSha).toBe(
+      execSync('git rev-parse HEAD', { cwd: tempDir, encoding: 'utf-8' }).trim(),
+    );
+  });
+
+  it('should rebuild from scratch', () => {
+    loadIndexedDependencyGraph(tempDir, { cacheDir });
+    const sync = rebuildGraphIndex(tempDir, cacheDir);
+
+    expect(sync).toMatchObject({ mode: 'fresh', reparsed: 3 });
+  });
+
+  it('should report stats and pending files', () => {
+    expect(getGraphIndexStats(tempDir, cacheDir)).toBeNull();
+
+    loadIndexedDependencyGraph(tempDir, { cacheDir });
+    write('src/a.ts', 'export const a = 3;\n');
+    const stats = getGraphIndexStats(tempDir, cacheDir)!;
+
+    expect(stats).toMatchObject({ files: 3, edges: 2, unresolved: 0, pendingFiles: 1 });
+    expect(stats.sizeBytes).toBeGreaterThan(0);
+  });
+
+  it('should survive cache clear', () => {
+    loadIndexedDependencyGraph(tempDir, { cacheDir });
+    createCache(tempDir).clear();
+
+    expect(readGraphIndex(cacheDir)).not.toBeNull();
+  });
+});
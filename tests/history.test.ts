@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { execSync } from 'child_process';
+import {
+  getFileHistory,
+  getHotspotFactors,
+  isFixCommit,
+  FileHistory,
+} from '../src/git/history';
+import { analyze } from '../src/core/analyze';
+import { formatConsoleOutput } from '../src/output/formatters/dsConsole';
+
+describe('Git History', () => {
+  let tempDir: string;
+
+  function commit(file: string, content: string, message: string, author: string, daysAgo = 1) {
+    fs.writeFileSync(path.join(tempDir, file), content);
+    const date = new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000).toISOString();
+    execSync(`git add . && git commit -q -m "${message}"`, {
+      cwd: tempDir,
+      stdio: 'pipe',
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: author,
+        GIT_AUTHOR_EMAIL: `${author}@test.com`,
+        GIT_AUTHOR_DATE: date,
+        GIT_COMMITTER_NAME: author,
+        GIT_COMMITTER_EMAIL: `${author}@test.com`,
+        GIT_COMMITTER_DATE: date,
+      },
+    });
+  }
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'diffesense-history-'));
+    execSync('git init', { cwd: tempDir, stdio: 'pipe' });
+    execSync('git config user.email "test@test.com"', { cwd: tempDir, stdio: 'pipe' });
+    execSync('git config user.name "Test"', { cwd: tempDir, stdio: 'pipe' });
+    fs.mkdirSync(path.join(tempDir, 'src'));
+
+    commit('src/stable.ts', 'export const a = 1;\n', 'Add stable module', 'alice', 200);
+    commit('src/hot.ts', 'export let v = 0;\n', 'Add hot module', 'alice', 60);
+
+    const authors = ['alice', 'bob', 'carol', 'dave'];
+    for (let i = 1; i <= 6; i++) {
+      const message = i % 2 === 0 ? `fix: regression ${i}` : `Tweak value ${i}`;
+      commit('src/hot.ts', `export let v = ${i};\n`, message, authors[i % 4], 10 - i);
+    }
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('isFixCommit', () => {
+    it('should detect fix and revert subjects', () => {
+      expect(isFixCommit('fix: handle null user')).toBe(true);
+      expect(isFixCommit('Fixes #123')).toBe(true);
+      expect(isFixCommit('Revert "Add cache"')).toBe(true);
+      expect(isFixCommit('hotfix for login')).toBe(true);
+    });
+
+    it('should ignore unrelated subjects', () => {
+      expect(isFixCommit('Add prefix option')).toBe(false);
+      expect(isFixCommit('Refactor fixture loader')).toBe(false);
+    });
+  });
+
+  describe('getFileHistory', () => {
+    it('should compute churn per window, authors and fix ratio', () => {
+      const history = getFileHistory(['src/hot.ts'], { cwd: tempDir, windows: [30, 90] });
+      const hot = history.get('src/hot.ts')!;
+
+      expect(hot.churn).toEqual([
+        { days: 30, commits: 6 },
+        { days: 90, commits: 7 },
+      ]);
+      expect(hot.commits).toBe(7);
+      expect(hot.authors).toBe(4);
+      expect(hot.fixCommits).toBe(3);
+      expect(hot.fixRatio).toBeCloseTo(3 / 7);
+    });
+
+    it('should return zeroed metrics for files outside the window', () => {
+      const history = getFileHistory(['src/stable.ts'], { cwd: tempDir, windows: [30, 90] });
+
+      expect(history.get('src/stable.ts')).toMatchObject({ commits: 0, authors: 0, fixRatio: 0 });
+    });
+
+    it('should return every touched file when no paths are given', () => {
+      const history = getFileHistory(undefined, { cwd: tempDir, windows: [30] });
+
+      expect([...history.keys()]).toEqual(['src/hot.ts']);
+    });
+  });
+
+  describe('getHotspotFactors', () => {
+    const base: FileHistory = {
+      path: 'src/a.ts',
+      churn: [{ days: 30, commits: 2 }],
+      commits: 2,
+      authors: 1,
+      fixCommits: 0,
+      fixRatio: 0,
+    };
+
+    it('should report no factors for quiet files', () => {
+      expect(getHotspotFactors(base)).toEqual([]);
+    });
+
+    it('should report churn, authors and fix ratio', () => {
+      const factors = getHotspotFactors(
+        { ...base, churn: [{ days: 30, commits: 12 }], authors: 5, fixCommits: 4, fixRatio: 0.5 },
+        { churn: 10, authors: 4, fixRatio: 0.3 },
+      );
+
+      expect(factors).toEqual(['12 commits in 30d', '5 authors', '50% fix/revert commits']);
+    });
+  });
+
+  describe('analyze() integration', () => {
+    beforeAll(() => {
+      fs.writeFileSync(path.join(tempDir, 'src/hot.ts'), 'export let v = 42;\n');
+    });
+
+    it('should add history-hotspot evidence when enabled', async () => {
+      const result = await analyze({ cwd: tempDir, scope: 'working', history: true });
+      const file = result.files.find((f) => f.path === 'src/hot.ts')!;
+
+      expect(file.history?.authors).toBe(4);
+      expect(file.signalTypes).toContain('history-hotspot');
+      expect(file.evidence.some((e) => e.tag?.endsWith(':history-hotspot'))).toBe(true);
+    });
+
+    it('should raise the risk of hot-spot files', async () => {
+      const plain = await analyze({ cwd: tempDir, scope: 'working' });
+      const enriched = await analyze({ cwd: tempDir, scope: 'working', history: true });
+
+      const plainScore = plain.files.find((f) => f.path === 'src/hot.ts')?.riskScore ?? 0;
+      const enrichedScore = enriched.files.find((f) => f.path === 'src/hot.ts')!.riskScore;
+
+      expect(enrichedScore).toBeGreaterThan(plainScore);
+    });
+
+    it('should show history in detailed console output', async () => {
+      const result = await analyze({ cwd: tempDir, scope: 'working', history: true });
+      const output = formatConsoleOutput(result, { details: true });
+
+      expect(output).toContain('History:');
+      expect(output).toContain('4 author(s)');
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { execSync } from 'child_process';
+import { parsePushInput, resolvePushRange, EMPTY_TREE_SHA } from '../src/git/prePush';
+import { installHooks, uninstallHooks, detectHookManager } from '../src/git/hooks';
+import { checkPush } from '../src/core/prePush';
+
+const ZERO = '0'.repeat(40);
+
+describe('Git Hooks', () => {
+  let tempDir: string;
+  let remoteDir: string;
+
+  function git(command: string): string {
+    return execSync(`git ${command}`, { cwd: tempDir, encoding: 'utf-8', stdio: 'pipe' }).trim();
+  }
+
+  function write(file: string, lines: string[]) {
+    fs.mkdirSync(path.dirname(path.join(tempDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, file), [...lines, ''].join('\n'));
+  }
+
+  function commit(message: string): string {
+    git(`add -A`);
+    git(`commit -m "${message}"`);
+    return git('rev-parse HEAD');
+  }
+
+  beforeEach(() => {
+    // Hook paths may also be set through GIT_CONFIG_* variables, which override local config
+    vi.stubEnv('GIT_CONFIG_COUNT', '0');
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'diffesense-hooks-'));
+    remoteDir = fs.mkdtempSync(path.join(os.tmpdir(), 'diffesense-remote-'));
+    execSync('git init --bare', { cwd: remoteDir, stdio: 'pipe' });
+
+    git('init');
+    git('config user.email "test@test.com"');
+    git('config user.name "Test"');
+    git('config core.hooksPath .git/hooks');
+    git(`remote add origin "${remoteDir}"`);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    fs.rmSync(remoteDir, { recursive: true, force: true });
+  });
+
+  describe('pre-push protocol', () => {
+    it('should parse pushed refs from stdin', () => {
+      const refs = parsePushInput(
+        `refs/heads/main abc123 refs/heads/main def456\nrefs/heads/x ${ZERO} refs/heads/x abc\n`,
+      );
+
+      expect(refs).toEqual([
+        {
+          localRef: 'refs/heads/main',
+          localSha: 'abc123',
+          remoteRef: 'refs/heads/main',
+          remoteSha: 'def456',
+        },
+        { localRef: 'refs/heads/x', localSha: ZERO, remoteRef: 'refs/heads/x', remoteSha: 'abc' },
+      ]);
+    });
+
+    it('should resolve the range of an updated branch', () => {
+      write('src/a.ts', ['export const a = 1;']);
+      const pushed = commit('init');
+      git('push origin HEAD:refs/heads/main');
+      write('src/a.ts', ['export const a = 2;']);
+      const local = commit('change');
+
+      const range = resolvePushRange(tempDir, {
+        localRef: 'refs/heads/main',
+        localSha: local,
+        remoteRef: 'refs/heads/main',
+        remoteSha: pushed,
+      });
+
+      expect(range).toMatchObject({ range: `${pushed}..${local}`, newBranch: false });
+    });
+
+    it('should resolve new branches from the commits the remote does not have', () => {
+      write('src/a.ts', ['export const a = 1;']);
+      const root = commit('init');
+
+      const ref = { localRef: 'refs/heads/f', remoteRef: 'refs/heads/f', remoteSha: ZERO };
+      expect(resolvePushRange(tempDir, { ...ref, localSha: root }, 'origin').range).toBe(
+        `${EMPTY_TREE_SHA}..${root}`,
+      );
+
+      git('push origin HEAD:refs/heads/main');
+      git('fetch origin');
+      write('src/b.ts', ['export const b = 1;']);
+      const first = commit('b');
+      write('src/c.ts', ['export const c = 1;']);
+      const second = commit('c');
+
+      expect(resolvePushRange(tempDir, { ...ref, localSha: second }, 'origin')).toMatchObject({
+        range: `${root}..${second}`,
+        newBranch: true,
+      });
+      expect(resolvePushRange(tempDir, { ...ref, localSha: root }, 'origin').range).toBeNull();
+    });
+
+    it('should not count remote commits merged into a new branch', () => {
+      write('src/a.ts', ['export const a = 1;']);
+      const root = commit('init');
+      git('push origin HEAD:refs/heads/main');
+      git('checkout -q -b f');
+      write('src/b.ts', ['export const b = 1;']);
+      commit('b');
+
+      git(`checkout -q --detach ${root}`);
+      write('src/c.ts', ['export const c = 1;']);
+      const upstream = commit('c');
+      git('push origin HEAD:refs/heads/main');
+      git('fetch origin');
+      git('checkout -q f');
+      git(`merge -q --no-edit ${upstream}`);
+      const merge = git('rev-parse HEAD');
+
+      const range = resolvePushRange(
+        tempDir,
+        { localRef: 'refs/heads/f', localSha: merge, remoteRef: 'refs/heads/f', remoteSha: ZERO },
+        'origin',
+      );
+
+      expect(range.range).toBe(`${upstream}..${merge}`);
+    });
+
+    it('should skip deleted refs', () => {
+      const range = resolvePushRange(tempDir, {
+        localRef: '(delete)',
+        localSha: ZERO,
+        remoteRef: 'refs/heads/old',
+        remoteSha: 'abc',
+      });
+
+      expect(range.range).toBeNull();
+    });
+
+    it('should block refs that fail the policy', async () => {
+      write('src/run.ts', ['export function run(code: string) {', '  return code;', '}']);
+      const base = commit('init');
+      write('src/run.ts', ['export function run(code: string) {', '  return eval(code);', '}']);
+      const local = commit('use eval');
+
+      const result = await checkPush({
+        cwd: tempDir,
+        input: `refs/heads/main ${local} refs/heads/main ${base}\n(delete) ${ZERO} refs/heads/x ${base}\n`,
+        threshold: 0.1,
+      });
+
+      expect(result.exitCode).toBe(1);
+      expect(result.skipped).toHaveLength(1);
+      expect(result.checks[0]).toMatchObject({ range: `${base}..${local}`, blocked: true });
+      expect(result.checks[0].reasons[0]).toContain('threshold 0.1');
+    });
+  });
+
+  describe('hooks install', () => {
+    beforeEach(() => {
+      write('README.md', ['# test']);
+      commit('init');
+    });
+
+    it('should write and remove scripts in .git/hooks', () => {
+      const result = installHooks(tempDir);
+      const prePush = path.join(tempDir, '.git', 'hooks', 'pre-push');
+
+      expect(result.manager).toBe('git');
+      expect(result.changes.map((c) => c.action)).toEqual(['installed', 'installed']);
+      expect(fs.readFileSync(prePush, 'utf-8')).toContain('diffesense hook pre-push "$1" "$2"');
+      expect(fs.statSync(prePush).mode & 0o111).not.toBe(0);
+
+      expect(uninstallHooks(tempDir).changes.map((c) => c.action)).toEqual([
+        'removed',
+        'removed',
+      ]);
+      expect(fs.existsSync(prePush)).toBe(false);
+    });
+
+    it('should not replace foreign git hooks without force', () => {
+      const preCommit = path.join(tempDir, '.git', 'hooks', 'pre-commit');
+      fs.writeFileSync(preCommit, '#!/bin/sh\nnpm run lint\n');
+
+      expect(installHooks(tempDir).changes[0].action).toBe('skipped');
+      expect(uninstallHooks(tempDir).changes[0].action).toBe('skipped');
+      expect(fs.readFileSync(preCommit, 'utf-8')).toContain('npm run lint');
+
+      expect(installHooks(tempDir, true).changes[0].action).toBe('installed');
+    });
+
+    it('should add lines to existing husky hooks', () => {
+      const preCommit = path.join(tempDir, '.husky', 'pre-commit');
+      fs.mkdirSync(path.dirname(preCommit));
+      fs.writeFileSync(preCommit, 'npm test\n');
+
+      const result = installHooks(tempDir);
+      expect(result.manager).toBe('husky');
+      expect(fs.readFileSync(preCommit, 'utf-8')).toBe(
+        'npm test\nnpx diffesense --scope staged --quiet # diffesense\n',
+      );
+      expect(installHooks(tempDir).changes[0].action).toBe('unchanged');
+
+      uninstallHooks(tempDir);
+      expect(fs.readFileSync(preCommit, 'utf-8')).toBe('npm test\n');
+      expect(fs.existsSync(path.join(tempDir, '.husky', 'pre-push'))).toBe(false);
+    });
+
+    it('should add commands to lefthook config without touching configured hooks', () => {
+      const config = path.join(tempDir, 'lefthook.yml');
+      const original = '# lint on commit\npre-commit:\n  commands:\n    lint:\n      run: npm run lint\n';
+      fs.writeFileSync(config, original);
+
+      expect(detectHookManager(tempDir).manager).toBe('lefthook');
+      const result = installHooks(tempDir);
+      expect(result.changes.map((c) => c.action)).toEqual(['skipped', 'installed']);
+      expect(result.changes[0].message).toContain('diffesense:');
+
+      const content = fs.readFileSync(config, 'utf-8');
+      expect(content.startsWith(original)).toBe(true);
+      expect(content).toContain('run: npx diffesense hook pre-push {1} {2}');
+      expect(content).toContain('use_stdin: true');
+
+      uninstallHooks(tempDir);
+      expect(fs.readFileSync(config, 'utf-8')).toBe(original);
+    });
+  });
+});
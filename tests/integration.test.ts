@@ -123,6 +123,7 @@ describe('AnalysisResult Contract', () => {
       ignoredFiles: true,
       evaluation: true,
       warnings: true,
+      reviewers: true,
       config: true,
     };
 
@@ -140,6 +141,7 @@ describe('AnalysisResult Contract', () => {
       blockerCount: true,
       warningCount: true,
       infoCount: true,
+      suppressedCount: true,
     };
 
     expect(_typeCheck).toBeDefined();
@@ -263,6 +265,8 @@ describe('API Schema Contract', () => {
       'worktree',
       'commit',
       'range',
+      'patch',
+      'files',
     ]);
   });
 
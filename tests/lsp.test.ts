@@ -0,0 +1,250 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { PassThrough } from 'stream';
+import { pathToFileURL } from 'url';
+import { execSync } from 'child_process';
+import { startLspServer, LspServer } from '../src/lsp/server';
+import { readMessages, writeMessage, RpcMessage } from '../src/lsp/protocol';
+import { CodeAction, Hover, InitializeResult, PublishDiagnosticsParams } from '../src/lsp/types';
+
+/**
+ * Minimal LSP client driving the server over in-memory streams
+ */
+function createClient(cwd: string) {
+  const toServer = new PassThrough();
+  const fromServer = new PassThrough();
+  const server = startLspServer({ input: toServer, output: fromServer, cwd, debounceMs: 10 });
+
+  const received: RpcMessage[] = [];
+  type Waiter = { match: (m: RpcMessage) => boolean; resolve: (m: RpcMessage) => void };
+  const waiters: Waiter[] = [];
+  readMessages(fromServer, (message) => {
+    if (!message) return;
+    const index = waiters.findIndex((w) => w.match(message));
+    if (index === -1) {
+      received.push(message);
+    } else {
+      waiters.splice(index, 1)[0].resolve(message);
+    }
+  });
+
+  const waitFor = (match: (m: RpcMessage) => boolean): Promise<RpcMessage> => {
+    const index = received.findIndex(match);
+    if (index !== -1) return Promise.resolve(received.splice(index, 1)[0]);
+    return new Promise((resolve) => waiters.push({ match, resolve }));
+  };
+
+  let nextId = 1;
+  return {
+    server: server as LspServer,
+    request: async (method: string, params?: unknown) => {
+      const id = nextId++;
+      writeMessage(toServer, { jsonrpc: '2.0', id, method, params });
+      return waitFor((m) => m.id === id);
+    },
+    notify: (method: string, params?: unknown) =>
+      writeMessage(toServer, { jsonrpc: '2.0', method, params }),
+    diagnostics: (uri: string) =>
+      waitFor(
+        (m) =>
+          m.method === 'textDocument/publishDiagnostics' &&
+          (m.params as PublishDiagnosticsParams).uri === uri,
+      ).then((m) => (m.params as PublishDiagnosticsParams).diagnostics),
+    waitFor,
+  };
+}
+
+describe('Language Server', () => {
+  let tempDir: string;
+  let uri: string;
+
+  beforeEach(() => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'diffesense-lsp-')));
+    execSync('git init', { cwd: tempDir, stdio: 'pipe' });
+    execSync('git config user.email "dev@example.com"', { cwd: tempDir, stdio: 'pipe' });
+    execSync('git config user.name "Dev"', { cwd: tempDir, stdio: 'pipe' });
+
+    fs.mkdirSync(path.join(tempDir, 'src'));
+    fs.writeFileSync(
+      path.join(tempDir, 'src', 'run.ts'),
+      ['export function run(code: string) {', '  return code;', '}', ''].join('\n'),
+    );
+    execSync('git add -A && git commit -m "init"', { cwd: tempDir, stdio: 'pipe' });
+    uri = pathToFileURL(path.join(tempDir, 'src', 'run.ts')).href;
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function initialize(client: ReturnType<typeof createClient>) {
+    const response = await client.request('initialize', {
+      processId: null,
+      rootUri: pathToFileURL(tempDir).href,
+      capabilities: {},
+    });
+    client.notify('initialized', {});
+    return response;
+  }
+
+  it('should publish diagnostics for signals on changed lines of the open buffer', async () => {
+    const client = createClient(tempDir);
+    const init = await initialize(client);
+    expect((init.result as InitializeResult).capabilities.hoverProvider).toBe(true);
+
+    client.notify('textDocument/didOpen', {
+      textDocument: {
+        uri,
+        languageId: 'typescript',
+        version: 1,
+        text: ['export function run(code: string) {', '  return code;', '}', ''].join('\n'),
+      },
+    });
+    expect(await client.diagnostics(uri)).toEqual([]);
+
+    // Unsaved edits are analyzed against HEAD
+    client.notify('textDocument/didChange', {
+      textDocument: { uri, version: 2 },
+      contentChanges: [
+        {
+          text: ['export function run(code: string) {', '  return eval(code);', '}', ''].join('\n'),
+        },
+      ],
+    });
+    const diagnostics = await client.diagnostics(uri);
+    const evalDiagnostic = diagnostics.find((d) => d.code === 'sec-eval')!;
+    expect(evalDiagnostic).toMatchObject({
+      source: 'diffesense',
+      severity: 1,
+      range: { start: { line: 1, character: 2 }, end: { line: 1, character: 20 } },
+    });
+    expect(evalDiagnostic.message).toContain('Dynamic code execution');
+
+    const hover = await client.request('textDocument/hover', {
+      textDocument: { uri },
+      position: { line: 1, character: 10 },
+    });
+    expect((hover.result as Hover).contents.value).toContain('**Recommendation:**');
+
+    // Security signals need a written reason, so no quick fix is offered
+    const actions = await client.request('textDocument/codeAction', {
+      textDocument: { uri },
+      range: evalDiagnostic.range,
+      context: { diagnostics: [evalDiagnostic] },
+    });
+    expect(actions.result).toEqual([]);
+
+    expect((await client.request('shutdown')).result).toBeNull();
+    client.notify('exit');
+    expect(await client.server.exited).toBe(0);
+  });
+
+  it('should add a suppression from a code action and republish diagnostics', async () => {
+    const client = createClient(tempDir);
+    await initialize(client);
+
+    const text = [
+      'export function run(code: string) {',
+      '  setInterval(() => console.log(code), 1000);',
+      '  return code;',
+      '}',
+      '',
+    ].join('\n');
+    client.notify('textDocument/didOpen', {
+      textDocument: { uri, languageId: 'typescript', version: 1, text },
+    });
+    const diagnostics = await client.diagnostics(uri);
+    expect(diagnostics.length).toBeGreaterThan(0);
+    const target = diagnostics[0];
+
+    const actions = await client.request('textDocument/codeAction', {
+      textDocument: { uri },
+      range: target.range,
+      context: { diagnostics: [target] },
+    });
+    const action = (actions.result as CodeAction[]).find((a) => a.title.endsWith('in run.ts'))!;
+    expect(action.command.arguments?.[0]).toEqual({ signalId: target.code, fileGlob: 'src/run.ts' });
+
+    await client.request('workspace/executeCommand', action.command);
+    const suppressions = JSON.parse(
+      fs.readFileSync(path.join(tempDir, '.diffesense', 'suppressions.json'), 'utf-8'),
+    );
+    expect(suppressions.suppressions[0]).toMatchObject({
+      signalId: target.code,
+      fileGlob: 'src/run.ts',
+    });
+
+    const republished = await client.diagnostics(uri);
+    expect(republished.map((d) => d.code)).not.toContain(target.code);
+  });
+
+  it('should keep the last valid config when an invalid one is saved', async () => {
+    const client = createClient(tempDir);
+    await initialize(client);
+
+    const configPath = path.join(tempDir, '.diffesense.yml');
+    const configUri = pathToFileURL(configPath).href;
+    fs.writeFileSync(configPath, 'topN: 0\n');
+    client.notify('textDocument/didOpen', {
+      textDocument: { uri: configUri, languageId: 'yaml', version: 1, text: 'topN: 0\n' },
+    });
+    await client.diagnostics(configUri);
+    client.notify('textDocument/didSave', { textDocument: { uri: configUri } });
+
+    const message = await client.waitFor((m) => m.method === 'window/showMessage');
+    expect((message.params as { message: string }).message).toContain(
+      'Keeping the last valid config',
+    );
+
+    client.notify('textDocument/didOpen', {
+      textDocument: {
+        uri,
+        languageId: 'typescript',
+        version: 1,
+        text: ['export function run(code: string) {', '  return eval(code);', '}', ''].join('\n'),
+      },
+    });
+    expect((await client.diagnostics(uri)).map((d) => d.code)).toContain('sec-eval');
+
+    expect((await client.request('shutdown')).result).toBeNull();
+    client.notify('exit');
+    expect(await client.server.exited).toBe(0);
+  });
+
+  it('should reject requests before initialize and unknown methods', async () => {
+    const client = createClient(tempDir);
+
+    const early = await client.request('textDocument/hover', {
+      textDocument: { uri },
+      position: { line: 0, character: 0 },
+    });
+    expect(early.error?.code).toBe(-32002);
+
+    await initialize(client);
+    const unknown = await client.request('textDocument/definition', {});
+    expect(unknown.error?.code).toBe(-32601);
+
+    client.notify('exit');
+    expect(await client.server.exited).toBe(1);
+  });
+});
+
+describe('LSP message framing', () => {
+  it('should read messages split across chunks', () => {
+    const stream = new PassThrough();
+    const messages: Array<RpcMessage | null> = [];
+    readMessages(stream, (m) => messages.push(m));
+
+    const body = JSON.stringify({ jsonrpc: '2.0', method: 'ünïcode', params: {} });
+    const framed = `Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`;
+    const bytes = Buffer.from(framed + framed);
+    stream.write(bytes.subarray(0, 10));
+    stream.write(bytes.subarray(10, 60));
+    stream.write(bytes.subarray(60));
+
+    expect(messages).toHaveLength(2);
+    expect(messages[0]?.method).toBe('ünïcode');
+  });
+});
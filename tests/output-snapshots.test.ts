@@ -211,6 +211,61 @@ export function farewell(name: string): string {
     });
   });
 
+  describe('Reviewer Routing', () => {
+    async function setupOwnedRepo() {
+      fs.writeFileSync(path.join(tempDir, 'CODEOWNERS'), 'src/ @frontend-team\n');
+      fs.writeFileSync(
+        path.join(tempDir, '.diffesense.yml'),
+        [
+          'ownership:',
+          '  useCodeowners: true',
+          '  escalateIfRiskAbove: 0',
+          '  defaultReviewers:',
+          '    - "@tech-leads"',
+        ].join('\n'),
+      );
+      return setupTestRepo();
+    }
+
+    it('should attach owners to analyzed files', async () => {
+      const result = await setupOwnedRepo();
+
+      expect(result.files[0].ownership?.owners).toEqual(['@frontend-team']);
+      expect(result.files[0].ownership?.escalated).toBe(true);
+      expect(result.reviewers?.reviewers).toEqual(['@frontend-team', '@tech-leads']);
+      expect(result.reviewers?.codeownersPath).toBe('CODEOWNERS');
+    });
+
+    it('should render reviewers in all formats', async () => {
+      const result = await setupOwnedRepo();
+
+      expect(formatConsoleOutput(result, {})).toContain('@frontend-team');
+      expect(formatMarkdownOutput(result, {})).toContain('### 👥 Reviewers');
+
+      const json = JSON.parse(formatJsonOutput(result, {}));
+      expect(json.reviewers.escalationReviewers).toEqual(['@tech-leads']);
+      expect(json.files[0].ownership.owners).toEqual(['@frontend-team']);
+    });
+
+    it('should warn when CODEOWNERS is missing', async () => {
+      fs.writeFileSync(
+        path.join(tempDir, '.diffesense.yml'),
+        'ownership:\n  useCodeowners: true\n',
+      );
+      const result = await setupTestRepo();
+
+      expect(result.warnings.some((w) => w.code === 'CODEOWNERS_NOT_FOUND')).toBe(true);
+      expect(result.reviewers?.reviewers).toEqual([]);
+    });
+
+    it('should omit reviewers when ownership is not configured', async () => {
+      const result = await setupTestRepo();
+
+      expect(result.reviewers).toBeUndefined();
+      expect(formatMarkdownOutput(result, {})).not.toContain('Reviewers');
+    });
+  });
+
   describe('Output Consistency', () => {
     it('all formats should report same exit code', async () => {
       const result = await setupTestRepo();
@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { analyze } from '../src/core/analyze';
+import {
+  parsePatch,
+  applyHunks,
+  applyPatchToTree,
+  toChangedFileDetail,
+} from '../src/git/patch';
+
+const GIT_PATCH = [
+  'diff --git a/src/run.ts b/src/run.ts',
+  'index 1111111..2222222 100644',
+  '--- a/src/run.ts',
+  '+++ b/src/run.ts',
+  '@@ -1,3 +1,3 @@',
+  ' export function run(code: string) {',
+  '-  return code;',
+  '+  return eval(code);',
+  ' }',
+  'diff --git a/src/new.ts b/src/new.ts',
+  'new file mode 100644',
+  'index 0000000..3333333',
+  '--- /dev/null',
+  '+++ b/src/new.ts',
+  '@@ -0,0 +1,2 @@',
+  "+import { run } from './run';",
+  "+run('1');",
+  'diff --git a/src/old.ts b/src/old.ts',
+  'deleted file mode 100644',
+  'index 4444444..0000000',
+  '--- a/src/old.ts',
+  '+++ /dev/null',
+  '@@ -1 +0,0 @@',
+  '-export const old = 1;',
+  'diff --git a/src/a.ts b/src/b.ts',
+  'similarity index 100%',
+  'rename from src/a.ts',
+  'rename to src/b.ts',
+  '',
+].join('\n');
+
+describe('Patch Analysis', () => {
+  describe('parsePatch', () => {
+    it('should parse modified, added, deleted and renamed files', () => {
+      const files = parsePatch(GIT_PATCH);
+
+      expect(files.map((f) => [f.path, f.status, f.oldPath])).toEqual([
+        ['src/run.ts', 'modified', undefined],
+        ['src/new.ts', 'added', undefined],
+        ['src/old.ts', 'deleted', undefined],
+        ['src/b.ts', 'renamed', 'src/a.ts'],
+      ]);
+      expect(files[0].hunks[0].lines).toHaveLength(4);
+    });
+
+    it('should parse plain unified diffs with timestamps', () => {
+      const files = parsePatch(
+        [
+          '--- src/x.ts\t2024-01-01 10:00:00',
+          '+++ src/x.ts\t2024-01-02 10:00:00',
+          '@@ -1 +1 @@',
+          '-const a = 1;',
+          '+const a = 2;',
+          '--- src/y.ts',
+          '+++ src/y.ts',
+          '@@ -2 +2 @@',
+          '-b',
+          '+c',
+        ].join('\n'),
+      );
+
+      expect(files.map((f) => f.path)).toEqual(['src/x.ts', 'src/y.ts']);
+      expect(files[1].hunks[0]).toMatchObject({ oldStart: 2, newStart: 2 });
+    });
+
+    it('should map every hunk onto changed ranges', () => {
+      const [file] = parsePatch(
+        [
+          '--- a/src/x.ts',
+          '+++ b/src/x.ts',
+          '@@ -2 +2 @@',
+          '-a',
+          '+b',
+          '@@ -10,0 +11,2 @@',
+          '+c',
+          '+d',
+        ].join('\n'),
+      );
+
+      expect(toChangedFileDetail(file).ranges).toEqual([
+        { startLine: 2, endLine: 2, type: 'modified', lineCount: 1 },
+        { startLine: 11, endLine: 12, type: 'modified', lineCount: 2 },
+      ]);
+    });
+  });
+
+  describe('applyHunks', () => {
+    it('should apply hunks whose position has shifted', () => {
+      const [file] = parsePatch(
+        ['--- a/x.ts', '+++ b/x.ts', '@@ -1,2 +1,2 @@', ' a', '-b', '+B'].join('\n'),
+      );
+
+      expect(applyHunks('header\na\nb\nc\n', file.hunks)).toBe('header\na\nB\nc\n');
+    });
+
+    it('should return null when a hunk does not match', () => {
+      const [file] = parsePatch(['--- a/x.ts', '+++ b/x.ts', '@@ -1 +1 @@', '-b', '+B'].join('\n'));
+
+      expect(applyHunks('a\nc\n', file.hunks)).toBeNull();
+    });
+
+    it('should honor missing newlines at end of file', () => {
+      const [file] = parsePatch(
+        [
+          '--- a/x.ts',
+          '+++ b/x.ts',
+          '@@ -1 +1 @@',
+          '-a',
+          '\\ No newline at end of file',
+          '+b',
+        ].join('\n'),
+      );
+
+      expect(applyHunks('a', file.hunks)).toBe('b\n');
+    });
+  });
+
+  describe('analyze() with a patch', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'diffesense-patch-'));
+      fs.mkdirSync(path.join(tempDir, 'src'));
+      fs.writeFileSync(
+        path.join(tempDir, 'src', 'run.ts'),
+        'export function run(code: string) {\n  return code;\n}\n',
+      );
+      fs.writeFileSync(path.join(tempDir, 'src', 'old.ts'), 'export const old = 1;\n');
+      fs.writeFileSync(path.join(tempDir, 'src', 'a.ts'), 'export const a = 1;\n');
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should analyze a patch applied to a source tree without git', async () => {
+      const result = await analyze({ cwd: tempDir, patch: GIT_PATCH, differential: true });
+
+      expect(result.success).toBe(true);
+      expect(result.meta.scope).toBe('patch');
+
+      const run = result.files.find((f) => f.path === 'src/run.ts');
+      expect(run?.signals.find((s) => s.id === 'sec-eval')?.delta).toBe('introduced');
+      expect(run?.blastRadius).toBe(1);
+      expect(fs.readFileSync(path.join(tempDir, 'src', 'run.ts'), 'utf-8')).not.toContain('eval');
+    });
+
+    it('should use in-memory contents instead of the source tree', () => {
+      const tree = applyPatchToTree(tempDir, parsePatch(GIT_PATCH), {
+        'src/run.ts': 'export function run(code: string) {\n  return eval(code);\n}\n',
+      });
+
+      expect(tree.readBaseFile('src/run.ts')).toContain('return code;');
+      expect(tree.files).toContain('src/b.ts');
+      expect(tree.files).not.toContain('src/old.ts');
+    });
+
+    it('should only list the patched files outside a git repository', () => {
+      fs.writeFileSync(path.join(tempDir, 'src', 'other.ts'), 'export const other = 1;\n');
+
+      const tree = applyPatchToTree(tempDir, parsePatch(GIT_PATCH));
+
+      expect(tree.files.sort()).toEqual(['src/b.ts', 'src/new.ts', 'src/run.ts']);
+    });
+
+    it('should warn about files the patch does not apply to', async () => {
+      fs.writeFileSync(path.join(tempDir, 'src', 'run.ts'), 'export const changed = true;\n');
+
+      const result = await analyze({ cwd: tempDir, patch: GIT_PATCH });
+
+      expect(result.warnings).toContainEqual(
+        expect.objectContaining({ code: 'PATCH_NOT_APPLIED', path: 'src/run.ts' }),
+      );
+      expect(result.files.find((f) => f.path === 'src/run.ts')).toBeUndefined();
+    });
+
+    it('should fail on text without file changes', async () => {
+      const result = await analyze({ cwd: tempDir, patch: 'not a diff' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('no file changes');
+    });
+
+    it('should refuse patch paths leading outside the source tree', async () => {
+      for (const target of ['../secret.ts', '/etc/hosts']) {
+        const patch = `--- ${target}\n+++ ${target}\n`;
+        const result = await analyze({ cwd: tempDir, patch });
+
+        expect(result.success).toBe(false);
+        expect(result.error).toContain(`Patch path ${target}`);
+      }
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { execSync } from 'child_process';
+import { analyzeCommits } from '../src/core/perCommit';
+import { formatPerCommitJsonOutput } from '../src/output/formatters/dsJson';
+import { formatPerCommitMarkdownOutput } from '../src/output/formatters/dsMarkdown';
+
+describe('Per-Commit Analysis', () => {
+  let tempDir: string;
+  let evalCommit: string;
+
+  function write(file: string, lines: string[]) {
+    fs.mkdirSync(path.dirname(path.join(tempDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, file), [...lines, ''].join('\n'));
+  }
+
+  function commit(message: string): string {
+    execSync(`git add -A && git commit -m "${message}"`, { cwd: tempDir, stdio: 'pipe' });
+    return execSync('git rev-parse HEAD', { cwd: tempDir, encoding: 'utf-8' }).trim();
+  }
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'diffesense-percommit-'));
+    execSync('git init', { cwd: tempDir, stdio: 'pipe' });
+    execSync('git config user.email "test@test.com"', { cwd: tempDir, stdio: 'pipe' });
+    execSync('git config user.name "Test"', { cwd: tempDir, stdio: 'pipe' });
+
+    write('src/run.ts', ['export function run(code: string) {', '  return code;', '}']);
+    commit('init');
+
+    write('src/format.ts', ['export function format(s: string) {', '  return s.trim();', '}']);
+    commit('add format');
+
+    write('src/run.ts', ['export function run(code: string) {', '  return eval(code);', '}']);
+    evalCommit = commit('use eval');
+
+    write('src/run.ts', [
+      'export function run(code: string) {',
+      '  const trimmed = code.trim();',
+      '  return eval(trimmed);',
+      '}',
+    ]);
+    commit('trim before eval');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should analyze each commit of the range separately', async () => {
+    const result = await analyzeCommits({ cwd: tempDir, range: 'HEAD~3..HEAD', threshold: 0.1 });
+
+    expect(result.success).toBe(true);
+    expect(result.commits.map((c) => c.subject)).toEqual([
+      'add format',
+      'use eval',
+      'trim before eval',
+    ]);
+    expect(result.commits[0].result.files.map((f) => f.path)).toEqual(['src/format.ts']);
+    expect(result.commits[1].result.meta.scope).toBe('commit');
+    expect(result.commits[1].shortSha).toBe(evalCommit.substring(0, 7));
+  });
+
+  it('should attribute blockers to the commit that introduced them', async () => {
+    const result = await analyzeCommits({ cwd: tempDir, range: 'HEAD~3..HEAD', threshold: 0.1 });
+    const evalBlocker = result.blockers.find((b) => b.file === 'src/run.ts');
+
+    expect(result.exitCode).toBe(1);
+    expect(evalBlocker?.introducedBy).toEqual({ sha: evalCommit, subject: 'use eval' });
+    expect(evalBlocker?.commits[0]).toBe(evalCommit);
+  });
+
+  it('should credit a later risk in the same file to its own commit', async () => {
+    write('src/run.ts', [
+      'export function run(code: string) {',
+      '  const trimmed = code.trim();',
+      '  document.body.innerHTML = trimmed;',
+      '  return eval(trimmed);',
+      '}',
+    ]);
+    const htmlCommit = commit('render input');
+
+    const result = await analyzeCommits({ cwd: tempDir, range: 'HEAD~4..HEAD', threshold: 0.1 });
+    const runBlockers = result.blockers.filter((b) => b.file === 'src/run.ts');
+
+    expect(runBlockers[0].introducedBy.sha).toBe(evalCommit);
+    expect(runBlockers.map((b) => b.introducedBy.sha)).toContain(htmlCommit);
+  });
+
+  it('should report an invalid range', async () => {
+    const result = await analyzeCommits({ cwd: tempDir, range: 'nope..HEAD' });
+
+    expect(result.success).toBe(false);
+    expect(result.exitCode).toBe(2);
+    expect(result.error).toContain('nope..HEAD');
+  });
+
+  it('should nest JSON results by commit and list blockers in a markdown table', async () => {
+    const result = await analyzeCommits({ cwd: tempDir, range: 'HEAD~3..HEAD', threshold: 0.1 });
+
+    const json = JSON.parse(formatPerCommitJsonOutput(result));
+    expect(json.commits[1]).toMatchObject({ sha: evalCommit, subject: 'use eval' });
+    expect(json.commits[1].result.summary).toBeDefined();
+
+    const markdown = formatPerCommitMarkdownOutput(result);
+    expect(markdown).toContain('| Commit | Subject | Status |');
+    expect(markdown).toContain('### 🚫 Blockers by Commit');
+    expect(markdown).toContain(`\`${evalCommit.substring(0, 7)}\` use eval`);
+  });
+});
@@ -1,11 +1,19 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { execSync } from 'child_process';
 import {
   validateManifest,
   createPackRegistry,
   getBuiltinPacks,
+  detectWithPacks,
+  DetectorDefinition,
   DetectorPackManifest,
+  SignalTemplate,
   API_VERSION,
 } from '../src/plugins';
+import { analyze } from '../src/core/analyze';
 
 describe('Plugin System', () => {
   describe('validateManifest', () => {
@@ -175,6 +183,45 @@ describe('Plugin System', () => {
 
       expect(() => validateManifest(manifest)).toThrow('id');
     });
+
+    it('should skip detectors with invalid regexes and warn', () => {
+      const regexDetector = (id: string, pattern: string, before?: string) => ({
+        id,
+        name: id,
+        description: id,
+        detect: {
+          type: 'regex',
+          patterns: [
+            {
+              id: `${id}-pattern`,
+              pattern,
+              context: before ? { surroundingContext: { before } } : undefined,
+              signal: { id: `${id}-signal` },
+            },
+          ],
+        },
+      });
+      const manifest = {
+        name: '@test/pack',
+        version: '1.0.0',
+        diffesense: {
+          type: 'detector-pack',
+          detectors: [
+            regexDetector('valid', 'legacyClient\\.'),
+            regexDetector('bad-pattern', '(unclosed'),
+            regexDetector('bad-context', 'fetch\\(', '[a-'),
+          ],
+        },
+      };
+      const warnings: string[] = [];
+
+      const validated = validateManifest(manifest, (message) => warnings.push(message));
+
+      expect(validated.diffesense.detectors.map((d) => d.id)).toEqual(['valid']);
+      expect(warnings).toHaveLength(2);
+      expect(warnings[0]).toContain('Skipping detector bad-pattern of @test/pack');
+      expect(warnings[1]).toContain('surroundingContext.before of bad-context-pattern');
+    });
   });
 
   describe('PackRegistry', () => {
@@ -340,5 +387,164 @@ describe('Plugin System', () => {
       }
     });
   });
-});
 
+  describe('detectWithPacks', () => {
+    const fetchSignal: SignalTemplate = {
+      id: 'team-raw-fetch',
+      title: 'Raw fetch call',
+      reason: 'Use the shared API client instead of fetch',
+      class: 'behavioral',
+      category: 'side-effect',
+      severity: 'warn',
+      confidence: 'high',
+      weight: 0.6,
+      actions: [{ type: 'review', text: 'Ask the platform team to review' }],
+    };
+
+    const fetchDetector: DetectorDefinition = {
+      id: 'raw-fetch',
+      name: 'Raw fetch',
+      description: 'Direct fetch calls bypass the API client',
+      filePatterns: ['src/**/*.ts'],
+      detect: {
+        type: 'regex',
+        patterns: [{ id: 'fetch-call', pattern: '\\bfetch\\(', flags: 'g', signal: fetchSignal }],
+      },
+    };
+
+    const content = `const a = 1;\nconst res = await fetch('/api');\nconst b = fetch('/other');\n`;
+
+    it('should emit signals from regex patterns on every matching line', () => {
+      const signals = detectWithPacks(content, 'src/api.ts', [fetchDetector]);
+
+      expect(signals).toHaveLength(2);
+      expect(signals[0].id).toBe('team-raw-fetch');
+      expect(signals[0].lines).toEqual([2]);
+      expect(signals[0].severity).toBe('warn');
+      expect(signals[0].evidence.kind).toBe('regex');
+      expect(signals[0].actions?.[0].type).toBe('review_request');
+      expect(signals[0].meta?.source).toBe('pack');
+    });
+
+    it('should respect filePatterns and enabled flag', () => {
+      expect(detectWithPacks(content, 'scripts/api.ts', [fetchDetector])).toHaveLength(0);
+      expect(
+        detectWithPacks(content, 'src/api.ts', [{ ...fetchDetector, enabled: false }]),
+      ).toHaveLength(0);
+    });
+
+    it('should only scan changed lines when ranges are given', () => {
+      const signals = detectWithPacks(content, 'src/api.ts', [fetchDetector], {
+        changedRanges: [{ startLine: 3, endLine: 3, type: 'added' }],
+        contextLines: 0,
+      });
+
+      expect(signals.map((s) => s.lines[0])).toEqual([3]);
+    });
+
+    it('should require every method to match for composite all', () => {
+      const composite: DetectorDefinition = {
+        ...fetchDetector,
+        detect: {
+          type: 'composite',
+          combine: 'all',
+          methods: [
+            fetchDetector.detect,
+            {
+              type: 'regex',
+              patterns: [{ id: 'xhr', pattern: 'XMLHttpRequest', signal: fetchSignal }],
+            },
+          ],
+        },
+      };
+
+      expect(detectWithPacks(content, 'src/api.ts', [composite])).toHaveLength(0);
+      const anyComposite: DetectorDefinition = {
+        ...composite,
+        detect: { type: 'composite', combine: 'any', methods: [fetchDetector.detect] },
+      };
+      expect(detectWithPacks(content, 'src/api.ts', [anyComposite])).toHaveLength(2);
+    });
+  });
+
+  describe('analyze() with packs', () => {
+    let tempDir: string;
+
+    beforeAll(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'diffesense-packs-'));
+
+      execSync('git init', { cwd: tempDir, stdio: 'pipe' });
+      execSync('git config user.email "test@test.com"', { cwd: tempDir, stdio: 'pipe' });
+      execSync('git config user.name "Test User"', { cwd: tempDir, stdio: 'pipe' });
+
+      fs.writeFileSync(
+        path.join(tempDir, 'team-pack.yml'),
+        [
+          'name: team-pack',
+          'version: 1.0.0',
+          'description: Team rules',
+          "diffesenseVersion: '>=1.0.0'",
+          'diffesense:',
+          '  type: detector-pack',
+          '  detectors:',
+          '    - id: legacy-client',
+          '      name: Legacy client',
+          '      description: Legacy HTTP client is deprecated',
+          '      detect:',
+          '        type: regex',
+          '        patterns:',
+          '          - id: legacy-call',
+          "            pattern: 'legacyClient\\.'",
+          '            signal:',
+          '              id: team-legacy-client',
+          '              title: Legacy HTTP client used',
+          '              reason: legacyClient is scheduled for removal',
+          '              class: behavioral',
+          '              category: side-effect',
+          '              severity: warn',
+          '              confidence: high',
+          '              weight: 0.8',
+          '',
+        ].join('\n'),
+      );
+      fs.writeFileSync(path.join(tempDir, '.diffesense.yml'), 'packs:\n  - ./team-pack.yml\n');
+      fs.writeFileSync(path.join(tempDir, 'index.ts'), `export const x = 1;\n`);
+      execSync('git add .', { cwd: tempDir, stdio: 'pipe' });
+      execSync('git commit -m "Initial commit"', { cwd: tempDir, stdio: 'pipe' });
+    });
+
+    afterAll(() => {
+      if (tempDir && fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should report signals from packs listed in config', async () => {
+      fs.writeFileSync(
+        path.join(tempDir, 'index.ts'),
+        `export const x = 1;\nexport const y = legacyClient.get('/users');\n`,
+      );
+      execSync('git add index.ts', { cwd: tempDir, stdio: 'pipe' });
+
+      const result = await analyze({ cwd: tempDir, scope: 'staged' });
+
+      expect(result.success).toBe(true);
+      expect(result.files[0].signalTypes).toContain('team-legacy-client');
+      expect(result.files[0].riskReasons.join(' ')).toContain('team-legacy-client');
+      expect(result.warnings.some((w) => w.code === 'PACK_WARNING')).toBe(false);
+    });
+
+    it('should warn instead of failing when a pack cannot be loaded', async () => {
+      fs.writeFileSync(path.join(tempDir, '.diffesense.yml'), 'packs:\n  - ./missing.yml\n');
+
+      const result = await analyze({ cwd: tempDir, scope: 'staged' });
+
+      expect(result.success).toBe(true);
+      expect(
+        result.warnings.some(
+          (w) => w.code === 'PACK_WARNING' && w.message.includes('Could not load pack'),
+        ),
+      ).toBe(true);
+    });
+  });
+});
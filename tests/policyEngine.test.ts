@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { parseConfig } from '../src/config/schema';
+import { AnalyzedFile, evaluateRules, explainConditions, Rule } from '../src/policy/engine';
+
+function file(path: string, overrides: Partial<AnalyzedFile> = {}): AnalyzedFile {
+  return {
+    path,
+    riskScore: 6,
+    blastRadius: 0,
+    evidence: [],
+    riskReasons: [],
+    signalTypes: ['sec-eval'],
+    ...overrides,
+  };
+}
+
+// sec-* signal AND (path in src/api/** OR blast radius >= 10) AND NOT test file
+const guardedSecurity: Rule = {
+  id: 'guarded-security',
+  when: {
+    signalTypes: ['sec-*'],
+    any: [{ pathMatches: ['src/api/**'] }, { blastRadiusGte: 10 }],
+    not: { pathMatches: ['**/*.test.ts'] },
+  },
+  then: { severity: 'blocker' },
+};
+
+describe('Policy Engine', () => {
+  describe('rule expressions', () => {
+    it('should combine all, any and not conditions', () => {
+      const files = [
+        file('src/api/users.ts'),
+        file('src/lib/crypto.ts', { blastRadius: 12 }),
+        file('src/lib/format.ts', { blastRadius: 2 }),
+        file('src/api/users.test.ts'),
+        file('src/api/health.ts', { signalTypes: ['perf-loop'] }),
+      ];
+
+      const { blockers } = evaluateRules(files, [guardedSecurity]);
+
+      expect(blockers.map((b) => b.file.path)).toEqual(['src/api/users.ts', 'src/lib/crypto.ts']);
+    });
+
+    it('should explain which branch of a rule fired', () => {
+      const explanation = explainConditions(
+        file('src/lib/crypto.ts', { blastRadius: 12 }),
+        guardedSecurity.when,
+      );
+
+      expect(explanation).toEqual({
+        condition: 'all',
+        matched: true,
+        children: [
+          { condition: 'signalTypes', matched: true, detail: 'sec-eval' },
+          {
+            condition: 'any',
+            matched: true,
+            children: [
+              {
+                condition: 'pathMatches',
+                matched: false,
+                detail: 'src/lib/crypto.ts matches none',
+              },
+              { condition: 'blastRadiusGte', matched: true, detail: 'blast radius 12 >= 10' },
+            ],
+          },
+          {
+            condition: 'not',
+            matched: true,
+            children: [
+              {
+                condition: 'pathMatches',
+                matched: false,
+                detail: 'src/lib/crypto.ts matches none',
+              },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should validate nested conditions in config', () => {
+      const valid = parseConfig({
+        rules: [
+          {
+            id: 'nested',
+            when: { all: [{ riskGte: 5 }, { not: { any: [{ signalClasses: ['critical'] }] } }] },
+            then: { severity: 'warning' },
+          },
+        ],
+      });
+      const invalid = parseConfig({
+        rules: [{ id: 'empty', when: { any: [] }, then: { severity: 'info' } }],
+      });
+      const typo = parseConfig({
+        rules: [{ id: 'typo', when: { not: { riskGte: 'high' } }, then: { severity: 'info' } }],
+      });
+
+      expect(valid.valid).toBe(true);
+      expect(valid.config?.rules?.[0].when.all?.[1].not?.any).toHaveLength(1);
+      expect(invalid.valid).toBe(false);
+      expect(typo.errors[0].path).toBe('rules.0.when.not.riskGte');
+    });
+  });
+});
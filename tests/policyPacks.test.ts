@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { analyzeFiles } from '../src/core/analyzeFiles';
+import { enterprisePack, startupPack } from '../src/policy/packs';
+import { resolvePolicyPack } from '../src/policy/packs/custom';
+import { diffPolicyPacks } from '../src/policy/packs/loader';
+
+const BEFORE = ['export function run(code: string) {', '  return code;', '}', ''].join('\n');
+const AFTER = ['export function run(code: string) {', '  return eval(code);', '}', ''].join('\n');
+
+describe('Custom Policy Packs', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'diffesense-policy-packs-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const writeFile = (relativePath: string, content: string): void => {
+    const fullPath = path.join(tempDir, relativePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  };
+
+  describe('resolvePolicyPack', () => {
+    it('should return built-in packs by name', () => {
+      expect(resolvePolicyPack('enterprise', tempDir)).toBe(enterprisePack);
+    });
+
+    it('should merge a YAML pack over the pack it extends', () => {
+      writeFile(
+        'packs/payments.yml',
+        [
+          'extends: startup',
+          'failOn:',
+          '  minHighestRisk: 7',
+          '  severityCounts:',
+          '    HIGH: 1',
+          'weights:',
+          '  security: 1.5',
+          '',
+        ].join('\n'),
+      );
+
+      const pack = resolvePolicyPack('./packs/payments.yml', tempDir);
+
+      expect(pack).toMatchObject({
+        name: 'payments',
+        extends: 'startup',
+        source: path.join(tempDir, 'packs/payments.yml'),
+        failOn: { minHighestRisk: 7, minBlockers: 1, severityCounts: { CRITICAL: 1, HIGH: 1 } },
+        defaults: startupPack.defaults,
+      });
+      expect(pack.weights).toEqual({ ...startupPack.weights, security: 1.5 });
+    });
+
+    it('should load a pack from an npm package', () => {
+      writeFile(
+        'node_modules/@acme/policy/package.json',
+        JSON.stringify({
+          name: '@acme/policy',
+          description: 'ACME policy',
+          diffesense: { type: 'policy-pack', extends: 'enterprise', defaults: { topN: 3 } },
+        }),
+      );
+
+      const pack = resolvePolicyPack('@acme/policy', tempDir);
+
+      expect(pack.name).toBe('@acme/policy');
+      expect(pack.description).toBe('ACME policy');
+      expect(pack.defaults).toEqual({ topN: 3, details: true });
+    });
+
+    it('should reject invalid and incomplete packs', () => {
+      writeFile('typo.json', JSON.stringify({ extends: 'startup', failon: {} }));
+      writeFile('partial.json', JSON.stringify({ weights: { security: 2 } }));
+
+      expect(() => resolvePolicyPack('typo.json', tempDir)).toThrow(/failon/);
+      expect(() => resolvePolicyPack('partial.json', tempDir)).toThrow(/extends/);
+      expect(() => resolvePolicyPack('no-such-pack', tempDir)).toThrow(/not a built-in pack/);
+      expect(() => resolvePolicyPack('Strict Pack', tempDir)).toThrow(/Invalid policy pack/);
+    });
+  });
+
+  describe('diffPolicyPacks', () => {
+    it('should list the settings that differ', () => {
+      const differences = diffPolicyPacks(startupPack, enterprisePack);
+
+      expect(differences).toContainEqual({
+        setting: 'failOn.minHighestRisk',
+        left: 8.8,
+        right: 7.5,
+      });
+      expect(differences).toContainEqual({
+        setting: 'failOn.severityCounts.HIGH',
+        left: undefined,
+        right: 2,
+      });
+      expect(differences.map((d) => d.setting)).not.toContain('defaults.topN');
+      expect(diffPolicyPacks(startupPack, startupPack)).toEqual([]);
+    });
+  });
+
+  describe('analysis', () => {
+    it('should apply a resolved custom pack', async () => {
+      writeFile(
+        'strict.json',
+        JSON.stringify({ name: 'strict', extends: 'startup', failOn: { minHighestRisk: 1 } }),
+      );
+
+      const result = await analyzeFiles([{ path: 'src/run.ts', before: BEFORE, after: AFTER }], {
+        cwd: tempDir,
+        policyPack: resolvePolicyPack('./strict.json', tempDir),
+      });
+
+      expect(result.exitCode).toBe(1);
+      expect(result.policy).toMatchObject({ pack: 'strict', outcome: 'FAIL' });
+    });
+
+    it('should refuse pack files it would have to read', async () => {
+      const result = await analyzeFiles([{ path: 'src/run.ts', before: BEFORE, after: AFTER }], {
+        cwd: tempDir,
+        policyPack: './missing.yml',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('missing.yml');
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { execSync } from 'child_process';
+import { analyze } from '../src/core/analyze';
+import { addSuppression } from '../src/core/suppressions';
+import { computeSignalFingerprints } from '../src/core/fingerprint';
+import { formatSarifOutput, SarifLog } from '../src/output/formatters/dsSarif';
+
+const API_SOURCE = [
+  'export async function load() {',
+  '  const res = await fetch("/api/data");',
+  '  return res.json();',
+  '}',
+  '',
+];
+
+describe('SARIF Output', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'diffesense-sarif-'));
+    execSync('git init', { cwd: tempDir, stdio: 'pipe' });
+    execSync('git config user.email "test@test.com"', { cwd: tempDir, stdio: 'pipe' });
+    execSync('git config user.name "Test"', { cwd: tempDir, stdio: 'pipe' });
+
+    fs.mkdirSync(path.join(tempDir, 'src'));
+    fs.writeFileSync(path.join(tempDir, 'src', 'api.ts'), 'export const x = 1;\n');
+    fs.writeFileSync(path.join(tempDir, '.gitignore'), '.diffesense/\n');
+    execSync('git add . && git commit -m "init"', { cwd: tempDir, stdio: 'pipe' });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function analyzeSarif(lines: string[]): Promise<SarifLog> {
+    fs.writeFileSync(path.join(tempDir, 'src', 'api.ts'), lines.join('\n'));
+    const result = await analyze({ cwd: tempDir, scope: 'working' });
+    return JSON.parse(formatSarifOutput(result));
+  }
+
+  it('should produce a SARIF 2.1.0 log with DiffeSense as the driver', async () => {
+    const log = await analyzeSarif(API_SOURCE);
+
+    expect(log.version).toBe('2.1.0');
+    expect(log.$schema).toContain('sarif-2.1.0');
+    expect(log.runs).toHaveLength(1);
+    expect(log.runs[0].tool.driver.name).toBe('DiffeSense');
+    expect(log.runs[0].properties.status).toMatch(/PASS|FAIL/);
+  });
+
+  it('should map each signal to a result with rule metadata and location', async () => {
+    const log = await analyzeSarif(API_SOURCE);
+    const run = log.runs[0];
+
+    const active = run.results.filter((r) => r.kind !== 'pass');
+    expect(active.length).toBeGreaterThan(0);
+    for (const result of active) {
+      const rule = run.tool.driver.rules[result.ruleIndex];
+      expect(rule.id).toBe(result.ruleId);
+      expect(rule.shortDescription.text).toBeTruthy();
+      expect(['error', 'warning', 'note']).toContain(result.level);
+
+      const location = result.locations[0].physicalLocation;
+      expect(location.artifactLocation).toEqual({ uri: 'src/api.ts', uriBaseId: '%SRCROOT%' });
+      expect(location.region?.startLine).toBeGreaterThan(0);
+      expect(result.partialFingerprints['diffesenseFingerprint/v1']).toMatch(/^[0-9a-f]{32}$/);
+    }
+
+    const ruleIds = run.tool.driver.rules.map((r) => r.id);
+    expect(new Set(ruleIds).size).toBe(ruleIds.length);
+  });
+
+  it('should keep fingerprints stable when code moves', async () => {
+    const first = await analyzeSarif(API_SOURCE);
+    const second = await analyzeSarif(['// header', '', ...API_SOURCE]);
+
+    const fingerprints = (log: SarifLog) =>
+      log.runs[0].results
+        .map((r) => `${r.ruleId}:${r.partialFingerprints['diffesenseFingerprint/v1']}`)
+        .sort();
+
+    expect(fingerprints(second)).toEqual(fingerprints(first));
+    expect(second.runs[0].results[0].locations[0].physicalLocation.region?.startLine).not.toBe(
+      first.runs[0].results[0].locations[0].physicalLocation.region?.startLine,
+    );
+  });
+
+  it('should report suppressed signals as dismissed results', async () => {
+    const initial = await analyzeSarif(API_SOURCE);
+    const ruleId = initial.runs[0].results[0].ruleId;
+    addSuppression(tempDir, { signalId: ruleId, reason: 'Known API call' });
+
+    const log = await analyzeSarif(API_SOURCE);
+    const suppressed = log.runs[0].results.filter((r) => r.suppressions);
+
+    expect(suppressed.length).toBeGreaterThan(0);
+    expect(suppressed[0]).toMatchObject({
+      ruleId,
+      level: 'note',
+      suppressions: [{ kind: 'external', justification: 'Known API call' }],
+    });
+    expect(suppressed[0].partialFingerprints['diffesenseFingerprint/v1']).toBe(
+      initial.runs[0].results[0].partialFingerprints['diffesenseFingerprint/v1'],
+    );
+  });
+
+  it('should take rule levels from signal severity when results are suppressed', async () => {
+    const initial = await analyzeSarif(API_SOURCE);
+    for (const rule of initial.runs[0].tool.driver.rules) {
+      addSuppression(tempDir, { signalId: rule.id, reason: 'Accepted' });
+    }
+
+    const log = await analyzeSarif(API_SOURCE);
+    const levels = (l: SarifLog) =>
+      Object.fromEntries(
+        l.runs[0].tool.driver.rules.map((r) => [r.id, r.defaultConfiguration.level]),
+      );
+
+    expect(log.runs[0].results.every((r) => r.suppressions)).toBe(true);
+    expect(levels(log)).toEqual(levels(initial));
+  });
+
+  describe('computeSignalFingerprints', () => {
+    it('should distinguish repeated identical signals by order', () => {
+      const signal = { id: 'console-log', snippet: 'console.log(x);', message: 'Console call' };
+      const [a, b] = computeSignalFingerprints('src/a.ts', [
+        { ...signal, line: 10 },
+        { ...signal, line: 4 },
+      ]);
+
+      expect(a).not.toBe(b);
+      expect(computeSignalFingerprints('src/a.ts', [{ ...signal, line: 40 }])[0]).toBe(b);
+    });
+
+    it('should ignore whitespace and numbers in messages', () => {
+      const [a] = computeSignalFingerprints('src/a.ts', [
+        { id: 'large-file', message: 'File has 420 lines' },
+      ]);
+      const [b] = computeSignalFingerprints('src\\a.ts', [
+        { id: 'large-file', message: 'File  has 512 lines' },
+      ]);
+      expect(a).toBe(b);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { AddressInfo } from 'net';
+import { execSync } from 'child_process';
+import { createApiServer } from '../src/server/api';
+
+describe('HTTP API', () => {
+  let tempDir: string;
+  let baseUrl: string;
+  let server: ReturnType<typeof createApiServer>;
+
+  const post = (body: unknown) =>
+    fetch(`${baseUrl}/analyze`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+
+  beforeAll(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'diffesense-serve-'));
+    execSync('git init', { cwd: tempDir, stdio: 'pipe' });
+    execSync('git config user.email "dev@example.com"', { cwd: tempDir, stdio: 'pipe' });
+    execSync('git config user.name "Dev"', { cwd: tempDir, stdio: 'pipe' });
+
+    fs.mkdirSync(path.join(tempDir, 'src'));
+    fs.writeFileSync(path.join(tempDir, 'src', 'run.ts'), 'export const run = (c: string) => c;\n');
+    execSync('git add -A && git commit -m "init"', { cwd: tempDir, stdio: 'pipe' });
+    fs.writeFileSync(
+      path.join(tempDir, 'src', 'run.ts'),
+      'export const run = (c: string) => eval(c);\n',
+    );
+    execSync('git commit -am "use eval"', { cwd: tempDir, stdio: 'pipe' });
+
+    server = createApiServer({ cwd: tempDir });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should serve health, the signal catalog and policy packs', async () => {
+    const health = await (await fetch(`${baseUrl}/health`)).json();
+    expect(health.status).toBe('ok');
+
+    const { signals } = await (await fetch(`${baseUrl}/signals`)).json();
+    expect(signals.find((s: { id: string }) => s.id === 'sec-eval')).toMatchObject({
+      category: 'security',
+    });
+
+    const { packs } = await (await fetch(`${baseUrl}/packs`)).json();
+    expect(packs.map((p: { name: string }) => p.name).sort()).toEqual([
+      'enterprise',
+      'oss',
+      'startup',
+    ]);
+  });
+
+  it('should analyze a commit and share the cached result across requests', async () => {
+    const first = await post({ commit: 'HEAD' });
+    expect(first.status).toBe(200);
+    expect(first.headers.get('x-diffesense-cache')).toBe('miss');
+    const output = await first.json();
+    expect(output.schemaVersion).toBeDefined();
+    expect(output.files[0].path).toBe('src/run.ts');
+
+    const second = await post({ commit: 'HEAD' });
+    expect(second.headers.get('x-diffesense-cache')).toBe('hit');
+    expect((await second.json()).files).toEqual(output.files);
+  });
+
+  it('should analyze in-memory file pairs', async () => {
+    const body = {
+      files: [
+        {
+          path: 'src/a.ts',
+          before: 'export const a = 1;\n',
+          after: 'export const a = eval("1");\n',
+        },
+      ],
+    };
+    const response = await post(body);
+    const output = await response.json();
+    expect(output.meta.scope).toBe('files');
+    expect(output.files[0].signals.map((s: { id: string }) => s.id)).toContain('sec-eval');
+    expect((await post(body)).headers.get('x-diffesense-cache')).toBe('hit');
+  });
+
+  it('should reject invalid requests', async () => {
+    expect((await post('{not json')).status).toBe(400);
+
+    const invalid = await post({ scope: 'everything' });
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).error).toContain('scope');
+
+    expect((await fetch(`${baseUrl}/analyze`)).status).toBe(405);
+    expect((await fetch(`${baseUrl}/nope`)).status).toBe(404);
+  });
+
+  it('should report config errors without stopping the server', async () => {
+    const response = await post({ configPath: 'does-not-exist.yml', scope: 'working' });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain('Config file not found');
+
+    expect((await fetch(`${baseUrl}/health`)).status).toBe(200);
+  });
+
+  it('should refuse paths outside the served directory and browser requests', async () => {
+    expect((await post({ cwd: '..' })).status).toBe(403);
+    expect((await post({ configPath: '../elsewhere/diffesense.config.js' })).status).toBe(403);
+
+    const packFile = await post({
+      files: [{ path: 'src/a.ts', after: 'export const a = 1;\n' }],
+      options: { config: { policyPack: '../../pack.json' } },
+    });
+    expect(packFile.status).toBe(400);
+    expect((await packFile.json()).error).toContain('policyPack');
+
+    const packs = await post({
+      files: [{ path: 'src/a.ts', after: 'export const a = 1;\n' }],
+      options: { config: { packs: ['./packs/local'] } },
+    });
+    expect(packs.status).toBe(400);
+    expect((await packs.json()).error).toContain('config.packs');
+
+    const crossSite = await fetch(`${baseUrl}/analyze`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Origin: 'https://example.com' },
+      body: '{}',
+    });
+    expect(crossSite.status).toBe(403);
+
+    const simpleForm = await fetch(`${baseUrl}/analyze`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain' },
+      body: '{"commit":"HEAD"}',
+    });
+    expect(simpleForm.status).toBe(415);
+  });
+});
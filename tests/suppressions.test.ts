@@ -2,6 +2,10 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { execSync } from 'child_process';
+import { analyze } from '../src/core/analyze';
+import { formatJsonOutput } from '../src/output/formatters/dsJson';
+import { formatMarkdownOutput } from '../src/output/formatters/dsMarkdown';
 import {
   normalizePath,
   parseDuration,
@@ -456,6 +460,93 @@ describe('Suppressions Module', () => {
       expect(result.active).toHaveLength(0);
       expect(result.suppressed).toHaveLength(2);
     });
+
+    it('should return the matching suppression for each suppressed signal', () => {
+      const signals = [
+        { id: 'large-file', message: 'Large file detected' },
+        { id: 'deep-nesting', message: 'Deep nesting detected' },
+      ];
+
+      const suppressions: SuppressionMatch[] = [
+        {
+          entry: { signalId: 'deep-*', reason: 'Legacy code', createdAt: new Date().toISOString() },
+          scope: 'global',
+        },
+      ];
+
+      const result = applySuppressions(signals, 'src/file.ts', suppressions);
+
+      expect(result.matches).toHaveLength(1);
+      expect(result.matches[0].entry.reason).toBe('Legacy code');
+    });
+  });
+
+  describe('analyze() integration', () => {
+    beforeEach(() => {
+      execSync('git init', { cwd: tempDir, stdio: 'pipe' });
+      execSync('git config user.email "test@test.com"', { cwd: tempDir, stdio: 'pipe' });
+      execSync('git config user.name "Test"', { cwd: tempDir, stdio: 'pipe' });
+
+      fs.mkdirSync(path.join(tempDir, 'src'));
+      fs.writeFileSync(path.join(tempDir, 'src', 'api.ts'), 'export const x = 1;\n');
+      fs.writeFileSync(path.join(tempDir, '.gitignore'), '.diffesense/\n');
+      execSync('git add . && git commit -m "init"', { cwd: tempDir, stdio: 'pipe' });
+
+      fs.writeFileSync(
+        path.join(tempDir, 'src', 'api.ts'),
+        [
+          'export async function load() {',
+          '  const res = await fetch("/api/data");',
+          '  return res.json();',
+          '}',
+          '',
+        ].join('\n'),
+      );
+    });
+
+    it('should remove suppressed signals before scoring and report them', async () => {
+      const before = await analyze({ cwd: tempDir, scope: 'working' });
+      const signalId = before.files[0].signalTypes[0];
+      expect(signalId).toBeDefined();
+
+      addSuppression(tempDir, {
+        signalId,
+        fileGlob: 'src/**',
+        reason: 'Known API call',
+        expiresIn: '7d',
+      });
+
+      const after = await analyze({ cwd: tempDir, scope: 'working' });
+      const file = after.files[0];
+
+      expect(file.signalTypes).not.toContain(signalId);
+      expect(file.riskScore).toBeLessThanOrEqual(before.files[0].riskScore);
+      expect(file.suppressed.length).toBeGreaterThan(0);
+      expect(file.suppressed[0]).toMatchObject({
+        signalId,
+        rule: signalId,
+        fileGlob: 'src/**',
+        scope: 'local',
+        reason: 'Known API call',
+      });
+      expect(file.suppressed[0].expiresAt).toBeDefined();
+      expect(after.summary.suppressedCount).toBe(file.suppressed.length);
+    });
+
+    it('should include suppressed section in JSON and markdown output', async () => {
+      const before = await analyze({ cwd: tempDir, scope: 'working' });
+      const signalId = before.files[0].signalTypes[0];
+      addSuppression(tempDir, { signalId, reason: 'Known API call' });
+
+      const result = await analyze({ cwd: tempDir, scope: 'working' });
+
+      const json = JSON.parse(formatJsonOutput(result));
+      expect(json.suppressed[0]).toMatchObject({ path: 'src/api.ts', signalId });
+
+      const markdown = formatMarkdownOutput(result);
+      expect(markdown).toContain('Suppressed Signals');
+      expect(markdown).toContain('Known API call');
+    });
   });
 
   describe('Integration: Suppression affects PASS/FAIL', () => {
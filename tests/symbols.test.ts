@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { execSync } from 'child_process';
+import { buildRepoDependencyGraph, DependencyGraph } from '../src/analyzers/blastRadius';
+import { calculateSymbolBlastRadius, getSymbolDependents } from '../src/analyzers/symbols';
+import { ChangedRange } from '../src/signals/types';
+import { analyze } from '../src/core/analyze';
+
+describe('Symbol Blast Radius', () => {
+  let tempDir: string;
+  let graph: DependencyGraph;
+
+  const UTILS = [
+    'function internal(x: number) {',
+    '  return x * 2;',
+    '}',
+    'export function rare(x: number) {',
+    '  return internal(x);',
+    '}',
+    '',
+    'export function common(x: number) {',
+    '  return x + 1;',
+    '}',
+    '',
+    'export const LIMIT = 10;',
+    '',
+  ].join('\n');
+
+  function write(file: string, content: string) {
+    const fullPath = path.join(tempDir, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  }
+
+  function range(startLine: number, endLine = startLine): ChangedRange {
+    return { startLine, endLine, type: 'modified', lineCount: endLine - startLine + 1 };
+  }
+
+  function radius(ranges: ChangedRange[]) {
+    return calculateSymbolBlastRadius(tempDir, 'src/utils/index.ts', ranges, graph)!;
+  }
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'diffesense-symbols-'));
+    execSync('git init', { cwd: tempDir, stdio: 'pipe' });
+    execSync('git config user.email "test@test.com"', { cwd: tempDir, stdio: 'pipe' });
+    execSync('git config user.name "Test"', { cwd: tempDir, stdio: 'pipe' });
+
+    write('src/utils/index.ts', UTILS);
+    write('src/a.ts', "import { common } from './utils';\nexport const a = common(1);\n");
+    write(
+      'src/b.ts',
+      "import { common, LIMIT } from './utils';\nexport const b = common(LIMIT);\n",
+    );
+    write(
+      'src/c.ts',
+      [
+        "import { rare } from './utils';",
+        'export function c() {',
+        '  return rare(1);',
+        '}',
+        'export const other = 1;',
+        '',
+      ].join('\n'),
+    );
+    write('src/d.ts', "import { c } from './c';\nexport const d = c();\n");
+    write('src/e.ts', "import { other } from './c';\nexport const e = other;\n");
+    write('src/barrel.ts', "export * from './utils';\n");
+    write('src/f.ts', "import { rare } from './barrel';\nexport const f = rare(2);\n");
+    write('src/g.ts', "import * as utils from './utils';\nexport const g = utils;\n");
+    execSync('git add . && git commit -q -m "init"', { cwd: tempDir, stdio: 'pipe' });
+
+    graph = buildRepoDependencyGraph(tempDir);
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should count only importers of the touched export', () => {
+    const [symbol] = radius([range(12)]);
+
+    expect(symbol).toEqual({
+      symbol: 'LIMIT',
+      directDependents: ['src/b.ts', 'src/g.ts'],
+      indirectDependents: [],
+    });
+  });
+
+  it('should follow barrels and importers that use the symbol in their exports', () => {
+    const [symbol] = radius([range(5)]);
+
+    expect(symbol.symbol).toBe('rare');
+    expect(symbol.directDependents).toEqual(['src/c.ts', 'src/f.ts', 'src/g.ts']);
+    expect(symbol.indirectDependents).toEqual(['src/d.ts']);
+  });
+
+  it('should attribute private helper changes to the exports that use them', () => {
+    const symbols = radius([range(2)]);
+
+    expect(symbols.map((s) => s.symbol)).toEqual(['rare']);
+  });
+
+  it('should report each touched export separately', () => {
+    const symbols = radius([range(9), range(12)]);
+
+    expect(symbols.map((s) => s.symbol)).toEqual(['LIMIT', 'common']);
+    expect(getSymbolDependents(symbols)).toEqual(['src/a.ts', 'src/b.ts', 'src/g.ts']);
+  });
+
+  it('should fall back to the whole module for removed statements', () => {
+    const symbols = radius([{ startLine: 7, endLine: 6, type: 'modified', lineCount: 0 }]);
+
+    expect(symbols.map((s) => s.symbol)).toEqual(['*']);
+    expect(getSymbolDependents(symbols)).toHaveLength(6);
+  });
+
+  it('should return null without diff ranges', () => {
+    expect(calculateSymbolBlastRadius(tempDir, 'src/utils/index.ts', undefined, graph)).toBeNull();
+  });
+
+  it('should narrow blast radius in analyze()', async () => {
+    write('src/utils/index.ts', UTILS.replace('  return x * 2;', '  return x * 3;'));
+    try {
+      const result = await analyze({ cwd: tempDir, scope: 'working' });
+      const file = result.files.find((f) => f.path === 'src/utils/index.ts')!;
+
+      expect(file.symbolBlastRadius?.map((s) => s.symbol)).toEqual(['rare']);
+      expect(file.blastRadius).toBe(4);
+    } finally {
+      execSync('git checkout -- .', { cwd: tempDir, stdio: 'pipe' });
+    }
+  });
+});
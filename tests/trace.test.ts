@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { execSync } from 'child_process';
+import { traceSignal } from '../src/core/trace';
+
+describe('Signal Trace', () => {
+  let tempDir: string;
+  let evalCommit: string;
+
+  function write(file: string, lines: string[]) {
+    fs.mkdirSync(path.dirname(path.join(tempDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, file), [...lines, ''].join('\n'));
+  }
+
+  function commit(message: string): string {
+    execSync(`git add -A && git commit -m "${message}"`, { cwd: tempDir, stdio: 'pipe' });
+    return execSync('git rev-parse HEAD', { cwd: tempDir, encoding: 'utf-8' }).trim();
+  }
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'diffesense-trace-'));
+    execSync('git init', { cwd: tempDir, stdio: 'pipe' });
+    execSync('git config user.email "dev@example.com"', { cwd: tempDir, stdio: 'pipe' });
+    execSync('git config user.name "Dev"', { cwd: tempDir, stdio: 'pipe' });
+
+    write('src/legacy.ts', ['export function legacy(code: string) {', '  return eval(code);', '}']);
+    write('src/old.ts', ['export function old(code: string) {', '  return eval(code);', '}']);
+    write('src/run.ts', ['export function run(code: string) {', '  return code;', '}']);
+    commit('init');
+
+    // Renaming a file that already has the signal must not count as introducing it
+    execSync('git mv src/old.ts src/renamed.ts', { cwd: tempDir, stdio: 'pipe' });
+    commit('rename old');
+
+    write('src/run.ts', [
+      'export function run(code: string) {',
+      '  const trimmed = code.trim();',
+      '  return eval(trimmed);',
+      '}',
+    ]);
+    write('src/legacy.ts', [
+      'export function legacy(code: string) {',
+      '  // still evaluated',
+      '  return eval(code);',
+      '}',
+    ]);
+    evalCommit = commit('use eval');
+
+    fs.mkdirSync(path.join(tempDir, 'src', 'lib'));
+    execSync('git mv src/run.ts src/lib/run.ts', { cwd: tempDir, stdio: 'pipe' });
+    commit('move run');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should report the commit, author and hunk that introduced the signal', async () => {
+    const result = await traceSignal({ cwd: tempDir, signalId: 'sec-eval', range: 'HEAD~3..HEAD' });
+
+    expect(result.success).toBe(true);
+    expect(result.commitsScanned).toBe(3);
+    expect(result.introductions).toHaveLength(1);
+
+    const [introduction] = result.introductions;
+    expect(introduction.commit).toMatchObject({
+      sha: evalCommit,
+      subject: 'use eval',
+      author: 'Dev',
+      email: 'dev@example.com',
+    });
+    expect(introduction.file).toBe('src/run.ts');
+    expect(introduction.lines).toEqual([3]);
+    expect(introduction.hunk).toContain('+  return eval(trimmed);');
+  });
+
+  it('should follow renames', async () => {
+    const result = await traceSignal({ cwd: tempDir, signalId: 'sec-eval', range: 'HEAD~3..HEAD' });
+
+    expect(result.introductions[0].path).toBe('src/lib/run.ts');
+    expect(result.preExisting).toEqual(['src/legacy.ts', 'src/renamed.ts']);
+  });
+
+  it('should limit the trace to one file', async () => {
+    const result = await traceSignal({
+      cwd: tempDir,
+      signalId: 'sec-eval',
+      range: 'HEAD~3..HEAD',
+      file: 'src/legacy.ts',
+    });
+
+    expect(result.introductions).toEqual([]);
+    expect(result.preExisting).toEqual(['src/legacy.ts']);
+  });
+
+  it('should run the custom patterns of the config', async () => {
+    write('.diffesense.yml', [
+      'customPatterns:',
+      '  - id: team-eval',
+      '    name: Team eval',
+      '    description: eval is banned in this team',
+      "    match: 'eval\\('",
+      '    category: side-effect',
+      '    signalType: team-eval',
+      '    weight: 0.5',
+      '    signalClass: critical',
+    ]);
+
+    const result = await traceSignal({
+      cwd: tempDir,
+      signalId: 'team-eval',
+      range: 'HEAD~3..HEAD',
+    });
+
+    expect(result.introductions.map((i) => i.commit.sha)).toEqual([evalCommit]);
+    expect(result.preExisting).toEqual(['src/legacy.ts', 'src/renamed.ts']);
+  });
+
+  it('should report an invalid range', async () => {
+    const result = await traceSignal({ cwd: tempDir, signalId: 'sec-eval', range: 'nope..HEAD' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('nope..HEAD');
+  });
+});
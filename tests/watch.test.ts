@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { execSync } from 'child_process';
+import { createWatchSession, watchWorkingTree } from '../src/core/watch';
+
+describe('Watch Session', () => {
+  let tempDir: string;
+
+  function write(file: string, lines: string[]) {
+    fs.mkdirSync(path.dirname(path.join(tempDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, file), [...lines, ''].join('\n'));
+  }
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'diffesense-watch-'));
+    execSync('git init', { cwd: tempDir, stdio: 'pipe' });
+    execSync('git config user.email "dev@example.com"', { cwd: tempDir, stdio: 'pipe' });
+    execSync('git config user.name "Dev"', { cwd: tempDir, stdio: 'pipe' });
+
+    write('src/run.ts', ['export function run(code: string) {', '  return code;', '}']);
+    write('src/util.ts', ['export function util(value: number) {', '  return value;', '}']);
+    write('src/app.ts', ["import { run } from './run';", 'export const app = run;']);
+    execSync('git add -A && git commit -m "init"', { cwd: tempDir, stdio: 'pipe' });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should only re-run detection for files that changed since the last update', async () => {
+    write('src/run.ts', ['export function run(code: string) {', '  return eval(code);', '}']);
+    write('src/util.ts', ['export function util(value: number) {', '  return value * 2;', '}']);
+
+    const session = await createWatchSession({ cwd: tempDir });
+    const first = await session.update();
+    expect(first.reanalyzed.sort()).toEqual(['src/run.ts', 'src/util.ts']);
+    expect(first.result.meta.scope).toBe('working');
+    expect(first.result.files.map((f) => f.path).sort()).toEqual(['src/run.ts', 'src/util.ts']);
+
+    const unchanged = await session.update(['src/run.ts']);
+    expect(unchanged.reanalyzed).toEqual([]);
+    expect(unchanged.result.files).toHaveLength(2);
+
+    write('src/util.ts', ['export function util(value: number) {', '  return value * 3;', '}']);
+    const edited = await session.update(['src/util.ts']);
+    expect(edited.reanalyzed).toEqual(['src/util.ts']);
+
+    // Reverting a file drops it from the summary
+    execSync('git checkout -- src/util.ts', { cwd: tempDir, stdio: 'pipe' });
+    const reverted = await session.update(['src/util.ts']);
+    expect(reverted.result.files.map((f) => f.path)).toEqual(['src/run.ts']);
+  });
+
+  it('should keep the import graph current as imports are edited', async () => {
+    write('src/util.ts', ['export function util(value: number) {', '  return value * 2;', '}']);
+
+    const session = await createWatchSession({ cwd: tempDir });
+    const before = await session.update();
+    expect(before.result.files.find((f) => f.path === 'src/util.ts')?.blastRadius).toBe(0);
+
+    write('src/app.ts', [
+      "import { run } from './run';",
+      "import { util } from './util';",
+      'export const app = run;',
+      'export const double = util;',
+    ]);
+    const after = await session.update(['src/app.ts']);
+    expect(after.result.files.find((f) => f.path === 'src/util.ts')?.blastRadius).toBe(1);
+  });
+
+  it('should reload config when a config file is saved', async () => {
+    write('src/run.ts', ['export function run(code: string) {', '  return eval(code);', '}']);
+
+    const session = await createWatchSession({ cwd: tempDir });
+    expect((await session.update()).result.files).toHaveLength(1);
+
+    write('.diffesense.yml', ['ignore:', '  - "src/run.ts"']);
+    const reloaded = await session.update(['.diffesense.yml']);
+    expect(reloaded.result.files).toHaveLength(0);
+    expect(reloaded.result.ignoredFiles.map((f) => f.path)).toContain('src/run.ts');
+  });
+
+  it('should keep the last valid config when an invalid one is saved', async () => {
+    write('src/run.ts', ['export function run(code: string) {', '  return eval(code);', '}']);
+    write('.diffesense.yml', ['ignore:', '  - "src/run.ts"']);
+
+    const session = await createWatchSession({ cwd: tempDir });
+    expect((await session.update()).result.files).toHaveLength(0);
+
+    write('.diffesense.yml', ['ignore: 42']);
+    const broken = await session.update(['.diffesense.yml']);
+    expect(broken.result.files).toHaveLength(0);
+    expect(broken.result.warnings.map((w) => w.code)).toContain('CONFIG_ERROR');
+
+    write('.diffesense.yml', ['ignore: []']);
+    const fixed = await session.update(['.diffesense.yml']);
+    expect(fixed.result.files).toHaveLength(1);
+    expect(fixed.result.warnings.map((w) => w.code)).not.toContain('CONFIG_ERROR');
+  });
+
+  it('should report saves in nested and newly created directories', async () => {
+    const saved: string[] = [];
+    const watcher = watchWorkingTree(tempDir, (files) => saved.push(...files), 20);
+    const waitFor = async (file: string) => {
+      for (let i = 0; i < 100 && !saved.includes(file); i++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      expect(saved).toContain(file);
+    };
+
+    try {
+      write('src/run.ts', ['export const run = 1;']);
+      await waitFor('src/run.ts');
+
+      fs.mkdirSync(path.join(tempDir, 'src/lib'));
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      write('src/lib/new.ts', ['export const created = true;']);
+      await waitFor('src/lib/new.ts');
+
+      write('node_modules/pkg/index.js', ['module.exports = 1;']);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(saved.some((f) => f.startsWith('node_modules'))).toBe(false);
+    } finally {
+      watcher.close();
+    }
+  });
+});